@@ -0,0 +1,255 @@
+/**
+ * ANALYSIS EDIT API ROUTE
+ * ========================
+ * Saves a user's corrections to one analyzer's result.
+ *
+ * This route:
+ * 1. Validates the request (analyzerType, data against the parser schema)
+ * 2. Checks brand ownership
+ * 3. Checks the analyzer has finished
+ * 4. Records which fields the user changed (analysis_runs.field_edits)
+ * 5. Stores the edited result as a version and makes it current
+ *
+ * PATCH /api/brands/[brandId]/analysis
+ * Body: { analyzerType: 'basics' | 'customer' | 'products', data: { ...full parsed result } }
+ *
+ * Edited fields keep their value when the analyzer runs again.
+ * Setting a field back to the analyzer's value clears the edit.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { updateAnalysisRun } from '@/lib/supabase/analysis-runs';
+import { createAnalysisVersion } from '@/lib/supabase/analysis-versions';
+import { analyzerIds, getAnalyzer } from '@/lib/analyzers';
+import { validateParsedData, type FieldErrors } from '@/lib/analyzers/validation';
+import { recordFieldEdits } from '@/lib/analyzers/edits';
+import { log } from '@/lib/utils/logger';
+import type { AnalysisRun, AnalyzerType, Brand } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface EditAnalysisRequest {
+  analyzerType: AnalyzerType;
+  /** The complete edited result */
+  data: unknown;
+}
+
+interface EditAnalysisResponse {
+  success: boolean;
+  brandId?: string;
+  /** The updated run */
+  run?: AnalysisRun;
+  /** Fields that changed with this save */
+  changedFields?: string[];
+  /** Validation errors by field path */
+  fieldErrors?: FieldErrors;
+  message?: string;
+  error?: string;
+}
+
+interface RouteContext {
+  params: Promise<{ brandId: string }>;
+}
+
+// ============================================================================
+// ROUTE HANDLER
+// ============================================================================
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<EditAnalysisResponse>> {
+  const { brandId } = await params;
+  log.info('📥 Analysis edit request received', { brandId });
+
+  try {
+    // ========================================
+    // 1. Parse and validate request
+    // ========================================
+
+    const body = await request.json() as EditAnalysisRequest;
+    const { analyzerType } = body;
+
+    if (!analyzerType || !analyzerIds.includes(analyzerType)) {
+      log.warn('Invalid analyzer type for edit', { analyzerType });
+      return NextResponse.json(
+        { success: false, error: `Unknown analyzer: ${analyzerType}` },
+        { status: 400 }
+      );
+    }
+
+    const { data, errors } = validateParsedData(getAnalyzer(analyzerType).parser.schema, body.data);
+
+    if (!data) {
+      log.warn('Invalid analysis edit', { brandId, analyzerType, fields: Object.keys(errors) });
+      return NextResponse.json(
+        { success: false, error: 'Some fields are invalid', fieldErrors: errors },
+        { status: 400 }
+      );
+    }
+
+    // ========================================
+    // 2. Authenticate user
+    // ========================================
+
+    const supabase = await createServerClient();
+
+    if (!supabase) {
+      log.error('Supabase not configured');
+      return NextResponse.json(
+        { success: false, error: 'Authentication service is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      log.warn('Unauthorized analysis edit request');
+      return NextResponse.json(
+        { success: false, error: 'Please log in to edit an analysis' },
+        { status: 401 }
+      );
+    }
+
+    log.info('👤 User authenticated', { userId: user.id });
+
+    // ========================================
+    // 3. Fetch brand and verify ownership
+    // ========================================
+
+    const { data: brand, error: brandError } = await supabase
+      .from('brands')
+      .select('*')
+      .eq('id', brandId)
+      .single();
+
+    if (brandError || !brand) {
+      log.warn('Brand not found', { brandId });
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      );
+    }
+
+    const typedBrand = brand as Brand;
+
+    // Verify ownership (RLS should handle this, but double-check)
+    if (typedBrand.user_id !== user.id) {
+      log.warn('Brand ownership mismatch', { brandId, userId: user.id });
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      );
+    }
+
+    // ========================================
+    // 4. Check the run has a result to edit
+    // ========================================
+
+    const { data: run, error: runError } = await supabase
+      .from('analysis_runs')
+      .select('*')
+      .eq('brand_id', brandId)
+      .eq('analyzer_type', analyzerType)
+      .single();
+
+    if (runError || !run) {
+      log.warn('Analysis run not found', { brandId, analyzerType });
+      return NextResponse.json(
+        { success: false, brandId, error: 'This analysis hasn\'t been started' },
+        { status: 404 }
+      );
+    }
+
+    const typedRun = run as AnalysisRun;
+
+    if (typedRun.status !== 'complete' || !typedRun.parsed_data) {
+      log.warn('Edit of an unfinished analysis', { brandId, analyzerType, status: typedRun.status });
+      return NextResponse.json(
+        { success: false, brandId, error: 'Wait for the analysis to finish before editing it' },
+        { status: 409 }
+      );
+    }
+
+    // ========================================
+    // 5. Record the edits and save
+    // ========================================
+
+    const editedAt = new Date().toISOString();
+    const { edits, changedFields } = recordFieldEdits(
+      typedRun.parsed_data,
+      data,
+      typedRun.field_edits ?? {},
+      editedAt
+    );
+
+    if (changedFields.length === 0) {
+      return NextResponse.json({
+        success: true,
+        brandId,
+        run: typedRun,
+        changedFields,
+        message: 'Nothing changed',
+      });
+    }
+
+    const { version, error: versionError } = await createAnalysisVersion({
+      brand_id: brandId,
+      analyzer_type: analyzerType,
+      raw_analysis: typedRun.raw_analysis,
+      parsed_data: data,
+      content_hash: typedBrand.content_hash,
+      prompt_version: null,
+      model: null,
+      source: 'human',
+      analyzed_at: editedAt,
+    });
+
+    if (versionError || !version) {
+      return NextResponse.json(
+        { success: false, brandId, error: 'Failed to save your changes' },
+        { status: 500 }
+      );
+    }
+
+    const { run: updatedRun, error: updateError } = await updateAnalysisRun(typedRun.id, {
+      parsedData: data,
+      fieldEdits: edits,
+      currentVersionId: version.id,
+    });
+
+    if (updateError || !updatedRun) {
+      return NextResponse.json(
+        { success: false, brandId, error: 'Failed to save your changes' },
+        { status: 500 }
+      );
+    }
+
+    log.success('Analysis edited', { brandId, analyzerType, changedFields });
+
+    // ========================================
+    // 6. Return success
+    // ========================================
+
+    return NextResponse.json({
+      success: true,
+      brandId,
+      run: updatedRun,
+      changedFields,
+      message: 'Changes saved',
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Analysis edit endpoint error', { error: message });
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * BRAND REANALYZE API ROUTE
+ * ==========================
+ * Re-scrapes a brand's website and re-runs every analyzer, whether or
+ * not the content changed. Brands built from pasted text or an uploaded
+ * document are re-analyzed from their saved content instead.
+ *
+ * This route:
+ * 1. Validates the request (web scraperType)
+ * 2. Checks brand ownership and refuses brands whose analyzers are
+ *    still queued or running (409)
+ * 3. Re-scrapes the site with the brand's scraper (through the scrape
+ *    cache unless forceRefresh) - skipped for manual sources
+ * 4. Archives the previous results (analysis_versions), resets the
+ *    analysis runs to queued and starts all analyzers in the background
+ * 5. Records a brand change when the content differs
+ *
+ * POST /api/brands/[brandId]/reanalyze
+ * Body: { scraperType?: 'web-homepage' | 'web-deep', forceRefresh?: boolean }
+ *
+ * Unlike POST /api/brands/rescrape, analyzers always run.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { hasActiveAnalysisRuns } from '@/lib/supabase/analysis-runs';
+import { getScraper, getBrandScraperType, isManualScraperType, isValidScraperType } from '@/lib/scrapers';
+import { reanalyzeSavedContent } from '@/lib/analyzers/pipeline';
+import { rescanBrand } from '@/lib/monitoring';
+import { log } from '@/lib/utils/logger';
+import type { ScrapeErrorCode, ScraperType } from '@/lib/scrapers';
+import type { Brand } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ReanalyzeRequest {
+  /** Which web scraper to use (defaults to the one that produced the brand's content) */
+  scraperType?: ScraperType;
+  /** Download every page again instead of using the scrape cache */
+  forceRefresh?: boolean;
+}
+
+interface ReanalyzeResponse {
+  success: boolean;
+  brandId?: string;
+  /** ID of the recorded brand change, if the content differed */
+  changeId?: string;
+  message?: string;
+  error?: string;
+  errorCode?: ScrapeErrorCode;
+}
+
+interface RouteContext {
+  params: Promise<{ brandId: string }>;
+}
+
+// ============================================================================
+// ROUTE HANDLER
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ReanalyzeResponse>> {
+  const { brandId } = await params;
+  log.info('📥 Reanalyze request received', { brandId });
+
+  try {
+    // ========================================
+    // 1. Parse and validate request
+    // ========================================
+
+    // The body is optional
+    const body = await request.json().catch(() => ({})) as ReanalyzeRequest;
+    const { scraperType, forceRefresh = false } = body;
+
+    if (scraperType !== undefined && (!isValidScraperType(scraperType) || getScraper(scraperType).config.input !== 'url')) {
+      log.warn('Invalid reanalyze scraper type', { scraperType });
+      return NextResponse.json(
+        { success: false, error: `Cannot re-analyze with: ${scraperType}` },
+        { status: 400 }
+      );
+    }
+
+    // ========================================
+    // 2. Authenticate user
+    // ========================================
+
+    const supabase = await createServerClient();
+
+    if (!supabase) {
+      log.error('Supabase not configured');
+      return NextResponse.json(
+        { success: false, error: 'Authentication service is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      log.warn('Unauthorized reanalyze request');
+      return NextResponse.json(
+        { success: false, error: 'Please log in to re-analyze a brand' },
+        { status: 401 }
+      );
+    }
+
+    log.info('👤 User authenticated', { userId: user.id });
+
+    // ========================================
+    // 3. Fetch brand and verify ownership
+    // ========================================
+
+    const { data: brand, error: brandError } = await supabase
+      .from('brands')
+      .select('*')
+      .eq('id', brandId)
+      .single();
+
+    if (brandError || !brand) {
+      log.warn('Brand not found', { brandId });
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      );
+    }
+
+    const typedBrand = brand as Brand;
+
+    // Verify ownership (RLS should handle this, but double-check)
+    if (typedBrand.user_id !== user.id) {
+      log.warn('Brand ownership mismatch', { brandId, userId: user.id });
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      );
+    }
+
+    if (typedBrand.scrape_status === 'scraping' || await hasActiveAnalysisRuns(brandId)) {
+      log.warn('Brand is already being scraped or analyzed', { brandId });
+      return NextResponse.json(
+        { success: false, brandId, error: 'This brand is already being analyzed' },
+        { status: 409 }
+      );
+    }
+
+    // ========================================
+    // 4. Manual sources: re-run analyzers on the saved content
+    // ========================================
+
+    if (isManualScraperType(getBrandScraperType(typedBrand))) {
+      const { error: reanalyzeError, conflict } = await reanalyzeSavedContent(typedBrand);
+
+      if (reanalyzeError) {
+        return NextResponse.json(
+          { success: false, brandId, error: reanalyzeError },
+          { status: conflict ? 409 : 500 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        brandId,
+        message: 'Re-analysis started! Results will appear as they complete.',
+      });
+    }
+
+    // ========================================
+    // 5. Re-scan, archive previous results, re-run analyzers
+    // ========================================
+
+    const { error: rescanError, errorCode, scrapeFailed, conflict, change } = await rescanBrand(typedBrand, {
+      scraperType,
+      forceRefresh,
+      reanalyze: true,
+      trigger: 'manual',
+    });
+
+    if (rescanError) {
+      return NextResponse.json(
+        { success: false, brandId, error: rescanError, errorCode },
+        { status: conflict ? 409 : scrapeFailed ? 422 : 500 }
+      );
+    }
+
+    // ========================================
+    // 6. Return success
+    // ========================================
+
+    return NextResponse.json({
+      success: true,
+      brandId,
+      changeId: change?.id,
+      message: 'Re-analysis started! Results will appear as they complete.',
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Reanalyze endpoint error', { error: message });
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * ANALYZER RETRY API ROUTE
+ * =========================
+ * Re-runs one failed analyzer on the brand's saved content, without
+ * scraping the website again.
+ *
+ * This route:
+ * 1. Validates the request (analyzerType)
+ * 2. Checks brand ownership
+ * 3. Checks the run failed and hasn't used up its retries
+ * 4. Queues the analyzer again (in the background) with the other
+ *    analyzers' finished results as prior results
+ *
+ * POST /api/brands/[brandId]/retry
+ * Body: { analyzerType: 'basics' | 'customer' | 'products' }
+ *
+ * Each retry increments the run's retry_count. After MAX_ANALYZER_RETRIES
+ * the route refuses; re-analyzing the brand resets the count. The run is
+ * only queued if it hasn't changed since step 3 read it, so concurrent
+ * retries of the same run get 409 instead of both starting.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { analyzerIds, MAX_ANALYZER_RETRIES } from '@/lib/analyzers';
+import { retryAnalyzer } from '@/lib/analyzers/pipeline';
+import { log } from '@/lib/utils/logger';
+import type { AnalysisRun, AnalyzerType, Brand } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface RetryRequest {
+  analyzerType: AnalyzerType;
+}
+
+interface RetryResponse {
+  success: boolean;
+  brandId?: string;
+  analyzerType?: AnalyzerType;
+  /** Retries left after this one */
+  retriesLeft?: number;
+  message?: string;
+  error?: string;
+}
+
+interface RouteContext {
+  params: Promise<{ brandId: string }>;
+}
+
+// ============================================================================
+// ROUTE HANDLER
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<RetryResponse>> {
+  const { brandId } = await params;
+  log.info('📥 Analyzer retry request received', { brandId });
+
+  try {
+    // ========================================
+    // 1. Parse and validate request
+    // ========================================
+
+    const body = await request.json() as RetryRequest;
+    const { analyzerType } = body;
+
+    if (!analyzerType || !analyzerIds.includes(analyzerType)) {
+      log.warn('Invalid analyzer type for retry', { analyzerType });
+      return NextResponse.json(
+        { success: false, error: `Unknown analyzer: ${analyzerType}` },
+        { status: 400 }
+      );
+    }
+
+    // ========================================
+    // 2. Authenticate user
+    // ========================================
+
+    const supabase = await createServerClient();
+
+    if (!supabase) {
+      log.error('Supabase not configured');
+      return NextResponse.json(
+        { success: false, error: 'Authentication service is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      log.warn('Unauthorized retry request');
+      return NextResponse.json(
+        { success: false, error: 'Please log in to retry an analysis' },
+        { status: 401 }
+      );
+    }
+
+    log.info('👤 User authenticated', { userId: user.id });
+
+    // ========================================
+    // 3. Fetch brand and verify ownership
+    // ========================================
+
+    const { data: brand, error: brandError } = await supabase
+      .from('brands')
+      .select('*')
+      .eq('id', brandId)
+      .single();
+
+    if (brandError || !brand) {
+      log.warn('Brand not found', { brandId });
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      );
+    }
+
+    const typedBrand = brand as Brand;
+
+    // Verify ownership (RLS should handle this, but double-check)
+    if (typedBrand.user_id !== user.id) {
+      log.warn('Brand ownership mismatch', { brandId, userId: user.id });
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      );
+    }
+
+    if (typedBrand.scrape_status === 'scraping') {
+      log.warn('Brand is being scraped', { brandId });
+      return NextResponse.json(
+        { success: false, brandId, error: 'This brand is already being analyzed' },
+        { status: 409 }
+      );
+    }
+
+    if (!typedBrand.scraped_content) {
+      log.warn('Retry without scraped content', { brandId });
+      return NextResponse.json(
+        { success: false, brandId, error: 'There is no content to analyze yet' },
+        { status: 409 }
+      );
+    }
+
+    // ========================================
+    // 4. Check the run can be retried
+    // ========================================
+
+    const { data: runs, error: runsError } = await supabase
+      .from('analysis_runs')
+      .select('*')
+      .eq('brand_id', brandId);
+
+    if (runsError) {
+      log.error('Failed to fetch analysis runs', { brandId, error: runsError.message });
+      return NextResponse.json(
+        { success: false, brandId, error: 'Failed to load the analysis' },
+        { status: 500 }
+      );
+    }
+
+    const typedRuns = (runs ?? []) as AnalysisRun[];
+    const run = typedRuns.find(r => r.analyzer_type === analyzerType);
+
+    if (!run) {
+      log.warn('Analysis run not found', { brandId, analyzerType });
+      return NextResponse.json(
+        { success: false, brandId, error: 'This analysis hasn\'t been started' },
+        { status: 404 }
+      );
+    }
+
+    if (run.status !== 'error' && run.status !== 'invalid') {
+      log.warn('Retry of an analyzer that did not fail', { brandId, analyzerType, status: run.status });
+      return NextResponse.json(
+        { success: false, brandId, error: 'Only failed analyses can be retried' },
+        { status: 409 }
+      );
+    }
+
+    if (run.retry_count >= MAX_ANALYZER_RETRIES) {
+      log.warn('Analyzer retry limit reached', { brandId, analyzerType, retryCount: run.retry_count });
+      return NextResponse.json(
+        {
+          success: false,
+          brandId,
+          error: 'This analysis has been retried too many times. Refresh the brand to start over.',
+        },
+        { status: 429 }
+      );
+    }
+
+    // ========================================
+    // 5. Re-run the analyzer (async, don't wait)
+    // ========================================
+
+    const { error: retryError, conflict } = await retryAnalyzer(typedBrand, run, typedRuns);
+
+    if (retryError) {
+      return NextResponse.json(
+        { success: false, brandId, error: retryError },
+        { status: conflict ? 409 : 500 }
+      );
+    }
+
+    // ========================================
+    // 6. Return success
+    // ========================================
+
+    return NextResponse.json({
+      success: true,
+      brandId,
+      analyzerType,
+      retriesLeft: MAX_ANALYZER_RETRIES - run.retry_count - 1,
+      message: 'Retry started! Results will appear when it completes.',
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Retry endpoint error', { error: message });
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,37 +5,53 @@
  *
  * This route:
  * 1. Creates a brand record
- * 2. Scrapes the website
+ * 2. Scrapes the website (or reads the supplied content)
  * 3. Creates analysis run records
  * 4. Runs all analyzers concurrently
  *
  * POST /api/brands/analyze
- * Body: { url: string, isOwnBrand?: boolean }
+ * Body (JSON): { url: string, isOwnBrand?: boolean, scraperType?: ScraperType, content?: string, forceRefresh?: boolean }
+ * Body (multipart): same fields plus `file` for document / HTML file uploads
+ *
+ * Manual sources ('manual-text', 'document', 'html-file') still need the
+ * brand's URL for reference, but nothing is fetched from it.
+ *
+ * Web pages are served from the scrape cache when fresh; pass
+ * forceRefresh to download them again.
+ *
+ * The user is authenticated before the body is read. Bodies over their
+ * limit are refused (413) while streaming, and bodies without a
+ * Content-Length get 411.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
 import { createBrand, updateBrandAdmin } from '@/lib/supabase/brands';
-import { createAnalysisRuns } from '@/lib/supabase/analysis-runs';
-import { scrapeWebHomepage } from '@/lib/scrapers';
-import { runAllAnalyzers } from '@/lib/analyzers/runner';
+import { recordScrapeAttempt } from '@/lib/supabase/scrape-attempts';
+import {
+  getScraper,
+  isValidScraperType,
+  assertSafeUrl,
+  readScrapeRequest,
+  UnsafeRequestError,
+  RequestBodyError,
+  DEFAULT_SCRAPER_TYPE,
+} from '@/lib/scrapers';
+import { startBrandAnalysis } from '@/lib/analyzers/pipeline';
 import { log } from '@/lib/utils/logger';
 import { isValidUrl, ensureProtocol } from '@/lib/utils/format';
+import type { ScrapeErrorCode, ScrapeRequestBody } from '@/lib/scrapers';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-interface AnalyzeRequest {
-  url: string;
-  isOwnBrand?: boolean;
-}
-
 interface AnalyzeResponse {
   success: boolean;
   brandId?: string;
   message?: string;
   error?: string;
+  errorCode?: ScrapeErrorCode;
 }
 
 // ============================================================================
@@ -47,11 +63,56 @@ export async function POST(request: NextRequest): Promise<NextResponse<AnalyzeRe
 
   try {
     // ========================================
-    // 1. Parse and validate request
+    // 1. Authenticate user
+    // ========================================
+
+    const supabase = await createServerClient();
+
+    // Check if Supabase is configured
+    if (!supabase) {
+      log.error('Supabase not configured');
+      return NextResponse.json(
+        { success: false, error: 'Authentication service is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      log.warn('Unauthorized analyze request');
+      return NextResponse.json(
+        { success: false, error: 'Please log in to analyze a brand' },
+        { status: 401 }
+      );
+    }
+
+    log.info('👤 User authenticated', { userId: user.id });
+
+    // ========================================
+    // 2. Parse and validate request
     // ========================================
 
-    const body = await request.json() as AnalyzeRequest;
-    const { url, isOwnBrand = false } = body;
+    let body: ScrapeRequestBody;
+    try {
+      body = await readScrapeRequest(request);
+    } catch (error) {
+      if (!(error instanceof RequestBodyError)) throw error;
+      log.warn('Request body refused', { userId: user.id, reason: error.reason });
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    const {
+      url,
+      isOwnBrand = false,
+      scraperType = DEFAULT_SCRAPER_TYPE,
+      content,
+      file,
+      forceRefresh = false,
+    } = body;
 
     if (!url) {
       log.warn('Missing URL in request');
@@ -71,33 +132,37 @@ export async function POST(request: NextRequest): Promise<NextResponse<AnalyzeRe
       );
     }
 
-    // ========================================
-    // 2. Authenticate user
-    // ========================================
-
-    const supabase = await createServerClient();
-
-    // Check if Supabase is configured
-    if (!supabase) {
-      log.error('Supabase not configured');
+    if (!isValidScraperType(scraperType)) {
+      log.warn('Invalid scraper type provided', { scraperType });
       return NextResponse.json(
-        { success: false, error: 'Authentication service is not configured' },
-        { status: 503 }
+        { success: false, error: `Unknown scraper: ${scraperType}` },
+        { status: 400 }
       );
     }
 
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      log.warn('Unauthorized analyze request');
+    const scraper = getScraper(scraperType);
+
+    if (scraper.config.input === 'url') {
+      // Refuse private/internal addresses before creating anything
+      // (scrapers re-check every request and redirect hop as well)
+      try {
+        await assertSafeUrl(normalizedUrl);
+      } catch (error) {
+        if (!(error instanceof UnsafeRequestError)) throw error;
+        log.warn('Unsafe URL rejected', { url, reason: error.reason, detail: error.detail });
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+    } else if (!content?.trim() && !file) {
+      log.warn('Manual source without content', { scraperType });
       return NextResponse.json(
-        { success: false, error: 'Please log in to analyze a brand' },
-        { status: 401 }
+        { success: false, error: 'Please paste some content or upload a file' },
+        { status: 400 }
       );
     }
 
-    log.info('👤 User authenticated', { userId: user.id });
-
     // ========================================
     // 3. Create brand record
     // ========================================
@@ -119,13 +184,22 @@ export async function POST(request: NextRequest): Promise<NextResponse<AnalyzeRe
     log.success('Brand created', { brandId: brand.id, url: normalizedUrl });
 
     // ========================================
-    // 4. Scrape the website
+    // 4. Scrape the website (or read supplied content)
     // ========================================
 
     // Update status to scraping
     await updateBrandAdmin(brand.id, { scrapeStatus: 'scraping' });
 
-    const scrapeResult = await scrapeWebHomepage(normalizedUrl);
+    log.info('Using scraper', { scraperType });
+    const scrapeResult = await scraper.scrape({
+      url: normalizedUrl,
+      content,
+      file,
+      forceRefresh,
+      preferEnglish: brand.analysis_language !== 'source',
+    });
+
+    await recordScrapeAttempt({ brandId: brand.id, scraperType, trigger: 'create', result: scrapeResult });
 
     if (!scrapeResult.success || !scrapeResult.content) {
       log.error('Scraping failed', { error: scrapeResult.error });
@@ -136,55 +210,34 @@ export async function POST(request: NextRequest): Promise<NextResponse<AnalyzeRe
       });
 
       return NextResponse.json(
-        { success: false, brandId: brand.id, error: scrapeResult.error },
+        {
+          success: false,
+          brandId: brand.id,
+          error: scrapeResult.error,
+          errorCode: scrapeResult.errorCode,
+        },
         { status: 422 }
       );
     }
 
-    // Save scraped content
-    await updateBrandAdmin(brand.id, {
-      name: scrapeResult.metadata?.title || null,
-      scrapedContent: scrapeResult.content,
-      scrapedAt: new Date().toISOString(),
-      scrapeStatus: 'complete',
-      scrapeError: null,
-    });
-
-    log.success('Scraping complete', {
-      brandId: brand.id,
-      contentLength: scrapeResult.content.length,
-    });
-
     // ========================================
-    // 5. Create analysis runs
+    // 5. Save content and start analyzers (async, don't wait)
     // ========================================
 
-    const { runs, error: runsError } = await createAnalysisRuns(brand.id);
+    // The client will poll/subscribe for updates
+    const { error: startError } = await startBrandAnalysis(brand.id, scrapeResult, {
+      analysisLanguage: brand.analysis_language,
+    });
 
-    if (runsError) {
-      log.error('Failed to create analysis runs', { error: runsError });
+    if (startError) {
       return NextResponse.json(
-        { success: false, brandId: brand.id, error: 'Failed to start analysis' },
+        { success: false, brandId: brand.id, error: startError },
         { status: 500 }
       );
     }
 
-    log.info('Analysis runs created', { count: runs.length });
-
-    // ========================================
-    // 6. Run analyzers (async, don't wait)
-    // ========================================
-
-    // Start analysis in background - don't await
-    // The client will poll/subscribe for updates
-    runAllAnalyzers(brand.id, scrapeResult.content).catch(err => {
-      log.error('Background analysis failed', { brandId: brand.id, error: err.message });
-    });
-
-    log.success('Analysis started', { brandId: brand.id });
-
     // ========================================
-    // 7. Return success
+    // 6. Return success
     // ========================================
 
     return NextResponse.json({
@@ -0,0 +1,200 @@
+/**
+ * BRAND RESCRAPE API ROUTE
+ * =========================
+ * Re-scrapes an existing brand's website and re-runs analysis only if
+ * the content changed.
+ *
+ * This route:
+ * 1. Validates the request (brandId, web scraperType)
+ * 2. Checks brand ownership (brands built from pasted text or an uploaded
+ *    document have no website to re-scrape) and refuses brands whose
+ *    analyzers are still queued or running (409)
+ * 3. Scrapes the site - through the scrape cache, so unchanged pages are
+ *    served from cache or revalidated with conditional requests
+ * 4. Compares the content hash with the last analysis and skips the
+ *    analyzers when nothing changed
+ * 5. Records a brand change (paragraph diff) when the content differs
+ *
+ * POST /api/brands/rescrape
+ * Body: { brandId: string, scraperType?: 'web-homepage' | 'web-deep', forceRefresh?: boolean }
+ *
+ * forceRefresh downloads every page again and re-runs the analyzers
+ * even if the content is unchanged.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { hasActiveAnalysisRuns } from '@/lib/supabase/analysis-runs';
+import { getScraper, getBrandScraperType, isManualScraperType, isValidScraperType } from '@/lib/scrapers';
+import { rescanBrand } from '@/lib/monitoring';
+import { log } from '@/lib/utils/logger';
+import type { ScrapeErrorCode, ScraperType } from '@/lib/scrapers';
+import type { Brand } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface RescrapeRequest {
+  brandId: string;
+  /** Which web scraper to use (defaults to the one that produced the brand's content) */
+  scraperType?: ScraperType;
+  /** Bypass the cache and re-run analyzers even if nothing changed */
+  forceRefresh?: boolean;
+}
+
+interface RescrapeResponse {
+  success: boolean;
+  brandId?: string;
+  /** True when the content was unchanged and analyzers didn't run */
+  unchanged?: boolean;
+  /** ID of the recorded brand change, if the content differed */
+  changeId?: string;
+  message?: string;
+  error?: string;
+  errorCode?: ScrapeErrorCode;
+}
+
+// ============================================================================
+// ROUTE HANDLER
+// ============================================================================
+
+export async function POST(request: NextRequest): Promise<NextResponse<RescrapeResponse>> {
+  log.info('📥 Rescrape request received');
+
+  try {
+    // ========================================
+    // 1. Parse and validate request
+    // ========================================
+
+    const body = await request.json() as RescrapeRequest;
+    const { brandId, scraperType, forceRefresh = false } = body;
+
+    if (!brandId) {
+      log.warn('Missing brandId in request');
+      return NextResponse.json(
+        { success: false, error: 'Brand ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (scraperType !== undefined && (!isValidScraperType(scraperType) || getScraper(scraperType).config.input !== 'url')) {
+      log.warn('Invalid rescrape scraper type', { scraperType });
+      return NextResponse.json(
+        { success: false, error: `Cannot re-scrape with: ${scraperType}` },
+        { status: 400 }
+      );
+    }
+
+    // ========================================
+    // 2. Authenticate user
+    // ========================================
+
+    const supabase = await createServerClient();
+
+    if (!supabase) {
+      log.error('Supabase not configured');
+      return NextResponse.json(
+        { success: false, error: 'Authentication service is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      log.warn('Unauthorized rescrape request');
+      return NextResponse.json(
+        { success: false, error: 'Please log in to refresh a brand' },
+        { status: 401 }
+      );
+    }
+
+    log.info('👤 User authenticated', { userId: user.id });
+
+    // ========================================
+    // 3. Fetch brand and verify ownership
+    // ========================================
+
+    const { data: brand, error: brandError } = await supabase
+      .from('brands')
+      .select('*')
+      .eq('id', brandId)
+      .single();
+
+    if (brandError || !brand) {
+      log.warn('Brand not found', { brandId });
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      );
+    }
+
+    const typedBrand = brand as Brand;
+
+    // Verify ownership (RLS should handle this, but double-check)
+    if (typedBrand.user_id !== user.id) {
+      log.warn('Brand ownership mismatch', { brandId, userId: user.id });
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      );
+    }
+
+    if (typedBrand.scrape_status === 'scraping' || await hasActiveAnalysisRuns(brandId)) {
+      log.warn('Brand is already being scraped or analyzed', { brandId });
+      return NextResponse.json(
+        { success: false, brandId, error: 'This brand is already being analyzed' },
+        { status: 409 }
+      );
+    }
+
+    if (isManualScraperType(getBrandScraperType(typedBrand))) {
+      log.warn('Cannot refresh a manual source', { brandId, scraperType: typedBrand.scraper_type });
+      return NextResponse.json(
+        { success: false, brandId, error: 'This brand was built from supplied content and has no website to refresh' },
+        { status: 400 }
+      );
+    }
+
+    // ========================================
+    // 4. Re-scan, record changes, re-analyze if changed
+    // ========================================
+
+    const { error: rescanError, errorCode, scrapeFailed, conflict, skipped, change } = await rescanBrand(typedBrand, {
+      scraperType,
+      forceRefresh,
+      trigger: 'manual',
+    });
+
+    if (rescanError) {
+      return NextResponse.json(
+        { success: false, brandId, error: rescanError, errorCode },
+        { status: conflict ? 409 : scrapeFailed ? 422 : 500 }
+      );
+    }
+
+    // ========================================
+    // 5. Return success
+    // ========================================
+
+    return NextResponse.json({
+      success: true,
+      brandId,
+      unchanged: skipped,
+      changeId: change?.id,
+      message: skipped
+        ? 'Website unchanged since the last analysis.'
+        : 'Analysis started! Results will appear as they complete.',
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Rescrape endpoint error', { error: message });
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
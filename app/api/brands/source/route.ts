@@ -0,0 +1,214 @@
+/**
+ * BRAND SOURCE API ROUTE
+ * =======================
+ * Replaces an existing brand's content with content supplied by the user
+ * (pasted text, an uploaded document, or saved HTML) and re-runs analysis.
+ *
+ * Used when a website can't be scraped - blocked by robots.txt, behind a
+ * login, or just failing - so the user can still get an analysis.
+ *
+ * This route:
+ * 1. Authenticates the user, then validates the request (brandId, manual
+ *    scraperType, content or file - oversized bodies get 413 while
+ *    streaming, bodies without a Content-Length get 411)
+ * 2. Checks brand ownership and refuses brands whose analyzers are
+ *    still queued or running (409)
+ * 3. Reads the supplied content
+ * 4. Saves it and starts all analyzers
+ *
+ * POST /api/brands/source
+ * Body (JSON): { brandId: string, scraperType: 'manual-text' | 'html-file', content: string }
+ * Body (multipart): { brandId, scraperType: 'document' | 'html-file', file }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { hasActiveAnalysisRuns } from '@/lib/supabase/analysis-runs';
+import { getScraper, readScrapeRequest, MANUAL_SCRAPER_TYPES, RequestBodyError } from '@/lib/scrapers';
+import { startBrandAnalysis } from '@/lib/analyzers/pipeline';
+import { recordScrapeAttempt } from '@/lib/supabase/scrape-attempts';
+import { log } from '@/lib/utils/logger';
+import type { ScrapeRequestBody } from '@/lib/scrapers';
+import type { Brand } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SourceResponse {
+  success: boolean;
+  brandId?: string;
+  message?: string;
+  error?: string;
+}
+
+// ============================================================================
+// ROUTE HANDLER
+// ============================================================================
+
+export async function POST(request: NextRequest): Promise<NextResponse<SourceResponse>> {
+  log.info('📥 Brand source request received');
+
+  try {
+    // ========================================
+    // 1. Authenticate user
+    // ========================================
+
+    const supabase = await createServerClient();
+
+    if (!supabase) {
+      log.error('Supabase not configured');
+      return NextResponse.json(
+        { success: false, error: 'Authentication service is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      log.warn('Unauthorized brand source request');
+      return NextResponse.json(
+        { success: false, error: 'Please log in to update a brand' },
+        { status: 401 }
+      );
+    }
+
+    log.info('👤 User authenticated', { userId: user.id });
+
+    // ========================================
+    // 2. Parse and validate request
+    // ========================================
+
+    let body: ScrapeRequestBody;
+    try {
+      body = await readScrapeRequest(request);
+    } catch (error) {
+      if (!(error instanceof RequestBodyError)) throw error;
+      log.warn('Request body refused', { userId: user.id, reason: error.reason });
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    const { brandId, scraperType, content, file } = body;
+
+    if (!brandId) {
+      log.warn('Missing brandId in request');
+      return NextResponse.json(
+        { success: false, error: 'Brand ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!scraperType || !MANUAL_SCRAPER_TYPES.includes(scraperType)) {
+      log.warn('Invalid manual source type', { scraperType });
+      return NextResponse.json(
+        { success: false, error: 'Please choose pasted text, a document, or an HTML file' },
+        { status: 400 }
+      );
+    }
+
+    if (!content?.trim() && !file) {
+      log.warn('Manual source without content', { brandId, scraperType });
+      return NextResponse.json(
+        { success: false, error: 'Please paste some content or upload a file' },
+        { status: 400 }
+      );
+    }
+
+    // ========================================
+    // 3. Fetch brand and verify ownership
+    // ========================================
+
+    const { data: brand, error: brandError } = await supabase
+      .from('brands')
+      .select('*')
+      .eq('id', brandId)
+      .single();
+
+    if (brandError || !brand) {
+      log.warn('Brand not found', { brandId });
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      );
+    }
+
+    const typedBrand = brand as Brand;
+
+    // Verify ownership (RLS should handle this, but double-check)
+    if (typedBrand.user_id !== user.id) {
+      log.warn('Brand ownership mismatch', { brandId, userId: user.id });
+      return NextResponse.json(
+        { success: false, error: 'Brand not found' },
+        { status: 404 }
+      );
+    }
+
+    if (typedBrand.scrape_status === 'scraping' || await hasActiveAnalysisRuns(brandId)) {
+      log.warn('Brand is already being scraped or analyzed', { brandId });
+      return NextResponse.json(
+        { success: false, brandId, error: 'This brand is already being analyzed' },
+        { status: 409 }
+      );
+    }
+
+    // ========================================
+    // 4. Read the supplied content
+    // ========================================
+
+    log.info('Using scraper', { scraperType });
+    const scrapeResult = await getScraper(scraperType).scrape({
+      url: typedBrand.source_url,
+      content,
+      file,
+    });
+
+    await recordScrapeAttempt({ brandId, scraperType, trigger: 'source', result: scrapeResult });
+
+    // Leave the brand as it was - the user can fix the input and retry
+    if (!scrapeResult.success || !scrapeResult.content) {
+      log.warn('Manual source rejected', { brandId, error: scrapeResult.error });
+      return NextResponse.json(
+        { success: false, brandId, error: scrapeResult.error },
+        { status: 422 }
+      );
+    }
+
+    // ========================================
+    // 5. Save content and start analyzers (async, don't wait)
+    // ========================================
+
+    const { error: startError, conflict } = await startBrandAnalysis(brandId, scrapeResult, {
+      analysisLanguage: typedBrand.analysis_language,
+    });
+
+    if (startError) {
+      return NextResponse.json(
+        { success: false, brandId, error: startError },
+        { status: conflict ? 409 : 500 }
+      );
+    }
+
+    // ========================================
+    // 6. Return success
+    // ========================================
+
+    return NextResponse.json({
+      success: true,
+      brandId,
+      message: 'Analysis started! Results will appear as they complete.',
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Brand source endpoint error', { error: message });
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
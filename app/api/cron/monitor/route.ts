@@ -0,0 +1,118 @@
+/**
+ * MONITOR CRON ROUTE
+ * ===================
+ * Re-scans monitored brands whose next check is due and records what
+ * changed on their websites.
+ *
+ * Call this from a scheduler (e.g. Vercel Cron, hourly) with:
+ *   Authorization: Bearer $CRON_SECRET
+ *
+ * Brands are processed one at a time, oldest due first, up to
+ * MAX_BRANDS_PER_RUN per call - anything left over is picked up on
+ * the next call.
+ *
+ * GET /api/cron/monitor
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDueMonitoredBrands } from '@/lib/supabase/brand-changes';
+import { rescanBrand } from '@/lib/monitoring';
+import { log } from '@/lib/utils/logger';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Brands re-scanned per call (keeps each call within function time limits) */
+const MAX_BRANDS_PER_RUN = 5;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface MonitorResponse {
+  success: boolean;
+  /** Brands re-scanned in this call */
+  scanned?: number;
+  /** Brands whose website changed */
+  changed?: number;
+  /** Brands whose scrape failed */
+  failed?: number;
+  error?: string;
+}
+
+// ============================================================================
+// ROUTE HANDLER
+// ============================================================================
+
+export async function GET(request: NextRequest): Promise<NextResponse<MonitorResponse>> {
+  // ========================================
+  // 1. Verify the scheduler secret
+  // ========================================
+
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    log.error('CRON_SECRET not configured');
+    return NextResponse.json(
+      { success: false, error: 'Monitoring is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    log.warn('Unauthorized monitor request');
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // ========================================
+    // 2. Find brands due for a re-scan
+    // ========================================
+
+    const { brands, error } = await getDueMonitoredBrands(MAX_BRANDS_PER_RUN);
+
+    if (error) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to load monitored brands' },
+        { status: 500 }
+      );
+    }
+
+    log.info('🕐 Monitor run started', { due: brands.length });
+
+    // ========================================
+    // 3. Re-scan each brand
+    // ========================================
+
+    let changed = 0;
+    let failed = 0;
+
+    for (const brand of brands) {
+      const result = await rescanBrand(brand, { trigger: 'scheduled' });
+      if (result.error) failed++;
+      if (result.change) changed++;
+    }
+
+    log.success('Monitor run complete', { scanned: brands.length, changed, failed });
+
+    return NextResponse.json({
+      success: true,
+      scanned: brands.length,
+      changed,
+      failed,
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Monitor endpoint error', { error: message });
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -25,6 +25,7 @@ import { checkDocReadiness, buildBrandDataFromRuns } from '@/lib/docs/readiness'
 import { isValidTemplateId } from '@/lib/docs/registry';
 import { log } from '@/lib/utils/logger';
 import type { DocTemplateId, Brand } from '@/types';
+import type { ContactInfo, SocialProof, TechStack, VisualIdentity } from '@/lib/scrapers/types';
 
 // ============================================================================
 // TYPES
@@ -182,7 +183,12 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateR
     const basicsData = basicsRun?.parsed_data as { business_name?: string } | null;
     const brandName = typedBrand.name || basicsData?.business_name || 'Unknown Brand';
 
-    const brandData = buildBrandDataFromRuns(brandName, typedBrand.source_url, runs);
+    const brandData = buildBrandDataFromRuns(brandName, typedBrand.source_url, runs, {
+      visualIdentity: typedBrand.visual_identity as VisualIdentity | null,
+      contactInfo: typedBrand.contact_info as ContactInfo | null,
+      techStack: typedBrand.tech_stack as TechStack | null,
+      socialProof: typedBrand.social_proof as SocialProof | null,
+    });
 
     // ========================================
     // 6. Create doc record (generating status)
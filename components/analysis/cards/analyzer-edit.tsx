@@ -0,0 +1,71 @@
+/**
+ * ANALYZER EDIT CONTROLS
+ * =======================
+ * Edit button for a finished analyzer card, and the marker shown next to
+ * fields a person edited (analysis_runs.field_edits).
+ */
+
+import { Pencil } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Edit details passed to the analyzer cards.
+ */
+export interface AnalyzerCardEditing {
+  /** Opens the edit form */
+  onEdit: () => void;
+  /** Fields a person edited; all others are AI-generated */
+  editedFields: string[];
+}
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+/**
+ * Edit button for the card header.
+ *
+ * @example
+ * {editing && <AnalyzerEditButton onEdit={editing.onEdit} />}
+ */
+export function AnalyzerEditButton({ onEdit }: { onEdit: () => void }) {
+  return (
+    <Button variant="ghost" size="sm" onClick={onEdit}>
+      <Pencil className="w-4 h-4" />
+      Edit
+    </Button>
+  );
+}
+
+/**
+ * "Edited" marker, shown when the field (or any of the fields) was edited.
+ *
+ * @example
+ * <EditedMark field="industry" editing={editing} />
+ * <EditedMark field={['offering_type', 'price_positioning']} editing={editing} />
+ */
+export function EditedMark({
+  field,
+  editing,
+}: {
+  field: string | string[];
+  editing?: AnalyzerCardEditing | null;
+}) {
+  const fields = Array.isArray(field) ? field : [field];
+  if (!fields.some(f => editing?.editedFields.includes(f))) return null;
+
+  return (
+    <Badge
+      variant="muted"
+      className="normal-case tracking-normal"
+      title="Edited by you - kept when the analysis runs again"
+    >
+      Edited
+    </Badge>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * ANALYZER ERROR COMPONENT
+ * =========================
+ * Body of an analyzer card whose run failed, with a retry button while
+ * retries are left.
+ */
+
+import { ErrorState } from '@/components/ui/error-state';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Failure details passed to the analyzer cards.
+ */
+export interface AnalyzerCardError {
+  /** The run's error_message */
+  message: string | null;
+  /** Re-runs the analyzer (omit when no retries are left) */
+  onRetry?: () => void;
+  isRetrying?: boolean;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Error notice for a failed analyzer card.
+ *
+ * @example
+ * {error && <AnalyzerError {...error} />}
+ */
+export function AnalyzerError({ message, onRetry, isRetrying }: AnalyzerCardError) {
+  return (
+    <ErrorState
+      size="sm"
+      title="This analysis failed"
+      description={
+        onRetry
+          ? 'Something went wrong while analyzing. You can run it again.'
+          : 'Retry limit reached. Refresh the brand to analyze it again.'
+      }
+      error={message}
+      onRetry={onRetry}
+      isRetrying={isRetrying}
+    />
+  );
+}
@@ -8,6 +8,8 @@ import { Building2, User, Calendar, Briefcase } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { AnalyzerError, type AnalyzerCardError } from './analyzer-error';
+import { AnalyzerEditButton, EditedMark, type AnalyzerCardEditing } from './analyzer-edit';
 import type { ParsedBasics } from '@/types/analyzers';
 
 // ============================================================================
@@ -17,6 +19,10 @@ import type { ParsedBasics } from '@/types/analyzers';
 interface BasicsCardProps {
   data: ParsedBasics | null;
   isLoading?: boolean;
+  /** Set when the analyzer failed */
+  error?: AnalyzerCardError | null;
+  /** Set when the result can be edited */
+  editing?: AnalyzerCardEditing | null;
 }
 
 // ============================================================================
@@ -27,10 +33,13 @@ function Field({
   icon: Icon,
   label,
   value,
+  mark,
 }: {
   icon: typeof Building2;
   label: string;
   value: string | null;
+  /** Edited marker, if the field was edited */
+  mark?: React.ReactNode;
 }) {
   return (
     <div className="flex items-start gap-3">
@@ -38,7 +47,10 @@ function Field({
         <Icon className="w-4 h-4 text-muted-foreground" />
       </div>
       <div>
-        <p className="text-xs text-muted-foreground uppercase tracking-wide">{label}</p>
+        <p className="flex items-center gap-2 text-xs text-muted-foreground uppercase tracking-wide">
+          {label}
+          {mark}
+        </p>
         <p className="text-sm text-foreground mt-0.5">
           {value || <span className="text-muted-foreground italic">Not found</span>}
         </p>
@@ -58,7 +70,7 @@ function Field({
  * <BasicsCard data={parsedBasics} />
  * <BasicsCard data={null} isLoading />
  */
-export function BasicsCard({ data, isLoading }: BasicsCardProps) {
+export function BasicsCard({ data, isLoading, error, editing }: BasicsCardProps) {
   if (isLoading) {
     return (
       <Card>
@@ -83,6 +95,22 @@ export function BasicsCard({ data, isLoading }: BasicsCardProps) {
     );
   }
 
+  if (!data && error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="w-5 h-5 text-muted-foreground" />
+            Basics
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AnalyzerError {...error} />
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (!data) {
     return (
       <Card className="opacity-50">
@@ -101,38 +129,44 @@ export function BasicsCard({ data, isLoading }: BasicsCardProps) {
 
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
         <CardTitle className="flex items-center gap-2">
           <Building2 className="w-5 h-5 text-primary" />
           Basics
         </CardTitle>
+        {editing && <AnalyzerEditButton onEdit={editing.onEdit} />}
       </CardHeader>
       <CardContent className="space-y-4">
         <Field
           icon={Building2}
           label="Business Name"
           value={data.business_name}
+          mark={<EditedMark field="business_name" editing={editing} />}
         />
         <Field
           icon={User}
           label="Founder"
           value={data.founder_name}
+          mark={<EditedMark field="founder_name" editing={editing} />}
         />
         <Field
           icon={Calendar}
           label="Founded"
           value={data.founded_year}
+          mark={<EditedMark field="founded_year" editing={editing} />}
         />
         <Field
           icon={Briefcase}
           label="Industry"
           value={data.industry}
+          mark={<EditedMark field="industry" editing={editing} />}
         />
 
         {/* Business Description */}
         <div className="pt-2 border-t border-border">
-          <p className="text-xs text-muted-foreground uppercase tracking-wide mb-1">
+          <p className="flex items-center gap-2 text-xs text-muted-foreground uppercase tracking-wide mb-1">
             What They Do
+            <EditedMark field="business_description" editing={editing} />
           </p>
           <p className="text-sm text-foreground/80">
             {data.business_description}
@@ -140,8 +174,9 @@ export function BasicsCard({ data, isLoading }: BasicsCardProps) {
         </div>
 
         {/* Business Model */}
-        <div className="pt-2">
+        <div className="flex items-center gap-2 pt-2">
           <Badge variant="basics">{data.business_model}</Badge>
+          <EditedMark field="business_model" editing={editing} />
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,116 @@
+/**
+ * CONTACT CARD COMPONENT
+ * =======================
+ * Displays the emails, phone numbers, addresses and social profiles
+ * found during the scrape. Like the visual identity card, this comes
+ * straight from the scraper rather than an analyzer.
+ */
+
+import { Contact, Mail, Phone, MapPin, Linkedin, Instagram, Twitter, Youtube, Facebook, Music2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { ContactInfo, SocialPlatform } from '@/lib/scrapers/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const PLATFORMS: Record<SocialPlatform, { label: string; icon: typeof Linkedin }> = {
+  linkedin: { label: 'LinkedIn', icon: Linkedin },
+  instagram: { label: 'Instagram', icon: Instagram },
+  x: { label: 'X', icon: Twitter },
+  tiktok: { label: 'TikTok', icon: Music2 },
+  youtube: { label: 'YouTube', icon: Youtube },
+  facebook: { label: 'Facebook', icon: Facebook },
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ContactCardProps {
+  data: ContactInfo | null;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Card listing contact details and social profiles.
+ * Renders nothing if none were found.
+ *
+ * @example
+ * <ContactCard data={brand.contact_info as ContactInfo | null} />
+ */
+export function ContactCard({ data }: ContactCardProps) {
+  if (
+    !data ||
+    (data.emails.length === 0 && data.phones.length === 0 &&
+      data.addresses.length === 0 && data.socials.length === 0)
+  ) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Contact className="w-5 h-5 text-primary" />
+          Contact
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {data.emails.map((email) => (
+          <a
+            key={email.address}
+            href={`mailto:${email.address}`}
+            className="flex items-center gap-2 text-foreground hover:text-primary transition-colors"
+          >
+            <Mail className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+            <span className="truncate">{email.address}</span>
+          </a>
+        ))}
+
+        {data.phones.map((phone) => (
+          <a
+            key={phone.normalized}
+            href={`tel:${phone.normalized}`}
+            className="flex items-center gap-2 text-foreground hover:text-primary transition-colors"
+          >
+            <Phone className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+            <span>{phone.display}</span>
+          </a>
+        ))}
+
+        {data.addresses.map((address) => (
+          <div key={address.formatted} className="flex items-start gap-2 text-foreground">
+            <MapPin className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+            <span>{address.formatted}</span>
+          </div>
+        ))}
+
+        {/* Social profiles */}
+        {data.socials.length > 0 && (
+          <div className="flex flex-wrap gap-2 pt-1">
+            {data.socials.map((profile) => {
+              const { label, icon: Icon } = PLATFORMS[profile.platform];
+              return (
+                <a
+                  key={profile.url}
+                  href={profile.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={`${label}: ${profile.handle}`}
+                  className="inline-flex items-center gap-1.5 rounded-full border border-border px-3 py-1 text-xs text-foreground hover:bg-surface-muted transition-colors"
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                  {label}
+                </a>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
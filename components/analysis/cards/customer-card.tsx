@@ -8,6 +8,8 @@ import { Users, AlertCircle, Target, Brain, ShoppingCart } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { AnalyzerError, type AnalyzerCardError } from './analyzer-error';
+import { AnalyzerEditButton, EditedMark, type AnalyzerCardEditing } from './analyzer-edit';
 import type { ParsedCustomer } from '@/types/analyzers';
 
 // ============================================================================
@@ -17,6 +19,10 @@ import type { ParsedCustomer } from '@/types/analyzers';
 interface CustomerCardProps {
   data: ParsedCustomer | null;
   isLoading?: boolean;
+  /** Set when the analyzer failed */
+  error?: AnalyzerCardError | null;
+  /** Set when the result can be edited */
+  editing?: AnalyzerCardEditing | null;
 }
 
 // ============================================================================
@@ -29,7 +35,7 @@ interface CustomerCardProps {
  * @example
  * <CustomerCard data={parsedCustomer} />
  */
-export function CustomerCard({ data, isLoading }: CustomerCardProps) {
+export function CustomerCard({ data, isLoading, error, editing }: CustomerCardProps) {
   if (isLoading) {
     return (
       <Card>
@@ -52,6 +58,22 @@ export function CustomerCard({ data, isLoading }: CustomerCardProps) {
     );
   }
 
+  if (!data && error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5 text-stone-400" />
+            Customer Profile
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AnalyzerError {...error} />
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (!data) {
     return (
       <Card className="opacity-50">
@@ -70,11 +92,12 @@ export function CustomerCard({ data, isLoading }: CustomerCardProps) {
 
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
         <CardTitle className="flex items-center gap-2">
           <Users className="w-5 h-5 text-orange-500" />
           Customer Profile
         </CardTitle>
+        {editing && <AnalyzerEditButton onEdit={editing.onEdit} />}
       </CardHeader>
       <CardContent className="space-y-5">
         {/* Subcultures */}
@@ -84,6 +107,7 @@ export function CustomerCard({ data, isLoading }: CustomerCardProps) {
             <p className="text-xs text-stone-500 uppercase tracking-wide">
               Target Audiences
             </p>
+            <EditedMark field="subcultures" editing={editing} />
           </div>
           <div className="flex flex-wrap gap-2">
             {data.subcultures.map((subculture, i) => (
@@ -101,6 +125,7 @@ export function CustomerCard({ data, isLoading }: CustomerCardProps) {
             <p className="text-xs text-stone-500 uppercase tracking-wide">
               Primary Problem
             </p>
+            <EditedMark field="primary_problem" editing={editing} />
           </div>
           <p className="text-sm text-stone-700">{data.primary_problem}</p>
         </div>
@@ -108,8 +133,9 @@ export function CustomerCard({ data, isLoading }: CustomerCardProps) {
         {/* Secondary Problems */}
         {data.secondary_problems.length > 0 && (
           <div>
-            <p className="text-xs text-stone-500 uppercase tracking-wide mb-2">
+            <p className="flex items-center gap-2 text-xs text-stone-500 uppercase tracking-wide mb-2">
               Secondary Problems
+              <EditedMark field="secondary_problems" editing={editing} />
             </p>
             <ul className="space-y-1">
               {data.secondary_problems.map((problem, i) => (
@@ -133,6 +159,7 @@ export function CustomerCard({ data, isLoading }: CustomerCardProps) {
               <p className="text-xs text-stone-500 uppercase tracking-wide">
                 Sophistication
               </p>
+              <EditedMark field="customer_sophistication" editing={editing} />
             </div>
             <Badge variant="info">{data.customer_sophistication}</Badge>
           </div>
@@ -142,6 +169,7 @@ export function CustomerCard({ data, isLoading }: CustomerCardProps) {
               <p className="text-xs text-stone-500 uppercase tracking-wide">
                 Buying Driver
               </p>
+              <EditedMark field="buying_motivation" editing={editing} />
             </div>
             <Badge variant="customer">{data.buying_motivation}</Badge>
           </div>
@@ -7,3 +7,9 @@
 export { BasicsCard } from './basics-card';
 export { CustomerCard } from './customer-card';
 export { ProductsCard } from './products-card';
+export { VisualIdentityCard } from './visual-identity-card';
+export { ContactCard } from './contact-card';
+export { RecentContentCard } from './recent-content-card';
+export { SiteInventoryCard } from './site-inventory-card';
+export { AnalyzerError, type AnalyzerCardError } from './analyzer-error';
+export { AnalyzerEditButton, EditedMark, type AnalyzerCardEditing } from './analyzer-edit';
@@ -1,14 +1,33 @@
 /**
  * PRODUCTS CARD COMPONENT
  * =========================
- * Displays the products analyzer results.
+ * Displays the products analyzer results, plus a tier comparison
+ * table when a pricing table was parsed from the site.
  */
 
-import { Package, DollarSign, Star } from 'lucide-react';
+import { Package, DollarSign, Star, Check, Table2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { AnalyzerError, type AnalyzerCardError } from './analyzer-error';
+import { AnalyzerEditButton, EditedMark, type AnalyzerCardEditing } from './analyzer-edit';
 import type { ParsedProducts, ProductOffering } from '@/types/analyzers';
+import type { BillingPeriod, PricingTable, PricingTier } from '@/lib/scrapers/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Feature rows shown in the comparison table */
+const MAX_COMPARED_FEATURES = 10;
+
+const PERIOD_LABELS: Record<BillingPeriod, string> = {
+  month: '/ month',
+  year: '/ year',
+  week: '/ week',
+  day: '/ day',
+  'one-time': 'one-time',
+};
 
 // ============================================================================
 // TYPES
@@ -16,7 +35,13 @@ import type { ParsedProducts, ProductOffering } from '@/types/analyzers';
 
 interface ProductsCardProps {
   data: ParsedProducts | null;
+  /** Tiers parsed from the pricing page (brands.pricing) */
+  pricing?: PricingTable | null;
   isLoading?: boolean;
+  /** Set when the analyzer failed */
+  error?: AnalyzerCardError | null;
+  /** Set when the result can be edited */
+  editing?: AnalyzerCardEditing | null;
 }
 
 // ============================================================================
@@ -50,6 +75,74 @@ function OfferingItem({ offering }: { offering: ProductOffering }) {
   );
 }
 
+function TierPrice({ tier }: { tier: PricingTier }) {
+  if (tier.isCustom || !tier.price) {
+    return <span className="text-stone-500">{tier.isCustom ? 'Contact sales' : '—'}</span>;
+  }
+
+  return (
+    <span>
+      <span className="font-semibold text-stone-900">{tier.price}</span>
+      {tier.period && !tier.price.includes('/') && (
+        <span className="text-xs text-stone-500"> {PERIOD_LABELS[tier.period]}</span>
+      )}
+    </span>
+  );
+}
+
+function PricingComparison({ pricing }: { pricing: PricingTable }) {
+  // Union of features, in the order they first appear
+  const features = Array.from(new Set(pricing.tiers.flatMap(t => t.features)));
+  const shownFeatures = features.slice(0, MAX_COMPARED_FEATURES);
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-stone-100">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="bg-stone-50">
+            <th className="p-2 text-left font-normal" />
+            {pricing.tiers.map(tier => (
+              <th key={tier.name} className="p-2 text-left font-medium text-stone-900 align-bottom">
+                {tier.highlighted && (
+                  <Badge variant="products" className="mb-1">Popular</Badge>
+                )}
+                <p>{tier.name}</p>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          <tr className="border-t border-stone-100">
+            <td className="p-2 text-xs text-stone-500">Price</td>
+            {pricing.tiers.map(tier => (
+              <td key={tier.name} className="p-2">
+                <TierPrice tier={tier} />
+              </td>
+            ))}
+          </tr>
+          {shownFeatures.map(feature => (
+            <tr key={feature} className="border-t border-stone-100">
+              <td className="p-2 text-xs text-stone-600">{feature}</td>
+              {pricing.tiers.map(tier => (
+                <td key={tier.name} className="p-2">
+                  {tier.features.includes(feature)
+                    ? <Check className="w-4 h-4 text-emerald-600" />
+                    : <span className="text-stone-300">—</span>}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {features.length > shownFeatures.length && (
+        <p className="p-2 text-xs text-stone-500 border-t border-stone-100">
+          +{features.length - shownFeatures.length} more features
+        </p>
+      )}
+    </div>
+  );
+}
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -58,9 +151,9 @@ function OfferingItem({ offering }: { offering: ProductOffering }) {
  * Card displaying products analyzer results.
  *
  * @example
- * <ProductsCard data={parsedProducts} />
+ * <ProductsCard data={parsedProducts} pricing={brand.pricing as PricingTable | null} />
  */
-export function ProductsCard({ data, isLoading }: ProductsCardProps) {
+export function ProductsCard({ data, pricing, isLoading, error, editing }: ProductsCardProps) {
   if (isLoading) {
     return (
       <Card>
@@ -79,6 +172,22 @@ export function ProductsCard({ data, isLoading }: ProductsCardProps) {
     );
   }
 
+  if (!data && error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Package className="w-5 h-5 text-stone-400" />
+            Products & Pricing
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AnalyzerError {...error} />
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (!data) {
     return (
       <Card className="opacity-50">
@@ -97,17 +206,19 @@ export function ProductsCard({ data, isLoading }: ProductsCardProps) {
 
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
         <CardTitle className="flex items-center gap-2">
           <Package className="w-5 h-5 text-orange-500" />
           Products & Pricing
         </CardTitle>
+        {editing && <AnalyzerEditButton onEdit={editing.onEdit} />}
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Offering Type & Price Positioning */}
         <div className="flex items-center gap-3">
           <Badge variant="secondary">{data.offering_type}</Badge>
           <Badge variant="products">{data.price_positioning}</Badge>
+          <EditedMark field={['offering_type', 'price_positioning']} editing={editing} />
         </div>
 
         {/* Primary Offer */}
@@ -117,10 +228,24 @@ export function ProductsCard({ data, isLoading }: ProductsCardProps) {
             <p className="text-xs text-stone-500 uppercase tracking-wide">
               Primary Offer
             </p>
+            <EditedMark field="primary_offer" editing={editing} />
           </div>
           <p className="text-sm text-stone-700">{data.primary_offer}</p>
         </div>
 
+        {/* Pricing Tiers */}
+        {pricing && pricing.tiers.length > 0 && (
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <Table2 className="w-4 h-4 text-stone-500" />
+              <p className="text-xs text-stone-500 uppercase tracking-wide">
+                Pricing Tiers ({pricing.tiers.length})
+              </p>
+            </div>
+            <PricingComparison pricing={pricing} />
+          </div>
+        )}
+
         {/* Offerings List */}
         {data.offerings.length > 0 && (
           <div>
@@ -129,6 +254,7 @@ export function ProductsCard({ data, isLoading }: ProductsCardProps) {
               <p className="text-xs text-stone-500 uppercase tracking-wide">
                 Offerings ({data.offerings.length})
               </p>
+              <EditedMark field="offerings" editing={editing} />
             </div>
             <div className="space-y-2">
               {data.offerings.map((offering, i) => (
@@ -0,0 +1,137 @@
+/**
+ * RECENT CONTENT CARD COMPONENT
+ * ==============================
+ * Lists the latest posts from the brand's blog feed with publishing
+ * cadence stats and the most used categories. Comes straight from the
+ * scraper, like the contact card.
+ */
+
+import { Rss } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { formatDate, formatRelativeTime } from '@/lib/utils/format';
+import type { BlogFeed } from '@/lib/scrapers/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Posts shown in the list (the feed keeps up to 20) */
+const VISIBLE_POSTS = 6;
+
+const VISIBLE_THEMES = 6;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface RecentContentCardProps {
+  data: BlogFeed | null;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Card listing recent blog posts and how often the brand publishes.
+ * Renders nothing if no feed was found.
+ *
+ * @example
+ * <RecentContentCard data={brand.blog_feed as BlogFeed | null} />
+ */
+export function RecentContentCard({ data }: RecentContentCardProps) {
+  if (!data || data.posts.length === 0) {
+    return null;
+  }
+
+  const { cadence } = data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Rss className="w-5 h-5 text-primary" />
+          Recent content
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Cadence stats */}
+        <div className="grid grid-cols-3 gap-3">
+          <Stat
+            label="Posts / month"
+            value={cadence.postsPerMonth !== null ? String(cadence.postsPerMonth) : '—'}
+          />
+          <Stat
+            label="Days between posts"
+            value={cadence.averageDaysBetweenPosts !== null ? String(cadence.averageDaysBetweenPosts) : '—'}
+          />
+          <Stat
+            label="Last post"
+            value={cadence.lastPublishedAt ? formatRelativeTime(cadence.lastPublishedAt) : '—'}
+          />
+        </div>
+
+        {/* Most used categories */}
+        {data.themes.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {data.themes.slice(0, VISIBLE_THEMES).map((theme) => (
+              <Badge key={theme.name} variant="secondary">
+                {theme.name}
+                <span className="ml-1 text-stone-500">{theme.count}</span>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {/* Latest posts */}
+        <ul className="space-y-3">
+          {data.posts.slice(0, VISIBLE_POSTS).map((post) => (
+            <li key={post.url ?? post.title} className="text-sm">
+              {post.url ? (
+                <a
+                  href={post.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-stone-900 hover:text-primary transition-colors"
+                >
+                  {post.title}
+                </a>
+              ) : (
+                <span className="font-medium text-stone-900">{post.title}</span>
+              )}
+              {post.publishedAt && (
+                <p className="text-xs text-stone-500 mt-0.5">{formatDate(post.publishedAt)}</p>
+              )}
+              {post.summary && (
+                <p className="text-xs text-stone-600 mt-1 line-clamp-2">{post.summary}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <a
+          href={data.feedUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block text-xs text-stone-500 hover:text-primary transition-colors truncate"
+        >
+          {data.title ? `${data.title} · ` : ''}{data.feedUrl}
+        </a>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 rounded-lg bg-stone-50 border border-stone-100">
+      <p className="text-sm font-semibold text-stone-900">{value}</p>
+      <p className="text-xs text-stone-500 mt-0.5">{label}</p>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * SITE INVENTORY CARD COMPONENT
+ * ==============================
+ * Summarizes the brand's sitemaps: how many pages the site has, how
+ * they split across sections, and how recently they changed. Comes
+ * straight from the scraper, like the contact card.
+ */
+
+import { Network } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatNumber, formatRelativeTime } from '@/lib/utils/format';
+import type { SiteInventory, SiteSection } from '@/lib/scrapers/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const SECTION_LABELS: Record<SiteSection, string> = {
+  blog: 'Blog & news',
+  product: 'Products',
+  docs: 'Docs & help',
+  legal: 'Legal',
+  careers: 'Careers',
+  locations: 'Locations',
+  other: 'Other pages',
+};
+
+/** Sections that count as published content */
+const CONTENT_SECTIONS: SiteSection[] = ['blog', 'docs'];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SiteInventoryCardProps {
+  data: SiteInventory | null;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Card with page counts per site section.
+ * Renders nothing if no sitemap was found.
+ *
+ * @example
+ * <SiteInventoryCard data={brand.site_inventory as SiteInventory | null} />
+ */
+export function SiteInventoryCard({ data }: SiteInventoryCardProps) {
+  if (!data || data.totalUrls === 0) {
+    return null;
+  }
+
+  const contentPages = data.sections
+    .filter(s => CONTENT_SECTIONS.includes(s.section))
+    .reduce((sum, s) => sum + s.count, 0);
+  const contentShare = Math.round((contentPages / data.totalUrls) * 100);
+  const largest = data.sections[0]?.count ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Network className="w-5 h-5 text-primary" />
+          Site inventory
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div>
+          <p className="text-2xl font-semibold text-foreground">
+            {formatNumber(data.totalUrls)}{data.truncated ? '+' : ''}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            pages in the sitemap · {contentShare}% blog and docs
+            {data.lastModified ? ` · updated ${formatRelativeTime(data.lastModified)}` : ''}
+          </p>
+        </div>
+
+        {/* Pages per section */}
+        <ul className="space-y-2">
+          {data.sections.map((section) => (
+            <li key={section.section} title={section.examples.join('\n')}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-foreground">{SECTION_LABELS[section.section]}</span>
+                <span className="text-muted-foreground tabular-nums">
+                  {formatNumber(section.count)}
+                  {section.recentlyModified > 0 && (
+                    <span className="ml-1 text-xs">({section.recentlyModified} recent)</span>
+                  )}
+                </span>
+              </div>
+              <div className="mt-1 h-1.5 rounded-full bg-surface-muted">
+                <div
+                  className="h-1.5 rounded-full bg-primary"
+                  style={{ width: `${Math.max(2, (section.count / largest) * 100)}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {data.truncated && (
+          <p className="text-xs text-muted-foreground">
+            Large site - only part of the sitemap was read.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * VISUAL IDENTITY CARD COMPONENT
+ * ===============================
+ * Displays the logo, color palette and fonts found during the scrape.
+ * Unlike the analyzer cards this comes straight from the scraper, so it
+ * is available as soon as the scrape completes.
+ */
+
+import { Palette, Type } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { VisualIdentity } from '@/lib/scrapers/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface VisualIdentityCardProps {
+  data: VisualIdentity | null;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Card showing logo, palette and typography swatches.
+ * Renders nothing if no visual identity was found.
+ *
+ * @example
+ * <VisualIdentityCard data={brand.visual_identity as VisualIdentity | null} />
+ */
+export function VisualIdentityCard({ data }: VisualIdentityCardProps) {
+  if (!data || (data.logos.length === 0 && data.colors.length === 0 && data.fonts.length === 0)) {
+    return null;
+  }
+
+  const logo = data.logos[0];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Palette className="w-5 h-5 text-primary" />
+          Visual Identity
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {/* Logo */}
+        {logo && (
+          <div>
+            <p className="text-xs text-muted-foreground uppercase tracking-wide mb-2">Logo</p>
+            <div className="inline-flex items-center justify-center rounded-lg border border-border bg-surface p-3">
+              {/* External logo URLs - next/image would need every domain whitelisted */}
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={logo.url}
+                alt="Brand logo"
+                className="max-h-12 max-w-[200px] object-contain"
+                loading="lazy"
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Palette */}
+        {data.colors.length > 0 && (
+          <div>
+            <p className="text-xs text-muted-foreground uppercase tracking-wide mb-2">Palette</p>
+            <div className="flex flex-wrap gap-3">
+              {data.colors.map((color) => (
+                <div key={color.hex} className="flex flex-col items-center gap-1 w-16">
+                  <div
+                    className="w-12 h-12 rounded-lg border border-border shadow-warm-sm"
+                    style={{ backgroundColor: color.hex }}
+                    title={color.variable ?? color.hex}
+                  />
+                  <span className="text-xs font-mono text-foreground">{color.hex}</span>
+                  {color.variable && (
+                    <span className="text-[10px] text-muted-foreground truncate max-w-full">
+                      {color.variable}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Typography */}
+        {data.fonts.length > 0 && (
+          <div>
+            <p className="text-xs text-muted-foreground uppercase tracking-wide mb-2">Typography</p>
+            <div className="space-y-2">
+              {data.fonts.map((font) => (
+                <div key={font.family} className="flex items-center gap-3">
+                  <div className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
+                    <Type className="w-4 h-4 text-muted-foreground" />
+                  </div>
+                  {/* Rendered in the font itself when the browser has it */}
+                  <span
+                    className="text-base text-foreground"
+                    style={{ fontFamily: `"${font.family}", sans-serif` }}
+                  >
+                    {font.family}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * ANALYSIS EDIT DIALOG
+ * =====================
+ * Form for correcting one analyzer's result. The fields come from the
+ * analyzer's parser schema, so the same dialog edits Basics, Customer
+ * Profile and Products & Pricing.
+ *
+ * Values are checked with validateParsedData() before saving (the API
+ * checks again). Changed fields are marked human-edited and kept when
+ * the analyzer runs again.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Pencil } from 'lucide-react';
+import { SchemaField } from './schema-field';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useEditAnalysis } from '@/hooks';
+import { getAnalyzer } from '@/lib/analyzers';
+import { validateParsedData, type FieldErrors } from '@/lib/analyzers/validation';
+import type { AnalysisRun } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface AnalysisEditDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when open state changes */
+  onOpenChange: (open: boolean) => void;
+  brandId: string;
+  /** The finished run being edited */
+  run: AnalysisRun;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Edit form for one analyzer result.
+ * Mount it only while open so the form starts from the saved result.
+ *
+ * @example
+ * {editingRun && (
+ *   <AnalysisEditDialog
+ *     open
+ *     onOpenChange={() => setEditingRun(null)}
+ *     brandId={brand.id}
+ *     run={editingRun}
+ *   />
+ * )}
+ */
+export function AnalysisEditDialog({ open, onOpenChange, brandId, run }: AnalysisEditDialogProps) {
+  const analyzer = getAnalyzer(run.analyzer_type);
+  const schema = analyzer.parser.schema;
+  const fieldEdits = run.field_edits ?? {};
+
+  const [values, setValues] = useState<Record<string, unknown>>(() => ({ ...run.parsed_data }));
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const edit = useEditAnalysis();
+
+  const setValue = (field: string, value: unknown) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = () => {
+    const { data, errors: validationErrors } = validateParsedData(schema, values);
+    setErrors(validationErrors);
+
+    if (!data) return;
+
+    edit.mutate(
+      { brandId, analyzerType: run.analyzer_type, data },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10">
+              <Pencil className="h-5 w-5 text-primary" />
+            </div>
+            <DialogTitle>Edit {analyzer.config.name}</DialogTitle>
+          </div>
+          <DialogDescription className="pt-2">
+            Fields you change are marked as edited and kept when the brand is
+            analyzed again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {Object.entries(schema.properties).map(([field, property]) => (
+            <SchemaField
+              key={field}
+              name={field}
+              property={property}
+              required={schema.required.includes(field)}
+              value={values[field]}
+              onChange={(value) => setValue(field, value)}
+              path={field}
+              errors={errors}
+              edit={fieldEdits[field]}
+              onRevert={fieldEdits[field] ? () => setValue(field, fieldEdits[field].ai_value) : undefined}
+              disabled={edit.isPending}
+            />
+          ))}
+        </div>
+
+        {errors._form && (
+          <p className="text-sm text-[var(--error)]">{errors._form}</p>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={edit.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            isLoading={edit.isPending}
+            loadingText="Saving..."
+          >
+            Save changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * ANALYSIS EDIT COMPONENTS
+ * =========================
+ * Schema-driven forms for correcting analyzer results.
+ */
+
+export { AnalysisEditDialog } from './analysis-edit-dialog';
+export { SchemaField } from './schema-field';
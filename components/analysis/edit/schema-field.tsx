@@ -0,0 +1,240 @@
+/**
+ * SCHEMA FIELD
+ * =============
+ * One form control generated from an analyzer parser schema property:
+ * a select for enums, a text box for strings, one-per-line text for
+ * lists of strings and a repeatable group for lists of objects.
+ */
+
+'use client';
+
+import { Plus, Trash2, Undo2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { formatFieldLabel, formatFieldValue } from '@/lib/analyzers/diff';
+import { cn } from '@/lib/utils/cn';
+import type { SchemaProperty } from '@/lib/analyzers/types';
+import type { FieldErrors } from '@/lib/analyzers/validation';
+import type { FieldEdit } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Fields edited in a multi-line text box */
+const LONG_TEXT_PATTERN = /description|problem/;
+
+const CONTROL_CLASSES = `w-full rounded-[var(--radius-md)] bg-surface px-3 py-2 text-sm text-foreground shadow-warm-sm
+  focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring
+  disabled:cursor-not-allowed disabled:opacity-50`;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SchemaFieldProps {
+  /** Field name in the parsed data */
+  name: string;
+  property: SchemaProperty;
+  required: boolean;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  /** Path of the field for error lookup (e.g. "offerings.0.name") */
+  path: string;
+  errors: FieldErrors;
+  /** Set when a person edited the field before */
+  edit?: FieldEdit;
+  /** Puts the analyzer's value back */
+  onRevert?: () => void;
+  disabled?: boolean;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Form control for one parser schema property.
+ *
+ * @example
+ * <SchemaField
+ *   name="industry"
+ *   property={schema.properties.industry}
+ *   required
+ *   value={values.industry}
+ *   onChange={(v) => setValue('industry', v)}
+ *   path="industry"
+ *   errors={errors}
+ * />
+ */
+export function SchemaField({
+  name,
+  property,
+  required,
+  value,
+  onChange,
+  path,
+  errors,
+  edit,
+  onRevert,
+  disabled,
+}: SchemaFieldProps) {
+  const types = Array.isArray(property.type) ? property.type : [property.type];
+  const error = errors[path];
+  const inputId = `field-${path}`;
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor={inputId} className="text-sm font-medium text-foreground">
+          {formatFieldLabel(name)}
+          {!required && <span className="ml-1 font-normal text-foreground-muted">(optional)</span>}
+        </label>
+        {edit && (
+          <>
+            <Badge variant="muted">Edited</Badge>
+            {onRevert && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={onRevert}
+                disabled={disabled}
+                title={`AI value: ${formatFieldValue(edit.ai_value)}`}
+              >
+                <Undo2 className="w-3 h-3" />
+                Use AI value
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+
+      {property.enum ? (
+        <select
+          id={inputId}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className={cn(CONTROL_CLASSES, error ? 'border-2 border-[var(--error)]' : 'border border-border')}
+        >
+          {!property.enum.includes(String(value ?? '')) && <option value="">Choose...</option>}
+          {property.enum.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      ) : types.includes('array') && property.items?.type === 'object' ? (
+        <ObjectListField
+          property={property}
+          value={Array.isArray(value) ? value : []}
+          onChange={onChange}
+          path={path}
+          errors={errors}
+          disabled={disabled}
+        />
+      ) : types.includes('array') ? (
+        <>
+          <textarea
+            id={inputId}
+            value={Array.isArray(value) ? value.join('\n') : ''}
+            onChange={(e) => onChange(e.target.value.split('\n'))}
+            disabled={disabled}
+            rows={4}
+            className={cn(CONTROL_CLASSES, error ? 'border-2 border-[var(--error)]' : 'border border-border')}
+          />
+          <p className="text-xs text-foreground-muted">One per line</p>
+        </>
+      ) : LONG_TEXT_PATTERN.test(name) ? (
+        <textarea
+          id={inputId}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          rows={3}
+          className={cn(CONTROL_CLASSES, error ? 'border-2 border-[var(--error)]' : 'border border-border')}
+        />
+      ) : (
+        <input
+          id={inputId}
+          type="text"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className={cn(CONTROL_CLASSES, 'h-10', error ? 'border-2 border-[var(--error)]' : 'border border-border')}
+        />
+      )}
+
+      {error && <p className="text-sm text-[var(--error)]">{error}</p>}
+    </div>
+  );
+}
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+interface ObjectListFieldProps {
+  property: SchemaProperty;
+  value: unknown[];
+  onChange: (value: unknown[]) => void;
+  path: string;
+  errors: FieldErrors;
+  disabled?: boolean;
+}
+
+/**
+ * Repeatable group of fields for a list of objects (e.g. offerings).
+ */
+function ObjectListField({ property, value, onChange, path, errors, disabled }: ObjectListFieldProps) {
+  const itemProperties = (property.items?.properties ?? {}) as Record<string, SchemaProperty>;
+  const itemRequired = property.items?.required ?? [];
+
+  const updateItem = (index: number, key: string, itemValue: unknown) => {
+    onChange(value.map((item, i) =>
+      i === index ? { ...(item as Record<string, unknown>), [key]: itemValue } : item
+    ));
+  };
+
+  const addItem = () => {
+    onChange([...value, Object.fromEntries(Object.keys(itemProperties).map(key => [key, '']))]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.map((item, index) => (
+        <div key={index} className="space-y-3 rounded-lg border border-border p-3">
+          {Object.entries(itemProperties).map(([key, itemProperty]) => (
+            <SchemaField
+              key={key}
+              name={key}
+              property={itemProperty}
+              required={itemRequired.includes(key)}
+              value={(item as Record<string, unknown>)[key]}
+              onChange={(v) => updateItem(index, key, v)}
+              path={`${path}.${index}.${key}`}
+              errors={errors}
+              disabled={disabled}
+            />
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="-ml-3 text-[var(--error)]"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            disabled={disabled}
+          >
+            <Trash2 className="w-4 h-4" />
+            Remove
+          </Button>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={addItem} disabled={disabled}>
+        <Plus className="w-4 h-4" />
+        Add
+      </Button>
+    </div>
+  );
+}
@@ -4,19 +4,31 @@
  * Form for adding a new brand via URL.
  * Includes smart auth handling - if user isn't logged in,
  * saves their URL and redirects to login, then continues after.
+ *
+ * Users can also paste content or upload a brand document instead of
+ * scraping (for sites that block scrapers or sit behind a login).
  */
 
 'use client';
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Globe, ArrowRight, Lock } from 'lucide-react';
+import { Globe, ArrowRight, Lock, FileText } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { useAuthGate } from '@/hooks';
 import { clearAnalysisIntent } from '@/lib/utils/auth-intent';
 import { log } from '@/lib/utils/logger';
+import { cn } from '@/lib/utils/cn';
+import { ManualSourceForm, type ManualSource } from './manual-source-form';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Where the brand content comes from */
+type SourceKind = 'website' | 'manual';
 
 // ============================================================================
 // COMPONENT
@@ -34,9 +46,12 @@ export function AddBrandForm() {
   const router = useRouter();
   const { requireAuth, isAuthenticated, isLoading: authLoading } = useAuthGate();
 
+  const [sourceKind, setSourceKind] = useState<SourceKind>('website');
   const [url, setUrl] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Brand created by a failed scrape - the user can add content to it instead
+  const [failedBrandId, setFailedBrandId] = useState<string | null>(null);
 
   /**
    * Handle form submission.
@@ -45,6 +60,7 @@ export function AddBrandForm() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setFailedBrandId(null);
 
     // Validate URL is provided
     const trimmedUrl = url.trim();
@@ -66,26 +82,70 @@ export function AddBrandForm() {
     await startAnalysis(trimmedUrl);
   };
 
+  /**
+   * Handle manual content submission (pasted text or uploaded file).
+   * The URL is still required so the brand has a home page to link to.
+   */
+  const handleManualSubmit = async (source: ManualSource) => {
+    setError(null);
+
+    const trimmedUrl = url.trim();
+    if (!trimmedUrl) {
+      setError("Please enter the brand's website URL");
+      return;
+    }
+
+    log.info('Manual source submitted', { url: trimmedUrl, scraperType: source.scraperType });
+
+    // Pasted content can't survive the login redirect, only the URL is saved
+    if (!requireAuth({ analysisUrl: trimmedUrl })) {
+      log.info('User not authenticated, redirecting to login');
+      return;
+    }
+
+    await startAnalysis(trimmedUrl, source);
+  };
+
   /**
    * Start the brand analysis process.
    * Called after auth is confirmed.
+   *
+   * @param analysisUrl - The brand's website
+   * @param source - Pasted/uploaded content to use instead of scraping
    */
-  const startAnalysis = async (analysisUrl: string) => {
+  const startAnalysis = async (analysisUrl: string, source?: ManualSource) => {
     setIsLoading(true);
-    log.info('Starting brand analysis', { url: analysisUrl });
+    log.info('Starting brand analysis', { url: analysisUrl, scraperType: source?.scraperType });
 
     try {
-      const response = await fetch('/api/brands/analyze', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: analysisUrl }),
-      });
+      let response: Response;
+
+      if (source) {
+        // Multipart so uploaded files can be sent
+        const body = new FormData();
+        body.set('url', analysisUrl);
+        body.set('scraperType', source.scraperType);
+        if (source.content) body.set('content', source.content);
+        if (source.file) body.set('file', source.file);
+
+        response = await fetch('/api/brands/analyze', { method: 'POST', body });
+      } else {
+        response = await fetch('/api/brands/analyze', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ url: analysisUrl }),
+        });
+      }
 
       const data = await response.json();
 
       if (!response.ok || !data.success) {
-        log.error('Analysis failed', { error: data.error });
+        log.error('Analysis failed', { error: data.error, errorCode: data.errorCode });
         setError(data.error || 'Failed to analyze brand');
+        // The brand exists but couldn't be scraped - offer manual content
+        if (!source && response.status === 422 && data.brandId) {
+          setFailedBrandId(data.brandId);
+        }
         setIsLoading(false);
         return;
       }
@@ -108,59 +168,107 @@ export function AddBrandForm() {
     }
   };
 
+  const urlInput = (
+    <div className="relative">
+      <Input
+        type="text"
+        placeholder="https://example.com"
+        value={url}
+        onChange={(e) => setUrl(e.target.value)}
+        error={(sourceKind === 'website' && error) || undefined}
+        disabled={isLoading}
+        className="pr-32"
+      />
+    </div>
+  );
+
   return (
     <Card className="w-full max-w-xl mx-auto">
       <CardContent className="p-6">
-        <form onSubmit={handleSubmit} className="space-y-4">
-          {/* Header */}
-          <div className="text-center mb-6">
-            <div className="mx-auto w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mb-3">
-              <Globe className="w-6 h-6 text-primary" />
-            </div>
-            <h2 className="text-xl font-semibold text-foreground">
-              Analyze a Brand
-            </h2>
-            <p className="text-sm text-muted-foreground mt-1">
-              Enter a website URL to get instant brand intelligence
-            </p>
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="mx-auto w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mb-3">
+            <Globe className="w-6 h-6 text-primary" />
           </div>
+          <h2 className="text-xl font-semibold text-foreground">
+            Analyze a Brand
+          </h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Enter a website URL to get instant brand intelligence
+          </p>
+        </div>
 
-          {/* URL Input */}
-          <div className="relative">
-            <Input
-              type="text"
-              placeholder="https://example.com"
-              value={url}
-              onChange={(e) => setUrl(e.target.value)}
-              error={error || undefined}
-              disabled={isLoading}
-              className="pr-32"
-            />
-          </div>
+        {/* Source toggle */}
+        <div className="flex justify-center gap-1 mb-4 text-sm">
+          <SourceToggleButton
+            active={sourceKind === 'website'}
+            onClick={() => { setSourceKind('website'); setError(null); }}
+            icon={<Globe className="w-3.5 h-3.5" />}
+            label="Website"
+          />
+          <SourceToggleButton
+            active={sourceKind === 'manual'}
+            onClick={() => { setSourceKind('manual'); setError(null); setFailedBrandId(null); }}
+            icon={<FileText className="w-3.5 h-3.5" />}
+            label="Paste or upload"
+          />
+        </div>
 
-          {/* Submit Button */}
-          <Button
-            type="submit"
-            className="w-full"
+        {sourceKind === 'manual' ? (
+          <ManualSourceForm
+            onSubmit={handleManualSubmit}
             isLoading={isLoading || authLoading}
-            loadingText={authLoading ? 'Checking...' : 'Analyzing...'}
+            error={error}
+            submitLabel="Analyze Brand"
           >
-            Analyze Brand
-            <ArrowRight className="w-4 h-4" />
-          </Button>
+            {urlInput}
+          </ManualSourceForm>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {/* URL Input */}
+            {urlInput}
 
-          {/* Auth hint - shows when not authenticated */}
-          {!authLoading && !isAuthenticated && (
+            {/* Scrape failed - offer to add content manually */}
+            {failedBrandId && (
+              <Button
+                type="button"
+                variant="secondary"
+                className="w-full"
+                onClick={() => router.push(`/brands/${failedBrandId}`)}
+              >
+                <FileText className="w-4 h-4" />
+                Add content manually
+              </Button>
+            )}
+
+            {/* Submit Button */}
+            <Button
+              type="submit"
+              className="w-full"
+              isLoading={isLoading || authLoading}
+              loadingText={authLoading ? 'Checking...' : 'Analyzing...'}
+            >
+              Analyze Brand
+              <ArrowRight className="w-4 h-4" />
+            </Button>
+          </form>
+        )}
+
+        {/* Auth hint - shows when not authenticated */}
+        {!authLoading && !isAuthenticated && (
+          <div className="mt-4">
             <AuthHint />
-          )}
-
-          {/* Help text - shows when authenticated */}
-          {isAuthenticated && (
-            <p className="text-xs text-center text-muted-foreground/70">
-              We&apos;ll scrape the homepage and analyze the brand using AI
-            </p>
-          )}
-        </form>
+          </div>
+        )}
+
+        {/* Help text - shows when authenticated */}
+        {isAuthenticated && (
+          <p className="mt-4 text-xs text-center text-muted-foreground/70">
+            {sourceKind === 'website'
+              ? "We'll scrape the homepage and analyze the brand using AI"
+              : "We'll analyze your content instead of scraping the website"}
+          </p>
+        )}
       </CardContent>
     </Card>
   );
@@ -184,3 +292,34 @@ function AuthHint() {
     </div>
   );
 }
+
+/**
+ * Pill button for switching between website and manual sources.
+ */
+function SourceToggleButton({
+  active,
+  onClick,
+  icon,
+  label,
+}: {
+  active: boolean;
+  onClick: () => void;
+  icon: React.ReactNode;
+  label: string;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        'flex items-center gap-1.5 rounded-full px-3 py-1 transition-colors',
+        active
+          ? 'bg-primary/10 text-foreground'
+          : 'text-muted-foreground hover:text-foreground'
+      )}
+    >
+      {icon}
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * ANALYSIS LANGUAGE PICKER
+ * =========================
+ * English / source-language toggle for brands whose website isn't in
+ * English. Changing it saves the setting and re-analyzes the brand.
+ */
+
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Languages } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useReanalyzeBrand, useUpdateAnalysisLanguage } from '@/hooks';
+import { formatLanguageName } from '@/lib/utils/format';
+import type { AnalysisLanguage } from '@/types';
+import type { DetectedLanguage } from '@/lib/scrapers/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface AnalysisLanguagePickerProps {
+  brandId: string;
+  /** Language detected on the scraped site */
+  language: DetectedLanguage | null;
+  analysisLanguage: AnalysisLanguage;
+  /** Disable while an analysis is running */
+  disabled?: boolean;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Segmented control for the language analyses are written in.
+ * Renders nothing for English sites.
+ *
+ * @example
+ * <AnalysisLanguagePicker
+ *   brandId={brand.id}
+ *   language={brand.language as DetectedLanguage | null}
+ *   analysisLanguage={brand.analysis_language}
+ * />
+ */
+export function AnalysisLanguagePicker({
+  brandId,
+  language,
+  analysisLanguage,
+  disabled = false,
+}: AnalysisLanguagePickerProps) {
+  const router = useRouter();
+  const updateLanguage = useUpdateAnalysisLanguage();
+  const reanalyze = useReanalyzeBrand();
+
+  // The English alternate may have been scraped instead of the original page
+  const sourceCode = language?.originalCode ?? language?.code;
+  if (!sourceCode || sourceCode === 'en') {
+    return null;
+  }
+
+  const sourceName = formatLanguageName(sourceCode);
+  const options: { value: AnalysisLanguage; label: string }[] = [
+    { value: 'english', label: 'English' },
+    { value: 'source', label: sourceName },
+  ];
+  const isPending = updateLanguage.isPending || reanalyze.isPending;
+
+  const select = (value: AnalysisLanguage) => {
+    if (value === analysisLanguage) return;
+
+    updateLanguage.mutate(
+      { brandId, language: value },
+      {
+        onSuccess: () => reanalyze.mutate(
+          { brandId },
+          { onSuccess: () => router.refresh() }
+        ),
+      }
+    );
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        <Languages className="w-5 h-5 text-primary mt-0.5 flex-shrink-0" />
+        <div>
+          <p className="text-sm font-medium text-foreground">Website in {sourceName}</p>
+          <p className="text-xs text-muted-foreground">
+            {language?.originalCode
+              ? 'Analyzed from the English version of the site.'
+              : 'Choose the language the analysis is written in.'}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex gap-1" role="radiogroup" aria-label="Analysis language">
+        {options.map((option) => (
+          <Button
+            key={option.value}
+            size="sm"
+            variant={option.value === analysisLanguage ? 'default' : 'ghost'}
+            role="radio"
+            aria-checked={option.value === analysisLanguage}
+            disabled={disabled || isPending}
+            onClick={() => select(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -9,12 +9,19 @@
  * - Auto-updating analyzer cards
  * - Completion celebration animation
  * - Connection status indicator
- * - Integrated PageHeader with tabs (Overview, Store, Documents)
+ * - Refresh (analyzers re-run only if the site changed; website sources only)
+ *   and confirmed Re-analyze
+ * - Edit forms for finished analyzer results (human edits survive reruns)
+ * - Integrated PageHeader with tabs (Overview, Tech Stack, Store, Documents, Changes, History)
  *
  * Tabs:
- * - Overview: Brand intelligence cards
+ * - Overview: Brand intelligence cards (or manual content form if the scrape failed)
+ *   and the scrape diagnostics history
+ * - Tech Stack: Technologies detected on the website, by category
  * - Store: Template gallery with intelligent buttons + inline doc viewer
  * - Documents: Archive view of all generated docs
+ * - Changes: Monitoring schedule and website change timeline
+ * - History: Stored analyzer results, with a field-level comparison of two versions
  *
  * @update 2025-12-19 - Updated for sidebar layout redesign with PageHeader
  * @update 2025-12-19 - Added Store tab for Template Store feature
@@ -24,21 +31,57 @@
 'use client';
 
 import { useState, useMemo, useRef } from 'react';
-import { RefreshCw } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { RefreshCw, Sparkles } from 'lucide-react';
 import { PageHeader } from '@/components/layout';
 import { Badge } from '@/components/ui/badge';
-import { useBrandAnalysis, useBrandDocs } from '@/hooks';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils/cn';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  useBrandAnalysis,
+  useBrandDocs,
+  useBrandChanges,
+  useRefreshBrand,
+  useReanalyzeBrand,
+  useRetryAnalyzer,
+  brandChangeKeys,
+} from '@/hooks';
+import { MAX_ANALYZER_RETRIES } from '@/lib/analyzers';
+import { canMonitorBrand } from '@/lib/monitoring/schedule';
 import { extractDomain, decodeHtmlEntities, formatRelativeTime } from '@/lib/utils/format';
 import { ProgressList } from '@/components/analysis/progress-list';
 import { BasicsCard } from '@/components/analysis/cards/basics-card';
 import { CustomerCard } from '@/components/analysis/cards/customer-card';
 import { ProductsCard } from '@/components/analysis/cards/products-card';
+import { VisualIdentityCard } from '@/components/analysis/cards/visual-identity-card';
+import { ContactCard } from '@/components/analysis/cards/contact-card';
+import { RecentContentCard } from '@/components/analysis/cards/recent-content-card';
+import { SiteInventoryCard } from '@/components/analysis/cards/site-inventory-card';
+import type { AnalyzerCardError } from '@/components/analysis/cards/analyzer-error';
+import type { AnalyzerCardEditing } from '@/components/analysis/cards/analyzer-edit';
+import { AnalysisEditDialog } from '@/components/analysis/edit';
 import { DocsTabContent } from '@/components/docs';
 import { StoreTabContent } from '@/components/store';
+import { ChangesTabContent } from '@/components/changes';
+import { TechStackTabContent } from '@/components/tech-stack';
+import { HistoryTabContent } from '@/components/history';
 import { CompletionCelebration } from './completion-celebration';
 import { ConnectionStatus } from './connection-status';
-import type { AnalysisRun, Brand } from '@/types';
+import { ScrapeFailedState } from './scrape-failed-state';
+import { AnalysisLanguagePicker } from './analysis-language-picker';
+import { ScrapeDiagnosticsPanel } from './scrape-diagnostics-panel';
+import { ReanalyzeBrandDialog } from './reanalyze-brand-dialog';
+import type { AnalysisLanguage, AnalysisRun, AnalyzerType, Brand } from '@/types';
 import type { ParsedBasics, ParsedCustomer, ParsedProducts } from '@/types/analyzers';
+import type {
+  BlogFeed,
+  ContactInfo,
+  DetectedLanguage,
+  PricingTable,
+  SiteInventory,
+  VisualIdentity,
+} from '@/lib/scrapers/types';
 
 // ============================================================================
 // TYPES
@@ -53,7 +96,7 @@ interface BrandAnalysisContentProps {
   initialDisplayName: string;
 }
 
-type ProfileTab = 'overview' | 'store' | 'docs';
+type ProfileTab = 'overview' | 'tech' | 'store' | 'docs' | 'changes' | 'history';
 
 // ============================================================================
 // COMPONENT
@@ -70,8 +113,16 @@ export function BrandAnalysisContent({
 }: BrandAnalysisContentProps) {
   // Tab state
   const [activeTab, setActiveTab] = useState<ProfileTab>('overview');
+  const [showReanalyze, setShowReanalyze] = useState(false);
+  const [editingType, setEditingType] = useState<AnalyzerType | null>(null);
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const refresh = useRefreshBrand();
+  const reanalyze = useReanalyzeBrand();
+  const retry = useRetryAnalyzer();
 
-  // Track if we had initial runs that were analyzing
+  // Track if we had initial runs that were analyzing (or started a
+  // re-analysis), so the celebration only shows for analyses we watched
   const wasInitiallyAnalyzing = useRef(
     initialRuns.some((r) =>
       r.status === 'queued' || r.status === 'analyzing' || r.status === 'parsing'
@@ -87,6 +138,8 @@ export function BrandAnalysisContent({
     isRealtimeConnected,
     isPolling,
     getRunByType,
+    completedCount,
+    totalCount,
   } = useBrandAnalysis({
     brandId: brand.id,
     initialRuns,
@@ -96,6 +149,10 @@ export function BrandAnalysisContent({
   const { data: docs } = useBrandDocs(brand.id);
   const docsCount = docs?.filter(d => d.status === 'complete').length ?? 0;
 
+  // Hook for unseen website changes (for tab badge)
+  const { data: changes } = useBrandChanges(brand.id);
+  const unseenChanges = changes?.filter(c => !c.seen_at).length ?? 0;
+
   // Extract runs for each analyzer type
   const basicsRun = getRunByType('basics');
   const customerRun = getRunByType('customer');
@@ -127,14 +184,39 @@ export function BrandAnalysisContent({
   const customerLoading = customerRun?.status === 'analyzing' || customerRun?.status === 'parsing';
   const productsLoading = productsRun?.status === 'analyzing' || productsRun?.status === 'parsing';
 
+  // Failed analyzers can be retried on their own until the limit
+  const getCardError = (run: AnalysisRun | undefined): AnalyzerCardError | null => {
+    if (run?.status !== 'error' && run?.status !== 'invalid') return null;
+    return {
+      message: run.error_message,
+      onRetry: run.retry_count < MAX_ANALYZER_RETRIES
+        ? () => retry.mutate({ brandId: brand.id, analyzerType: run.analyzer_type })
+        : undefined,
+      isRetrying: retry.isPending && retry.variables?.analyzerType === run.analyzer_type,
+    };
+  };
+
+  // Finished results can be corrected (not while anything is re-running)
+  const getCardEditing = (run: AnalysisRun | undefined): AnalyzerCardEditing | null => {
+    if (run?.status !== 'complete' || !run.parsed_data || isAnalyzing) return null;
+    return {
+      onEdit: () => setEditingType(run.analyzer_type),
+      editedFields: Object.keys(run.field_edits ?? {}),
+    };
+  };
+  const editingRun = editingType ? getRunByType(editingType) : undefined;
+
   // Build subtitle with URL and timing
   const subtitle = `${extractDomain(brand.source_url)} • Added ${formatRelativeTime(brand.created_at)}`;
 
   // Tab configuration
   const tabs = [
     { value: 'overview', label: 'Overview' },
+    { value: 'tech', label: 'Tech Stack' },
     { value: 'store', label: 'Store' },
     { value: 'docs', label: 'Documents', badge: docsCount > 0 ? docsCount : undefined },
+    { value: 'changes', label: 'Changes', badge: unseenChanges > 0 ? unseenChanges : undefined },
+    { value: 'history', label: 'History' },
   ];
 
   return (
@@ -151,20 +233,83 @@ export function BrandAnalysisContent({
           isAnalyzing ? (
             <Badge variant="warning" className="animate-pulse-soft">
               <RefreshCw className="h-3 w-3 animate-spin mr-1.5" />
-              Analyzing...
+              Analyzing... {completedCount}/{totalCount}
             </Badge>
+          ) : brand.scrape_status === 'complete' ? (
+            <div className="flex items-center gap-2">
+              {canMonitorBrand(brand) && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={refresh.isPending || reanalyze.isPending}
+                  onClick={() => refresh.mutate(
+                    { brandId: brand.id },
+                    {
+                      onSuccess: () => {
+                        queryClient.invalidateQueries({ queryKey: brandChangeKeys.listByBrand(brand.id) });
+                        router.refresh();
+                      },
+                    }
+                  )}
+                >
+                  <RefreshCw className={cn('h-4 w-4 mr-1.5', refresh.isPending && 'animate-spin')} />
+                  Refresh
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={refresh.isPending || reanalyze.isPending}
+                onClick={() => setShowReanalyze(true)}
+              >
+                <Sparkles className="h-4 w-4 mr-1.5" />
+                Re-analyze
+              </Button>
+            </div>
           ) : null
         }
       />
 
+      <ReanalyzeBrandDialog
+        open={showReanalyze}
+        onOpenChange={setShowReanalyze}
+        brandName={decodeHtmlEntities(displayName)}
+        isReanalyzing={reanalyze.isPending}
+        usesSavedContent={!canMonitorBrand(brand)}
+        onConfirm={() => reanalyze.mutate(
+          { brandId: brand.id },
+          {
+            onSuccess: () => {
+              setShowReanalyze(false);
+              wasInitiallyAnalyzing.current = true;
+              queryClient.invalidateQueries({ queryKey: brandChangeKeys.listByBrand(brand.id) });
+              router.refresh();
+            },
+          }
+        )}
+      />
+
+      {editingRun?.parsed_data && (
+        <AnalysisEditDialog
+          open
+          onOpenChange={(open) => !open && setEditingType(null)}
+          brandId={brand.id}
+          run={editingRun}
+        />
+      )}
+
       {/* Completion celebration toast */}
       {justCompleted && wasInitiallyAnalyzing.current && (
         <CompletionCelebration onDismiss={acknowledgeCompletion} />
       )}
 
       {/* Tab Content */}
-      {activeTab === 'overview' && (
+      {activeTab === 'overview' && brand.scrape_status === 'failed' && (
+        <ScrapeFailedState brandId={brand.id} scrapeError={brand.scrape_error} />
+      )}
+      {activeTab === 'overview' && brand.scrape_status !== 'failed' && (
         <OverviewContent
+          brandId={brand.id}
           runs={runs}
           isAnalyzing={isAnalyzing}
           isRealtimeConnected={isRealtimeConnected}
@@ -175,14 +320,41 @@ export function BrandAnalysisContent({
           basicsLoading={basicsLoading}
           customerLoading={customerLoading}
           productsLoading={productsLoading}
+          basicsError={getCardError(basicsRun)}
+          customerError={getCardError(customerRun)}
+          productsError={getCardError(productsRun)}
+          basicsEditing={getCardEditing(basicsRun)}
+          customerEditing={getCardEditing(customerRun)}
+          productsEditing={getCardEditing(productsRun)}
+          visualIdentity={brand.visual_identity as VisualIdentity | null}
+          contactInfo={brand.contact_info as ContactInfo | null}
+          pricing={brand.pricing as PricingTable | null}
+          blogFeed={brand.blog_feed as BlogFeed | null}
+          language={brand.language as DetectedLanguage | null}
+          analysisLanguage={brand.analysis_language}
+          siteInventory={brand.site_inventory as SiteInventory | null}
         />
       )}
+      {activeTab === 'overview' && (
+        <div className="mt-8">
+          <ScrapeDiagnosticsPanel brandId={brand.id} />
+        </div>
+      )}
+      {activeTab === 'tech' && (
+        <TechStackTabContent brand={brand} />
+      )}
       {activeTab === 'store' && (
         <StoreTabContent brandId={brand.id} brand={brand} runs={runs} />
       )}
       {activeTab === 'docs' && (
         <DocsTabContent brandId={brand.id} runs={runs} />
       )}
+      {activeTab === 'changes' && (
+        <ChangesTabContent brand={brand} />
+      )}
+      {activeTab === 'history' && (
+        <HistoryTabContent brandId={brand.id} runs={runs} />
+      )}
     </>
   );
 }
@@ -192,6 +364,7 @@ export function BrandAnalysisContent({
 // ============================================================================
 
 interface OverviewContentProps {
+  brandId: string;
   runs: AnalysisRun[];
   isAnalyzing: boolean;
   isRealtimeConnected: boolean;
@@ -202,9 +375,23 @@ interface OverviewContentProps {
   basicsLoading: boolean;
   customerLoading: boolean;
   productsLoading: boolean;
+  basicsError: AnalyzerCardError | null;
+  customerError: AnalyzerCardError | null;
+  productsError: AnalyzerCardError | null;
+  basicsEditing: AnalyzerCardEditing | null;
+  customerEditing: AnalyzerCardEditing | null;
+  productsEditing: AnalyzerCardEditing | null;
+  visualIdentity: VisualIdentity | null;
+  contactInfo: ContactInfo | null;
+  pricing: PricingTable | null;
+  blogFeed: BlogFeed | null;
+  language: DetectedLanguage | null;
+  analysisLanguage: AnalysisLanguage;
+  siteInventory: SiteInventory | null;
 }
 
 function OverviewContent({
+  brandId,
   runs,
   isAnalyzing,
   isRealtimeConnected,
@@ -215,6 +402,19 @@ function OverviewContent({
   basicsLoading,
   customerLoading,
   productsLoading,
+  basicsError,
+  customerError,
+  productsError,
+  basicsEditing,
+  customerEditing,
+  productsEditing,
+  visualIdentity,
+  contactInfo,
+  pricing,
+  blogFeed,
+  language,
+  analysisLanguage,
+  siteInventory,
 }: OverviewContentProps) {
   return (
     <>
@@ -231,13 +431,41 @@ function OverviewContent({
               isPolling={isPolling}
             />
           )}
+
+          <AnalysisLanguagePicker
+            brandId={brandId}
+            language={language}
+            analysisLanguage={analysisLanguage}
+            disabled={isAnalyzing}
+          />
+
+          <ContactCard data={contactInfo} />
+          <SiteInventoryCard data={siteInventory} />
         </div>
 
         {/* Right Column - Analysis Results */}
         <div className="lg:col-span-2 space-y-6">
-          <BasicsCard data={basicsData} isLoading={basicsLoading} />
-          <CustomerCard data={customerData} isLoading={customerLoading} />
-          <ProductsCard data={productsData} isLoading={productsLoading} />
+          <BasicsCard
+            data={basicsData}
+            isLoading={basicsLoading}
+            error={basicsError}
+            editing={basicsEditing}
+          />
+          <VisualIdentityCard data={visualIdentity} />
+          <CustomerCard
+            data={customerData}
+            isLoading={customerLoading}
+            error={customerError}
+            editing={customerEditing}
+          />
+          <ProductsCard
+            data={productsData}
+            pricing={pricing}
+            isLoading={productsLoading}
+            error={productsError}
+            editing={productsEditing}
+          />
+          <RecentContentCard data={blogFeed} />
         </div>
       </div>
 
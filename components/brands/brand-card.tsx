@@ -9,6 +9,7 @@
  * - Shows analysis status with badge
  * - Displays "Your Brand" star for user's own brand
  * - Dropdown menu for delete action
+ * - Badge for website changes the user hasn't looked at yet
  *
  * @update 2025-12-19 - Updated styling for redesign with interactive Card
  */
@@ -17,9 +18,10 @@
 
 import { useState } from 'react';
 import Link from 'next/link';
-import { Star, MoreHorizontal, Trash2, ExternalLink, RefreshCw } from 'lucide-react';
+import { Star, MoreHorizontal, Trash2, ExternalLink, RefreshCw, History } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { StatusBadge } from '@/components/brands/status-badge';
 import {
   DropdownMenu,
@@ -59,7 +61,7 @@ function computeOverallStatus(brand: BrandWithAnalyses): AnalysisStatus | 'pendi
   if (runs.length === 0) return 'pending';
 
   // Check for any errors
-  const hasError = runs.some(r => r.status === 'error');
+  const hasError = runs.some(r => r.status === 'error' || r.status === 'invalid');
   if (hasError) return 'error';
 
   // Check for any in-progress
@@ -114,6 +116,7 @@ export function BrandCard({ brand, onDelete }: BrandCardProps) {
   const overallStatus = computeOverallStatus(brand);
   const domain = extractDomain(brand.source_url);
   const updatedAt = formatRelativeTime(brand.updated_at);
+  const unseenChanges = brand.brand_changes?.filter(c => !c.seen_at).length ?? 0;
 
   return (
     <Card interactive className="group relative">
@@ -147,6 +150,12 @@ export function BrandCard({ brand, onDelete }: BrandCardProps) {
               {/* Status and time */}
               <div className="flex items-center gap-3">
                 <StatusBadge status={overallStatus} />
+                {unseenChanges > 0 && (
+                  <Badge variant="info">
+                    <History className="h-3 w-3 mr-1" />
+                    {unseenChanges} new {unseenChanges === 1 ? 'change' : 'changes'}
+                  </Badge>
+                )}
                 <span className="text-xs text-muted-foreground">
                   {updatedAt}
                 </span>
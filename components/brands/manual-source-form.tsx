@@ -0,0 +1,181 @@
+/**
+ * MANUAL SOURCE FORM COMPONENT
+ * ==============================
+ * Lets the user supply brand content directly when a website can't be
+ * scraped: paste text, upload a deck (PDF, Word, text), or paste the
+ * page's HTML.
+ *
+ * Used by the add-brand form and by the failed-scrape state on the
+ * brand page.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { FileText, Upload, Code, ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils/cn';
+import type { ScraperType } from '@/lib/scrapers/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Content chosen by the user, ready to send to the API */
+export interface ManualSource {
+  scraperType: ScraperType;
+  content?: string;
+  file?: File;
+}
+
+type SourceMode = 'text' | 'file' | 'html';
+
+interface ManualSourceFormProps {
+  /** Called with the chosen content */
+  onSubmit: (source: ManualSource) => void;
+  /** Whether a submission is in progress */
+  isLoading?: boolean;
+  /** Error from the last submission */
+  error?: string | null;
+  /** Submit button text */
+  submitLabel?: string;
+  /** Extra fields rendered above the source picker */
+  children?: React.ReactNode;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MODES: { value: SourceMode; label: string; icon: typeof FileText }[] = [
+  { value: 'text', label: 'Paste text', icon: FileText },
+  { value: 'file', label: 'Upload file', icon: Upload },
+  { value: 'html', label: 'Paste HTML', icon: Code },
+];
+
+const ACCEPTED_FILES = '.pdf,.docx,.txt,.md,.html,.htm';
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Form for pasting or uploading brand content.
+ *
+ * @example
+ * <ManualSourceForm onSubmit={(source) => addSource.mutate({ brandId, ...source })} />
+ */
+export function ManualSourceForm({
+  onSubmit,
+  isLoading = false,
+  error,
+  submitLabel = 'Analyze Content',
+  children,
+}: ManualSourceFormProps) {
+  const [mode, setMode] = useState<SourceMode>('text');
+  const [content, setContent] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setLocalError(null);
+
+    if (mode === 'file') {
+      if (!file) {
+        setLocalError('Please choose a file to upload');
+        return;
+      }
+      // Saved web pages go through the HTML parser, everything else is a document
+      const isHtml = /\.html?$/i.test(file.name) || file.type.includes('html');
+      onSubmit({ scraperType: isHtml ? 'html-file' : 'document', file });
+      return;
+    }
+
+    if (!content.trim()) {
+      setLocalError(mode === 'html' ? 'Please paste the page HTML' : 'Please paste some content');
+      return;
+    }
+
+    onSubmit({ scraperType: mode === 'html' ? 'html-file' : 'manual-text', content });
+  };
+
+  const shownError = localError || error;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {children}
+
+      {/* Source picker */}
+      <div className="grid grid-cols-3 gap-2">
+        {MODES.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => { setMode(value); setLocalError(null); }}
+            disabled={isLoading}
+            className={cn(
+              'flex items-center justify-center gap-1.5 rounded-[var(--radius-md)] border px-3 py-2 text-sm transition-colors',
+              mode === value
+                ? 'border-primary bg-primary/10 text-foreground'
+                : 'border-border text-foreground-muted hover:bg-surface-muted'
+            )}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Source input */}
+      {mode === 'file' ? (
+        <div>
+          <input
+            type="file"
+            accept={ACCEPTED_FILES}
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            disabled={isLoading}
+            className="block w-full text-sm text-foreground-muted file:mr-3 file:rounded-[var(--radius-md)] file:border file:border-border file:bg-surface file:px-3 file:py-1.5 file:text-sm file:text-foreground"
+          />
+          <p className="mt-1.5 text-xs text-foreground-muted">
+            PDF, Word (.docx), text or saved .html page - up to 10MB
+          </p>
+        </div>
+      ) : (
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          disabled={isLoading}
+          rows={8}
+          placeholder={
+            mode === 'html'
+              ? 'Paste the page source (View Source → Select All → Copy)'
+              : 'Paste the brand’s About page, homepage copy, or any description of what they do'
+          }
+          className={cn(
+            `w-full rounded-[var(--radius-md)] bg-surface px-4 py-3 text-sm text-foreground shadow-warm-sm
+             placeholder:text-foreground-subtle
+             focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring
+             disabled:cursor-not-allowed disabled:opacity-50`,
+            mode === 'html' && 'font-mono text-xs',
+            shownError ? 'border-2 border-[var(--error)]' : 'border border-border'
+          )}
+        />
+      )}
+
+      {shownError && (
+        <p className="text-sm text-[var(--error)]">{shownError}</p>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        isLoading={isLoading}
+        loadingText="Reading content..."
+      >
+        {submitLabel}
+        <ArrowRight className="w-4 h-4" />
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,117 @@
+/**
+ * REANALYZE BRAND DIALOG COMPONENT
+ * ==================================
+ * Confirmation dialog for re-analyzing a brand.
+ * Explains that every analyzer runs again and that the current results
+ * are kept as a previous version. Brands built from supplied content are
+ * re-analyzed without scraping.
+ *
+ * Usage:
+ * - Controlled by parent component
+ * - Has cancel and re-analyze buttons
+ */
+
+'use client';
+
+import { Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ReanalyzeBrandDialogProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when open state changes */
+  onOpenChange: (open: boolean) => void;
+  /** Name of brand being re-analyzed (for display) */
+  brandName: string;
+  /** Callback when re-analysis is confirmed */
+  onConfirm: () => void;
+  /** Whether the re-scrape is in progress */
+  isReanalyzing?: boolean;
+  /** Re-analyze the saved content instead of scraping (pasted text, uploads) */
+  usesSavedContent?: boolean;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Confirmation dialog for re-analyzing a brand.
+ *
+ * @example
+ * <ReanalyzeBrandDialog
+ *   open={showReanalyze}
+ *   onOpenChange={setShowReanalyze}
+ *   brandName="Acme Corp"
+ *   onConfirm={handleReanalyze}
+ *   isReanalyzing={reanalyze.isPending}
+ * />
+ */
+export function ReanalyzeBrandDialog({
+  open,
+  onOpenChange,
+  brandName,
+  onConfirm,
+  isReanalyzing = false,
+  usesSavedContent = false,
+}: ReanalyzeBrandDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10">
+              <Sparkles className="h-5 w-5 text-primary" />
+            </div>
+            <DialogTitle>Re-analyze Brand</DialogTitle>
+          </div>
+          <DialogDescription className="pt-2">
+            {usesSavedContent ? (
+              <>
+                We&apos;ll re-run every analysis of{' '}
+                <span className="font-medium text-foreground">{brandName}</span>{' '}
+                on the content you supplied.
+              </>
+            ) : (
+              <>
+                We&apos;ll scrape{' '}
+                <span className="font-medium text-foreground">{brandName}</span>{' '}
+                again and re-run every analysis, even if the website hasn&apos;t changed.
+              </>
+            )}
+            {' '}The current results are kept as a previous version.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isReanalyzing}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={onConfirm}
+            isLoading={isReanalyzing}
+            loadingText={usesSavedContent ? 'Starting...' : 'Scraping...'}
+          >
+            Re-analyze
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
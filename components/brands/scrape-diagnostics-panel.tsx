@@ -0,0 +1,168 @@
+/**
+ * SCRAPE DIAGNOSTICS PANEL
+ * =========================
+ * Collapsible scrape history for the brand page. Each attempt shows what
+ * the scraper saw - redirects, status, size, timing, extracted text - so
+ * a failed or thin analysis can be traced back to the scrape.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Activity } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useScrapeAttempts } from '@/hooks';
+import { formatBytes, formatNumber, formatRelativeTime } from '@/lib/utils/format';
+import type { ScrapeAttempt, ScrapeAttemptTrigger } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const TRIGGER_LABELS: Record<ScrapeAttemptTrigger, string> = {
+  create: 'Brand added',
+  source: 'Content supplied',
+  manual: 'Manual refresh',
+  scheduled: 'Scheduled scan',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ScrapeDiagnosticsPanelProps {
+  brandId: string;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * "Scrape diagnostics" toggle with the brand's recent scrape attempts.
+ * Attempts are only fetched once the panel is opened.
+ *
+ * @example
+ * <ScrapeDiagnosticsPanel brandId={brand.id} />
+ */
+export function ScrapeDiagnosticsPanel({ brandId }: ScrapeDiagnosticsPanelProps) {
+  const [open, setOpen] = useState(false);
+  const { data: attempts, isLoading } = useScrapeAttempts(brandId, { enabled: open });
+
+  return (
+    <div className="space-y-3">
+      <Button variant="ghost" size="sm" className="-ml-3" onClick={() => setOpen(!open)}>
+        <Activity className="w-4 h-4" />
+        Scrape diagnostics
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </Button>
+
+      {open && isLoading && (
+        <div className="space-y-2">
+          <Skeleton className="h-12 rounded-lg" />
+          <Skeleton className="h-12 rounded-lg" />
+        </div>
+      )}
+
+      {open && !isLoading && (!attempts || attempts.length === 0) && (
+        <p className="text-sm text-muted-foreground">No scrape attempts recorded yet.</p>
+      )}
+
+      {open && attempts && attempts.length > 0 && (
+        <div className="space-y-2">
+          {attempts.map(attempt => (
+            <ScrapeAttemptRow key={attempt.id} attempt={attempt} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+/**
+ * One attempt: a summary line, expandable to the full diagnostics.
+ */
+function ScrapeAttemptRow({ attempt }: { attempt: ScrapeAttempt }) {
+  const [expanded, setExpanded] = useState(false);
+
+  const details: { label: string; value: string }[] = [
+    { label: 'Scraper', value: attempt.scraper_type },
+    { label: 'Requested', value: attempt.requested_url ?? '—' },
+    { label: 'Final URL', value: attempt.final_url ?? '—' },
+    { label: 'Status', value: attempt.status_code?.toString() ?? '—' },
+    { label: 'Content type', value: attempt.content_type ?? '—' },
+    { label: 'Response size', value: attempt.response_bytes !== null ? formatBytes(attempt.response_bytes) : '—' },
+    { label: 'Time to first byte', value: attempt.ttfb_ms !== null ? `${attempt.ttfb_ms} ms` : '—' },
+    { label: 'Cache', value: attempt.cache_status ?? '—' },
+    { label: 'Rendering', value: attempt.render_mode ?? '—' },
+    { label: 'Extracted text', value: `${formatNumber(attempt.extracted_chars)} characters` },
+    { label: 'Duration', value: attempt.duration_ms !== null ? `${attempt.duration_ms} ms` : '—' },
+  ];
+
+  return (
+    <div className="rounded-lg border border-border bg-surface p-3 text-sm">
+      <button
+        type="button"
+        className="flex w-full items-center justify-between gap-2 text-left"
+        aria-expanded={expanded}
+        onClick={() => setExpanded(!expanded)}
+      >
+        <span className="flex flex-wrap items-center gap-2">
+          <Badge variant={attempt.success ? 'success' : 'error'}>
+            {attempt.success ? 'Success' : 'Failed'}
+          </Badge>
+          {attempt.truncated && <Badge variant="warning">Truncated</Badge>}
+          <span className="text-foreground">{TRIGGER_LABELS[attempt.trigger]}</span>
+          <span className="text-xs text-muted-foreground">{formatRelativeTime(attempt.created_at)}</span>
+        </span>
+        {expanded ? <ChevronUp className="w-4 h-4 shrink-0" /> : <ChevronDown className="w-4 h-4 shrink-0" />}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          {attempt.error && (
+            <p className="text-[var(--error)]">{attempt.error}</p>
+          )}
+
+          <dl className="grid grid-cols-1 sm:grid-cols-[10rem_1fr] gap-x-4 gap-y-1">
+            {details.map(detail => (
+              <div key={detail.label} className="contents">
+                <dt className="text-muted-foreground">{detail.label}</dt>
+                <dd className="text-foreground break-all">{detail.value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {/* Redirect chain */}
+          {attempt.redirects.length > 1 && (
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-1">Redirects</p>
+              <ol className="space-y-0.5 text-xs">
+                {attempt.redirects.map((hop, index) => (
+                  <li key={index} className="break-all">
+                    <span className="font-mono text-muted-foreground">{hop.status}</span> {hop.url}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {attempt.cleaned_text && (
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-1">Cleaned text</p>
+              <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-md bg-surface-muted p-2 text-xs text-foreground">
+                {attempt.cleaned_text}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
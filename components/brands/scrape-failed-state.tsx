@@ -0,0 +1,78 @@
+/**
+ * SCRAPE FAILED STATE COMPONENT
+ * ===============================
+ * Shown on the brand page when the website couldn't be scraped.
+ * Explains what went wrong and offers to analyze pasted or uploaded
+ * content instead.
+ */
+
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { AlertCircle } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { useAddBrandSource } from '@/hooks';
+import { ManualSourceForm, type ManualSource } from './manual-source-form';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ScrapeFailedStateProps {
+  brandId: string;
+  /** Error saved when the scrape failed */
+  scrapeError: string | null;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Failed-scrape notice with a manual content form.
+ * Refreshes the page once analysis has started.
+ *
+ * @example
+ * {brand.scrape_status === 'failed' && (
+ *   <ScrapeFailedState brandId={brand.id} scrapeError={brand.scrape_error} />
+ * )}
+ */
+export function ScrapeFailedState({ brandId, scrapeError }: ScrapeFailedStateProps) {
+  const router = useRouter();
+  const addSource = useAddBrandSource();
+
+  const handleSubmit = (source: ManualSource) => {
+    addSource.mutate(
+      { brandId, ...source },
+      // Re-render the server page so the new brand status and runs load
+      { onSuccess: () => router.refresh() }
+    );
+  };
+
+  return (
+    <Card className="mt-6 max-w-2xl">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex gap-3">
+          <AlertCircle className="w-5 h-5 text-[var(--error)] shrink-0 mt-0.5" />
+          <div>
+            <h3 className="font-semibold text-foreground">
+              We couldn&apos;t read this website
+            </h3>
+            <p className="text-sm text-foreground-muted mt-1">
+              {scrapeError || 'The website could not be scraped.'}
+            </p>
+            <p className="text-sm text-foreground-muted mt-2">
+              You can still analyze this brand by pasting its content or uploading a brand document.
+            </p>
+          </div>
+        </div>
+
+        <ManualSourceForm
+          onSubmit={handleSubmit}
+          isLoading={addSource.isPending}
+          error={addSource.error?.message}
+        />
+      </CardContent>
+    </Card>
+  );
+}
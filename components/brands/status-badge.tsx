@@ -5,7 +5,7 @@
  */
 
 import { Badge } from '@/components/ui/badge';
-import { Loader2, CheckCircle, AlertCircle, Clock } from 'lucide-react';
+import { Loader2, CheckCircle, AlertCircle, AlertTriangle, Clock } from 'lucide-react';
 import type { AnalysisStatus } from '@/types';
 
 // ============================================================================
@@ -54,6 +54,11 @@ const statusConfig: Record<
     variant: 'error',
     icon: AlertCircle,
   },
+  invalid: {
+    label: 'Invalid output',
+    variant: 'error',
+    icon: AlertTriangle,
+  },
   pending: {
     label: 'Pending',
     variant: 'default',
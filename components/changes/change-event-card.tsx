@@ -0,0 +1,127 @@
+/**
+ * CHANGE EVENT CARD
+ * ==================
+ * One entry in the brand's change timeline: summary, highlights, and an
+ * expandable list of added/removed paragraphs.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Package, Tag, MessageSquare } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { formatRelativeTime } from '@/lib/utils/format';
+import { cn } from '@/lib/utils/cn';
+import type { BrandChange, ChangeHighlight, ChangeHighlightKind } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const HIGHLIGHT_ICONS: Record<ChangeHighlightKind, typeof Package> = {
+  product: Package,
+  price: Tag,
+  messaging: MessageSquare,
+};
+
+const CHANGE_LABELS: Record<ChangeHighlight['change'], string> = {
+  added: 'New',
+  removed: 'Removed',
+  changed: 'Changed',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ChangeEventCardProps {
+  change: BrandChange;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Timeline entry for a detected website change.
+ *
+ * @example
+ * <ChangeEventCard change={change} />
+ */
+export function ChangeEventCard({ change }: ChangeEventCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const hasDetails = change.added.length > 0 || change.removed.length > 0;
+
+  return (
+    <div className="relative pl-6">
+      {/* Timeline dot */}
+      <span
+        className={cn(
+          'absolute left-0 top-1.5 h-2.5 w-2.5 rounded-full',
+          change.seen_at ? 'bg-border' : 'bg-primary'
+        )}
+      />
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-sm font-medium text-foreground">{change.summary}</p>
+          {!change.seen_at && <Badge variant="info">New</Badge>}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {formatRelativeTime(change.created_at)}
+          {' • '}
+          {change.trigger === 'scheduled' ? 'Scheduled scan' : 'Manual refresh'}
+        </p>
+
+        {/* Highlights */}
+        {change.highlights.length > 0 && (
+          <ul className="space-y-1.5">
+            {change.highlights.map((highlight, index) => {
+              const Icon = HIGHLIGHT_ICONS[highlight.kind];
+              return (
+                <li key={index} className="flex items-start gap-2 text-sm">
+                  <Icon className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+                  <span className="text-xs font-medium text-muted-foreground w-16 flex-shrink-0 mt-0.5">
+                    {CHANGE_LABELS[highlight.change]}
+                  </span>
+                  <span className="text-foreground">{highlight.text}</span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {/* Full diff */}
+        {hasDetails && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="-ml-3"
+            onClick={() => setExpanded(!expanded)}
+          >
+            {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            {expanded ? 'Hide details' : 'Show details'}
+          </Button>
+        )}
+
+        {expanded && (
+          <div className="space-y-2 rounded-lg border border-border bg-surface p-3 text-sm">
+            {change.added.map((paragraph, index) => (
+              <p key={`added-${index}`} className="text-[var(--success)]">+ {paragraph}</p>
+            ))}
+            {change.removed.map((paragraph, index) => (
+              <p key={`removed-${index}`} className="text-[var(--error)] line-through">- {paragraph}</p>
+            ))}
+            {(change.added_count > change.added.length || change.removed_count > change.removed.length) && (
+              <p className="text-xs text-muted-foreground">
+                Showing {change.added.length + change.removed.length} of{' '}
+                {change.added_count + change.removed_count} changed sections.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * CHANGES TAB CONTENT
+ * ====================
+ * Website change timeline for the brand profile page, with the
+ * monitoring schedule on top. Opening the tab marks changes as seen.
+ * Brands built from pasted text or an uploaded document can't be monitored.
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { History } from 'lucide-react';
+import { MonitorSchedulePicker } from './monitor-schedule-picker';
+import { ChangeEventCard } from './change-event-card';
+import { useBrandChanges, useMarkChangesSeen } from '@/hooks';
+import { canMonitorBrand } from '@/lib/monitoring/schedule';
+import { EmptyState } from '@/components/ui/empty-state';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { Brand } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ChangesTabContentProps {
+  brand: Brand;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Monitoring schedule and change timeline.
+ *
+ * @example
+ * <ChangesTabContent brand={brand} />
+ */
+export function ChangesTabContent({ brand }: ChangesTabContentProps) {
+  const { data: changes, isLoading } = useBrandChanges(brand.id);
+  const { mutate: markSeen } = useMarkChangesSeen();
+
+  const unseenCount = changes?.filter(c => !c.seen_at).length ?? 0;
+  const canMonitor = canMonitorBrand(brand);
+
+  // Viewing the timeline counts as seeing the changes
+  useEffect(() => {
+    if (unseenCount > 0) {
+      markSeen(brand.id);
+    }
+  }, [brand.id, unseenCount, markSeen]);
+
+  return (
+    <div className="space-y-8">
+      {canMonitor && (
+        <MonitorSchedulePicker
+          brandId={brand.id}
+          frequency={brand.monitor_frequency}
+          nextCheckAt={brand.next_check_at}
+        />
+      )}
+
+      {isLoading && (
+        <div className="space-y-4">
+          <Skeleton className="h-16 rounded-lg" />
+          <Skeleton className="h-16 rounded-lg" />
+        </div>
+      )}
+
+      {!isLoading && (!changes || changes.length === 0) && (
+        <EmptyState
+          icon={<History className="h-8 w-8" />}
+          title="No changes recorded yet"
+          description={canMonitor
+            ? 'Turn on monitoring or refresh the brand - new products, price changes and new messaging will show up here.'
+            : 'This brand was built from content you supplied, so there is no website to monitor.'}
+        />
+      )}
+
+      {changes && changes.length > 0 && (
+        <div className="space-y-6 border-l border-border ml-1">
+          {changes.map(change => (
+            <ChangeEventCard key={change.id} change={change} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+/**
+ * CHANGES COMPONENTS
+ * ===================
+ * UI components for website change monitoring.
+ * Import from '@/components/changes' instead of individual files.
+ */
+
+// Main content component
+export { ChangesTabContent } from './changes-tab-content';
+
+// Timeline and schedule
+export { ChangeEventCard } from './change-event-card';
+export { MonitorSchedulePicker } from './monitor-schedule-picker';
@@ -0,0 +1,84 @@
+/**
+ * MONITOR SCHEDULE PICKER
+ * ========================
+ * Off / Weekly / Monthly toggle for scheduled re-scans of a brand.
+ */
+
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { CalendarClock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useUpdateMonitorSchedule } from '@/hooks';
+import { MONITOR_FREQUENCY_OPTIONS } from '@/lib/monitoring/schedule';
+import { formatDate } from '@/lib/utils/format';
+import type { MonitorFrequency } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface MonitorSchedulePickerProps {
+  brandId: string;
+  frequency: MonitorFrequency;
+  /** When the next scheduled scan is due */
+  nextCheckAt: string | null;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Segmented control for the brand's monitoring schedule.
+ *
+ * @example
+ * <MonitorSchedulePicker
+ *   brandId={brand.id}
+ *   frequency={brand.monitor_frequency}
+ *   nextCheckAt={brand.next_check_at}
+ * />
+ */
+export function MonitorSchedulePicker({ brandId, frequency, nextCheckAt }: MonitorSchedulePickerProps) {
+  const router = useRouter();
+  const updateSchedule = useUpdateMonitorSchedule();
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-xl border border-border bg-surface p-4">
+      <div className="flex items-start gap-3">
+        <CalendarClock className="w-5 h-5 text-primary mt-0.5 flex-shrink-0" />
+        <div>
+          <p className="text-sm font-medium text-foreground">Monitor this website</p>
+          <p className="text-xs text-muted-foreground">
+            {frequency === 'off' || !nextCheckAt
+              ? 'Re-scan automatically and record what changes.'
+              : `Next scan ${formatDate(nextCheckAt)}`}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex gap-1" role="radiogroup" aria-label="Monitoring schedule">
+        {MONITOR_FREQUENCY_OPTIONS.map((option) => (
+          <Button
+            key={option.value}
+            size="sm"
+            variant={option.value === frequency ? 'default' : 'ghost'}
+            role="radio"
+            aria-checked={option.value === frequency}
+            disabled={updateSchedule.isPending}
+            onClick={() => {
+              if (option.value !== frequency) {
+                updateSchedule.mutate(
+                  { brandId, frequency: option.value },
+                  { onSuccess: () => router.refresh() }
+                );
+              }
+            }}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
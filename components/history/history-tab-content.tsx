@@ -0,0 +1,200 @@
+/**
+ * HISTORY TAB CONTENT
+ * ====================
+ * Analyzer result history for the brand profile page. Every analyzer
+ * execution is stored as a version; pick an analyzer, browse its
+ * versions and compare any two field by field.
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { History } from 'lucide-react';
+import { VersionDiff } from './version-diff';
+import { useAnalysisVersions, analysisVersionKeys } from '@/hooks';
+import { analyzerConfigs } from '@/lib/analyzers';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { EmptyState } from '@/components/ui/empty-state';
+import { ErrorState } from '@/components/ui/error-state';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatDate, formatRelativeTime } from '@/lib/utils/format';
+import { cn } from '@/lib/utils/cn';
+import type { AnalysisRun, AnalysisVersion, AnalyzerType } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface HistoryTabContentProps {
+  brandId: string;
+  /** The brand's analysis runs (for the current version pointers) */
+  runs: AnalysisRun[];
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Analyzer picker, version list and comparison.
+ *
+ * @example
+ * <HistoryTabContent brandId={brand.id} runs={runs} />
+ */
+export function HistoryTabContent({ brandId, runs }: HistoryTabContentProps) {
+  const queryClient = useQueryClient();
+  const { data: allVersions, isLoading, error, refetch } = useAnalysisVersions(brandId);
+
+  const [analyzerType, setAnalyzerType] = useState<AnalyzerType>('basics');
+  // Versions picked for comparison; null until the user picks (two newest)
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+
+  const currentVersionId = runs.find(r => r.analyzer_type === analyzerType)?.current_version_id ?? null;
+
+  const versions = useMemo(
+    () => (allVersions ?? []).filter(v => v.analyzer_type === analyzerType),
+    [allVersions, analyzerType]
+  );
+
+  // A run finished while the tab is open - fetch its new version
+  const currentIds = runs.map(r => r.current_version_id).filter(Boolean).join(',');
+  useEffect(() => {
+    if (allVersions && currentIds.split(',').some(id => id && !allVersions.some(v => v.id === id))) {
+      queryClient.invalidateQueries({ queryKey: analysisVersionKeys.listByBrand(brandId) });
+    }
+  }, [allVersions, currentIds, brandId, queryClient]);
+
+  const compareIds = selectedIds ?? versions.slice(0, 2).map(v => v.id);
+  const compared = versions
+    .filter(v => compareIds.includes(v.id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  const toggleVersion = (id: string) => {
+    if (compareIds.includes(id)) {
+      setSelectedIds(compareIds.filter(selected => selected !== id));
+    } else {
+      // Keep the most recently picked one and add the new pick
+      setSelectedIds([...compareIds.slice(-1), id]);
+    }
+  };
+
+  const selectAnalyzer = (type: AnalyzerType) => {
+    setAnalyzerType(type);
+    setSelectedIds(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-1" role="radiogroup" aria-label="Analyzer">
+        {analyzerConfigs.map(config => (
+          <Button
+            key={config.id}
+            size="sm"
+            variant={config.id === analyzerType ? 'default' : 'ghost'}
+            role="radio"
+            aria-checked={config.id === analyzerType}
+            onClick={() => selectAnalyzer(config.id)}
+          >
+            {config.name}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading && (
+        <div className="space-y-3">
+          <Skeleton className="h-14 rounded-lg" />
+          <Skeleton className="h-14 rounded-lg" />
+        </div>
+      )}
+
+      {error && (
+        <ErrorState
+          title="Couldn't load the history"
+          error={error}
+          onRetry={() => refetch()}
+        />
+      )}
+
+      {!isLoading && !error && versions.length === 0 && (
+        <EmptyState
+          icon={<History className="h-8 w-8" />}
+          title="No versions yet"
+          description="Each time this analyzer runs, its result is stored here so you can compare it with earlier ones."
+        />
+      )}
+
+      {versions.length > 0 && (
+        <>
+          <ul className="divide-y divide-border rounded-xl border border-border">
+            {versions.map(version => (
+              <VersionRow
+                key={version.id}
+                version={version}
+                isCurrent={version.id === currentVersionId}
+                isSelected={compareIds.includes(version.id)}
+                onToggle={() => toggleVersion(version.id)}
+              />
+            ))}
+          </ul>
+
+          {compared.length === 2 ? (
+            <VersionDiff older={compared[0]} newer={compared[1]} />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {versions.length === 1
+                ? 'Only one version so far - re-analyze the brand to compare results.'
+                : 'Pick two versions to compare them.'}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+interface VersionRowProps {
+  version: AnalysisVersion;
+  isCurrent: boolean;
+  isSelected: boolean;
+  onToggle: () => void;
+}
+
+/**
+ * One version: when it ran, with which prompt and model (or that it was
+ * saved from the edit form).
+ */
+function VersionRow({ version, isCurrent, isSelected, onToggle }: VersionRowProps) {
+  const ranAt = version.analyzed_at ?? version.created_at;
+
+  return (
+    <li className={cn('flex items-center gap-3 px-4 py-3', isSelected && 'bg-muted/50')}>
+      <Checkbox
+        checked={isSelected}
+        onCheckedChange={onToggle}
+        aria-label={`Compare version from ${formatDate(ranAt)}`}
+      />
+      <div className="min-w-0 flex-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-foreground">{formatDate(ranAt)}</span>
+          {isCurrent && <Badge variant="success">Current</Badge>}
+          {version.source === 'human' && <Badge variant="muted">Edited</Badge>}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {formatRelativeTime(ranAt)}
+          {' • '}
+          {version.source === 'human'
+            ? 'Saved from the edit form'
+            : version.prompt_version !== null ? `Prompt v${version.prompt_version}` : 'Prompt unknown'}
+          {version.model && ` • ${version.model}`}
+        </p>
+      </div>
+    </li>
+  );
+}
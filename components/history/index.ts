@@ -0,0 +1,12 @@
+/**
+ * HISTORY COMPONENTS
+ * ===================
+ * UI components for the analyzer result history.
+ * Import from '@/components/history' instead of individual files.
+ */
+
+// Main content component
+export { HistoryTabContent } from './history-tab-content';
+
+// Comparison
+export { VersionDiff } from './version-diff';
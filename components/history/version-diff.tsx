@@ -0,0 +1,156 @@
+/**
+ * VERSION DIFF
+ * =============
+ * Field-level comparison of two stored results from the same analyzer.
+ * Changed fields are listed first; unchanged ones are behind a toggle.
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ArrowRight, ChevronDown, ChevronUp } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { diffParsedResults, formatFieldValue } from '@/lib/analyzers/diff';
+import { formatDate } from '@/lib/utils/format';
+import type { FieldChange, FieldDiff } from '@/lib/analyzers/diff';
+import type { AnalysisVersion } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const CHANGE_BADGES: Record<Exclude<FieldChange, 'unchanged'>, {
+  label: string;
+  variant: 'success' | 'error' | 'warning';
+}> = {
+  added: { label: 'Added', variant: 'success' },
+  removed: { label: 'Removed', variant: 'error' },
+  changed: { label: 'Changed', variant: 'warning' },
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface VersionDiffProps {
+  /** The older of the two versions */
+  older: AnalysisVersion;
+  /** The newer of the two versions */
+  newer: AnalysisVersion;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Differences between two versions of one analyzer's result.
+ *
+ * @example
+ * <VersionDiff older={versions[1]} newer={versions[0]} />
+ */
+export function VersionDiff({ older, newer }: VersionDiffProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const diff = useMemo(
+    () => diffParsedResults(older.parsed_data, newer.parsed_data),
+    [older, newer]
+  );
+  const changed = diff.filter(d => d.change !== 'unchanged');
+  const unchanged = diff.filter(d => d.change === 'unchanged');
+
+  return (
+    <div className="space-y-4 rounded-xl border border-border bg-surface p-4">
+      <p className="text-sm text-muted-foreground">
+        Comparing {formatDate(older.analyzed_at ?? older.created_at)}
+        {' → '}
+        {formatDate(newer.analyzed_at ?? newer.created_at)}
+        {' • '}
+        {changed.length === 0
+          ? 'No differences'
+          : `${changed.length} field${changed.length === 1 ? '' : 's'} changed`}
+      </p>
+
+      {changed.length > 0 && (
+        <ul className="divide-y divide-border">
+          {changed.map(field => (
+            <FieldDiffRow key={field.field} field={field} />
+          ))}
+        </ul>
+      )}
+
+      {unchanged.length > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="-ml-3"
+          onClick={() => setShowUnchanged(!showUnchanged)}
+        >
+          {showUnchanged ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          {showUnchanged ? 'Hide' : 'Show'} {unchanged.length} unchanged field{unchanged.length === 1 ? '' : 's'}
+        </Button>
+      )}
+
+      {showUnchanged && (
+        <ul className="divide-y divide-border">
+          {unchanged.map(field => (
+            <li key={field.field} className="py-2 text-sm">
+              <span className="font-medium text-foreground">{field.label}</span>
+              <p className="text-muted-foreground break-words">{formatFieldValue(field.after)}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+interface FieldDiffRowProps {
+  field: FieldDiff;
+}
+
+/**
+ * One changed field: item-level changes for lists, before → after otherwise.
+ */
+function FieldDiffRow({ field }: FieldDiffRowProps) {
+  const badge = CHANGE_BADGES[field.change as Exclude<FieldChange, 'unchanged'>];
+  const isList = field.addedItems !== undefined;
+
+  return (
+    <li className="space-y-1.5 py-3 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-medium text-foreground">{field.label}</span>
+        <Badge variant={badge.variant}>{badge.label}</Badge>
+      </div>
+
+      {isList ? (
+        <div className="space-y-1">
+          {field.addedItems?.map(item => (
+            <p key={`added-${item}`} className="text-[var(--success)]">+ {item}</p>
+          ))}
+          {field.removedItems?.map(item => (
+            <p key={`removed-${item}`} className="text-[var(--error)] line-through">- {item}</p>
+          ))}
+          {field.changedItems?.map(item => (
+            <p key={`changed-${item}`} className="text-foreground">~ {item} (details changed)</p>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col gap-1 sm:flex-row sm:items-start sm:gap-2">
+          <span className="text-[var(--error)] line-through break-words">
+            {formatFieldValue(field.before)}
+          </span>
+          <ArrowRight className="hidden sm:block w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+          <span className="text-[var(--success)] break-words">
+            {formatFieldValue(field.after)}
+          </span>
+        </div>
+      )}
+    </li>
+  );
+}
@@ -45,7 +45,7 @@ function getBrandStatus(brand: BrandWithAnalyses): BrandStatus {
   }
 
   // Check for any errors
-  const hasError = runs.some(r => r.status === 'error');
+  const hasError = runs.some(r => r.status === 'error' || r.status === 'invalid');
   if (hasError) {
     return 'error';
   }
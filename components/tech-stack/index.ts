@@ -0,0 +1,12 @@
+/**
+ * TECH STACK COMPONENTS
+ * ======================
+ * UI components for the detected technology stack.
+ * Import from '@/components/tech-stack' instead of individual files.
+ */
+
+// Main content component
+export { TechStackTabContent } from './tech-stack-tab-content';
+
+// Individual detections
+export { TechCard } from './tech-card';
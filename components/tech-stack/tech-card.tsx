@@ -0,0 +1,73 @@
+/**
+ * TECH CARD
+ * ==========
+ * One detected technology: name, version, confidence and the evidence
+ * the detection was based on.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import type { TechDetection, TechEvidenceType } from '@/lib/scrapers/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const EVIDENCE_LABELS: Record<TechEvidenceType, string> = {
+  html: 'Markup',
+  script: 'Asset',
+  header: 'Header',
+  cookie: 'Cookie',
+  meta: 'Generator',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface TechCardProps {
+  detection: TechDetection;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Card for a single detected technology.
+ *
+ * @example
+ * <TechCard detection={techStack.technologies[0]} />
+ */
+export function TechCard({ detection }: TechCardProps) {
+  const isConfident = detection.confidence >= 100;
+
+  return (
+    <div className="rounded-lg border border-border bg-surface p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium text-foreground">{detection.name}</p>
+          {detection.version && (
+            <p className="text-xs text-muted-foreground">v{detection.version.replace(/^v/i, '')}</p>
+          )}
+        </div>
+        <Badge variant={isConfident ? 'success' : 'muted'}>
+          {isConfident ? 'Confirmed' : `${detection.confidence}% likely`}
+        </Badge>
+      </div>
+
+      {/* Evidence */}
+      <ul className="space-y-1">
+        {detection.evidence.map((evidence) => (
+          <li key={`${evidence.type}:${evidence.detail}`} className="flex gap-2 text-xs">
+            <span className="text-muted-foreground flex-shrink-0 w-16">
+              {EVIDENCE_LABELS[evidence.type]}
+            </span>
+            <code className="text-foreground-muted truncate" title={evidence.detail}>
+              {evidence.detail}
+            </code>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * TECH STACK TAB CONTENT
+ * =======================
+ * Technologies detected on the brand's website, grouped by category.
+ * Detection happens during the scrape (see lib/scrapers/extractors/tech-stack.ts).
+ */
+
+'use client';
+
+import {
+  BarChart3,
+  Code2,
+  CreditCard,
+  FileText,
+  Layers,
+  LayoutTemplate,
+  Mail,
+  Megaphone,
+  MessageCircle,
+  Server,
+  ShoppingCart,
+} from 'lucide-react';
+import { TechCard } from './tech-card';
+import { EmptyState } from '@/components/ui/empty-state';
+import { formatRelativeTime } from '@/lib/utils/format';
+import type { Brand } from '@/types';
+import type { TechCategory, TechStack } from '@/lib/scrapers/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Categories in display order */
+const CATEGORIES: { value: TechCategory; label: string; icon: typeof Layers }[] = [
+  { value: 'cms', label: 'CMS', icon: FileText },
+  { value: 'ecommerce', label: 'E-commerce', icon: ShoppingCart },
+  { value: 'site-builder', label: 'Site Builder', icon: LayoutTemplate },
+  { value: 'framework', label: 'Framework', icon: Code2 },
+  { value: 'payments', label: 'Payments', icon: CreditCard },
+  { value: 'marketing', label: 'Marketing Automation', icon: Mail },
+  { value: 'analytics', label: 'Analytics', icon: BarChart3 },
+  { value: 'advertising', label: 'Advertising', icon: Megaphone },
+  { value: 'chat', label: 'Chat & Support', icon: MessageCircle },
+  { value: 'hosting', label: 'Hosting & CDN', icon: Server },
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface TechStackTabContentProps {
+  brand: Brand;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * Detected technologies grouped by category.
+ *
+ * @example
+ * <TechStackTabContent brand={brand} />
+ */
+export function TechStackTabContent({ brand }: TechStackTabContentProps) {
+  const technologies = (brand.tech_stack as TechStack | null)?.technologies ?? [];
+
+  if (technologies.length === 0) {
+    return (
+      <EmptyState
+        icon={<Layers className="h-8 w-8" />}
+        title="No technologies detected"
+        description="We look for CMS, e-commerce, analytics, ad pixels, payments and chat widgets when the website is scraped. Refresh the brand to check again."
+      />
+    );
+  }
+
+  const groups = CATEGORIES
+    .map(category => ({
+      ...category,
+      items: technologies.filter(t => t.category === category.value),
+    }))
+    .filter(group => group.items.length > 0);
+
+  return (
+    <div className="space-y-8">
+      <p className="text-sm text-muted-foreground">
+        {technologies.length} {technologies.length === 1 ? 'technology' : 'technologies'} detected
+        {brand.scraped_at && ` • Scanned ${formatRelativeTime(brand.scraped_at)}`}
+      </p>
+
+      {groups.map(({ value, label, icon: Icon, items }) => (
+        <section key={value} className="space-y-3">
+          <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground">
+            <Icon className="h-4 w-4 text-primary" />
+            {label}
+          </h3>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {items.map(detection => (
+              <TechCard key={detection.name} detection={detection} />
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
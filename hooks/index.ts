@@ -13,17 +13,30 @@ export { useAuthGate } from './use-auth-gate';
 
 // Analysis hooks
 export { useRealtimeAnalysis } from './use-realtime-analysis';
-export { useBrandAnalysis } from './use-brand-analysis';
+export {
+  useBrandAnalysis,
+  useRetryAnalyzer,
+  useEditAnalysis,
+  type RetryAnalyzerInput,
+  type EditAnalysisInput,
+} from './use-brand-analysis';
 
 // React Query hooks (brand data fetching)
 export {
   useBrands,
   useBrand,
   useCreateBrand,
+  useAddBrandSource,
   useDeleteBrand,
+  useRefreshBrand,
   useReanalyzeBrand,
+  useUpdateAnalysisLanguage,
   usePrefetchBrand,
   brandKeys,
+  type BrandSourceInput,
+  type RefreshBrandInput,
+  type ReanalyzeBrandInput,
+  type AnalysisLanguageInput,
 } from './use-brands';
 
 // React Query hooks (docs data fetching)
@@ -39,6 +52,27 @@ export {
   docKeys,
 } from './use-docs';
 
+// React Query hooks (website change monitoring)
+export {
+  useBrandChanges,
+  useMarkChangesSeen,
+  useUpdateMonitorSchedule,
+  brandChangeKeys,
+  type MonitorScheduleInput,
+} from './use-brand-changes';
+
+// React Query hooks (scrape diagnostics)
+export {
+  useScrapeAttempts,
+  scrapeAttemptKeys,
+} from './use-scrape-attempts';
+
+// React Query hooks (analysis version history)
+export {
+  useAnalysisVersions,
+  analysisVersionKeys,
+} from './use-analysis-versions';
+
 // Integration hooks (Google, etc.)
 export {
   useGoogleIntegration,
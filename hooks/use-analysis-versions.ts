@@ -0,0 +1,78 @@
+/**
+ * USE ANALYSIS VERSIONS HOOK
+ * ===========================
+ * React Query hook for a brand's analyzer result history.
+ *
+ * Usage:
+ *   const { data: versions } = useAnalysisVersions(brandId);
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { createBrowserClient } from '@/lib/supabase/client';
+import { log } from '@/lib/utils/logger';
+import type { AnalysisVersion } from '@/types';
+
+// ============================================================================
+// QUERY KEYS
+// ============================================================================
+
+/**
+ * Query key factory for analysis versions.
+ */
+export const analysisVersionKeys = {
+  all: ['analysis-versions'] as const,
+  listByBrand: (brandId: string) => [...analysisVersionKeys.all, brandId] as const,
+};
+
+// ============================================================================
+// FETCH FUNCTIONS
+// ============================================================================
+
+/**
+ * Fetch every stored analyzer result for a brand, newest first.
+ */
+async function fetchAnalysisVersions(brandId: string): Promise<AnalysisVersion[]> {
+  const supabase = createBrowserClient();
+
+  if (!supabase) {
+    log.warn('Supabase client not available');
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('analysis_versions')
+    .select('*')
+    .eq('brand_id', brandId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    log.error('Failed to fetch analysis versions', { error: error.message, brandId });
+    throw new Error(error.message);
+  }
+
+  return (data ?? []) as AnalysisVersion[];
+}
+
+// ============================================================================
+// QUERY HOOKS
+// ============================================================================
+
+/**
+ * Hook to fetch a brand's analyzer result history (all analyzers).
+ *
+ * @param brandId - The brand UUID
+ * @param options.enabled - Fetch only while true
+ *
+ * @example
+ * const { data: versions, isLoading } = useAnalysisVersions(brandId);
+ * const basics = versions?.filter(v => v.analyzer_type === 'basics');
+ */
+export function useAnalysisVersions(brandId: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: analysisVersionKeys.listByBrand(brandId),
+    queryFn: () => fetchAnalysisVersions(brandId),
+    enabled: !!brandId && (options.enabled ?? true),
+  });
+}
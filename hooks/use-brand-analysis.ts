@@ -15,12 +15,16 @@
  *     brandId,
  *     initialRuns,
  *   });
+ *   const retry = useRetryAnalyzer();
+ *   const edit = useEditAnalysis();
  */
 
 'use client';
 
 import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { useMutation } from '@tanstack/react-query';
 import { useRealtimeAnalysis } from './use-realtime-analysis';
+import { toast } from '@/components/ui/sonner';
 import { log } from '@/lib/utils/logger';
 import type { AnalysisRun, AnalyzerType } from '@/types';
 import type { ParsedBasics, ParsedCustomer, ParsedProducts } from '@/types/analyzers';
@@ -98,7 +102,7 @@ function checkAllComplete(runs: AnalysisRun[]): boolean {
  * Check if any runs have errors
  */
 function checkHasErrors(runs: AnalysisRun[]): boolean {
-  return runs.some((r) => r.status === 'error');
+  return runs.some((r) => r.status === 'error' || r.status === 'invalid');
 }
 
 // ============================================================================
@@ -154,6 +158,11 @@ export function useBrandAnalysis(
 
       setRuns(newRuns);
 
+      // A re-analysis or retry starts the cycle again
+      if (hasCompletedRef.current && newRuns.some((r) => isRunning(r.status))) {
+        hasCompletedRef.current = false;
+      }
+
       // Check for completion transition
       const wasComplete = hasCompletedRef.current;
       const nowComplete = checkAllComplete(newRuns);
@@ -255,3 +264,104 @@ export function useBrandAnalysis(
     acknowledgeCompletion,
   };
 }
+
+// ============================================================================
+// RETRY
+// ============================================================================
+
+/**
+ * Input for retrying one analyzer.
+ */
+export interface RetryAnalyzerInput {
+  brandId: string;
+  analyzerType: AnalyzerType;
+}
+
+/**
+ * Hook to re-run one failed analyzer on the brand's saved content.
+ * The run's progress arrives through useBrandAnalysis' realtime updates.
+ *
+ * @example
+ * const retry = useRetryAnalyzer();
+ * retry.mutate({ brandId, analyzerType: 'customer' });
+ */
+export function useRetryAnalyzer() {
+  return useMutation({
+    mutationFn: async (input: RetryAnalyzerInput): Promise<{ retriesLeft: number }> => {
+      log.info('Retrying analyzer', { brandId: input.brandId, analyzerType: input.analyzerType });
+
+      const response = await fetch(`/api/brands/${input.brandId}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ analyzerType: input.analyzerType }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to retry analysis');
+      }
+
+      log.success('Analyzer retry started', { brandId: input.brandId, analyzerType: input.analyzerType });
+      return { retriesLeft: data.retriesLeft ?? 0 };
+    },
+    onSuccess: () => {
+      toast.success('Retry started!');
+    },
+    onError: (error) => {
+      log.error('Failed to retry analyzer', { error: error.message });
+      toast.error(error.message);
+    },
+  });
+}
+
+// ============================================================================
+// EDIT
+// ============================================================================
+
+/**
+ * Input for saving a corrected analyzer result.
+ */
+export interface EditAnalysisInput {
+  brandId: string;
+  analyzerType: AnalyzerType;
+  /** The complete edited result (checked with validateParsedData first) */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Hook to save a user's corrections to one analyzer's result.
+ * Edited fields are marked human-edited and survive reruns; the updated
+ * run also arrives through useBrandAnalysis' realtime updates.
+ *
+ * @example
+ * const edit = useEditAnalysis();
+ * edit.mutate({ brandId, analyzerType: 'basics', data: values });
+ */
+export function useEditAnalysis() {
+  return useMutation({
+    mutationFn: async (input: EditAnalysisInput): Promise<{ run: AnalysisRun; changedFields: string[] }> => {
+      log.info('Saving analysis edit', { brandId: input.brandId, analyzerType: input.analyzerType });
+
+      const response = await fetch(`/api/brands/${input.brandId}/analysis`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ analyzerType: input.analyzerType, data: input.data }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save your changes');
+      }
+
+      log.success('Analysis edit saved', { brandId: input.brandId, changedFields: data.changedFields });
+      return { run: data.run, changedFields: data.changedFields ?? [] };
+    },
+    onSuccess: ({ changedFields }) => {
+      toast.success(changedFields.length > 0 ? 'Changes saved!' : 'Nothing changed');
+    },
+    onError: (error) => {
+      log.error('Failed to save analysis edit', { error: error.message });
+      toast.error(error.message);
+    },
+  });
+}
@@ -0,0 +1,179 @@
+/**
+ * USE BRAND CHANGES HOOKS
+ * ========================
+ * React Query hooks for the website change timeline and the brand's
+ * monitoring schedule.
+ *
+ * Usage:
+ *   const { data: changes } = useBrandChanges(brandId);
+ *   const markSeen = useMarkChangesSeen();
+ *   const updateSchedule = useUpdateMonitorSchedule();
+ */
+
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { createBrowserClient } from '@/lib/supabase/client';
+import { getNextCheckAt } from '@/lib/monitoring/schedule';
+import { toast } from '@/components/ui/sonner';
+import { log } from '@/lib/utils/logger';
+import { brandKeys } from './use-brands';
+import type { BrandChange, MonitorFrequency } from '@/types';
+
+// ============================================================================
+// QUERY KEYS
+// ============================================================================
+
+/**
+ * Query key factory for brand changes.
+ */
+export const brandChangeKeys = {
+  all: ['brand-changes'] as const,
+  listByBrand: (brandId: string) => [...brandChangeKeys.all, brandId] as const,
+};
+
+// ============================================================================
+// FETCH FUNCTIONS
+// ============================================================================
+
+/**
+ * Fetch all recorded changes for a brand, newest first.
+ */
+async function fetchBrandChanges(brandId: string): Promise<BrandChange[]> {
+  const supabase = createBrowserClient();
+
+  if (!supabase) {
+    log.warn('Supabase client not available');
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('brand_changes')
+    .select('*')
+    .eq('brand_id', brandId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    log.error('Failed to fetch brand changes', { error: error.message, brandId });
+    throw new Error(error.message);
+  }
+
+  return (data ?? []) as BrandChange[];
+}
+
+// ============================================================================
+// QUERY HOOKS
+// ============================================================================
+
+/**
+ * Hook to fetch a brand's change timeline.
+ *
+ * @param brandId - The brand UUID
+ *
+ * @example
+ * const { data: changes, isLoading } = useBrandChanges(brandId);
+ * const unseen = changes?.filter(c => !c.seen_at).length ?? 0;
+ */
+export function useBrandChanges(brandId: string) {
+  return useQuery({
+    queryKey: brandChangeKeys.listByBrand(brandId),
+    queryFn: () => fetchBrandChanges(brandId),
+    enabled: !!brandId,
+  });
+}
+
+// ============================================================================
+// MUTATION HOOKS
+// ============================================================================
+
+/**
+ * Hook to mark all of a brand's changes as seen.
+ * Clears the unseen badge on the dashboard.
+ *
+ * @example
+ * const markSeen = useMarkChangesSeen();
+ * markSeen.mutate(brandId);
+ */
+export function useMarkChangesSeen() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (brandId: string): Promise<void> => {
+      const supabase = createBrowserClient();
+
+      if (!supabase) {
+        throw new Error('Supabase client not available');
+      }
+
+      const { error } = await supabase
+        .from('brand_changes')
+        .update({ seen_at: new Date().toISOString() })
+        .eq('brand_id', brandId)
+        .is('seen_at', null);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+    onSuccess: () => {
+      // The open timeline keeps its "New" markers until the next fetch
+      queryClient.invalidateQueries({ queryKey: brandKeys.lists() });
+    },
+    onError: (error) => {
+      log.error('Failed to mark changes seen', { error: error.message });
+    },
+  });
+}
+
+/**
+ * Input for changing a brand's monitoring schedule.
+ */
+export interface MonitorScheduleInput {
+  brandId: string;
+  frequency: MonitorFrequency;
+}
+
+/**
+ * Hook to change how often a brand's website is re-scanned.
+ * The first scheduled scan is one period from now.
+ *
+ * @example
+ * const updateSchedule = useUpdateMonitorSchedule();
+ * updateSchedule.mutate({ brandId, frequency: 'weekly' });
+ */
+export function useUpdateMonitorSchedule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: MonitorScheduleInput): Promise<void> => {
+      const supabase = createBrowserClient();
+
+      if (!supabase) {
+        throw new Error('Supabase client not available');
+      }
+
+      log.info('Updating monitor schedule', { brandId: input.brandId, frequency: input.frequency });
+
+      const { error } = await supabase
+        .from('brands')
+        .update({
+          monitor_frequency: input.frequency,
+          next_check_at: getNextCheckAt(input.frequency),
+        })
+        .eq('id', input.brandId);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+    onSuccess: (_, input) => {
+      queryClient.invalidateQueries({ queryKey: brandKeys.detail(input.brandId) });
+      queryClient.invalidateQueries({ queryKey: brandKeys.lists() });
+      toast.success(input.frequency === 'off' ? 'Monitoring turned off' : `Monitoring ${input.frequency}`);
+    },
+    onError: (error) => {
+      log.error('Failed to update monitor schedule', { error: error.message });
+      toast.error(error.message);
+    },
+  });
+}
@@ -16,7 +16,8 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { createBrowserClient } from '@/lib/supabase/client';
 import { toast } from '@/components/ui/sonner';
 import { log } from '@/lib/utils/logger';
-import type { BrandWithAnalyses } from '@/types';
+import type { AnalysisLanguage, BrandWithAnalyses } from '@/types';
+import type { ScraperType } from '@/lib/scrapers/types';
 
 // ============================================================================
 // QUERY KEYS
@@ -40,7 +41,8 @@ export const brandKeys = {
 
 /**
  * Fetch all brands for the current user.
- * Includes analysis_runs for status display on dashboard cards.
+ * Includes analysis_runs for status display on dashboard cards, and
+ * brand_changes for the unseen changes badge.
  */
 async function fetchBrands(): Promise<BrandWithAnalyses[]> {
   const supabase = createBrowserClient();
@@ -52,7 +54,7 @@ async function fetchBrands(): Promise<BrandWithAnalyses[]> {
 
   const { data, error } = await supabase
     .from('brands')
-    .select('*, analysis_runs(*)')
+    .select('*, analysis_runs(*), brand_changes(id, seen_at)')
     .order('updated_at', { ascending: false });
 
   if (error) {
@@ -127,6 +129,8 @@ export function useBrand(brandId: string) {
 interface CreateBrandInput {
   url: string;
   isOwnBrand?: boolean;
+  /** Which scraper to use - 'web-deep' also crawls about/pricing/product pages */
+  scraperType?: ScraperType;
 }
 
 /**
@@ -150,6 +154,7 @@ export function useCreateBrand() {
         body: JSON.stringify({
           url: input.url,
           isOwnBrand: input.isOwnBrand ?? false,
+          scraperType: input.scraperType,
         }),
       });
 
@@ -175,6 +180,61 @@ export function useCreateBrand() {
   });
 }
 
+/**
+ * Content the user supplies instead of (or after) a website scrape.
+ */
+export interface BrandSourceInput {
+  brandId: string;
+  /** 'manual-text' and 'html-file' take `content`; 'document' and 'html-file' take `file` */
+  scraperType: ScraperType;
+  content?: string;
+  file?: File;
+}
+
+/**
+ * Hook to analyze a brand from pasted text or an uploaded file.
+ * Used when the website itself couldn't be scraped.
+ *
+ * @example
+ * const addSource = useAddBrandSource();
+ * await addSource.mutateAsync({ brandId, scraperType: 'document', file });
+ */
+export function useAddBrandSource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: BrandSourceInput): Promise<{ brandId: string }> => {
+      log.info('Adding brand source', { brandId: input.brandId, scraperType: input.scraperType });
+
+      // Multipart so files and text go through the same request
+      const body = new FormData();
+      body.set('brandId', input.brandId);
+      body.set('scraperType', input.scraperType);
+      if (input.content) body.set('content', input.content);
+      if (input.file) body.set('file', input.file);
+
+      const response = await fetch('/api/brands/source', { method: 'POST', body });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to read this content');
+      }
+
+      log.success('Brand source added', { brandId: input.brandId });
+      return { brandId: input.brandId };
+    },
+    onSuccess: (_, input) => {
+      queryClient.invalidateQueries({ queryKey: brandKeys.detail(input.brandId) });
+      queryClient.invalidateQueries({ queryKey: brandKeys.lists() });
+      toast.success('Analysis started!');
+    },
+    onError: (error) => {
+      log.error('Failed to add brand source', { error: error.message });
+      toast.error(error.message);
+    },
+  });
+}
+
 /**
  * Hook to delete a brand.
  * Invalidates the brands list cache on success.
@@ -221,29 +281,156 @@ export function useDeleteBrand() {
   });
 }
 
+/**
+ * Input for refreshing a brand.
+ */
+export interface RefreshBrandInput {
+  brandId: string;
+  /** Bypass the scrape cache and re-run analyzers even if nothing changed */
+  forceRefresh?: boolean;
+}
+
+/**
+ * Hook to refresh a brand.
+ * Re-scrapes the website; analyzers only run again if the content changed
+ * (or forceRefresh is set).
+ *
+ * @example
+ * const refresh = useRefreshBrand();
+ * await refresh.mutateAsync({ brandId: 'uuid-here' });
+ */
+export function useRefreshBrand() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: RefreshBrandInput): Promise<{ unchanged: boolean }> => {
+      log.info('Refreshing brand', { brandId: input.brandId, forceRefresh: input.forceRefresh });
+
+      const response = await fetch('/api/brands/rescrape', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to refresh brand');
+      }
+
+      log.success('Brand re-scraped', { brandId: input.brandId, unchanged: data.unchanged });
+      return { unchanged: !!data.unchanged };
+    },
+    onSuccess: ({ unchanged }, input) => {
+      queryClient.invalidateQueries({ queryKey: brandKeys.detail(input.brandId) });
+      if (unchanged) {
+        toast.success('No changes since the last analysis');
+      } else {
+        toast.success('Re-analysis started!');
+      }
+    },
+    onError: (error) => {
+      log.error('Failed to refresh brand', { error: error.message });
+      toast.error(error.message);
+    },
+  });
+}
+
+/**
+ * Input for re-analyzing a brand.
+ */
+export interface ReanalyzeBrandInput {
+  brandId: string;
+  /** Download every page again instead of using the scrape cache */
+  forceRefresh?: boolean;
+}
+
 /**
  * Hook to re-analyze a brand.
- * Triggers a fresh scrape and analysis.
+ * Re-scrapes the website and re-runs every analyzer, even if the content
+ * is unchanged. The previous results are kept as a historical version.
  *
  * @example
  * const reanalyze = useReanalyzeBrand();
- * await reanalyze.mutateAsync('uuid-here');
+ * await reanalyze.mutateAsync({ brandId: 'uuid-here' });
  */
 export function useReanalyzeBrand() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (brandId: string): Promise<void> => {
-      log.info('Re-analyzing brand', { brandId });
+    mutationFn: async (input: ReanalyzeBrandInput): Promise<void> => {
+      log.info('Re-analyzing brand', { brandId: input.brandId, forceRefresh: input.forceRefresh });
+
+      const response = await fetch(`/api/brands/${input.brandId}/reanalyze`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ forceRefresh: input.forceRefresh }),
+      });
+      const data = await response.json();
 
-      // TODO: Implement re-analyze API endpoint
-      // For now, this is a placeholder
-      throw new Error('Re-analyze not yet implemented');
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to re-analyze brand');
+      }
+
+      log.success('Re-analysis started', { brandId: input.brandId });
     },
-    onSuccess: (_, brandId) => {
-      queryClient.invalidateQueries({ queryKey: brandKeys.detail(brandId) });
+    onSuccess: (_, input) => {
+      queryClient.invalidateQueries({ queryKey: brandKeys.detail(input.brandId) });
       toast.success('Re-analysis started!');
     },
+    onError: (error) => {
+      log.error('Failed to re-analyze brand', { error: error.message });
+      toast.error(error.message);
+    },
+  });
+}
+
+/**
+ * Input for changing the language a brand is analyzed in.
+ */
+export interface AnalysisLanguageInput {
+  brandId: string;
+  language: AnalysisLanguage;
+}
+
+/**
+ * Hook to choose whether a brand is analyzed in English or in its
+ * website's own language. Takes effect on the next analysis - pair it
+ * with useReanalyzeBrand, which shows the toast.
+ *
+ * @example
+ * const updateLanguage = useUpdateAnalysisLanguage();
+ * await updateLanguage.mutateAsync({ brandId, language: 'source' });
+ * reanalyze.mutate({ brandId });
+ */
+export function useUpdateAnalysisLanguage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: AnalysisLanguageInput): Promise<void> => {
+      const supabase = createBrowserClient();
+
+      if (!supabase) {
+        throw new Error('Supabase client not available');
+      }
+
+      log.info('Updating analysis language', { brandId: input.brandId, language: input.language });
+
+      const { error } = await supabase
+        .from('brands')
+        .update({ analysis_language: input.language })
+        .eq('id', input.brandId);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+    onSuccess: (_, input) => {
+      queryClient.invalidateQueries({ queryKey: brandKeys.detail(input.brandId) });
+    },
+    onError: (error) => {
+      log.error('Failed to update analysis language', { error: error.message });
+      toast.error(error.message);
+    },
   });
 }
 
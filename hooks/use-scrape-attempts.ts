@@ -0,0 +1,78 @@
+/**
+ * USE SCRAPE ATTEMPTS HOOK
+ * =========================
+ * React Query hook for a brand's scrape history and diagnostics.
+ *
+ * Usage:
+ *   const { data: attempts } = useScrapeAttempts(brandId, { enabled: isOpen });
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { createBrowserClient } from '@/lib/supabase/client';
+import { log } from '@/lib/utils/logger';
+import type { ScrapeAttempt } from '@/types';
+
+// ============================================================================
+// QUERY KEYS
+// ============================================================================
+
+/**
+ * Query key factory for scrape attempts.
+ */
+export const scrapeAttemptKeys = {
+  all: ['scrape-attempts'] as const,
+  listByBrand: (brandId: string) => [...scrapeAttemptKeys.all, brandId] as const,
+};
+
+// ============================================================================
+// FETCH FUNCTIONS
+// ============================================================================
+
+/**
+ * Fetch a brand's recorded scrape attempts, newest first.
+ */
+async function fetchScrapeAttempts(brandId: string): Promise<ScrapeAttempt[]> {
+  const supabase = createBrowserClient();
+
+  if (!supabase) {
+    log.warn('Supabase client not available');
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('scrape_attempts')
+    .select('*')
+    .eq('brand_id', brandId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    log.error('Failed to fetch scrape attempts', { error: error.message, brandId });
+    throw new Error(error.message);
+  }
+
+  return (data ?? []) as ScrapeAttempt[];
+}
+
+// ============================================================================
+// QUERY HOOKS
+// ============================================================================
+
+/**
+ * Hook to fetch a brand's scrape history.
+ * The rows carry the cleaned text, so only fetch them when shown.
+ *
+ * @param brandId - The brand UUID
+ * @param options.enabled - Fetch only while true (e.g. the panel is open)
+ *
+ * @example
+ * const { data: attempts, isLoading } = useScrapeAttempts(brandId, { enabled: isOpen });
+ */
+export function useScrapeAttempts(brandId: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: scrapeAttemptKeys.listByBrand(brandId),
+    queryFn: () => fetchScrapeAttempts(brandId),
+    enabled: !!brandId && (options.enabled ?? true),
+  });
+}
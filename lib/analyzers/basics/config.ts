@@ -14,4 +14,5 @@ export const config: AnalyzerConfig = {
   description: 'Core business information like name, industry, and what they do',
   icon: Building2,
   dependsOn: [], // No dependencies - runs first
+  promptVersion: 1,
 };
@@ -7,10 +7,45 @@
  * Takes natural language analysis and extracts structured fields.
  */
 
-import type { ParserDefinition } from '../types';
+import type { ParserDefinition, FunctionSchema } from '../types';
+import { createSchemaValidator } from '../validation';
 import type { ParsedBasics } from './types';
+import { BUSINESS_MODELS } from '@/types/analyzers';
 import { decodeHtmlEntities } from '@/lib/utils/format';
 
+/** JSON Schema for the function call; also the source of the runtime validator */
+const schema: FunctionSchema = {
+  type: 'object',
+  properties: {
+    business_name: {
+      type: 'string',
+      description: 'The name of the business',
+    },
+    founder_name: {
+      type: ['string', 'null'],
+      description: 'Name of founder if mentioned, null if not found',
+    },
+    founded_year: {
+      type: ['string', 'null'],
+      description: 'Year founded, or approximate like "circa 2021", null if not found',
+    },
+    industry: {
+      type: 'string',
+      description: 'The industry or space they operate in (e.g., "Marketing Technology", "Health & Wellness", "E-commerce")',
+    },
+    business_description: {
+      type: 'string',
+      description: 'A 1-2 sentence description of what the business does',
+    },
+    business_model: {
+      type: 'string',
+      enum: [...BUSINESS_MODELS],
+      description: 'The primary business model',
+    },
+  },
+  required: ['business_name', 'industry', 'business_description', 'business_model'],
+};
+
 export const parser: ParserDefinition<ParsedBasics> = {
   // System prompt for the parsing step
   systemPrompt: `You are a precise data extraction assistant.
@@ -23,48 +58,10 @@ For required fields, make your best inference from context.`,
   functionDescription: 'Extract basic business information from the analysis',
 
   // JSON Schema defining the output structure
-  schema: {
-    type: 'object',
-    properties: {
-      business_name: {
-        type: 'string',
-        description: 'The name of the business',
-      },
-      founder_name: {
-        type: ['string', 'null'],
-        description: 'Name of founder if mentioned, null if not found',
-      },
-      founded_year: {
-        type: ['string', 'null'],
-        description: 'Year founded, or approximate like "circa 2021", null if not found',
-      },
-      industry: {
-        type: 'string',
-        description: 'The industry or space they operate in (e.g., "Marketing Technology", "Health & Wellness", "E-commerce")',
-      },
-      business_description: {
-        type: 'string',
-        description: 'A 1-2 sentence description of what the business does',
-      },
-      business_model: {
-        type: 'string',
-        enum: [
-          'B2B Services',
-          'B2C Services',
-          'B2B Products',
-          'B2C Products',
-          'B2B SaaS',
-          'B2C SaaS',
-          'Marketplace',
-          'Agency',
-          'Consultancy',
-          'Other',
-        ],
-        description: 'The primary business model',
-      },
-    },
-    required: ['business_name', 'industry', 'business_description', 'business_model'],
-  },
+  schema,
+
+  // Runtime check of the parsing output (generated from the schema)
+  validate: createSchemaValidator<ParsedBasics>(schema),
 
   // Post-processing to clean up the output
   // Decodes HTML entities that may come from scraped content or AI responses
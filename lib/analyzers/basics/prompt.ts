@@ -7,6 +7,7 @@
  * The output is natural language that will be parsed in step 2.
  */
 
+import { formatStructuredDataEvidence, formatBlogFeedEvidence, formatLanguageEvidence } from '../evidence';
 import type { PromptBuilder } from '../types';
 
 /**
@@ -15,7 +16,11 @@ import type { PromptBuilder } from '../types';
  * The prompt asks GPT to think like a brand strategist reviewing
  * a new client's website for the first time.
  */
-export const buildPrompt: PromptBuilder = (scrapedContent, _priorResults) => {
+export const buildPrompt: PromptBuilder = (scrapedContent, _priorResults, evidence) => {
+  const structuredData = formatStructuredDataEvidence(evidence?.structuredData, 'organization');
+  const blogFeed = formatBlogFeedEvidence(evidence?.blogFeed);
+  const language = formatLanguageEvidence(evidence?.language, evidence?.outputLanguage);
+
   return `You are a sharp brand strategist doing intake research on a new client.
 You've just reviewed their website content (provided below).
 
@@ -33,7 +38,7 @@ notes after reviewing their site.
 If you can't find certain information (like founder name or founding year), just mention
 that it wasn't apparent from the website. Don't make things up.
 
----
+${language}${structuredData}${blogFeed}---
 WEBSITE CONTENT:
 ${scrapedContent}`;
 };
@@ -14,4 +14,5 @@ export const config: AnalyzerConfig = {
   description: 'Who they serve, their problems, and buying motivations',
   icon: Users,
   dependsOn: [], // No dependencies - runs concurrently with basics
+  promptVersion: 1,
 };
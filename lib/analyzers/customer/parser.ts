@@ -6,8 +6,52 @@
  * This is STEP 2 of the two-step AI process.
  */
 
-import type { ParserDefinition } from '../types';
+import type { ParserDefinition, FunctionSchema } from '../types';
+import { createSchemaValidator } from '../validation';
 import type { ParsedCustomer } from './types';
+import { BUYING_MOTIVATIONS, CUSTOMER_SOPHISTICATION_LEVELS } from '@/types/analyzers';
+
+/** JSON Schema for the function call; also the source of the runtime validator */
+const schema: FunctionSchema = {
+  type: 'object',
+  properties: {
+    subcultures: {
+      type: 'array',
+      description: 'List of 2-5 subcultures, communities, or identities the target customers belong to (e.g., "startup founders", "remote workers", "eco-conscious consumers")',
+      items: {
+        type: 'string',
+      },
+    },
+    primary_problem: {
+      type: 'string',
+      description: 'The main problem or pain point the business solves for customers (1-2 sentences)',
+    },
+    secondary_problems: {
+      type: 'array',
+      description: 'List of 2-4 related secondary problems customers face',
+      items: {
+        type: 'string',
+      },
+    },
+    customer_sophistication: {
+      type: 'string',
+      enum: [...CUSTOMER_SOPHISTICATION_LEVELS],
+      description: 'How knowledgeable the target customer is about the problem/solution space',
+    },
+    buying_motivation: {
+      type: 'string',
+      enum: [...BUYING_MOTIVATIONS],
+      description: 'The primary motivation driving purchase decisions',
+    },
+  },
+  required: [
+    'subcultures',
+    'primary_problem',
+    'secondary_problems',
+    'customer_sophistication',
+    'buying_motivation',
+  ],
+};
 
 export const parser: ParserDefinition<ParsedCustomer> = {
   systemPrompt: `You are a precise data extraction assistant.
@@ -18,46 +62,11 @@ For arrays, include 2-5 relevant items.`,
   functionName: 'extract_customer_profile',
   functionDescription: 'Extract customer profile information from the analysis',
 
-  schema: {
-    type: 'object',
-    properties: {
-      subcultures: {
-        type: 'array',
-        description: 'List of 2-5 subcultures, communities, or identities the target customers belong to (e.g., "startup founders", "remote workers", "eco-conscious consumers")',
-        items: {
-          type: 'string',
-        },
-      },
-      primary_problem: {
-        type: 'string',
-        description: 'The main problem or pain point the business solves for customers (1-2 sentences)',
-      },
-      secondary_problems: {
-        type: 'array',
-        description: 'List of 2-4 related secondary problems customers face',
-        items: {
-          type: 'string',
-        },
-      },
-      customer_sophistication: {
-        type: 'string',
-        enum: ['Beginner', 'Informed', 'Expert'],
-        description: 'How knowledgeable the target customer is about the problem/solution space',
-      },
-      buying_motivation: {
-        type: 'string',
-        enum: ['Pain relief', 'Aspiration', 'Necessity', 'Curiosity', 'Status'],
-        description: 'The primary motivation driving purchase decisions',
-      },
-    },
-    required: [
-      'subcultures',
-      'primary_problem',
-      'secondary_problems',
-      'customer_sophistication',
-      'buying_motivation',
-    ],
-  },
+  // JSON Schema defining the output structure
+  schema,
+
+  // Runtime check of the parsing output (generated from the schema)
+  validate: createSchemaValidator<ParsedCustomer>(schema),
 
   postProcess: (raw: ParsedCustomer): ParsedCustomer => {
     return {
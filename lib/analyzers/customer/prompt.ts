@@ -7,6 +7,7 @@
  * Focuses on psychographics, problems, and buying motivations.
  */
 
+import { formatBlogFeedEvidence, formatLanguageEvidence } from '../evidence';
 import type { PromptBuilder } from '../types';
 
 /**
@@ -15,7 +16,10 @@ import type { PromptBuilder } from '../types';
  * The prompt asks GPT to think like a customer researcher trying
  * to understand who this business is really speaking to.
  */
-export const buildPrompt: PromptBuilder = (scrapedContent, _priorResults) => {
+export const buildPrompt: PromptBuilder = (scrapedContent, _priorResults, evidence) => {
+  const blogFeed = formatBlogFeedEvidence(evidence?.blogFeed);
+  const language = formatLanguageEvidence(evidence?.language, evidence?.outputLanguage);
+
   return `You are a customer research specialist analyzing a business's website to understand their target audience.
 
 Based on the website content below, write natural observations about:
@@ -44,7 +48,7 @@ Write conversationally, like you're explaining your observations to a colleague.
 Read between the lines—what the website says and how it says it reveals a lot
 about who they're targeting.
 
----
+${language}${blogFeed}---
 WEBSITE CONTENT:
 ${scrapedContent}`;
 };
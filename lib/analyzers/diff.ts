@@ -0,0 +1,160 @@
+/**
+ * ANALYSIS DIFF
+ * ==============
+ * Field-level comparison of two results from the same analyzer
+ * (ParsedBasics, ParsedCustomer or ParsedProducts), for the version
+ * history on the brand page.
+ *
+ * List fields are compared item by item - strings by value, objects by
+ * their name - so reordering a list isn't reported as a change.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How a field differs between the older and the newer result.
+ */
+export type FieldChange = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface FieldDiff {
+  /** Key in the parsed data (e.g. business_name) */
+  field: string;
+  /** Human-readable field name (e.g. "Business name") */
+  label: string;
+  change: FieldChange;
+  before: unknown;
+  after: unknown;
+  /** List fields only: items new in the newer result */
+  addedItems?: string[];
+  /** List fields only: items gone from the newer result */
+  removedItems?: string[];
+  /** List fields only: items in both whose details changed */
+  changedItems?: string[];
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Compare two parsed results field by field.
+ *
+ * @param before - The older result's parsed_data
+ * @param after - The newer result's parsed_data
+ * @returns One entry per field in either result, in the newer result's order
+ *
+ * @example
+ * const diff = diffParsedResults(older.parsed_data, newer.parsed_data);
+ * const changed = diff.filter(d => d.change !== 'unchanged');
+ */
+export function diffParsedResults(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FieldDiff[] {
+  const fields = Array.from(new Set([...Object.keys(after), ...Object.keys(before)]));
+
+  return fields.map((field): FieldDiff => {
+    const oldValue = before[field];
+    const newValue = after[field];
+    const base = { field, label: formatFieldLabel(field), before: oldValue, after: newValue };
+
+    if (isEmpty(oldValue) && isEmpty(newValue)) {
+      return { ...base, change: 'unchanged' };
+    }
+    if (isEmpty(oldValue)) {
+      return { ...base, change: 'added' };
+    }
+    if (isEmpty(newValue)) {
+      return { ...base, change: 'removed' };
+    }
+
+    if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+      return { ...base, ...diffLists(oldValue, newValue) };
+    }
+
+    return {
+      ...base,
+      change: JSON.stringify(oldValue) === JSON.stringify(newValue) ? 'unchanged' : 'changed',
+    };
+  });
+}
+
+/**
+ * Display text for a parsed value.
+ *
+ * @example
+ * formatFieldValue(['Runners', 'Hikers']) // -> 'Runners, Hikers'
+ * formatFieldValue(null) // -> '—'
+ */
+export function formatFieldValue(value: unknown): string {
+  if (isEmpty(value)) return '—';
+  if (Array.isArray(value)) return value.map(itemKey).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Human-readable name for a parsed field.
+ *
+ * @example
+ * formatFieldLabel('business_name') // -> 'Business name'
+ */
+export function formatFieldLabel(field: string): string {
+  const words = field.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Item-level comparison of two lists.
+ */
+function diffLists(
+  before: unknown[],
+  after: unknown[]
+): Pick<FieldDiff, 'change' | 'addedItems' | 'removedItems' | 'changedItems'> {
+  const oldItems = new Map(before.map(item => [itemKey(item), JSON.stringify(item)]));
+  const newItems = new Map(after.map(item => [itemKey(item), JSON.stringify(item)]));
+
+  const addedItems = Array.from(newItems.keys()).filter(key => !oldItems.has(key));
+  const removedItems = Array.from(oldItems.keys()).filter(key => !newItems.has(key));
+  const changedItems = Array.from(newItems.keys()).filter(
+    key => oldItems.has(key) && oldItems.get(key) !== newItems.get(key)
+  );
+
+  const changed = addedItems.length + removedItems.length + changedItems.length > 0;
+
+  return {
+    change: changed ? 'changed' : 'unchanged',
+    addedItems,
+    removedItems,
+    changedItems,
+  };
+}
+
+/**
+ * What identifies a list item: the string itself, or an object's name.
+ */
+function itemKey(item: unknown): string {
+  if (typeof item === 'string') return item;
+  if (item && typeof item === 'object' && 'name' in item && typeof item.name === 'string') {
+    return item.name;
+  }
+  return JSON.stringify(item);
+}
+
+/**
+ * Missing, null, blank or empty list.
+ */
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * ANALYSIS EDITS
+ * ===============
+ * Field-level provenance for analyzer results. A field a person edited
+ * is stored in analysis_runs.field_edits; every other field is
+ * AI-generated. When the analyzer runs again, edited fields keep their
+ * value and only the AI suggestion (ai_value) is updated.
+ */
+
+import type { FieldEdits } from '@/types';
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Record the fields a person changed.
+ * A field set back to the analyzer's value is AI-generated again.
+ *
+ * @param current - The result as currently saved
+ * @param edited - The validated result from the edit form
+ * @param edits - The run's existing field_edits
+ * @param editedAt - Timestamp for the new edits (defaults to now)
+ * @returns The new field_edits and the names of the fields that changed
+ *
+ * @example
+ * const { edits, changedFields } = recordFieldEdits(run.parsed_data, data, run.field_edits);
+ */
+export function recordFieldEdits(
+  current: Record<string, unknown>,
+  edited: Record<string, unknown>,
+  edits: FieldEdits,
+  editedAt: string = new Date().toISOString()
+): {
+  edits: FieldEdits;
+  changedFields: string[];
+} {
+  const next: FieldEdits = { ...edits };
+  const changedFields: string[] = [];
+
+  for (const [field, value] of Object.entries(edited)) {
+    if (isSameValue(value, current[field])) continue;
+
+    changedFields.push(field);
+    const aiValue = field in edits ? edits[field].ai_value : current[field] ?? null;
+
+    if (isSameValue(value, aiValue)) {
+      delete next[field];
+    } else {
+      next[field] = { value, ai_value: aiValue, edited_at: editedAt };
+    }
+  }
+
+  return { edits: next, changedFields };
+}
+
+/**
+ * Put human edits back on top of a fresh analyzer result.
+ *
+ * @param generated - The analyzer's new result
+ * @param edits - The run's field_edits
+ * @returns The result to save, and field_edits with updated AI values
+ *
+ * @example
+ * const { data, edits } = applyFieldEdits(parsedData, run.field_edits);
+ */
+export function applyFieldEdits(
+  generated: Record<string, unknown>,
+  edits: FieldEdits
+): {
+  data: Record<string, unknown>;
+  edits: FieldEdits;
+} {
+  const data = { ...generated };
+  const next: FieldEdits = {};
+
+  for (const [field, edit] of Object.entries(edits)) {
+    data[field] = edit.value;
+    next[field] = { ...edit, ai_value: generated[field] ?? null };
+  }
+
+  return { data, edits: next };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
@@ -0,0 +1,250 @@
+/**
+ * ANALYZER EVIDENCE
+ * ==================
+ * Formats structured evidence from the scrape into prompt sections.
+ *
+ * Prompts append these sections before the website content so GPT
+ * can prefer exact, site-published facts over guesses from prose.
+ *
+ * Usage:
+ *   import { formatStructuredDataEvidence, formatPricingEvidence } from '../evidence';
+ *   const section = formatStructuredDataEvidence(evidence?.structuredData, 'organization');
+ *   const pricing = formatPricingEvidence(evidence?.pricing);
+ *   const blog = formatBlogFeedEvidence(evidence?.blogFeed);
+ *   const language = formatLanguageEvidence(evidence?.language, evidence?.outputLanguage);
+ */
+
+import { formatLanguageName } from '@/lib/utils/format';
+import type { AnalysisLanguage } from '@/types';
+import type {
+  BlogFeed,
+  BlogPost,
+  DetectedLanguage,
+  PricingTable,
+  PricingTier,
+  StructuredData,
+} from '@/lib/scrapers/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Which parts of the structured data a prompt cares about.
+ */
+export type StructuredDataFocus = 'organization' | 'products';
+
+// ============================================================================
+// STRUCTURED DATA
+// ============================================================================
+
+/**
+ * Format structured data as a prompt section.
+ *
+ * @param data - Structured data from the scrape (may be missing)
+ * @param focus - Which facts to include
+ * @returns A prompt section, or an empty string if there's nothing relevant
+ */
+export function formatStructuredDataEvidence(
+  data: StructuredData | null | undefined,
+  focus: StructuredDataFocus
+): string {
+  if (!data) return '';
+
+  const lines = focus === 'organization'
+    ? formatOrganization(data)
+    : formatProducts(data);
+
+  if (lines.length === 0) return '';
+
+  return `---
+STRUCTURED DATA (published by the site in JSON-LD / OpenGraph / microdata markup):
+These are the site's own machine-readable claims - treat them as high-confidence facts.
+Prefer them over guesses from the page text, but mention any contradictions you notice.
+
+${lines.join('\n')}
+
+`;
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+/**
+ * Format a parsed pricing table as a prompt section.
+ *
+ * @param pricing - Pricing table from the scrape (may be missing)
+ * @returns A prompt section, or an empty string if there's no table
+ */
+export function formatPricingEvidence(pricing: PricingTable | null | undefined): string {
+  if (!pricing || pricing.tiers.length === 0) return '';
+
+  const lines = pricing.tiers.map(formatTier);
+
+  return `---
+PRICING TABLE (parsed from ${pricing.url}):
+These tiers were read directly from the pricing page markup - treat them as high-confidence facts.
+List each tier as an offering with its exact price and billing period.
+
+${lines.join('\n')}
+
+`;
+}
+
+// ============================================================================
+// BLOG FEED
+// ============================================================================
+
+/**
+ * Format the latest blog posts as a content-themes prompt section.
+ *
+ * @param feed - Blog feed from the scrape (may be missing)
+ * @returns A prompt section, or an empty string if there are no posts
+ */
+export function formatBlogFeedEvidence(feed: BlogFeed | null | undefined): string {
+  if (!feed || feed.posts.length === 0) return '';
+
+  const lines = feed.posts.map(formatPost);
+  const themes = feed.themes.map(t => `${t.name} (${t.count})`).join(', ');
+  const cadence = feed.cadence.postsPerMonth !== null
+    ? `about ${feed.cadence.postsPerMonth} posts per month`
+    : null;
+
+  return `---
+RECENT BLOG POSTS (from the site's feed, ${feed.feedUrl}):
+These are the topics the brand chooses to publish about - use them as signals of
+positioning and audience, not as facts about the business.
+${[themes ? `Most used categories: ${themes}` : null, cadence ? `Publishing cadence: ${cadence}` : null]
+  .filter(Boolean).join('\n')}
+
+${lines.join('\n')}
+
+`;
+}
+
+// ============================================================================
+// LANGUAGE
+// ============================================================================
+
+/**
+ * Format the content language and the language to answer in.
+ *
+ * @param language - Language detected by the scraper (may be missing)
+ * @param outputLanguage - 'english' (default) or 'source'
+ * @returns A prompt section, or an empty string for English content analyzed in English
+ */
+export function formatLanguageEvidence(
+  language: DetectedLanguage | null | undefined,
+  outputLanguage: AnalysisLanguage = 'english'
+): string {
+  const sourceName = language && language.code !== 'en' ? formatLanguageName(language.code) : null;
+  const originalName = language?.originalCode ? formatLanguageName(language.originalCode) : null;
+
+  const lines: string[] = [];
+
+  if (originalName) {
+    lines.push(`The site's main language is ${originalName}; the content below is its English version.`);
+  }
+
+  if (sourceName && outputLanguage === 'source') {
+    lines.push(`The content is in ${sourceName}. Write your answer in ${sourceName}.`);
+  } else if (sourceName) {
+    lines.push(
+      `The content is in ${sourceName}. Write your answer in English, but keep brand, ` +
+      'product and plan names exactly as the site writes them.'
+    );
+  }
+
+  if (lines.length === 0) return '';
+
+  return `---
+LANGUAGE:
+${lines.join('\n')}
+
+`;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function formatPost(post: BlogPost): string {
+  const details = [
+    post.publishedAt?.slice(0, 10),
+    post.categories.length > 0 ? post.categories.join(', ') : null,
+  ].filter(Boolean).join('; ');
+
+  const summary = post.summary ? ` - ${post.summary}` : '';
+  return `- ${post.title}${details ? ` (${details})` : ''}${summary}`;
+}
+
+function formatTier(tier: PricingTier): string {
+  const price = tier.isCustom
+    ? 'Custom pricing (contact sales)'
+    : [tier.price, tier.period && !tier.price?.includes('/') ? `per ${tier.period}` : null]
+        .filter(Boolean).join(' ') || 'Price not shown';
+
+  const details = [
+    price,
+    tier.highlighted ? 'highlighted as most popular' : null,
+    tier.features.length > 0 ? `features: ${tier.features.join('; ')}` : null,
+  ].filter(Boolean).join(' - ');
+
+  return `- Tier: ${tier.name} (${details})`;
+}
+
+function formatOrganization(data: StructuredData): string[] {
+  const org = data.organization;
+  const lines: string[] = [];
+
+  if (org) {
+    pushLine(lines, 'Name', org.name);
+    pushLine(lines, 'Legal name', org.legalName);
+    pushLine(lines, 'Founded', org.foundingDate);
+    pushLine(lines, 'Founders', org.founders?.join(', '));
+    pushLine(lines, 'Description', org.description);
+    pushLine(lines, 'Website', org.url);
+    pushLine(lines, 'Profiles', org.sameAs?.join(', '));
+  }
+
+  if (!org?.name) {
+    pushLine(lines, 'Site name', data.openGraph.site_name);
+  }
+  if (!org?.description) {
+    pushLine(lines, 'Share description', data.openGraph.description);
+  }
+  if (data.types.length > 0) {
+    pushLine(lines, 'Schema types', data.types.join(', '));
+  }
+
+  return lines;
+}
+
+function formatProducts(data: StructuredData): string[] {
+  const lines: string[] = [];
+
+  for (const product of data.products) {
+    const price = product.price
+      ? [
+          product.priceCurrency,
+          product.highPrice ? `${product.price}-${product.highPrice}` : product.price,
+        ].filter(Boolean).join(' ')
+      : null;
+
+    const details = [price, product.description].filter(Boolean).join(' - ');
+    lines.push(`- Offering: ${product.name}${details ? ` (${details})` : ''}`);
+  }
+
+  for (const faq of data.faqs) {
+    lines.push(`- FAQ: ${faq.question} → ${faq.answer}`);
+  }
+
+  return lines;
+}
+
+function pushLine(lines: string[], label: string, value: string | undefined): void {
+  if (value) {
+    lines.push(`- ${label}: ${value}`);
+  }
+}
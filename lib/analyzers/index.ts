@@ -54,6 +54,12 @@ export const analyzers: Record<AnalyzerType, AnalyzerDefinition<any>> = {
  */
 export const analyzerIds: AnalyzerType[] = ['basics', 'customer', 'products'];
 
+/**
+ * How many times a failed analyzer can be retried on its own.
+ * Re-analyzing the brand resets the count.
+ */
+export const MAX_ANALYZER_RETRIES = 3;
+
 /**
  * List of all analyzer configs (for UI rendering).
  */
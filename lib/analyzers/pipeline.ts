@@ -0,0 +1,384 @@
+/**
+ * ANALYSIS PIPELINE
+ * ==================
+ * Hands a successful scrape result over to the analyzers.
+ *
+ * Shared by every way content enters the app (website scrape, pasted
+ * text, uploaded document) so they all save and analyze content the
+ * same way.
+ *
+ * A content hash is stored on the brand. When a re-scrape produces the
+ * same hash and the previous analysis finished, analyzers are skipped.
+ * Otherwise the previous results are archived (analysis_versions) before
+ * the runs are reset.
+ *
+ * Only one analysis runs per brand at a time: the runs are claimed with
+ * a conditional update first, and a brand whose analyzers are still
+ * queued or running is refused (`conflict`).
+ *
+ * A single failed analyzer can be re-run on the saved content with
+ * retryAnalyzer(), and all of them with reanalyzeSavedContent() (brands
+ * built from pasted text or an uploaded document), without scraping again.
+ *
+ * Usage:
+ *   import { startBrandAnalysis } from '@/lib/analyzers/pipeline';
+ *   const { error, skipped } = await startBrandAnalysis(brandId, scrapeResult, {
+ *     previousHash: brand.content_hash,
+ *   });
+ */
+
+import { updateBrandAdmin } from '@/lib/supabase/brands';
+import {
+  createAnalysisRuns,
+  areAllRunsComplete,
+  claimAnalysisRuns,
+  updateAnalysisRun,
+  updateAnalysisRunIfUnchanged,
+} from '@/lib/supabase/analysis-runs';
+import { archiveAnalysisRuns } from '@/lib/supabase/analysis-versions';
+import { hashContent } from '@/lib/scrapers/shared/cache';
+import { isManualScraperType } from '@/lib/scrapers';
+import { runAllAnalyzers, runAnalyzer } from './runner';
+import { log } from '@/lib/utils/logger';
+import type { PriorResults } from './types';
+import type {
+  BlogFeed,
+  ContactInfo,
+  DetectedLanguage,
+  PricingTable,
+  ScrapeResult,
+  ScraperType,
+  SiteInventory,
+  SocialProof,
+  StructuredData,
+  TechStack,
+  VisualIdentity,
+} from '@/lib/scrapers/types';
+import type { AnalysisLanguage, AnalysisRun, Brand } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StartAnalysisOptions {
+  /** Hash of the content the analyzers last saw (brands.content_hash) */
+  previousHash?: string | null;
+  /** Re-run analyzers even if the content hasn't changed */
+  force?: boolean;
+  /** Language analyzers write in (brands.analysis_language, default english) */
+  analysisLanguage?: AnalysisLanguage;
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Save scraped content on the brand and start all analyzers.
+ *
+ * The analyzers run in the background - the client polls/subscribes
+ * for updates, so this returns as soon as the runs are queued.
+ *
+ * @param brandId - The brand UUID
+ * @param scrapeResult - A successful scrape result (must have content)
+ * @param options - Previous content hash, force flag and analysis language
+ * @returns Error message if the analysis couldn't be started, whether
+ *   analyzers were skipped because nothing changed, the content hash,
+ *   and whether another analysis of the brand is still running
+ */
+export async function startBrandAnalysis(
+  brandId: string,
+  scrapeResult: ScrapeResult,
+  options: StartAnalysisOptions = {}
+): Promise<{ error: string | null; skipped: boolean; contentHash: string | null; conflict?: boolean }> {
+  const content = scrapeResult.content;
+
+  if (!content) {
+    return { error: 'No content to analyze', skipped: false, contentHash: null };
+  }
+
+  const structuredData = scrapeResult.metadata?.structuredData ?? null;
+  const visualIdentity = scrapeResult.metadata?.visualIdentity ?? null;
+  const contactInfo = scrapeResult.metadata?.contactInfo ?? null;
+  const techStack = scrapeResult.metadata?.techStack ?? null;
+  const pricing = scrapeResult.metadata?.pricing ?? null;
+  const socialProof = scrapeResult.metadata?.socialProof ?? null;
+  const blogFeed = scrapeResult.metadata?.blogFeed ?? null;
+  const language = scrapeResult.metadata?.language ?? null;
+  const siteInventory = scrapeResult.metadata?.siteInventory ?? null;
+  const analysisLanguage = options.analysisLanguage ?? 'english';
+  const scraperType = scrapeResult.metadata?.scraperType;
+
+  // Remember where the content came from so re-scans use the same
+  // scraper; pasted and uploaded content has no website to monitor
+  const source = scraperType
+    ? {
+        scraperType,
+        ...(isManualScraperType(scraperType) ? { monitorFrequency: 'off' as const, nextCheckAt: null } : {}),
+      }
+    : {};
+
+  // Hash what the analyzers actually see (pricing, blog posts and a
+  // non-default output language only when present, so other brands
+  // keep their existing hash)
+  const contentHash = hashContent(
+    `${content}\n${JSON.stringify(structuredData)}` +
+    `${pricing ? `\n${JSON.stringify(pricing)}` : ''}` +
+    `${blogFeed ? `\n${JSON.stringify(blogFeed.posts)}` : ''}` +
+    `${analysisLanguage !== 'english' ? `\nlanguage:${analysisLanguage}` : ''}`
+  );
+
+  if (
+    !options.force &&
+    options.previousHash === contentHash &&
+    await areAllRunsComplete(brandId)
+  ) {
+    await updateBrandAdmin(brandId, {
+      scrapedAt: new Date().toISOString(),
+      scrapeStatus: 'complete',
+      scrapeError: null,
+      visualIdentity,
+      contactInfo,
+      techStack,
+      pricing,
+      socialProof,
+      blogFeed,
+      language,
+      siteInventory,
+      ...source,
+    });
+
+    log.info('Content unchanged, skipping analyzers', { brandId });
+    return { error: null, skipped: true, contentHash };
+  }
+
+  // Claim the runs before touching the brand - the analyzers of an
+  // earlier request may still be writing to them
+  const { runs: previousRuns, claimed, conflict, error: claimError } = await claimAnalysisRuns(brandId);
+
+  if (claimError) {
+    log.error('Failed to claim analysis runs', { brandId, error: claimError });
+    return { error: 'Failed to start analysis', skipped: false, contentHash };
+  }
+
+  if (conflict) {
+    log.warn('Brand is already being analyzed', { brandId });
+    return { error: 'This brand is already being analyzed', skipped: false, contentHash, conflict: true };
+  }
+
+  // Only overwrite the name when the source has a title
+  // (uploaded documents and pasted text don't)
+  const title = scrapeResult.metadata?.title;
+
+  await updateBrandAdmin(brandId, {
+    ...(title ? { name: title } : {}),
+    scrapedContent: content,
+    scrapedAt: new Date().toISOString(),
+    scrapeStatus: 'complete',
+    scrapeError: null,
+    structuredData,
+    visualIdentity,
+    contactInfo,
+    techStack,
+    pricing,
+    socialProof,
+    blogFeed,
+    language,
+    siteInventory,
+    contentHash,
+    ...source,
+  });
+
+  log.success('Content saved', {
+    brandId,
+    source: scrapeResult.metadata?.scraperType,
+    contentLength: content.length,
+    pages: scrapeResult.metadata?.pages?.length ?? 1,
+    structuredData: structuredData?.sources.join(', ') || 'none',
+    pricingTiers: pricing?.tiers.length ?? 0,
+    blogPosts: blogFeed?.posts.length ?? 0,
+    language: language?.code ?? 'unknown',
+  });
+
+  // Keep the previous results before the runs are reset
+  const { error: archiveError } = await archiveAnalysisRuns(brandId, options.previousHash ?? null, previousRuns);
+
+  if (archiveError) {
+    await releaseClaim(claimed);
+    return { error: 'Failed to start analysis', skipped: false, contentHash };
+  }
+
+  const { runs, error: runsError } = await createAnalysisRuns(brandId);
+
+  if (runsError) {
+    log.error('Failed to create analysis runs', { error: runsError });
+    await releaseClaim(claimed);
+    return { error: 'Failed to start analysis', skipped: false, contentHash };
+  }
+
+  log.info('Analysis runs created', { count: runs.length });
+
+  // Start analysis in background - don't await
+  runAllAnalyzers(brandId, content, {
+    structuredData,
+    pricing,
+    blogFeed,
+    language,
+    outputLanguage: analysisLanguage,
+  }, contentHash).catch(err => {
+    log.error('Background analysis failed', { brandId, error: err.message });
+  });
+
+  log.success('Analysis started', { brandId });
+
+  return { error: null, skipped: false, contentHash };
+}
+
+/**
+ * Re-run every analyzer on the brand's saved content and evidence.
+ *
+ * For brands whose content can't be scraped again (pasted text, uploaded
+ * documents). Goes through startBrandAnalysis, so previous results are
+ * archived and the hash follows the current analysis language.
+ *
+ * @param brand - The brand (must have scraped content)
+ * @returns Error message if the analysis couldn't be started, and
+ *   whether another analysis of the brand is still running
+ *
+ * @example
+ * const { error, conflict } = await reanalyzeSavedContent(brand);
+ */
+export async function reanalyzeSavedContent(brand: Brand): Promise<{ error: string | null; conflict?: boolean }> {
+  const content = brand.scraped_content;
+
+  if (!content) {
+    return { error: 'No content to analyze' };
+  }
+
+  log.info('Re-analyzing saved content', { brandId: brand.id, source: brand.scraper_type });
+
+  const { error, conflict } = await startBrandAnalysis(brand.id, {
+    success: true,
+    content,
+    metadata: {
+      url: brand.source_url,
+      scrapedAt: brand.scraped_at ?? new Date().toISOString(),
+      contentLength: content.length,
+      scraperType: (brand.scraper_type ?? undefined) as ScraperType | undefined,
+      structuredData: (brand.structured_data ?? undefined) as StructuredData | undefined,
+      visualIdentity: (brand.visual_identity ?? undefined) as VisualIdentity | undefined,
+      contactInfo: (brand.contact_info ?? undefined) as ContactInfo | undefined,
+      techStack: (brand.tech_stack ?? undefined) as TechStack | undefined,
+      pricing: (brand.pricing ?? undefined) as PricingTable | undefined,
+      socialProof: (brand.social_proof ?? undefined) as SocialProof | undefined,
+      blogFeed: (brand.blog_feed ?? undefined) as BlogFeed | undefined,
+      language: (brand.language ?? undefined) as DetectedLanguage | undefined,
+      siteInventory: (brand.site_inventory ?? undefined) as SiteInventory | undefined,
+    },
+  }, {
+    previousHash: brand.content_hash,
+    force: true,
+    analysisLanguage: brand.analysis_language,
+  });
+
+  return { error, conflict };
+}
+
+/**
+ * Re-run one analyzer on the brand's saved content.
+ *
+ * Like startBrandAnalysis, the analyzer runs in the background - this
+ * returns once the run is queued again and its retry count incremented.
+ * Other analyzers' finished results are passed as prior results.
+ *
+ * The run is only queued if its status and retry count are still the
+ * ones in `run`; if another request changed it first, nothing starts
+ * and `conflict` is set.
+ *
+ * @param brand - The brand (must have scraped content)
+ * @param run - The run to retry, as read by the caller
+ * @param runs - All of the brand's runs
+ * @returns Error message if the retry couldn't be started, and whether
+ *   the run changed since it was read
+ *
+ * @example
+ * const { error, conflict } = await retryAnalyzer(brand, run, runs);
+ */
+export async function retryAnalyzer(
+  brand: Brand,
+  run: AnalysisRun,
+  runs: AnalysisRun[]
+): Promise<{ error: string | null; conflict?: boolean }> {
+  const content = brand.scraped_content;
+
+  if (!content) {
+    return { error: 'No content to analyze' };
+  }
+
+  const { run: queued, error: updateError } = await updateAnalysisRunIfUnchanged(run, {
+    status: 'queued',
+    retryCount: run.retry_count + 1,
+    errorMessage: null,
+  });
+
+  if (updateError) {
+    log.error('Failed to queue analyzer retry', { brandId: brand.id, error: updateError });
+    return { error: 'Failed to start retry' };
+  }
+
+  if (!queued) {
+    log.warn('Analyzer changed before the retry was queued', { brandId: brand.id, analyzer: run.analyzer_type });
+    return { error: 'This analysis is already being retried', conflict: true };
+  }
+
+  const priorResults: PriorResults = {};
+  for (const other of runs) {
+    if (other.analyzer_type !== run.analyzer_type && other.status === 'complete' && other.parsed_data) {
+      priorResults[other.analyzer_type] = other.parsed_data;
+    }
+  }
+
+  log.info('Retrying analyzer', {
+    brandId: brand.id,
+    analyzer: run.analyzer_type,
+    attempt: run.retry_count + 1,
+  });
+
+  // Start analysis in background - don't await
+  runAnalyzer({
+    brandId: brand.id,
+    analyzerType: run.analyzer_type,
+    scrapedContent: content,
+    priorResults,
+    evidence: {
+      structuredData: brand.structured_data as StructuredData | null,
+      pricing: brand.pricing as PricingTable | null,
+      blogFeed: brand.blog_feed as BlogFeed | null,
+      language: brand.language as DetectedLanguage | null,
+      outputLanguage: brand.analysis_language,
+    },
+    contentHash: brand.content_hash,
+  }).catch(err => {
+    log.error('Background analyzer retry failed', { brandId: brand.id, error: err.message });
+  });
+
+  return { error: null };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Put the claimed run back the way it was read when the analysis
+ * couldn't start, so the brand isn't left looking busy.
+ */
+async function releaseClaim(run: AnalysisRun | null): Promise<void> {
+  if (!run) return;
+
+  const { error } = await updateAnalysisRun(run.id, { status: run.status });
+
+  if (error) {
+    log.error('Failed to release analysis runs', { brandId: run.brand_id, error });
+  }
+}
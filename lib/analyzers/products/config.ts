@@ -14,4 +14,5 @@ export const config: AnalyzerConfig = {
   description: 'What they sell, pricing models, and market positioning',
   icon: Package,
   dependsOn: [], // No dependencies - runs concurrently
+  promptVersion: 1,
 };
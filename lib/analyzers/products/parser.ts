@@ -6,8 +6,59 @@
  * This is STEP 2 of the two-step AI process.
  */
 
-import type { ParserDefinition } from '../types';
+import type { ParserDefinition, FunctionSchema } from '../types';
+import { createSchemaValidator } from '../validation';
 import type { ParsedProducts } from './types';
+import { OFFERING_TYPES, PRICE_POSITIONINGS, PRICING_MODELS } from '@/types/analyzers';
+
+/** JSON Schema for the function call; also the source of the runtime validator */
+const schema: FunctionSchema = {
+  type: 'object',
+  properties: {
+    offering_type: {
+      type: 'string',
+      enum: [...OFFERING_TYPES],
+      description: 'Whether the business primarily sells products, services, or both',
+    },
+    offerings: {
+      type: 'array',
+      description: 'List of specific products or services offered',
+      items: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Name of the product or service',
+          },
+          description: {
+            type: 'string',
+            description: 'Brief description of what it is',
+          },
+          price: {
+            type: ['string', 'null'],
+            description: 'Price if shown (e.g., "$99", "$49/mo"), null if not visible',
+          },
+          pricing_model: {
+            type: 'string',
+            enum: [...PRICING_MODELS],
+            description: 'How the product/service is priced',
+          },
+        },
+        required: ['name', 'description', 'pricing_model'],
+      },
+    },
+    primary_offer: {
+      type: 'string',
+      description: 'The main product or service they want customers to buy',
+    },
+    price_positioning: {
+      type: 'string',
+      enum: [...PRICE_POSITIONINGS],
+      description: 'Where they position themselves in the market price-wise',
+    },
+  },
+  required: ['offering_type', 'offerings', 'primary_offer', 'price_positioning'],
+};
 
 export const parser: ParserDefinition<ParsedProducts> = {
   systemPrompt: `You are a precise data extraction assistant.
@@ -18,62 +69,11 @@ If prices aren't shown, use null for the price field.`,
   functionName: 'extract_products',
   functionDescription: 'Extract product and pricing information from the analysis',
 
-  schema: {
-    type: 'object',
-    properties: {
-      offering_type: {
-        type: 'string',
-        enum: ['Products', 'Services', 'Both', 'Unclear'],
-        description: 'Whether the business primarily sells products, services, or both',
-      },
-      offerings: {
-        type: 'array',
-        description: 'List of specific products or services offered',
-        items: {
-          type: 'object',
-          properties: {
-            name: {
-              type: 'string',
-              description: 'Name of the product or service',
-            },
-            description: {
-              type: 'string',
-              description: 'Brief description of what it is',
-            },
-            price: {
-              type: ['string', 'null'],
-              description: 'Price if shown (e.g., "$99", "$49/mo"), null if not visible',
-            },
-            pricing_model: {
-              type: 'string',
-              enum: [
-                'One-time',
-                'Subscription',
-                'Retainer',
-                'Project-based',
-                'Custom/Contact',
-                'Free',
-                'Freemium',
-                'Unknown',
-              ],
-              description: 'How the product/service is priced',
-            },
-          },
-          required: ['name', 'description', 'pricing_model'],
-        },
-      },
-      primary_offer: {
-        type: 'string',
-        description: 'The main product or service they want customers to buy',
-      },
-      price_positioning: {
-        type: 'string',
-        enum: ['Budget', 'Mid-market', 'Premium', 'Luxury', 'Unclear'],
-        description: 'Where they position themselves in the market price-wise',
-      },
-    },
-    required: ['offering_type', 'offerings', 'primary_offer', 'price_positioning'],
-  },
+  // JSON Schema defining the output structure
+  schema,
+
+  // Runtime check of the parsing output (generated from the schema)
+  validate: createSchemaValidator<ParsedProducts>(schema),
 
   postProcess: (raw: ParsedProducts): ParsedProducts => {
     return {
@@ -7,6 +7,7 @@
  * Focuses on what they sell, how they price it, and market positioning.
  */
 
+import { formatStructuredDataEvidence, formatPricingEvidence, formatLanguageEvidence } from '../evidence';
 import type { PromptBuilder } from '../types';
 
 /**
@@ -15,7 +16,11 @@ import type { PromptBuilder } from '../types';
  * The prompt asks GPT to analyze the business's offerings
  * like a competitor analyst would.
  */
-export const buildPrompt: PromptBuilder = (scrapedContent, _priorResults) => {
+export const buildPrompt: PromptBuilder = (scrapedContent, _priorResults, evidence) => {
+  const structuredData = formatStructuredDataEvidence(evidence?.structuredData, 'products');
+  const pricing = formatPricingEvidence(evidence?.pricing);
+  const language = formatLanguageEvidence(evidence?.language, evidence?.outputLanguage);
+
   return `You are a competitive analyst examining a business's product and pricing strategy based on their website.
 
 Analyze the website content below and write observations about:
@@ -40,7 +45,7 @@ Analyze the website content below and write observations about:
 Write conversationally. Include specific product names and prices if you find them.
 Note when information is unclear or not shown on the website.
 
----
+${language}${structuredData}${pricing}---
 WEBSITE CONTENT:
 ${scrapedContent}`;
 };
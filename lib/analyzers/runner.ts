@@ -15,11 +15,14 @@
  */
 
 import { getAnalyzer, analyzerIds } from './index';
+import { applyFieldEdits } from './edits';
+import { InvalidOutputError } from './validation';
 import { updateAnalysisRunByType } from '@/lib/supabase/analysis-runs';
-import { analyzeWithGPT, parseWithGPT } from '@/lib/api/openai';
+import { createAnalysisVersion } from '@/lib/supabase/analysis-versions';
+import { analyzeWithLLM, parseWithLLM } from '@/lib/api/llm';
 import { log, analyzerLog } from '@/lib/utils/logger';
 import type { AnalyzerType } from '@/types';
-import type { AnalyzerInput, AnalyzerResult, PriorResults } from './types';
+import type { AnalyzerConfig, AnalyzerEvidence, AnalyzerInput, AnalyzerResult, PriorResults } from './types';
 
 // ============================================================================
 // SINGLE ANALYZER EXECUTION
@@ -30,16 +33,19 @@ import type { AnalyzerInput, AnalyzerResult, PriorResults } from './types';
  *
  * This is the core execution function that:
  * 1. Updates status to "analyzing"
- * 2. Runs the analysis prompt through GPT
+ * 2. Runs the analysis prompt through the configured LLM provider
  * 3. Updates status to "parsing"
- * 4. Runs the parser to extract structured data
- * 5. Saves results and updates status to "complete"
+ * 4. Runs the parser to extract structured data and validates it
+ *    against the parser schema (status "invalid" if it still fails
+ *    after one repair request)
+ * 5. Reapplies human edits, stores the result as a new version and
+ *    updates status to "complete"
  *
  * @param input - Analyzer input with brandId, type, and content
  * @returns Result with raw analysis and parsed data
  */
 export async function runAnalyzer(input: AnalyzerInput): Promise<AnalyzerResult> {
-  const { brandId, analyzerType, scrapedContent, priorResults } = input;
+  const { brandId, analyzerType, scrapedContent, priorResults, evidence, contentHash = null } = input;
   const startTime = Date.now();
 
   analyzerLog.start(analyzerType, brandId);
@@ -53,7 +59,7 @@ export async function runAnalyzer(input: AnalyzerInput): Promise<AnalyzerResult>
     // ========================================
 
     // Update status to analyzing
-    await updateAnalysisRunByType(brandId, analyzerType, {
+    const { run: startedRun } = await updateAnalysisRunByType(brandId, analyzerType, {
       status: 'analyzing',
       startedAt: new Date().toISOString(),
     });
@@ -61,10 +67,10 @@ export async function runAnalyzer(input: AnalyzerInput): Promise<AnalyzerResult>
     analyzerLog.analyzing(analyzerType);
 
     // Build the prompt
-    const prompt = analyzer.buildPrompt(scrapedContent, priorResults);
+    const prompt = analyzer.buildPrompt(scrapedContent, priorResults, evidence);
 
-    // Run GPT analysis
-    const analysisResult = await analyzeWithGPT(prompt);
+    // Run LLM analysis (provider from the analyzer config or the environment)
+    const analysisResult = await analyzeWithLLM(prompt, analyzer.config.llm);
 
     if (!analysisResult.success || !analysisResult.content) {
       throw new Error(analysisResult.error || 'Analysis failed');
@@ -84,19 +90,25 @@ export async function runAnalyzer(input: AnalyzerInput): Promise<AnalyzerResult>
 
     analyzerLog.parsing(analyzerType);
 
-    // Run GPT parsing with function calling
-    const parseResult = await parseWithGPT(
+    // Run LLM parsing with function calling
+    const parseResult = await parseWithLLM(
       rawAnalysis,
       analyzer.parser.systemPrompt,
       analyzer.parser.functionName,
       analyzer.parser.functionDescription,
-      analyzer.parser.schema
+      analyzer.parser.schema,
+      { ...analyzer.config.llm, validate: analyzer.parser.validate }
     );
 
     if (!parseResult.success || !parseResult.data) {
       throw new Error(parseResult.error || 'Parsing failed');
     }
 
+    // Still invalid after the repair request: don't save it as a result
+    if (parseResult.validationErrors) {
+      throw new InvalidOutputError(parseResult.validationErrors);
+    }
+
     // Apply post-processing if defined
     let parsedData = parseResult.data;
     if (analyzer.parser.postProcess) {
@@ -107,11 +119,37 @@ export async function runAnalyzer(input: AnalyzerInput): Promise<AnalyzerResult>
     // Save results
     // ========================================
 
+    const completedAt = new Date().toISOString();
+
+    // Fields a person edited keep their value; the new result becomes their ai_value
+    const fieldEdits = startedRun?.field_edits ?? {};
+    const hasEdits = Object.keys(fieldEdits).length > 0;
+    const { data: savedData, edits } = applyFieldEdits(parsedData as Record<string, unknown>, fieldEdits);
+
+    if (hasEdits) {
+      log.info('Keeping human edits', { brandId, analyzerType, fields: Object.keys(edits) });
+    }
+
+    // Every execution keeps its own version; the run points at the latest
+    const { version } = await createAnalysisVersion({
+      brand_id: brandId,
+      analyzer_type: analyzerType,
+      raw_analysis: rawAnalysis,
+      parsed_data: savedData,
+      content_hash: contentHash,
+      prompt_version: analyzer.config.promptVersion,
+      model: analysisResult.model ?? null,
+      source: 'ai',
+      analyzed_at: completedAt,
+    });
+
     await updateAnalysisRunByType(brandId, analyzerType, {
       status: 'complete',
-      parsedData: parsedData as Record<string, unknown>,
-      completedAt: new Date().toISOString(),
+      parsedData: savedData,
+      completedAt,
       errorMessage: null,
+      ...(version ? { currentVersionId: version.id } : {}),
+      ...(hasEdits ? { fieldEdits: edits } : {}),
     });
 
     const duration = Date.now() - startTime;
@@ -120,15 +158,16 @@ export async function runAnalyzer(input: AnalyzerInput): Promise<AnalyzerResult>
     return {
       success: true,
       rawAnalysis,
-      parsedData,
+      parsedData: savedData,
       durationMs: duration,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const isInvalidOutput = error instanceof InvalidOutputError;
 
-    // Update status to error
+    // Update status to error ('invalid' when the output failed schema validation)
     await updateAnalysisRunByType(brandId, analyzerType, {
-      status: 'error',
+      status: isInvalidOutput ? 'invalid' : 'error',
       errorMessage,
       completedAt: new Date().toISOString(),
     });
@@ -156,11 +195,15 @@ export async function runAnalyzer(input: AnalyzerInput): Promise<AnalyzerResult>
  *
  * @param brandId - The brand UUID
  * @param scrapedContent - The scraped website content
+ * @param evidence - Structured evidence from the scrape (optional)
+ * @param contentHash - Hash of the content (stored with each result)
  * @returns Results from all analyzers
  */
 export async function runAllAnalyzers(
   brandId: string,
-  scrapedContent: string
+  scrapedContent: string,
+  evidence?: AnalyzerEvidence,
+  contentHash?: string | null
 ): Promise<Map<AnalyzerType, AnalyzerResult>> {
   log.group('Running All Analyzers', () => {
     log.info('Starting concurrent analysis', {
@@ -187,6 +230,8 @@ export async function runAllAnalyzers(
           analyzerType,
           scrapedContent,
           priorResults: buildPriorResults(results),
+          evidence,
+          contentHash,
         }).then(result => ({ analyzerType, result }))
       )
     );
@@ -220,20 +265,26 @@ export async function runAllAnalyzers(
  *
  * For MVP, all analyzers have no dependencies so they run in one wave.
  * This function supports future analyzers with dependencies.
+ *
+ * @param configs - Analyzers to plan (default: every registered analyzer)
+ *
+ * @example
+ * buildExecutionPlan() // -> [['basics', 'customer', 'products']]
  */
-function buildExecutionPlan(): AnalyzerType[][] {
+export function buildExecutionPlan(
+  configs: Pick<AnalyzerConfig, 'id' | 'dependsOn'>[] = analyzerIds.map(id => getAnalyzer(id).config)
+): AnalyzerType[][] {
   const waves: AnalyzerType[][] = [];
   const completed = new Set<AnalyzerType>();
 
   // Keep building waves until all analyzers are scheduled
-  while (completed.size < analyzerIds.length) {
+  while (completed.size < configs.length) {
     const wave: AnalyzerType[] = [];
 
-    for (const id of analyzerIds) {
+    for (const { id, dependsOn } of configs) {
       if (completed.has(id)) continue;
 
-      const analyzer = getAnalyzer(id);
-      const dependenciesMet = analyzer.config.dependsOn.every(dep =>
+      const dependenciesMet = dependsOn.every(dep =>
         completed.has(dep)
       );
 
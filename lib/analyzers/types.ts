@@ -6,7 +6,10 @@
  */
 
 import type { LucideIcon } from 'lucide-react';
-import type { AnalyzerType } from '@/types';
+import type { AnalysisLanguage, AnalyzerType } from '@/types';
+import type { BlogFeed, DetectedLanguage, PricingTable, StructuredData } from '@/lib/scrapers/types';
+import type { SchemaValidator } from './validation';
+import type { LLMSettings } from '@/lib/api/llm/types';
 
 // ============================================================================
 // ANALYZER CONFIG
@@ -31,6 +34,15 @@ export interface AnalyzerConfig {
 
   /** IDs of analyzers that must complete first */
   dependsOn: AnalyzerType[];
+
+  /**
+   * Bump when the prompt or parser changes meaningfully.
+   * Stored with every result (analysis_versions.prompt_version).
+   */
+  promptVersion: number;
+
+  /** Provider and model for this analyzer (default: LLM_PROVIDER / LLM_MODEL) */
+  llm?: LLMSettings;
 }
 
 // ============================================================================
@@ -43,38 +55,68 @@ export interface AnalyzerConfig {
  */
 export type PriorResults = Record<string, unknown>;
 
+/**
+ * Machine-readable facts gathered alongside the scraped text, plus the
+ * language the analysis should be written in.
+ * Prompts that use these should treat them as more reliable than prose.
+ */
+export interface AnalyzerEvidence {
+  /** JSON-LD / OpenGraph / microdata published by the site */
+  structuredData?: StructuredData | null;
+  /** Tiers parsed from the site's pricing table */
+  pricing?: PricingTable | null;
+  /** Latest posts from the site's blog feed */
+  blogFeed?: BlogFeed | null;
+  /** Language the content was detected in */
+  language?: DetectedLanguage | null;
+  /** Write in English (default) or in the content's own language */
+  outputLanguage?: AnalysisLanguage;
+}
+
 /**
  * Function that builds the analysis prompt.
  *
  * @param scrapedContent - The raw scraped website content
  * @param priorResults - Results from dependent analyzers (if any)
+ * @param evidence - Structured evidence from the scrape (if any)
  * @returns The prompt string to send to GPT
  */
 export type PromptBuilder = (
   scrapedContent: string,
-  priorResults?: PriorResults
+  priorResults?: PriorResults,
+  evidence?: AnalyzerEvidence
 ) => string;
 
 // ============================================================================
 // PARSER DEFINITION
 // ============================================================================
 
+/**
+ * One field in a parser schema.
+ * Also drives the edit forms and validateParsedData().
+ */
+export interface SchemaProperty {
+  type: string | string[];
+  description: string;
+  enum?: string[];
+  /** Fields of an object-typed property (SchemaProperty-shaped) */
+  properties?: Record<string, unknown>;
+  required?: string[];
+  items?: {
+    type: string;
+    /** Fields of object items (SchemaProperty-shaped) */
+    properties?: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
 /**
  * JSON Schema for GPT function calling.
  * Defines the structure of data to extract.
  */
 export interface FunctionSchema {
   type: 'object';
-  properties: Record<string, {
-    type: string | string[];
-    description: string;
-    enum?: string[];
-    items?: {
-      type: string;
-      properties?: Record<string, unknown>;
-      required?: string[];
-    };
-  }>;
+  properties: Record<string, SchemaProperty>;
   required: string[];
 }
 
@@ -95,7 +137,13 @@ export interface ParserDefinition<T> {
   /** JSON Schema defining the output structure */
   schema: FunctionSchema;
 
-  /** Optional post-processing to clean/validate data */
+  /**
+   * Runtime check of GPT's function call, kept in sync with the schema
+   * via createSchemaValidator(schema)
+   */
+  validate: SchemaValidator<T>;
+
+  /** Optional post-processing to clean up validated data */
   postProcess?: (raw: T) => T;
 }
 
@@ -125,6 +173,9 @@ export interface AnalyzerInput {
   analyzerType: AnalyzerType;
   scrapedContent: string;
   priorResults?: PriorResults;
+  evidence?: AnalyzerEvidence;
+  /** Hash of the analyzed content (stored with the result's version) */
+  contentHash?: string | null;
 }
 
 /**
@@ -0,0 +1,291 @@
+/**
+ * ANALYSIS VALIDATION
+ * ====================
+ * Checks data against a parser schema (types, required fields, enum
+ * values from types/analyzers.ts).
+ *
+ * Used for:
+ * - LLM parser output: every analyzer and doc template declares
+ *   `validate: createSchemaValidator(schema)` and parseWithLLM checks
+ *   (and if needed repairs) the function call with it
+ * - Edits: the edit form checks before saving and
+ *   PATCH /api/brands/[brandId]/analysis checks again
+ *
+ * Must stay client-safe.
+ */
+
+import type { SchemaProperty } from './types';
+import type { AnalysisSource } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Longest text accepted for a single field */
+export const MAX_FIELD_LENGTH = 2000;
+
+/** Most items accepted in a list field */
+export const MAX_LIST_ITEMS = 50;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Error messages keyed by field path (e.g. "industry", "offerings.2.name").
+ */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Any object schema: an analyzer FunctionSchema or a DocFunctionSchema.
+ */
+export interface ObjectSchema {
+  properties: Record<string, SchemaProperty>;
+  required: string[];
+}
+
+export interface ValidationOptions {
+  /**
+   * Who produced the data (default 'human', i.e. the edit form).
+   * 'ai' output may leave required text blank (postProcess fills in
+   * defaults) and extra fields are dropped instead of reported.
+   */
+  source?: AnalysisSource;
+}
+
+export interface ValidationResult<T = Record<string, unknown>> {
+  /** Cleaned data (strings trimmed, blank list items dropped), null if invalid */
+  data: T | null;
+  errors: FieldErrors;
+}
+
+/**
+ * Runtime check declared by each parser definition.
+ */
+export type SchemaValidator<T> = (input: unknown) => ValidationResult<T>;
+
+/**
+ * Thrown when LLM output still doesn't match the schema after repair.
+ * `message` lists the problems.
+ */
+export class InvalidOutputError extends Error {
+  readonly errors: FieldErrors;
+
+  constructor(errors: FieldErrors) {
+    super(`The AI returned data that doesn't match the expected format (${formatFieldErrors(errors)})`);
+    this.name = 'InvalidOutputError';
+    this.errors = errors;
+  }
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Validate parsed data against a parser schema.
+ *
+ * @param schema - The analyzer's parser schema
+ * @param input - Data to check (e.g. a submitted edit form)
+ * @returns Cleaned data, or the errors per field
+ *
+ * @example
+ * const { data, errors } = validateParsedData(getAnalyzer('basics').parser.schema, body.data);
+ * if (!data) return NextResponse.json({ success: false, fieldErrors: errors }, { status: 400 });
+ */
+export function validateParsedData(
+  schema: ObjectSchema,
+  input: unknown,
+  options: ValidationOptions = {}
+): ValidationResult {
+  if (!isRecord(input)) {
+    return { data: null, errors: { _form: 'Expected an object' } };
+  }
+
+  const errors: FieldErrors = {};
+  const data = validateObject(schema.properties, schema.required, input, '', errors, options);
+
+  return Object.keys(errors).length > 0
+    ? { data: null, errors }
+    : { data, errors };
+}
+
+/**
+ * Build the runtime validator for a parser schema (LLM output rules:
+ * blank text allowed, postProcess fills it).
+ *
+ * @example
+ * export const parser: ParserDefinition<ParsedBasics> = {
+ *   ...
+ *   schema,
+ *   validate: createSchemaValidator<ParsedBasics>(schema),
+ * };
+ */
+export function createSchemaValidator<T>(schema: ObjectSchema): SchemaValidator<T> {
+  return (input: unknown) =>
+    validateParsedData(schema, input, { source: 'ai' }) as ValidationResult<T>;
+}
+
+/**
+ * One-line summary of validation errors, for logs and error messages.
+ *
+ * @example
+ * formatFieldErrors({ industry: 'Required' }) // -> 'industry: Required'
+ */
+export function formatFieldErrors(errors: FieldErrors): string {
+  return Object.entries(errors)
+    .map(([path, message]) => `${path}: ${message}`)
+    .join('; ');
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Validate an object's fields; unknown fields are reported (or dropped
+ * for AI output).
+ */
+function validateObject(
+  properties: Record<string, SchemaProperty>,
+  required: string[],
+  input: Record<string, unknown>,
+  path: string,
+  errors: FieldErrors,
+  options: ValidationOptions
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  if (options.source !== 'ai') {
+    for (const key of Object.keys(input)) {
+      if (!(key in properties)) {
+        errors[joinPath(path, key)] = 'Unknown field';
+      }
+    }
+  }
+
+  for (const [key, property] of Object.entries(properties)) {
+    result[key] = validateValue(
+      property,
+      required.includes(key),
+      input[key],
+      joinPath(path, key),
+      errors,
+      options
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Validate and clean one value. Records an error and returns the input
+ * unchanged when it's invalid.
+ */
+function validateValue(
+  property: SchemaProperty,
+  isRequired: boolean,
+  value: unknown,
+  path: string,
+  errors: FieldErrors,
+  options: ValidationOptions
+): unknown {
+  const types = Array.isArray(property.type) ? property.type : [property.type];
+  const nullable = types.includes('null') || !isRequired;
+  const isBlank = typeof value === 'string' && value.trim() === '';
+
+  if (isBlank && options.source === 'ai' && !nullable && !property.enum) {
+    return '';
+  }
+
+  if (value === undefined || value === null || isBlank) {
+    if (types.includes('array')) {
+      // An empty list is a valid answer
+      if (value === undefined || value === null) return [];
+    }
+    if (!nullable) {
+      errors[path] = 'Required';
+      return value;
+    }
+    return null;
+  }
+
+  if (types.includes('string') && typeof value === 'string') {
+    const text = value.trim();
+
+    if (text.length > MAX_FIELD_LENGTH) {
+      errors[path] = `Keep it under ${MAX_FIELD_LENGTH} characters`;
+    } else if (property.enum && !property.enum.includes(text)) {
+      errors[path] = `Must be one of: ${property.enum.join(', ')}`;
+    }
+    return text;
+  }
+
+  if (types.includes('array') && Array.isArray(value)) {
+    return validateList(property, value, path, errors, options);
+  }
+
+  if (types.includes('object') && isRecord(value)) {
+    const properties = (property.properties ?? {}) as Record<string, SchemaProperty>;
+    return validateObject(properties, property.required ?? [], value, path, errors, options);
+  }
+
+  errors[path] = `Expected ${types.filter(t => t !== 'null').join(' or ')}`;
+  return value;
+}
+
+/**
+ * Validate a list field's items. Blank string items are dropped.
+ */
+function validateList(
+  property: SchemaProperty,
+  value: unknown[],
+  path: string,
+  errors: FieldErrors,
+  options: ValidationOptions
+): unknown[] {
+  if (value.length > MAX_LIST_ITEMS) {
+    errors[path] = `At most ${MAX_LIST_ITEMS} items`;
+    return value;
+  }
+
+  const items = property.items;
+
+  if (items?.type === 'string') {
+    return value
+      .filter(item => !(typeof item === 'string' && item.trim() === ''))
+      .map((item, index) =>
+        validateValue(
+          { type: 'string', description: property.description },
+          true,
+          item,
+          joinPath(path, String(index)),
+          errors,
+          options
+        )
+      );
+  }
+
+  if (items?.type === 'object' && items.properties) {
+    const itemProperties = items.properties as Record<string, SchemaProperty>;
+
+    return value.map((item, index) => {
+      const itemPath = joinPath(path, String(index));
+      if (!isRecord(item)) {
+        errors[itemPath] = 'Expected an object';
+        return item;
+      }
+      return validateObject(itemProperties, items.required ?? [], item, itemPath, errors, options);
+    });
+  }
+
+  return value;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,151 @@
+/**
+ * ANTHROPIC PROVIDER TESTS
+ * =========================
+ * Requests and responses of the Messages API provider against a stubbed
+ * fetch: forced tool_use calls, text completions and error statuses.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createAnthropicProvider } from './anthropic';
+import type { FunctionCallRequest } from './types';
+
+const MODEL = 'claude-3-5-haiku-latest';
+
+const FUNCTION_REQUEST: FunctionCallRequest = {
+  systemPrompt: 'Extract the basics.',
+  messages: [
+    { role: 'user', content: 'Acme sells garden tools.' },
+    { role: 'function_call', id: 'toolu_1', name: 'extract_basics', arguments: '{"business_name": 7}' },
+    { role: 'function_result', callId: 'toolu_1', content: 'business_name must be a string' },
+  ],
+  function: {
+    name: 'extract_basics',
+    description: 'Business basics',
+    parameters: {
+      type: 'object',
+      properties: { business_name: { type: 'string', description: 'Name' } },
+      required: ['business_name'],
+    },
+  },
+  model: MODEL,
+  maxTokens: 1000,
+  temperature: 0,
+};
+
+const USAGE = { input_tokens: 120, output_tokens: 30 };
+
+/** Make the next fetch answer with `body` as JSON */
+function respond(body: unknown, status = 200): ReturnType<typeof vi.fn> {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+/** The JSON body of the request fetch was called with */
+function sentBody(fetchMock: ReturnType<typeof vi.fn>): Record<string, unknown> {
+  const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+  return JSON.parse(init.body as string);
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const provider = createAnthropicProvider({ apiKey: 'sk-ant-test' });
+
+describe('callFunction', () => {
+  it('forces the tool and returns its input as the call arguments', async () => {
+    const fetchMock = respond({
+      model: MODEL,
+      content: [
+        { type: 'text', text: 'Here you go.' },
+        { type: 'tool_use', id: 'toolu_2', name: 'extract_basics', input: { business_name: 'Acme' } },
+      ],
+      usage: USAGE,
+    });
+
+    const response = await provider.callFunction(FUNCTION_REQUEST);
+
+    expect(response).toEqual({
+      call: { id: 'toolu_2', name: 'extract_basics', arguments: '{"business_name":"Acme"}' },
+      model: MODEL,
+      usage: { promptTokens: 120, completionTokens: 30, totalTokens: 150 },
+    });
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers).toMatchObject({ 'x-api-key': 'sk-ant-test', 'anthropic-version': '2023-06-01' });
+
+    expect(sentBody(fetchMock)).toMatchObject({
+      model: MODEL,
+      system: 'Extract the basics.',
+      tool_choice: { type: 'tool', name: 'extract_basics' },
+      tools: [{ name: 'extract_basics', input_schema: FUNCTION_REQUEST.function.parameters }],
+      messages: [
+        { role: 'user', content: 'Acme sells garden tools.' },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', input: { business_name: 7 } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1' }] },
+      ],
+    });
+  });
+
+  it('returns no call when the model answered with text only', async () => {
+    respond({ model: MODEL, content: [{ type: 'text', text: 'I cannot tell.' }] });
+
+    const response = await provider.callFunction(FUNCTION_REQUEST);
+
+    expect(response.call).toBeNull();
+    expect(response.usage).toBeUndefined();
+  });
+
+  it('throws with the status and the API\'s message', async () => {
+    respond({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }, 529);
+
+    await expect(provider.callFunction(FUNCTION_REQUEST)).rejects.toThrow(/Anthropic API responded 529: .*Overloaded/);
+  });
+});
+
+describe('complete', () => {
+  const request = { prompt: 'Describe Acme.', model: MODEL, maxTokens: 500, temperature: 0.7 };
+
+  it('joins the text blocks of the answer', async () => {
+    const fetchMock = respond({
+      model: MODEL,
+      content: [{ type: 'text', text: 'Acme makes ' }, { type: 'text', text: 'garden tools.' }],
+      usage: USAGE,
+    });
+
+    const response = await provider.complete(request);
+
+    expect(response.content).toBe('Acme makes garden tools.');
+    expect(sentBody(fetchMock)).toMatchObject({
+      model: MODEL,
+      max_tokens: 500,
+      messages: [{ role: 'user', content: 'Describe Acme.' }],
+    });
+  });
+
+  it('returns null content when the answer has no text', async () => {
+    respond({ model: MODEL, content: [] });
+
+    expect((await provider.complete(request)).content).toBeNull();
+  });
+
+  it('throws on an error status', async () => {
+    respond({ type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } }, 401);
+
+    await expect(provider.complete(request)).rejects.toThrow('Anthropic API responded 401');
+  });
+
+  it('sends requests to a configured API URL', async () => {
+    const fetchMock = respond({ model: MODEL, content: [] });
+    const proxied = createAnthropicProvider({ apiKey: 'sk-ant-test', apiUrl: 'https://llm-proxy.example.com/v1/messages' });
+
+    await proxied.complete(request);
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://llm-proxy.example.com/v1/messages');
+  });
+});
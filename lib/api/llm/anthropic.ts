@@ -0,0 +1,181 @@
+/**
+ * ANTHROPIC PROVIDER
+ * ===================
+ * Claude models through the Anthropic Messages API. Function calling
+ * maps to a forced tool_use; GPT-style JSON schemas are accepted as the
+ * tool's input_schema unchanged.
+ *
+ * Talks to the REST API with fetch (no SDK dependency).
+ */
+
+import type { FunctionCallMessage, LLMProvider, LLMUsage } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const ANTHROPIC_DEFAULT_MODEL = 'claude-3-5-haiku-latest';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/** Give up on a request after this long */
+const REQUEST_TIMEOUT_MS = 120000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | ContentBlock[];
+}
+
+interface AnthropicResponse {
+  model: string;
+  content: ContentBlock[];
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * Provider backed by the Anthropic Messages API.
+ *
+ * @param config - API key, and a different API URL (e.g. a proxy) if needed
+ *
+ * @example
+ * const provider = createAnthropicProvider({ apiKey: process.env.ANTHROPIC_API_KEY! });
+ */
+export function createAnthropicProvider(config: {
+  apiKey: string;
+  apiUrl?: string;
+  defaultModel?: string;
+}): LLMProvider {
+  const send = async (body: Record<string, unknown>): Promise<AnthropicResponse> => {
+    const response = await fetch(config.apiUrl ?? ANTHROPIC_API_URL, {
+      method: 'POST',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Anthropic API responded ${response.status}: ${detail.slice(0, 300)}`);
+    }
+
+    return response.json() as Promise<AnthropicResponse>;
+  };
+
+  return {
+    name: 'anthropic',
+    defaultModel: config.defaultModel ?? ANTHROPIC_DEFAULT_MODEL,
+
+    async complete(request) {
+      const response = await send({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: [{ role: 'user', content: request.prompt }],
+      });
+
+      const text = response.content
+        .filter((block): block is Extract<ContentBlock, { type: 'text' }> => block.type === 'text')
+        .map(block => block.text)
+        .join('');
+
+      return {
+        content: text || null,
+        model: response.model,
+        usage: toUsage(response.usage),
+      };
+    },
+
+    async callFunction(request) {
+      const response = await send({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.systemPrompt,
+        messages: request.messages.map(toAnthropicMessage),
+        tools: [
+          {
+            name: request.function.name,
+            description: request.function.description,
+            input_schema: request.function.parameters,
+          },
+        ],
+        tool_choice: { type: 'tool', name: request.function.name },
+      });
+
+      const toolUse = response.content.find(
+        (block): block is Extract<ContentBlock, { type: 'tool_use' }> => block.type === 'tool_use'
+      );
+
+      return {
+        call: toolUse
+          ? { id: toolUse.id, name: toolUse.name, arguments: JSON.stringify(toolUse.input) }
+          : null,
+        model: response.model,
+        usage: toUsage(response.usage),
+      };
+    },
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toAnthropicMessage(message: FunctionCallMessage): AnthropicMessage {
+  switch (message.role) {
+    case 'user':
+      return { role: 'user', content: message.content };
+    case 'function_call':
+      return {
+        role: 'assistant',
+        content: [{
+          type: 'tool_use',
+          id: message.id,
+          name: message.name,
+          input: safeParse(message.arguments),
+        }],
+      };
+    case 'function_result':
+      return {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: message.callId, content: message.content }],
+      };
+  }
+}
+
+/**
+ * tool_use input must be an object; unparseable arguments are sent empty.
+ */
+function safeParse(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return {};
+  }
+}
+
+function toUsage(usage: AnthropicResponse['usage']): LLMUsage | undefined {
+  return usage ? {
+    promptTokens: usage.input_tokens,
+    completionTokens: usage.output_tokens,
+    totalTokens: usage.input_tokens + usage.output_tokens,
+  } : undefined;
+}
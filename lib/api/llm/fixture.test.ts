@@ -0,0 +1,87 @@
+/**
+ * FIXTURE PROVIDER TESTS
+ * =======================
+ * Canned answers in order, and schema-generated examples that pass the
+ * analyzers' own validation.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getAnalyzer } from '@/lib/analyzers';
+import { createFixtureProvider, exampleFromSchema, FIXTURE_MODEL } from './fixture';
+import type { FunctionCallRequest } from './types';
+
+const basics = getAnalyzer('basics');
+
+/** A basics parse request */
+function functionRequest(): FunctionCallRequest {
+  const { functionName, functionDescription, schema } = basics.parser;
+  return {
+    systemPrompt: '',
+    messages: [{ role: 'user', content: 'Acme sells garden tools.' }],
+    function: { name: functionName, description: functionDescription, parameters: schema },
+    model: FIXTURE_MODEL,
+    maxTokens: 1000,
+    temperature: 0,
+  };
+}
+
+describe('createFixtureProvider', () => {
+  it('answers completions with the analysis fixture', async () => {
+    const provider = createFixtureProvider({ analysis: 'Acme makes garden tools.' });
+
+    expect(await provider.complete({ prompt: 'x', model: FIXTURE_MODEL, maxTokens: 10, temperature: 0 }))
+      .toEqual({ content: 'Acme makes garden tools.', model: FIXTURE_MODEL });
+  });
+
+  it('answers a function\'s fixtures in order and repeats the last one', async () => {
+    const provider = createFixtureProvider({
+      functionCalls: { [basics.parser.functionName]: [{ business_model: 'saas' }, { business_name: 'Acme' }] },
+    });
+
+    const answers = [];
+    for (let i = 0; i < 3; i++) {
+      answers.push((await provider.callFunction(functionRequest())).call);
+    }
+
+    expect(answers.map(call => JSON.parse(call?.arguments ?? 'null'))).toEqual([
+      { business_model: 'saas' },
+      { business_name: 'Acme' },
+      { business_name: 'Acme' },
+    ]);
+    expect(answers.map(call => call?.id)).toEqual([
+      `fixture-${basics.parser.functionName}-1`,
+      `fixture-${basics.parser.functionName}-2`,
+      `fixture-${basics.parser.functionName}-3`,
+    ]);
+  });
+
+  it('generates valid arguments for functions without a fixture', async () => {
+    const { call } = await createFixtureProvider().callFunction(functionRequest());
+
+    expect(basics.parser.validate(JSON.parse(call?.arguments ?? '{}')).errors).toEqual({});
+  });
+});
+
+describe('exampleFromSchema', () => {
+  it('uses the first enum value, example strings and one-item lists', () => {
+    expect(exampleFromSchema({
+      type: 'object',
+      properties: {
+        tier: { type: 'string', enum: ['basic', 'pro'], description: '' },
+        tagline: { type: 'string', description: '' },
+        tags: { type: 'array', items: { type: 'string' }, description: '' },
+        offerings: {
+          type: 'array',
+          description: '',
+          items: { type: 'object', properties: { name: { type: 'string', description: '' } } },
+        },
+      },
+      required: [],
+    })).toEqual({
+      tier: 'basic',
+      tagline: 'Example tagline',
+      tags: ['Example tags'],
+      offerings: [{ name: 'Example name' }],
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * FIXTURE PROVIDER
+ * =================
+ * Deterministic answers without a model or network, for tests, local
+ * development and demos. Every run with the same fixtures returns the
+ * same results.
+ *
+ * Function calls return the fixture for the function name, or an
+ * example generated from the schema (first enum value, "Example <field>"
+ * strings, one-item lists) that passes the parser's validation.
+ */
+
+import type { FunctionSchema, SchemaProperty } from '@/lib/analyzers/types';
+import type { LLMProvider } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const FIXTURE_MODEL = 'fixture';
+
+const DEFAULT_ANALYSIS = 'Fixture analysis. This text stands in for the model\'s answer.';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LLMFixtures {
+  /** Text returned by the analysis step (default: a fixed placeholder) */
+  analysis?: string;
+  /**
+   * Arguments returned per function name. An array is answered in order
+   * (the last answer repeats), e.g. an invalid call followed by its repair.
+   */
+  functionCalls?: Record<string, Record<string, unknown> | Record<string, unknown>[]>;
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * Provider that answers from fixtures instead of a model.
+ *
+ * @param fixtures - Canned answers (anything missing is generated)
+ *
+ * @example
+ * // In a test that mocks @/lib/api/llm/registry
+ * vi.mocked(resolveLLM).mockReturnValue({
+ *   provider: createFixtureProvider({
+ *     functionCalls: {
+ *       extract_basics: [{ business_model: 'saas' }, { ...validBasics }],
+ *     },
+ *   }),
+ *   model: FIXTURE_MODEL,
+ * });
+ */
+export function createFixtureProvider(fixtures: LLMFixtures = {}): LLMProvider {
+  const callCounts = new Map<string, number>();
+
+  return {
+    name: 'fixture',
+    defaultModel: FIXTURE_MODEL,
+
+    async complete(request) {
+      return { content: fixtures.analysis ?? DEFAULT_ANALYSIS, model: request.model };
+    },
+
+    async callFunction(request) {
+      const { name, parameters } = request.function;
+      const count = callCounts.get(name) ?? 0;
+      callCounts.set(name, count + 1);
+
+      const fixture = fixtures.functionCalls?.[name];
+      const answer = Array.isArray(fixture)
+        ? fixture[Math.min(count, fixture.length - 1)]
+        : fixture ?? exampleFromSchema(parameters);
+
+      return {
+        call: { id: `fixture-${name}-${count + 1}`, name, arguments: JSON.stringify(answer) },
+        model: request.model,
+      };
+    },
+  };
+}
+
+/**
+ * Valid example arguments for a function schema.
+ *
+ * @example
+ * exampleFromSchema(getAnalyzer('basics').parser.schema)
+ * // -> { business_name: 'Example business name', ..., business_model: 'B2B Services' }
+ */
+export function exampleFromSchema(schema: FunctionSchema): Record<string, unknown> {
+  return exampleObject(schema.properties);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function exampleObject(properties: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(properties as Record<string, SchemaProperty>).map(
+      ([key, property]) => [key, exampleValue(key, property)]
+    )
+  );
+}
+
+function exampleValue(key: string, property: SchemaProperty): unknown {
+  const types = Array.isArray(property.type) ? property.type : [property.type];
+  const text = `Example ${key.replace(/_/g, ' ')}`;
+
+  if (property.enum) return property.enum[0];
+
+  if (types.includes('array')) {
+    return property.items?.type === 'object'
+      ? [exampleObject(property.items.properties ?? {})]
+      : [text];
+  }
+
+  if (types.includes('object')) return exampleObject(property.properties ?? {});
+
+  return text;
+}
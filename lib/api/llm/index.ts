@@ -0,0 +1,350 @@
+/**
+ * LLM API HELPER
+ * ===============
+ * Provider-neutral wrappers for the two-step AI process: analysis
+ * (step 1, natural language) and parsing (step 2, function calling).
+ *
+ * The provider comes from the analyzer's or template's `llm` settings,
+ * else LLM_PROVIDER (see registry.ts). Providers: OpenAI, Anthropic, a
+ * local OpenAI-compatible server, deterministic fixtures and recorded
+ * responses (recorded.ts).
+ *
+ * Usage:
+ *   import { analyzeWithLLM, parseWithLLM } from '@/lib/api/llm';
+ */
+
+import { log } from '@/lib/utils/logger';
+import { formatFieldErrors, type FieldErrors, type SchemaValidator } from '@/lib/analyzers/validation';
+import { resolveLLM } from './registry';
+import type { FunctionSchema } from '@/lib/analyzers/types';
+import type {
+  FunctionCallMessage,
+  FunctionCallRequest,
+  LLMProvider,
+  LLMSettings,
+  LLMUsage,
+} from './types';
+
+export { resolveLLM, getLLMProvider, llmProviderIds } from './registry';
+export { createOpenAIProvider, createLocalProvider } from './openai';
+export { createAnthropicProvider } from './anthropic';
+export { createFixtureProvider, exampleFromSchema, type LLMFixtures } from './fixture';
+export {
+  createRecordedProvider,
+  createRecordingProvider,
+  type LLMRecording,
+  type RecordedCompletion,
+  type RecordedFunctionCall,
+} from './recorded';
+export type * from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MAX_TOKENS_ANALYSIS = 2000;
+const MAX_TOKENS_PARSE = 1500;
+const TEMPERATURE_ANALYSIS = 0.7; // More creative for analysis
+const TEMPERATURE_PARSE = 0.1;    // More deterministic for parsing
+
+/** Follow-up calls asking the model to fix output that failed validation */
+const REPAIR_ATTEMPTS = 1;
+
+// ============================================================================
+// ANALYSIS (STEP 1)
+// ============================================================================
+
+export interface AnalysisOptions extends LLMSettings {
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface AnalysisResult {
+  success: boolean;
+  content?: string;
+  error?: string;
+  /** Model that answered (as reported by the API) */
+  model?: string;
+  usage?: LLMUsage;
+}
+
+/**
+ * Run the analysis step (natural language thinking).
+ *
+ * @param prompt - The analysis prompt
+ * @param options - Provider, model and sampling overrides
+ * @returns Analysis result with natural language content
+ *
+ * @example
+ * const result = await analyzeWithLLM(buildPrompt(scrapedContent), analyzer.config.llm);
+ * if (result.success) {
+ *   console.log(result.content); // Natural language analysis
+ * }
+ */
+export async function analyzeWithLLM(
+  prompt: string,
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult> {
+  const {
+    maxTokens = MAX_TOKENS_ANALYSIS,
+    temperature = TEMPERATURE_ANALYSIS,
+  } = options;
+
+  try {
+    const { provider, model } = resolveLLM(options);
+
+    log.debug('🔄 Starting LLM analysis', { provider: provider.name, model, maxTokens });
+
+    const response = await provider.complete({ prompt, model, maxTokens, temperature });
+
+    if (!response.content) {
+      log.error('LLM returned empty response', { provider: provider.name });
+      return {
+        success: false,
+        error: 'The AI returned an empty response',
+      };
+    }
+
+    log.debug('✅ LLM analysis complete', {
+      provider: provider.name,
+      tokens: response.usage?.totalTokens,
+    });
+
+    return {
+      success: true,
+      content: response.content,
+      model: response.model,
+      usage: response.usage,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log.error('LLM analysis failed', { error: message });
+
+    return {
+      success: false,
+      error: `AI analysis failed: ${message}`,
+    };
+  }
+}
+
+// ============================================================================
+// PARSING (STEP 2)
+// ============================================================================
+
+export interface ParseOptions extends LLMSettings {
+  maxTokens?: number;
+  temperature?: number;
+  /**
+   * Runtime check of the function call (the parser's `validate`).
+   * Invalid output gets a repair request; whatever is still invalid
+   * afterwards is returned as validationErrors.
+   */
+  validate?: SchemaValidator<unknown>;
+  /** Repair requests for invalid output (default REPAIR_ATTEMPTS) */
+  repairAttempts?: number;
+}
+
+export interface ParseResult<T = Record<string, unknown>> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  /** Set when the output still didn't match the schema after repair */
+  validationErrors?: FieldErrors;
+  /** True when a repair request fixed the output */
+  repaired?: boolean;
+  usage?: LLMUsage;
+}
+
+/**
+ * Run the parsing step (structured extraction via function calling).
+ *
+ * With `options.validate`, the function call is checked against the
+ * schema. Invalid output is sent back to the model with the problems
+ * listed (up to `repairAttempts` times) and the returned data is the
+ * validated (cleaned) result.
+ *
+ * @param analysis - The natural language analysis from step 1
+ * @param systemPrompt - System prompt for the parser
+ * @param functionName - Name of the function to call
+ * @param functionDescription - Description of the function
+ * @param schema - JSON schema for the function parameters
+ * @param options - Provider, model, sampling and validation options
+ * @returns Parsed structured data
+ *
+ * @example
+ * const result = await parseWithLLM(
+ *   analysisText,
+ *   parser.systemPrompt,
+ *   parser.functionName,
+ *   parser.functionDescription,
+ *   parser.schema,
+ *   { ...analyzer.config.llm, validate: parser.validate }
+ * );
+ * if (result.validationErrors) {
+ *   throw new InvalidOutputError(result.validationErrors);
+ * }
+ */
+export async function parseWithLLM<T = Record<string, unknown>>(
+  analysis: string,
+  systemPrompt: string,
+  functionName: string,
+  functionDescription: string,
+  schema: FunctionSchema,
+  options: ParseOptions = {}
+): Promise<ParseResult<T>> {
+  const {
+    maxTokens = MAX_TOKENS_PARSE,
+    temperature = TEMPERATURE_PARSE,
+    validate,
+    repairAttempts = REPAIR_ATTEMPTS,
+  } = options;
+
+  try {
+    const { provider, model } = resolveLLM(options);
+
+    log.debug('📋 Starting LLM parsing', { functionName, provider: provider.name, model });
+
+    const messages: FunctionCallMessage[] = [
+      {
+        role: 'user',
+        content: `Extract the structured data from this analysis:\n\n${analysis}`,
+      },
+    ];
+
+    const usage: LLMUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+    for (let attempt = 0; ; attempt++) {
+      const call = await requestFunctionCall(provider, {
+        systemPrompt,
+        messages,
+        function: { name: functionName, description: functionDescription, parameters: schema },
+        model,
+        maxTokens,
+        temperature,
+      });
+
+      if (call.usage) {
+        usage.promptTokens += call.usage.promptTokens;
+        usage.completionTokens += call.usage.completionTokens;
+        usage.totalTokens += call.usage.totalTokens;
+      }
+
+      if (!call.success) {
+        return { success: false, error: call.error };
+      }
+
+      if (!validate) {
+        log.debug('✅ LLM parsing complete', { functionName, tokens: usage.totalTokens });
+        return { success: true, data: call.data as T, usage };
+      }
+
+      const { data, errors } = validate(call.data);
+
+      if (data) {
+        log.debug('✅ LLM parsing complete', {
+          functionName,
+          tokens: usage.totalTokens,
+          repaired: attempt > 0,
+        });
+        return { success: true, data: data as T, repaired: attempt > 0, usage };
+      }
+
+      if (attempt >= repairAttempts) {
+        log.warn('LLM output failed validation', { functionName, errors });
+        return {
+          success: true,
+          data: call.data as T,
+          validationErrors: errors,
+          usage,
+        };
+      }
+
+      log.warn('LLM output failed validation, requesting a repair', { functionName, errors });
+
+      // Hand the invalid call back as the function's result so the model can correct it
+      messages.push(
+        { role: 'function_call', id: call.callId, name: functionName, arguments: call.arguments },
+        {
+          role: 'function_result',
+          callId: call.callId,
+          content: `The arguments don't match the schema: ${formatFieldErrors(errors)}. ` +
+            `Call ${functionName} again with the complete, corrected data. ` +
+            'Use only the allowed values for enum fields.',
+        }
+      );
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log.error('LLM parsing failed', { error: message });
+
+    return {
+      success: false,
+      error: `AI parsing failed: ${message}`,
+    };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type FunctionCallResult =
+  | {
+      success: true;
+      /** Parsed function arguments */
+      data: unknown;
+      /** Raw function arguments, for repair requests */
+      arguments: string;
+      callId: string;
+      usage?: LLMUsage;
+    }
+  | { success: false; error: string; usage?: LLMUsage };
+
+/**
+ * Make one function-calling request and parse the call's arguments.
+ */
+async function requestFunctionCall(
+  provider: LLMProvider,
+  request: FunctionCallRequest
+): Promise<FunctionCallResult> {
+  const functionName = request.function.name;
+  const { call, usage } = await provider.callFunction(request);
+
+  if (!call) {
+    log.error('LLM did not call the expected function', { provider: provider.name, functionName });
+    return {
+      success: false,
+      error: 'The AI did not return structured data in the expected format',
+      usage,
+    };
+  }
+
+  if (call.name !== functionName) {
+    log.error('LLM called wrong function', { expected: functionName, actual: call.name });
+    return {
+      success: false,
+      error: 'The AI did not return structured data in the expected format',
+      usage,
+    };
+  }
+
+  // Parse the function arguments
+  try {
+    return {
+      success: true,
+      data: JSON.parse(call.arguments),
+      arguments: call.arguments,
+      callId: call.id,
+      usage,
+    };
+  } catch {
+    log.error('Failed to parse LLM function arguments', {
+      arguments: call.arguments,
+    });
+    return {
+      success: false,
+      error: 'Failed to parse the AI response as JSON',
+      usage,
+    };
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * OPENAI PROVIDER
+ * ================
+ * Chat Completions API, via the OpenAI SDK. Also serves OpenAI-compatible
+ * local servers (Ollama, vLLM, LM Studio) by pointing the SDK at their
+ * base URL.
+ */
+
+import OpenAI from 'openai';
+import type { FunctionCallMessage, LLMProvider } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+
+/** Used when LOCAL_LLM_MODEL isn't set (Ollama's name for Llama 3.1 8B) */
+export const LOCAL_DEFAULT_MODEL = 'llama3.1';
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+/**
+ * Provider backed by the OpenAI API, or any server that speaks it.
+ *
+ * @param config - API key, and a base URL for compatible servers
+ *
+ * @example
+ * const provider = createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY! });
+ */
+export function createOpenAIProvider(config: {
+  apiKey: string;
+  /** e.g. http://localhost:11434/v1 for Ollama (default: api.openai.com) */
+  baseURL?: string;
+  /** Shown in logs (default 'openai') */
+  name?: string;
+  defaultModel?: string;
+}): LLMProvider {
+  const client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+
+  return {
+    name: config.name ?? 'openai',
+    defaultModel: config.defaultModel ?? OPENAI_DEFAULT_MODEL,
+
+    async complete(request) {
+      const response = await client.chat.completions.create({
+        model: request.model,
+        messages: [
+          {
+            role: 'user',
+            content: request.prompt,
+          },
+        ],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+      });
+
+      return {
+        content: response.choices[0]?.message?.content ?? null,
+        model: response.model,
+        usage: toUsage(response.usage),
+      };
+    },
+
+    async callFunction(request) {
+      const response = await client.chat.completions.create({
+        model: request.model,
+        messages: [
+          {
+            role: 'system',
+            content: request.systemPrompt,
+          },
+          ...request.messages.map(toChatMessage),
+        ],
+        tools: [
+          {
+            type: 'function',
+            function: {
+              name: request.function.name,
+              description: request.function.description,
+              parameters: request.function.parameters as unknown as Record<string, unknown>,
+            },
+          },
+        ],
+        tool_choice: {
+          type: 'function',
+          function: { name: request.function.name },
+        },
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+      });
+
+      const toolCall = response.choices[0]?.message?.tool_calls?.[0];
+
+      return {
+        // Type guard for function tool calls
+        call: toolCall && toolCall.type === 'function'
+          ? { id: toolCall.id, name: toolCall.function.name, arguments: toolCall.function.arguments }
+          : null,
+        model: response.model,
+        usage: toUsage(response.usage),
+      };
+    },
+  };
+}
+
+/**
+ * Provider for a local OpenAI-compatible server (Ollama, vLLM, LM Studio).
+ * Function calling needs a model that supports tools.
+ *
+ * @param config - The server's /v1 base URL, optional API key and model
+ *
+ * @example
+ * const provider = createLocalProvider({ baseURL: 'http://localhost:11434/v1' });
+ */
+export function createLocalProvider(config: {
+  baseURL: string;
+  apiKey?: string;
+  defaultModel?: string;
+}): LLMProvider {
+  return createOpenAIProvider({
+    // Local servers ignore the key, but the SDK requires one
+    apiKey: config.apiKey || 'local',
+    baseURL: config.baseURL,
+    name: 'local',
+    defaultModel: config.defaultModel ?? LOCAL_DEFAULT_MODEL,
+  });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toChatMessage(message: FunctionCallMessage): ChatMessage {
+  switch (message.role) {
+    case 'user':
+      return { role: 'user', content: message.content };
+    case 'function_call':
+      return {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{
+          id: message.id,
+          type: 'function',
+          function: { name: message.name, arguments: message.arguments },
+        }],
+      };
+    case 'function_result':
+      return { role: 'tool', tool_call_id: message.callId, content: message.content };
+  }
+}
+
+function toUsage(usage: OpenAI.CompletionUsage | undefined) {
+  return usage ? {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  } : undefined;
+}
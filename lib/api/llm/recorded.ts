@@ -0,0 +1,200 @@
+/**
+ * RECORDED PROVIDER
+ * ==================
+ * Replays saved model responses, so the pipeline can be run offline
+ * with real (or hand-edited) answers - including API errors, replies
+ * without a function call and malformed arguments.
+ *
+ * createRecordingProvider() wraps a live provider and captures what it
+ * returns in the same format, ready to save as JSON.
+ */
+
+import { createHash } from 'crypto';
+import type { CompletionResponse, FunctionCallResponse, LLMProvider } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const RECORDED_MODEL = 'recorded';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A saved analysis answer. Used for the first prompt that contains
+ * `match` / has `promptHash`; entries with neither match any prompt.
+ */
+export interface RecordedCompletion {
+  /** Text the prompt contains (e.g. "customer research specialist") */
+  match?: string;
+  /** SHA-256 of the exact prompt (set by the recorder) */
+  promptHash?: string;
+  content?: string | null;
+  /** Replayed as a failed API request */
+  error?: string;
+  model?: string;
+}
+
+/**
+ * A saved function call answer.
+ */
+export interface RecordedFunctionCall {
+  /** The call's arguments as JSON text (may be malformed); omit for a reply without a call */
+  arguments?: string;
+  /** Replayed as a failed API request */
+  error?: string;
+  model?: string;
+}
+
+export interface LLMRecording {
+  completions: RecordedCompletion[];
+  /**
+   * Answers per function name, in order (the last one repeats),
+   * e.g. an invalid call followed by its repair.
+   */
+  functionCalls: Record<string, RecordedFunctionCall[]>;
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+/**
+ * Provider that answers from a recording.
+ * A prompt or function without a recorded answer fails like an API error.
+ *
+ * @param recording - Saved responses (e.g. a JSON fixture)
+ *
+ * @example
+ * // In a test that mocks @/lib/api/llm/registry (see lib/harness/mocks.ts)
+ * vi.mocked(resolveLLM).mockReturnValue({
+ *   provider: createRecordedProvider(recording),
+ *   model: RECORDED_MODEL,
+ * });
+ */
+export function createRecordedProvider(recording: LLMRecording): LLMProvider {
+  const usedCompletions = new Set<number>();
+  const callCounts = new Map<string, number>();
+
+  return {
+    name: 'recorded',
+    defaultModel: RECORDED_MODEL,
+
+    async complete(request) {
+      const promptHash = hashPrompt(request.prompt);
+      const candidates = recording.completions
+        .map((entry, index) => ({ entry, index }))
+        .filter(({ entry }) =>
+          entry.promptHash ? entry.promptHash === promptHash
+            : entry.match ? request.prompt.includes(entry.match)
+            : true
+        );
+
+      // Each answer is used once, then the last matching one repeats (retries)
+      const next = candidates.find(({ index }) => !usedCompletions.has(index)) ?? candidates.at(-1);
+
+      if (!next) {
+        throw new Error(`No recorded answer for prompt ${promptHash.slice(0, 12)}`);
+      }
+
+      usedCompletions.add(next.index);
+      const { entry } = next;
+
+      if (entry.error) throw new Error(entry.error);
+
+      return { content: entry.content ?? null, model: entry.model ?? request.model };
+    },
+
+    async callFunction(request) {
+      const name = request.function.name;
+      const answers = recording.functionCalls[name] ?? [];
+      const count = callCounts.get(name) ?? 0;
+      callCounts.set(name, count + 1);
+
+      const entry = answers[Math.min(count, answers.length - 1)];
+
+      if (!entry) {
+        throw new Error(`No recorded call for ${name}`);
+      }
+
+      if (entry.error) throw new Error(entry.error);
+
+      return {
+        call: entry.arguments !== undefined
+          ? { id: `recorded-${name}-${count + 1}`, name, arguments: entry.arguments }
+          : null,
+        model: entry.model ?? request.model,
+      };
+    },
+  };
+}
+
+/**
+ * Wrap a live provider and record everything it answers.
+ *
+ * @param provider - The provider to record (e.g. getLLMProvider('openai'))
+ * @returns The wrapping provider and the recording it fills
+ *
+ * @example
+ * // In a test that mocks @/lib/api/llm/registry
+ * const { provider, recording } = createRecordingProvider(getLLMProvider('openai'));
+ * vi.mocked(resolveLLM).mockReturnValue({ provider, model: provider.defaultModel });
+ * await runAllAnalyzers(brandId, content);
+ * writeFileSync('acme.recording.json', JSON.stringify(recording, null, 2));
+ */
+export function createRecordingProvider(provider: LLMProvider): {
+  provider: LLMProvider;
+  recording: LLMRecording;
+} {
+  const recording: LLMRecording = { completions: [], functionCalls: {} };
+
+  const recordCall = (name: string, answer: RecordedFunctionCall) => {
+    (recording.functionCalls[name] ??= []).push(answer);
+  };
+
+  return {
+    recording,
+    provider: {
+      name: `recording:${provider.name}`,
+      defaultModel: provider.defaultModel,
+
+      async complete(request): Promise<CompletionResponse> {
+        const promptHash = hashPrompt(request.prompt);
+        try {
+          const response = await provider.complete(request);
+          recording.completions.push({ promptHash, content: response.content, model: response.model });
+          return response;
+        } catch (error) {
+          recording.completions.push({ promptHash, error: errorMessage(error) });
+          throw error;
+        }
+      },
+
+      async callFunction(request): Promise<FunctionCallResponse> {
+        const name = request.function.name;
+        try {
+          const response = await provider.callFunction(request);
+          recordCall(name, { arguments: response.call?.arguments, model: response.model });
+          return response;
+        } catch (error) {
+          recordCall(name, { error: errorMessage(error) });
+          throw error;
+        }
+      },
+    },
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function hashPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex');
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
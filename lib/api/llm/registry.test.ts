@@ -0,0 +1,99 @@
+/**
+ * LLM PROVIDER REGISTRY TESTS
+ * ============================
+ * Which provider and model resolveLLM() / getLLMProvider() pick from
+ * LLM_PROVIDER, LLM_MODEL and an analyzer's `llm` settings, and the
+ * errors for missing keys and unknown providers.
+ *
+ * Providers are cached per process, so each test imports a fresh registry.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+/** A registry module with an empty provider cache */
+async function freshRegistry(): Promise<typeof import('./registry')> {
+  vi.resetModules();
+  return import('./registry');
+}
+
+beforeEach(() => {
+  for (const name of ['LLM_PROVIDER', 'LLM_MODEL', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'LOCAL_LLM_URL', 'LOCAL_LLM_MODEL']) {
+    vi.stubEnv(name, '');
+  }
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getLLMProvider', () => {
+  it.each([
+    ['openai', 'OPENAI_API_KEY', 'gpt-4o-mini'],
+    ['anthropic', 'ANTHROPIC_API_KEY', 'claude-3-5-haiku-latest'],
+    ['local', 'LOCAL_LLM_URL', 'llama3.1'],
+  ] as const)('builds %s from %s', async (id, variable, defaultModel) => {
+    vi.stubEnv(variable, variable === 'LOCAL_LLM_URL' ? 'http://localhost:11434/v1' : 'test-key');
+    const { getLLMProvider } = await freshRegistry();
+
+    const provider = getLLMProvider(id);
+
+    expect(provider).toMatchObject({ name: id, defaultModel });
+    expect(getLLMProvider(id)).toBe(provider);
+  });
+
+  it('builds the fixture provider without configuration', async () => {
+    const { getLLMProvider } = await freshRegistry();
+
+    expect(getLLMProvider('fixture')).toMatchObject({ name: 'fixture', defaultModel: 'fixture' });
+  });
+
+  it.each([
+    ['openai', 'OPENAI_API_KEY'],
+    ['anthropic', 'ANTHROPIC_API_KEY'],
+    ['local', 'LOCAL_LLM_URL'],
+  ] as const)('refuses %s without %s', async (id, variable) => {
+    const { getLLMProvider } = await freshRegistry();
+
+    expect(() => getLLMProvider(id)).toThrow(`Missing ${variable}`);
+  });
+});
+
+describe('resolveLLM', () => {
+  it('uses openai when LLM_PROVIDER is unset', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'test-key');
+    const { resolveLLM } = await freshRegistry();
+
+    const { provider, model } = resolveLLM();
+
+    expect(provider.name).toBe('openai');
+    expect(model).toBe('gpt-4o-mini');
+  });
+
+  it('uses LLM_PROVIDER and LLM_MODEL', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'anthropic');
+    vi.stubEnv('LLM_MODEL', 'claude-sonnet-4-0');
+    vi.stubEnv('ANTHROPIC_API_KEY', 'test-key');
+    const { resolveLLM } = await freshRegistry();
+
+    const { provider, model } = resolveLLM();
+
+    expect(provider.name).toBe('anthropic');
+    expect(model).toBe('claude-sonnet-4-0');
+  });
+
+  it('prefers the analyzer\'s settings, with that provider\'s default model', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'anthropic');
+    vi.stubEnv('LLM_MODEL', 'claude-sonnet-4-0');
+    const { resolveLLM } = await freshRegistry();
+
+    expect(resolveLLM({ provider: 'fixture' })).toMatchObject({ provider: { name: 'fixture' }, model: 'fixture' });
+    expect(resolveLLM({ provider: 'fixture', model: 'fixture-large' }).model).toBe('fixture-large');
+  });
+
+  it('refuses an unknown LLM_PROVIDER', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'gemini');
+    const { resolveLLM } = await freshRegistry();
+
+    expect(() => resolveLLM()).toThrow('Unknown LLM_PROVIDER "gemini"');
+  });
+});
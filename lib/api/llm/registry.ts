@@ -0,0 +1,130 @@
+/**
+ * LLM PROVIDER REGISTRY
+ * ======================
+ * Picks the provider and model for a call: the analyzer's or template's
+ * `llm` settings first, then the environment.
+ *
+ * Configuration:
+ *   LLM_PROVIDER - openai (default), anthropic, local or fixture
+ *   LLM_MODEL - model for LLM_PROVIDER (default: the provider's default)
+ *   OPENAI_API_KEY - for openai
+ *   ANTHROPIC_API_KEY - for anthropic
+ *   LOCAL_LLM_URL - OpenAI-compatible base URL for local, e.g. http://localhost:11434/v1
+ *   LOCAL_LLM_API_KEY - for local servers that check one (optional)
+ *   LOCAL_LLM_MODEL - default model for local (default llama3.1)
+ */
+
+import { log } from '@/lib/utils/logger';
+import { createAnthropicProvider } from './anthropic';
+import { createFixtureProvider } from './fixture';
+import { createLocalProvider, createOpenAIProvider } from './openai';
+import type { LLMProvider, LLMProviderId, LLMSettings } from './types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const DEFAULT_PROVIDER: LLMProviderId = 'openai';
+
+export const llmProviderIds: LLMProviderId[] = ['openai', 'anthropic', 'local', 'fixture'];
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+/** Providers built from the environment, created on first use */
+const providers = new Map<LLMProviderId, LLMProvider>();
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * The provider and model for one call.
+ *
+ * @param settings - The analyzer's or template's `llm` settings, if any
+ * @returns The settings' provider, else LLM_PROVIDER
+ * @throws Error if the provider's API key or URL isn't configured
+ *
+ * @example
+ * const { provider, model } = resolveLLM(analyzer.config.llm);
+ */
+export function resolveLLM(settings: LLMSettings = {}): { provider: LLMProvider; model: string } {
+  const provider = getLLMProvider(settings.provider ?? getDefaultProviderId());
+
+  // LLM_MODEL belongs to LLM_PROVIDER; a provider chosen in the config uses its own default
+  const envModel = settings.provider ? undefined : process.env.LLM_MODEL;
+
+  return { provider, model: settings.model || envModel || provider.defaultModel };
+}
+
+/**
+ * A built-in provider, configured from the environment.
+ *
+ * @throws Error if the provider's API key or URL isn't configured
+ */
+export function getLLMProvider(id: LLMProviderId): LLMProvider {
+  let provider = providers.get(id);
+
+  if (!provider) {
+    provider = createProviderFromEnv(id);
+    providers.set(id, provider);
+    log.info('🤖 LLM provider initialized', { provider: provider.name });
+  }
+
+  return provider;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Provider from LLM_PROVIDER (default openai).
+ *
+ * @throws Error if LLM_PROVIDER isn't a known provider
+ */
+function getDefaultProviderId(): LLMProviderId {
+  const configured = process.env.LLM_PROVIDER;
+
+  if (!configured) return DEFAULT_PROVIDER;
+
+  if (!llmProviderIds.includes(configured as LLMProviderId)) {
+    throw new Error(
+      `❌ Unknown LLM_PROVIDER "${configured}"!\n` +
+      `Use one of: ${llmProviderIds.join(', ')}.`
+    );
+  }
+
+  return configured as LLMProviderId;
+}
+
+function createProviderFromEnv(id: LLMProviderId): LLMProvider {
+  switch (id) {
+    case 'openai':
+      return createOpenAIProvider({ apiKey: requireEnv('OPENAI_API_KEY') });
+    case 'anthropic':
+      return createAnthropicProvider({ apiKey: requireEnv('ANTHROPIC_API_KEY') });
+    case 'local':
+      return createLocalProvider({
+        baseURL: requireEnv('LOCAL_LLM_URL'),
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        defaultModel: process.env.LOCAL_LLM_MODEL || undefined,
+      });
+    case 'fixture':
+      return createFixtureProvider();
+  }
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+
+  if (!value) {
+    throw new Error(
+      `❌ Missing ${name}!\n` +
+      `Add ${name} to your .env.local file.`
+    );
+  }
+
+  return value;
+}
@@ -0,0 +1,131 @@
+/**
+ * LLM PROVIDER TYPES
+ * ===================
+ * The interface every language model provider implements, and the
+ * provider-neutral requests used by the analyze and parse steps.
+ */
+
+import type { FunctionSchema } from '@/lib/analyzers/types';
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * Built-in providers.
+ * - openai: OpenAI API (OPENAI_API_KEY)
+ * - anthropic: Anthropic Messages API (ANTHROPIC_API_KEY)
+ * - local: any OpenAI-compatible endpoint, e.g. Ollama or vLLM (LOCAL_LLM_URL)
+ * - fixture: deterministic canned answers, no network (tests and demos)
+ */
+export type LLMProviderId = 'openai' | 'anthropic' | 'local' | 'fixture';
+
+/**
+ * Which provider and model to use. Set on an analyzer or doc template
+ * config to override the environment (LLM_PROVIDER / LLM_MODEL).
+ *
+ * @example
+ * export const config: AnalyzerConfig = {
+ *   ...
+ *   llm: { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+ * };
+ */
+export interface LLMSettings {
+  provider?: LLMProviderId;
+  /** Model name for the provider (default: the provider's default model) */
+  model?: string;
+}
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * A plain text completion (the analysis step).
+ */
+export interface CompletionRequest {
+  prompt: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface CompletionResponse {
+  /** The answer, null if the model returned nothing */
+  content: string | null;
+  /** Model that answered (as reported by the API) */
+  model: string;
+  usage?: LLMUsage;
+}
+
+/**
+ * One turn of a function-calling conversation:
+ * - user: text from us
+ * - function_call: a call the model made earlier
+ * - function_result: our answer to that call (e.g. what was wrong with it)
+ */
+export type FunctionCallMessage =
+  | { role: 'user'; content: string }
+  | { role: 'function_call'; id: string; name: string; arguments: string }
+  | { role: 'function_result'; callId: string; content: string };
+
+export interface FunctionDefinition {
+  name: string;
+  description: string;
+  parameters: FunctionSchema;
+}
+
+/**
+ * A forced function call (the parsing step).
+ */
+export interface FunctionCallRequest {
+  systemPrompt: string;
+  messages: FunctionCallMessage[];
+  /** The function the model must call */
+  function: FunctionDefinition;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface FunctionCallResponse {
+  /** The call the model made, null if it answered without one */
+  call: {
+    id: string;
+    name: string;
+    /** Arguments as a JSON string */
+    arguments: string;
+  } | null;
+  /** Model that answered (as reported by the API) */
+  model: string;
+  usage?: LLMUsage;
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * Something that can run the analyze and parse steps.
+ * Implement this to plug in another model API.
+ */
+export interface LLMProvider {
+  /** Shown in logs */
+  name: string;
+  /** Model used when none is configured */
+  defaultModel: string;
+  /**
+   * @throws Error if the API request fails
+   */
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+  /**
+   * @throws Error if the API request fails
+   */
+  callFunction(request: FunctionCallRequest): Promise<FunctionCallResponse>;
+}
@@ -17,7 +17,8 @@
  */
 
 import { getDocTemplate } from './registry';
-import { analyzeWithGPT, parseWithGPT } from '@/lib/api/openai';
+import { analyzeWithLLM, parseWithLLM } from '@/lib/api/llm';
+import { InvalidOutputError } from '@/lib/analyzers/validation';
 import { log } from '@/lib/utils/logger';
 import type { DocTemplateId } from '@/types/docs';
 import type { BrandData, DocGenerationResult } from './types';
@@ -66,8 +67,9 @@ export const docLog = {
  *
  * This is the core generation function that:
  * 1. Builds the analysis prompt from brand data
- * 2. Runs the prompt through GPT (natural language generation)
- * 3. Parses the output into structured content (function calling)
+ * 2. Runs the prompt through the LLM (natural language generation)
+ * 3. Parses the output into structured content (function calling) and
+ *    validates it against the template schema
  * 4. Renders the content as markdown
  *
  * Note: This function does NOT save to database - that's handled by the API route.
@@ -109,8 +111,9 @@ export async function generateDoc(input: {
     // Build the prompt from brand data
     const prompt = template.buildPrompt(brandData);
 
-    // Run GPT analysis
-    const analysisResult = await analyzeWithGPT(prompt, {
+    // Run LLM analysis (provider from the template config or the environment)
+    const analysisResult = await analyzeWithLLM(prompt, {
+      ...template.config.llm,
       maxTokens: 2500, // Docs need more tokens than analyzers
       temperature: 0.7,
     });
@@ -127,19 +130,25 @@ export async function generateDoc(input: {
 
     docLog.parsing(templateId);
 
-    // Run GPT parsing with function calling
-    const parseResult = await parseWithGPT(
+    // Run LLM parsing with function calling
+    const parseResult = await parseWithLLM(
       rawContent,
       template.parser.systemPrompt,
       template.parser.functionName,
       template.parser.functionDescription,
-      template.parser.schema
+      template.parser.schema,
+      { ...template.config.llm, validate: template.parser.validate }
     );
 
     if (!parseResult.success || !parseResult.data) {
       throw new Error(parseResult.error || 'Content parsing failed');
     }
 
+    // Still invalid after the repair request: don't render it
+    if (parseResult.validationErrors) {
+      throw new InvalidOutputError(parseResult.validationErrors);
+    }
+
     // Apply post-processing if defined
     let parsedContent = parseResult.data;
     if (template.parser.postProcess) {
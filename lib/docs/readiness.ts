@@ -166,12 +166,14 @@ export function checkAllTemplatesReadiness(
  * @param brandName - The brand's display name
  * @param sourceUrl - The brand's website URL
  * @param runs - The brand's analysis runs
+ * @param extras - Scrape-level data stored on the brand (visual identity, contact info, tech stack, social proof)
  * @returns Aggregated brand data for templates
  */
 export function buildBrandDataFromRuns(
   brandName: string,
   sourceUrl: string,
-  runs: AnalysisRun[]
+  runs: AnalysisRun[],
+  extras: Partial<Pick<BrandData, 'visualIdentity' | 'contactInfo' | 'techStack' | 'socialProof'>> = {}
 ): BrandData {
   // Find completed runs by type
   const basicsRun = runs.find(r => r.analyzer_type === 'basics' && r.status === 'complete');
@@ -184,5 +186,9 @@ export function buildBrandDataFromRuns(
     basics: basicsRun?.parsed_data as BrandData['basics'],
     customer: customerRun?.parsed_data as BrandData['customer'],
     products: productsRun?.parsed_data as BrandData['products'],
+    visualIdentity: extras.visualIdentity ?? null,
+    contactInfo: extras.contactInfo ?? null,
+    techStack: extras.techStack ?? null,
+    socialProof: extras.socialProof ?? null,
   };
 }
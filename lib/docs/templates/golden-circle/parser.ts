@@ -9,13 +9,71 @@
  * @created 2025-12-19 - Initial docs feature implementation
  */
 
-import type { DocParserDefinition } from '../../types';
+import type { DocParserDefinition, DocFunctionSchema } from '../../types';
+import { createSchemaValidator } from '@/lib/analyzers/validation';
 import type { GoldenCircleContent } from './types';
 
 // ============================================================================
 // PARSER DEFINITION
 // ============================================================================
 
+/** JSON Schema for the function call; also the source of the runtime validator */
+const schema: DocFunctionSchema = {
+  type: 'object',
+  properties: {
+    why: {
+      type: 'object',
+      description: 'The brand\'s purpose, cause, or belief (Why they exist)',
+      properties: {
+        headline: {
+          type: 'string',
+          description: 'One sentence capturing the core purpose',
+        },
+        explanation: {
+          type: 'string',
+          description: '2-3 sentences expanding on the purpose with specifics',
+        },
+      },
+      required: ['headline', 'explanation'],
+    },
+    how: {
+      type: 'object',
+      description: 'The brand\'s differentiating approach (How they deliver value)',
+      properties: {
+        headline: {
+          type: 'string',
+          description: 'One sentence capturing their unique approach',
+        },
+        explanation: {
+          type: 'string',
+          description: '2-3 sentences explaining their method or process',
+        },
+      },
+      required: ['headline', 'explanation'],
+    },
+    what: {
+      type: 'object',
+      description: 'The brand\'s products or services (What they offer)',
+      properties: {
+        headline: {
+          type: 'string',
+          description: 'One sentence summarizing their offerings',
+        },
+        explanation: {
+          type: 'string',
+          description: '2-3 sentences detailing their products/services',
+        },
+      },
+      required: ['headline', 'explanation'],
+    },
+    summary: {
+      type: 'string',
+      description: 'One paragraph (3-4 sentences) tying why, how, and what together into a cohesive brand story',
+    },
+  },
+  required: ['why', 'how', 'what', 'summary'],
+};
+
 export const parser: DocParserDefinition<GoldenCircleContent> = {
   // System prompt for the parsing step
   systemPrompt: `You are a precise content extraction assistant.
@@ -33,61 +91,10 @@ Preserve the writer's voice and specific insights. Don't genericize the content.
   functionDescription: 'Extract the Why, How, What, and Summary sections from a Golden Circle analysis',
 
   // JSON Schema defining the output structure
-  schema: {
-    type: 'object',
-    properties: {
-      why: {
-        type: 'object',
-        description: 'The brand\'s purpose, cause, or belief (Why they exist)',
-        properties: {
-          headline: {
-            type: 'string',
-            description: 'One sentence capturing the core purpose',
-          },
-          explanation: {
-            type: 'string',
-            description: '2-3 sentences expanding on the purpose with specifics',
-          },
-        },
-        required: ['headline', 'explanation'],
-      },
-      how: {
-        type: 'object',
-        description: 'The brand\'s differentiating approach (How they deliver value)',
-        properties: {
-          headline: {
-            type: 'string',
-            description: 'One sentence capturing their unique approach',
-          },
-          explanation: {
-            type: 'string',
-            description: '2-3 sentences explaining their method or process',
-          },
-        },
-        required: ['headline', 'explanation'],
-      },
-      what: {
-        type: 'object',
-        description: 'The brand\'s products or services (What they offer)',
-        properties: {
-          headline: {
-            type: 'string',
-            description: 'One sentence summarizing their offerings',
-          },
-          explanation: {
-            type: 'string',
-            description: '2-3 sentences detailing their products/services',
-          },
-        },
-        required: ['headline', 'explanation'],
-      },
-      summary: {
-        type: 'string',
-        description: 'One paragraph (3-4 sentences) tying why, how, and what together into a cohesive brand story',
-      },
-    },
-    required: ['why', 'how', 'what', 'summary'],
-  },
+  schema,
+
+  // Runtime check of the parsing output (generated from the schema)
+  validate: createSchemaValidator<GoldenCircleContent>(schema),
 
   // Post-processing to clean up the output
   postProcess: (raw: GoldenCircleContent): GoldenCircleContent => {
@@ -14,6 +14,9 @@
 import type { LucideIcon } from 'lucide-react';
 import type { AnalyzerType, ParsedBasics, ParsedCustomer, ParsedProducts } from '@/types';
 import type { DocTemplateId } from '@/types/docs';
+import type { ContactInfo, SocialProof, TechStack, VisualIdentity } from '@/lib/scrapers/types';
+import type { SchemaValidator } from '@/lib/analyzers/validation';
+import type { LLMSettings } from '@/lib/api/llm/types';
 
 // ============================================================================
 // BRAND DATA (INPUT TO TEMPLATES)
@@ -38,6 +41,18 @@ export interface BrandData {
 
   /** Parsed data from products analyzer (may be null if not complete) */
   products: ParsedProducts | null;
+
+  /** Logo, palette and fonts from the scrape (null if none were found) */
+  visualIdentity: VisualIdentity | null;
+
+  /** Emails, phones, addresses and social profiles from the scrape */
+  contactInfo: ContactInfo | null;
+
+  /** Technologies detected on the website (CMS, analytics, payments...) */
+  techStack: TechStack | null;
+
+  /** Testimonials, client logos, ratings and stats, each with its source page */
+  socialProof: SocialProof | null;
 }
 
 // ============================================================================
@@ -140,6 +155,9 @@ export interface DocTemplateConfig {
    * If not specified, just having the analyzer complete is sufficient.
    */
   requiredFields?: RequiredFields;
+
+  /** Provider and model for this template (default: LLM_PROVIDER / LLM_MODEL) */
+  llm?: LLMSettings;
 }
 
 // ============================================================================
@@ -183,7 +201,10 @@ export interface DocParserDefinition<T> {
   /** JSON Schema defining the output structure */
   schema: DocFunctionSchema;
 
-  /** Optional post-processing to clean/validate content */
+  /** Runtime check of GPT's function call (createSchemaValidator(schema)) */
+  validate: SchemaValidator<T>;
+
+  /** Optional post-processing to clean up validated content */
   postProcess?: (raw: T) => T;
 }
 
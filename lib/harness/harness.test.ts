@@ -0,0 +1,305 @@
+/**
+ * OFFLINE HARNESS TESTS
+ * ======================
+ * End-to-end checks on the saved fernway page and its recording: the
+ * happy path, API errors, malformed and invalid model output, repairs,
+ * execution planning, the analysis pipeline (start, unchanged content,
+ * concurrent re-analysis, retry) and doc generation. `npm run harness` runs just these.
+ *
+ * The Supabase clients and the LLM registry are mocked with mocks.ts,
+ * so the database helpers run against in-memory tables and the
+ * analyzers get the recorded answers.
+ */
+
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { buildExecutionPlan } from '@/lib/analyzers/runner';
+import { analyzerIds } from '@/lib/analyzers';
+import {
+  HARNESS_BRAND_ID,
+  loadFixture,
+  runAnalyzerScenario,
+  runDocScenario,
+  runPipelineScenario,
+  runReanalyzeScenario,
+  runRetryScenario,
+  withRecorded,
+  type HarnessFixture,
+} from '.';
+import type { AnalysisRun, AnalyzerType } from '@/types';
+
+vi.mock('@/lib/supabase/server', async () => (await import('./mocks')).supabaseServerMock);
+vi.mock('@/lib/api/llm/registry', async importOriginal => ({
+  ...await importOriginal<object>(),
+  ...(await import('./mocks')).llmRegistryMock,
+}));
+
+/** Basics output with a business_model outside the schema's enum */
+const INVALID_BASICS = JSON.stringify({
+  business_name: 'Fernway Studio',
+  industry: 'Home & Garden',
+  business_description: 'A monthly plant care subscription.',
+  business_model: 'Plant subscription startup',
+});
+
+const ALL_COMPLETE = { basics: 'complete', customer: 'complete', products: 'complete' } as const;
+
+let fixture: HarnessFixture;
+
+beforeAll(async () => {
+  fixture = await loadFixture('fernway');
+});
+
+describe('analyzers', () => {
+  it('completes every analyzer and stores a version', async () => {
+    const { runs, versions } = await runAnalyzerScenario(fixture);
+
+    expect(statuses(runs)).toEqual(ALL_COMPLETE);
+    expect(versions).toHaveLength(analyzerIds.length);
+
+    for (const run of runs) {
+      const version = versions.find(v => v.id === run.current_version_id);
+      expect(version, `${run.analyzer_type} version`).toBeDefined();
+      expect(version?.content_hash).toBeTruthy();
+      expect(version?.model).toBeTruthy();
+    }
+  });
+
+  it('marks only the analyzer whose analysis request failed as error', async () => {
+    const recording = withRecorded(fixture.recording, {
+      completions: fixture.recording.completions.map(entry =>
+        entry.match === 'customer research specialist'
+          ? { match: entry.match, error: '429 Rate limit reached' }
+          : entry
+      ),
+    });
+
+    const { runs, versions } = await runAnalyzerScenario({ ...fixture, recording });
+
+    expect(statuses(runs)).toEqual({ ...ALL_COMPLETE, customer: 'error' });
+    expect(errorOf(runs, 'customer')).toContain('Rate limit reached');
+    expect(versions.map(v => v.analyzer_type)).not.toContain('customer');
+  });
+
+  it('marks the analyzer as error when the function call request fails', async () => {
+    const recording = withRecorded(fixture.recording, {
+      functionCalls: { extract_basics: [{ error: '500 The server had an error' }] },
+    });
+
+    const { runs } = await runAnalyzerScenario({ ...fixture, recording });
+
+    expect(statuses(runs)).toEqual({ ...ALL_COMPLETE, basics: 'error' });
+    expect(errorOf(runs, 'basics')).toContain('The server had an error');
+  });
+
+  it('marks the analyzer as error when the function arguments aren\'t JSON', async () => {
+    const recording = withRecorded(fixture.recording, {
+      functionCalls: { extract_products: [{ arguments: '{"offering_type": "Both", "offerings": [' }] },
+    });
+
+    const { runs } = await runAnalyzerScenario({ ...fixture, recording });
+
+    expect(statuses(runs)).toEqual({ ...ALL_COMPLETE, products: 'error' });
+    expect(errorOf(runs, 'products')).toContain('Failed to parse the AI response as JSON');
+  });
+
+  it('marks the analyzer as error when the reply has no function call', async () => {
+    const recording = withRecorded(fixture.recording, {
+      functionCalls: { extract_customer_profile: [{}] },
+    });
+
+    const { runs } = await runAnalyzerScenario({ ...fixture, recording });
+
+    expect(statuses(runs)).toEqual({ ...ALL_COMPLETE, customer: 'error' });
+    expect(errorOf(runs, 'customer')).toContain('did not return structured data');
+  });
+
+  it('completes when the repair request fixes invalid output', async () => {
+    const recording = withRecorded(fixture.recording, {
+      functionCalls: {
+        extract_basics: [{ arguments: INVALID_BASICS }, ...fixture.recording.functionCalls.extract_basics],
+      },
+    });
+
+    const { runs } = await runAnalyzerScenario({ ...fixture, recording });
+
+    expect(statuses(runs)).toEqual(ALL_COMPLETE);
+    expect(runs.find(r => r.analyzer_type === 'basics')?.parsed_data?.business_model).toBe('B2C Products');
+  });
+
+  it('marks output still invalid after the repair request as invalid', async () => {
+    const recording = withRecorded(fixture.recording, {
+      functionCalls: { extract_basics: [{ arguments: INVALID_BASICS }] },
+    });
+
+    const { runs, versions } = await runAnalyzerScenario({ ...fixture, recording });
+
+    expect(statuses(runs)).toEqual({ ...ALL_COMPLETE, basics: 'invalid' });
+    expect(errorOf(runs, 'basics')).toContain('business_model');
+    expect(versions.map(v => v.analyzer_type)).not.toContain('basics');
+  });
+});
+
+describe('buildExecutionPlan', () => {
+  it('runs the registered analyzers in one wave', () => {
+    expect(buildExecutionPlan()).toEqual([analyzerIds]);
+  });
+
+  it('runs a dependent analyzer after its dependency', () => {
+    expect(buildExecutionPlan([
+      { id: 'basics', dependsOn: [] },
+      { id: 'customer', dependsOn: ['basics'] },
+      { id: 'products', dependsOn: [] },
+    ])).toEqual([['basics', 'products'], ['customer']]);
+  });
+
+  it('leaves out analyzers with a circular dependency', () => {
+    expect(buildExecutionPlan([
+      { id: 'basics', dependsOn: [] },
+      { id: 'customer', dependsOn: ['products'] },
+      { id: 'products', dependsOn: ['customer'] },
+    ])).toEqual([['basics']]);
+  });
+});
+
+describe('pipeline', () => {
+  it('saves the content on the brand and completes every analyzer', async () => {
+    const { start, brand, runs } = await runPipelineScenario(fixture);
+
+    expect(start).toMatchObject({ error: null, skipped: false });
+    expect(statuses(runs)).toEqual(ALL_COMPLETE);
+    expect(brand).toMatchObject({
+      scrape_status: 'complete',
+      content_hash: start.contentHash,
+      scraper_type: 'html-file',
+      monitor_frequency: 'off',
+    });
+    expect(brand?.scraped_content).toBeTruthy();
+  });
+
+  it('skips the analyzers for unchanged content and re-runs them when forced', async () => {
+    const first = await runPipelineScenario(fixture);
+    const again = await runPipelineScenario({ ...fixture, store: first.store });
+
+    expect(again.start.skipped).toBe(true);
+    expect(again.versions).toHaveLength(first.versions.length);
+
+    const forced = await runPipelineScenario({ ...fixture, store: first.store, force: true });
+
+    expect(forced.start.skipped).toBe(false);
+    expect(forced.versions).toHaveLength(first.versions.length * 2);
+    expect(statuses(forced.runs)).toEqual(ALL_COMPLETE);
+  });
+
+  it('starts one analysis when the saved content is re-analyzed twice at once', async () => {
+    const first = await runPipelineScenario(fixture);
+    const { reanalyze, runs, versions } = await runReanalyzeScenario({ ...fixture, store: first.store, requests: 2 });
+
+    expect(reanalyze).toEqual(expect.arrayContaining([
+      { error: null },
+      { error: 'This brand is already being analyzed', conflict: true },
+    ]));
+    expect(statuses(runs)).toEqual(ALL_COMPLETE);
+    expect(versions).toHaveLength(first.versions.length * 2);
+  });
+
+  it('refuses to start an analysis while the analyzers are still running', async () => {
+    const first = await runPipelineScenario(fixture);
+    first.store.update('analysis_runs', { brand_id: HARNESS_BRAND_ID, analyzer_type: 'products' }, { status: 'analyzing' });
+
+    const forced = await runPipelineScenario({ ...fixture, store: first.store, force: true });
+
+    expect(forced.start).toMatchObject({ error: 'This brand is already being analyzed', conflict: true });
+    expect(forced.versions).toHaveLength(first.versions.length);
+    expect(forced.brand?.content_hash).toBe(first.brand?.content_hash);
+  });
+
+  it('re-runs a failed analyzer on the saved content', async () => {
+    const failing = withRecorded(fixture.recording, {
+      functionCalls: { extract_customer_profile: [{ error: '500 The server had an error' }] },
+    });
+
+    const { runs: before, store } = await runPipelineScenario({ ...fixture, recording: failing });
+    expect(statuses(before)).toEqual({ ...ALL_COMPLETE, customer: 'error' });
+
+    const { retry, runs } = await runRetryScenario({ ...fixture, store, analyzerType: 'customer' });
+
+    expect(retry.error).toBeNull();
+    expect(statuses(runs)).toEqual(ALL_COMPLETE);
+    expect(runs.find(r => r.analyzer_type === 'customer')?.retry_count).toBe(1);
+  });
+
+  it('starts nothing when retrying a run that changed since it was read', async () => {
+    const failing = withRecorded(fixture.recording, {
+      functionCalls: { extract_customer_profile: [{ error: '500 The server had an error' }] },
+    });
+
+    const { runs: before, store } = await runPipelineScenario({ ...fixture, recording: failing });
+    const stale = before.find(r => r.analyzer_type === 'customer');
+
+    await runRetryScenario({ ...fixture, store, analyzerType: 'customer', run: stale });
+    const { retry, runs } = await runRetryScenario({ ...fixture, store, analyzerType: 'customer', run: stale });
+
+    expect(retry.conflict).toBe(true);
+    expect(runs.find(r => r.analyzer_type === 'customer')?.retry_count).toBe(1);
+  });
+});
+
+describe('doc generation', () => {
+  it('generates, renders and saves a Golden Circle doc', async () => {
+    const { store } = await runAnalyzerScenario(fixture);
+    const { doc } = await runDocScenario({ ...fixture, store, templateId: 'golden-circle' });
+
+    expect(doc?.error_message).toBeNull();
+    expect(doc?.status).toBe('complete');
+    expect(doc?.title).toBe('Golden Circle: Fernway Studio');
+
+    for (const heading of ['# Golden Circle: Fernway Studio', '## Why', '## How', '## What']) {
+      expect(doc?.content_markdown).toContain(heading);
+    }
+  });
+
+  it('saves output missing a section as an error without rendering it', async () => {
+    const { store } = await runAnalyzerScenario(fixture);
+    const recording = withRecorded(fixture.recording, {
+      functionCalls: {
+        extract_golden_circle: [{ arguments: JSON.stringify({ summary: 'Plants for everyone.' }) }],
+      },
+    });
+
+    const { doc } = await runDocScenario({ ...fixture, recording, store, templateId: 'golden-circle' });
+
+    expect(doc?.status).toBe('error');
+    expect(doc?.content_markdown).toBeNull();
+    expect(doc?.error_message).toContain('why');
+  });
+
+  it('saves the doc as an error when the generation request fails', async () => {
+    const { store } = await runAnalyzerScenario(fixture);
+    const recording = withRecorded(fixture.recording, {
+      completions: [{ match: 'Golden Circle', error: '503 The model is overloaded' }],
+    });
+
+    const { doc } = await runDocScenario({ ...fixture, recording, store, templateId: 'golden-circle' });
+
+    expect(doc?.status).toBe('error');
+    expect(doc?.error_message).toContain('overloaded');
+  });
+});
+
+describe('loadFixture', () => {
+  it.each(['../fernway', 'fernway/../../package', '/etc', 'Fernway', '.'])('refuses %s', async name => {
+    await expect(loadFixture(name)).rejects.toThrow('Invalid fixture name');
+  });
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function statuses(runs: AnalysisRun[]): Partial<Record<AnalyzerType, AnalysisRun['status']>> {
+  return Object.fromEntries(runs.map(run => [run.analyzer_type, run.status]));
+}
+
+function errorOf(runs: AnalysisRun[], type: AnalyzerType): string {
+  return runs.find(r => r.analyzer_type === type)?.error_message ?? '';
+}
@@ -0,0 +1,44 @@
+/**
+ * OFFLINE HARNESS
+ * ================
+ * Central export point for the offline harness: saved pages, recorded
+ * model responses and in-memory tables instead of the network, the LLM
+ * and Supabase. Test only - the scenarios need @/lib/supabase/server
+ * and @/lib/api/llm/registry mocked with mocks.ts (see harness.test.ts).
+ *
+ * Usage:
+ *   import { loadFixture, runAnalyzerScenario } from '@/lib/harness';
+ */
+
+export {
+  loadFixture,
+  runAnalyzerScenario,
+  runDocScenario,
+  runPipelineScenario,
+  runReanalyzeScenario,
+  runRetryScenario,
+  withRecorded,
+  isValidFixtureName,
+  HARNESS_BRAND_ID,
+  type HarnessFixture,
+  type AnalyzerScenarioInput,
+  type AnalyzerScenarioResult,
+  type PipelineScenarioInput,
+  type PipelineScenarioResult,
+  type ReanalyzeScenarioInput,
+  type ReanalyzeScenarioResult,
+  type RetryScenarioInput,
+  type RetryScenarioResult,
+  type DocScenarioInput,
+  type DocScenarioResult,
+} from './runner';
+
+export {
+  createMemoryStore,
+  createMemoryClient,
+  type MemoryStore,
+  type MemoryStoreOptions,
+  type MemoryClient,
+} from './memory';
+
+export { supabaseServerMock, llmRegistryMock, withHarness } from './mocks';
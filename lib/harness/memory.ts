@@ -0,0 +1,384 @@
+/**
+ * IN-MEMORY DATABASE STAND-IN
+ * ============================
+ * Tables kept in process memory and a client with the slice of the
+ * Supabase query builder the database helpers use, so the analyzers,
+ * the pipeline and doc generation run without Supabase in tests.
+ *
+ * The harness tests mock @/lib/supabase/server to return this client
+ * (see mocks.ts); the helpers in lib/supabase run unchanged against it.
+ *
+ * Supported: from(table) with select / insert / upsert / update /
+ * delete, eq / is / order filters, single / maybeSingle and
+ * { count: 'exact', head: true }. Rows get sequential ids
+ * ("analysis_runs-1") so runs are repeatable.
+ *
+ * Usage:
+ *   const store = createMemoryStore();
+ *   const client = createMemoryClient(store);
+ *   await client.from('analysis_runs').select('*').eq('brand_id', brandId);
+ *   store.select('analysis_runs', { brand_id: brandId });
+ */
+
+import type { AnalysisRun, AnalysisVersion, Brand, GeneratedDoc } from '@/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MemoryTables {
+  brands: Brand;
+  analysis_runs: AnalysisRun;
+  analysis_versions: AnalysisVersion;
+  generated_docs: GeneratedDoc;
+}
+
+export type MemoryTableName = keyof MemoryTables;
+
+export interface MemoryStore {
+  /** Rows per table, in insertion order */
+  tables: { [K in MemoryTableName]: MemoryTables[K][] };
+
+  /** Add a row (id, created_at and column defaults filled in) */
+  insert<K extends MemoryTableName>(table: K, row: Partial<MemoryTables[K]>): MemoryTables[K];
+
+  /** Rows whose columns equal every value in `match` */
+  select<K extends MemoryTableName>(table: K, match?: Partial<MemoryTables[K]>): MemoryTables[K][];
+
+  /** Apply `changes` to the matching rows and return them */
+  update<K extends MemoryTableName>(
+    table: K,
+    match: Partial<MemoryTables[K]>,
+    changes: Record<string, unknown>
+  ): MemoryTables[K][];
+
+  /** Delete the matching rows and return how many there were */
+  remove<K extends MemoryTableName>(table: K, match: Partial<MemoryTables[K]>): number;
+}
+
+export interface MemoryStoreOptions {
+  /** Rows to start with */
+  seed?: { [K in MemoryTableName]?: Partial<MemoryTables[K]>[] };
+  /** Clock for created_at / updated_at (default: the real time) */
+  now?: () => string;
+}
+
+/** What a query resolves to, like a Supabase response */
+export interface MemoryResponse<T> {
+  data: T | null;
+  error: { message: string; code: string } | null;
+  count: number | null;
+}
+
+type Row = Record<string, unknown>;
+
+/** A query on one table, run when it's awaited */
+export interface MemoryQuery extends PromiseLike<MemoryResponse<Row[]>> {
+  select(columns?: string, options?: { count?: 'exact'; head?: boolean }): MemoryQuery;
+  insert(rows: Row | Row[]): MemoryQuery;
+  upsert(rows: Row | Row[], options?: { onConflict?: string }): MemoryQuery;
+  update(changes: Row): MemoryQuery;
+  delete(): MemoryQuery;
+  eq(column: string, value: unknown): MemoryQuery;
+  is(column: string, value: null | boolean): MemoryQuery;
+  order(column: string, options?: { ascending?: boolean }): MemoryQuery;
+  /** Exactly one row, else an error */
+  single(): PromiseLike<MemoryResponse<Row>>;
+  /** One row or null, else an error */
+  maybeSingle(): PromiseLike<MemoryResponse<Row>>;
+}
+
+export interface MemoryClient {
+  from(table: string): MemoryQuery;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Column defaults from the schema (supabase/schema.sql + migrations) */
+const COLUMN_DEFAULTS: { [K in MemoryTableName]: Partial<MemoryTables[K]> } = {
+  brands: {
+    name: null,
+    is_own_brand: false,
+    scraped_content: null,
+    scraped_at: null,
+    scrape_status: 'pending',
+    scrape_error: null,
+    structured_data: null,
+    visual_identity: null,
+    contact_info: null,
+    tech_stack: null,
+    pricing: null,
+    social_proof: null,
+    blog_feed: null,
+    language: null,
+    analysis_language: 'english',
+    site_inventory: null,
+    content_hash: null,
+    scraper_type: null,
+    monitor_frequency: 'off',
+    next_check_at: null,
+  },
+  analysis_runs: {
+    status: 'queued',
+    raw_analysis: null,
+    parsed_data: null,
+    error_message: null,
+    retry_count: 0,
+    current_version_id: null,
+    field_edits: {},
+    started_at: null,
+    completed_at: null,
+  },
+  analysis_versions: {
+    raw_analysis: null,
+    content_hash: null,
+    prompt_version: null,
+    model: null,
+    source: 'ai',
+    analyzed_at: null,
+  },
+  generated_docs: {
+    content: {},
+    content_markdown: null,
+    status: 'generating',
+    error_message: null,
+  },
+};
+
+/** PostgREST's error for single() without exactly one row */
+const NOT_ONE_ROW = {
+  message: 'JSON object requested, multiple (or no) rows returned',
+  code: 'PGRST116',
+};
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Create an empty (or seeded) set of tables.
+ *
+ * @param options - Seed rows and clock
+ *
+ * @example
+ * const store = createMemoryStore({ now: () => '2025-01-01T00:00:00.000Z' });
+ */
+export function createMemoryStore(options: MemoryStoreOptions = {}): MemoryStore {
+  const now = options.now ?? (() => new Date().toISOString());
+  let nextId = 1;
+
+  const tables: MemoryStore['tables'] = {
+    brands: [],
+    analysis_runs: [],
+    analysis_versions: [],
+    generated_docs: [],
+  };
+
+  const rows = <K extends MemoryTableName>(table: K) =>
+    tables[table] as MemoryTables[K][];
+
+  const store: MemoryStore = {
+    tables,
+
+    insert(table, row) {
+      const timestamp = now();
+      const created = {
+        id: `${table}-${nextId++}`,
+        created_at: timestamp,
+        ...(table === 'generated_docs' || table === 'brands' ? { updated_at: timestamp } : {}),
+        ...COLUMN_DEFAULTS[table],
+        ...structuredClone(row),
+      } as MemoryTables[typeof table];
+
+      rows(table).push(created);
+      return structuredClone(created);
+    },
+
+    select(table, match = {}) {
+      return rows(table)
+        .filter(row => matches(row, match))
+        .map(row => structuredClone(row));
+    },
+
+    update(table, match, changes) {
+      return rows(table)
+        .filter(row => matches(row, match))
+        .map(row => {
+          Object.assign(row, structuredClone(changes));
+          return structuredClone(row);
+        });
+    },
+
+    remove(table, match) {
+      const kept = rows(table).filter(row => !matches(row, match));
+      const removed = rows(table).length - kept.length;
+      rows(table).splice(0, rows(table).length, ...kept);
+      return removed;
+    },
+  };
+
+  for (const table of Object.keys(tables) as MemoryTableName[]) {
+    for (const row of options.seed?.[table] ?? []) {
+      store.insert(table, row);
+    }
+  }
+
+  return store;
+}
+
+/**
+ * A client for `store` with the Supabase client's `from()`.
+ *
+ * @param store - The tables to read and write
+ * @throws Error from from() for a table the store doesn't have
+ *
+ * @example
+ * const { data } = await createMemoryClient(store)
+ *   .from('analysis_runs')
+ *   .update({ status: 'queued' })
+ *   .eq('id', runId)
+ *   .select()
+ *   .single();
+ */
+export function createMemoryClient(store: MemoryStore): MemoryClient {
+  return {
+    from(table) {
+      if (!(table in store.tables)) {
+        throw new Error(`The memory store has no "${table}" table`);
+      }
+
+      return createQuery(store as unknown as RowStore, table as MemoryTableName);
+    },
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function matches<T>(row: T, match: Partial<T>): boolean {
+  return Object.entries(match).every(
+    ([key, value]) => row[key as keyof T] === value
+  );
+}
+
+/** The store with plain rows, for queries built from column names */
+interface RowStore {
+  insert(table: MemoryTableName, row: Row): Row;
+  select(table: MemoryTableName, match?: Row): Row[];
+  update(table: MemoryTableName, match: Row, changes: Row): Row[];
+  remove(table: MemoryTableName, match: Row): number;
+}
+
+function createQuery(store: RowStore, table: MemoryTableName): MemoryQuery {
+  let action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  let values: Row[] = [];
+  let conflictColumns = ['id'];
+  let returning = false;
+  let counting = false;
+  let head = false;
+  let ordering: { column: string; ascending: boolean } | undefined;
+  const match: Row = {};
+
+  /** The rows the query read or wrote */
+  const execute = (): Row[] => {
+    switch (action) {
+      case 'select':
+        return store.select(table, match);
+      case 'insert':
+        return values.map(row => store.insert(table, row));
+      case 'upsert':
+        return values.map(row => {
+          const key = Object.fromEntries(conflictColumns.map(column => [column, row[column]]));
+          return store.update(table, key, row)[0] ?? store.insert(table, row);
+        });
+      case 'update':
+        return store.update(table, match, values[0] ?? {});
+      case 'delete': {
+        const rows = store.select(table, match);
+        store.remove(table, match);
+        return rows;
+      }
+    }
+  };
+
+  const respond = (): MemoryResponse<Row[]> => {
+    const rows = execute();
+
+    if (ordering) {
+      const { column, ascending } = ordering;
+      rows.sort((a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1));
+    }
+
+    const selected = action === 'select' ? !head : returning;
+    return { data: selected ? rows : null, error: null, count: counting ? rows.length : null };
+  };
+
+  const one = (allowNone: boolean) => later((): MemoryResponse<Row> => {
+    const rows = respond().data ?? [];
+
+    if (rows.length === 1 || (allowNone && rows.length === 0)) {
+      return { data: rows[0] ?? null, error: null, count: null };
+    }
+
+    return { data: null, error: NOT_ONE_ROW, count: null };
+  });
+
+  const query: MemoryQuery = {
+    select(_columns, options) {
+      if (action === 'select') {
+        counting = options?.count === 'exact';
+        head = options?.head ?? false;
+      } else {
+        returning = true;
+      }
+      return query;
+    },
+    insert(rows) {
+      action = 'insert';
+      values = [rows].flat();
+      return query;
+    },
+    upsert(rows, options) {
+      action = 'upsert';
+      values = [rows].flat();
+      conflictColumns = options?.onConflict?.split(',') ?? ['id'];
+      return query;
+    },
+    update(changes) {
+      action = 'update';
+      values = [changes];
+      return query;
+    },
+    delete() {
+      action = 'delete';
+      return query;
+    },
+    eq(column, value) {
+      match[column] = value;
+      return query;
+    },
+    is(column, value) {
+      match[column] = value;
+      return query;
+    },
+    order(column, options) {
+      ordering = { column, ascending: options?.ascending ?? true };
+      return query;
+    },
+    single: () => one(false),
+    maybeSingle: () => one(true),
+    then: (onfulfilled, onrejected) => later(respond).then(onfulfilled, onrejected),
+  };
+
+  return query;
+}
+
+/**
+ * Run `fn` when the result is awaited, like the Supabase query builder.
+ */
+function later<T>(fn: () => T): PromiseLike<T> {
+  return { then: (onfulfilled, onrejected) => Promise.resolve().then(fn).then(onfulfilled, onrejected) };
+}
@@ -0,0 +1,89 @@
+/**
+ * HARNESS MOCKS
+ * ==============
+ * Replacement modules for the harness tests: the Supabase clients
+ * become the in-memory client and the LLM registry answers from the
+ * recording, for whichever scenario is running.
+ *
+ * Nothing in the app imports this - the test file swaps the modules in
+ * with vi.mock, so production code has no test switches.
+ *
+ * Usage (in a test file):
+ *   vi.mock('@/lib/supabase/server', async () => (await import('./mocks')).supabaseServerMock);
+ *   vi.mock('@/lib/api/llm/registry', async importOriginal => ({
+ *     ...await importOriginal<object>(),
+ *     ...(await import('./mocks')).llmRegistryMock,
+ *   }));
+ */
+
+import { createRecordedProvider, type LLMRecording } from '@/lib/api/llm/recorded';
+import { createMemoryClient, type MemoryClient, type MemoryStore } from './memory';
+import type { createAdminClient, createServerClient } from '@/lib/supabase/server';
+import type { resolveLLM } from '@/lib/api/llm/registry';
+import type { LLMProvider } from '@/lib/api/llm/types';
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+/** The running scenario's tables and recorded provider */
+let active: { client: MemoryClient; provider: LLMProvider } | undefined;
+
+// ============================================================================
+// MOCK MODULES
+// ============================================================================
+
+/** Stands in for @/lib/supabase/server */
+export const supabaseServerMock = {
+  createServerClient: (async () => activeScenario().client) as unknown as typeof createServerClient,
+  createAdminClient: (() => activeScenario().client) as unknown as typeof createAdminClient,
+};
+
+/** Overrides resolveLLM in @/lib/api/llm/registry */
+export const llmRegistryMock: { resolveLLM: typeof resolveLLM } = {
+  resolveLLM: () => {
+    const { provider } = activeScenario();
+    return { provider, model: provider.defaultModel };
+  },
+};
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Point the mocked database clients and LLM at `store` and `recording`
+ * for the duration of `fn`. Scenarios share the mocks, so they run one
+ * at a time.
+ *
+ * @throws Error if another scenario is still running
+ */
+export async function withHarness<T>(
+  store: MemoryStore,
+  recording: LLMRecording,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (active) {
+    throw new Error('Another harness scenario is still running');
+  }
+
+  active = { client: createMemoryClient(store), provider: createRecordedProvider(recording) };
+
+  try {
+    return await fn();
+  } finally {
+    active = undefined;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function activeScenario(): NonNullable<typeof active> {
+  if (!active) {
+    throw new Error('No harness scenario is running - wrap the call in withHarness()');
+  }
+
+  return active;
+}
@@ -0,0 +1,455 @@
+/**
+ * HARNESS RUNNER
+ * ===============
+ * Runs the analyzers and doc generation end-to-end without network,
+ * OpenAI or Supabase: a saved HTML page goes through the HTML file
+ * scraper, recorded model responses stand in for the LLM and the
+ * analysis runs, versions and generated docs live in memory.
+ *
+ * Every run with the same fixtures gives the same statuses and data, so
+ * prompt, parser, validation and renderer changes can be checked
+ * against saved pages (see harness.test.ts for the built-in checks).
+ *
+ * The database helpers and the LLM only reach the harness while
+ * @/lib/supabase/server and @/lib/api/llm/registry are mocked with
+ * mocks.ts - run these from a vitest file that does that.
+ *
+ * Fixtures live in lib/harness/fixtures/<name>/:
+ * - page.html - the saved page
+ * - recording.json - model responses (an LLMRecording, see
+ *   lib/api/llm/recorded.ts)
+ *
+ * runPipelineScenario(), runReanalyzeScenario() and runRetryScenario()
+ * go through startBrandAnalysis(), reanalyzeSavedContent() and
+ * retryAnalyzer() instead, with the brand row in memory too, and wait
+ * for the background analyzers to finish.
+ *
+ * Usage:
+ *   import { loadFixture, runAnalyzerScenario, runDocScenario } from '@/lib/harness';
+ *   const fixture = await loadFixture('fernway');
+ *   const analysis = await runAnalyzerScenario(fixture);
+ *   const { doc } = await runDocScenario({ ...fixture, store: analysis.store, templateId: 'golden-circle' });
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { scrapeHtmlFile } from '@/lib/scrapers/html-file';
+import { hashContent } from '@/lib/scrapers/shared/cache';
+import { runAllAnalyzers } from '@/lib/analyzers/runner';
+import { startBrandAnalysis, reanalyzeSavedContent, retryAnalyzer } from '@/lib/analyzers/pipeline';
+import { generateDoc, generateDocTitle } from '@/lib/docs/generator';
+import { buildBrandDataFromRuns } from '@/lib/docs/readiness';
+import { createMemoryStore, type MemoryStore } from './memory';
+import { withHarness } from './mocks';
+import { createAnalysisRuns, getAnalysisRuns } from '@/lib/supabase/analysis-runs';
+import { getBrand } from '@/lib/supabase/brands';
+import { createGeneratedDoc, updateGeneratedDoc } from '@/lib/supabase/generated-docs';
+import type { LLMRecording } from '@/lib/api/llm';
+import type { AnalyzerResult } from '@/lib/analyzers/types';
+import type { DocGenerationResult } from '@/lib/docs/types';
+import type { ScrapeResult } from '@/lib/scrapers/types';
+import type { AnalysisRun, AnalysisVersion, AnalyzerType, Brand, GeneratedDoc } from '@/types';
+import type { DocTemplateId } from '@/types/docs';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const FIXTURES_DIR = path.join(process.cwd(), 'lib', 'harness', 'fixtures');
+
+export const HARNESS_BRAND_ID = 'harness-brand';
+
+/** Fixed clock so stored rows are identical between runs */
+const HARNESS_NOW = '2025-01-01T00:00:00.000Z';
+
+/** Fixture names are directory names - no separators or dots */
+const FIXTURE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/** Run statuses the background analyzers haven't finished with */
+const PENDING_STATUSES: AnalysisRun['status'][] = ['queued', 'analyzing', 'parsing'];
+
+/** How long to wait for background analyzers (recorded answers are instant) */
+const SETTLE_TIMEOUT_MS = 10000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HarnessFixture {
+  name: string;
+  /** URL the page was saved from */
+  url: string;
+  html: string;
+  recording: LLMRecording;
+}
+
+export interface AnalyzerScenarioInput {
+  url: string;
+  html: string;
+  recording: LLMRecording;
+  brandId?: string;
+  /** Tables to use (default: a new empty store) */
+  store?: MemoryStore;
+}
+
+export interface AnalyzerScenarioResult {
+  scrape: ScrapeResult;
+  results: Map<AnalyzerType, AnalyzerResult>;
+  runs: AnalysisRun[];
+  versions: AnalysisVersion[];
+  /** The tables, for a following runDocScenario() */
+  store: MemoryStore;
+}
+
+export interface PipelineScenarioInput {
+  url: string;
+  html: string;
+  recording: LLMRecording;
+  brandId?: string;
+  /** Tables to use (default: a new empty store); the brand row is added if missing */
+  store?: MemoryStore;
+  /** Re-run analyzers even if the content hasn't changed */
+  force?: boolean;
+}
+
+export interface PipelineScenarioResult {
+  /** What startBrandAnalysis returned */
+  start: { error: string | null; skipped: boolean; contentHash: string | null; conflict?: boolean };
+  /** The brand row after the analyzers finished */
+  brand: Brand | null;
+  runs: AnalysisRun[];
+  versions: AnalysisVersion[];
+  store: MemoryStore;
+}
+
+export interface ReanalyzeScenarioInput {
+  recording: LLMRecording;
+  /** Tables holding the brand with saved content (from runPipelineScenario) */
+  store: MemoryStore;
+  brandId?: string;
+  /** Re-analyze requests sent at the same time (default 1) */
+  requests?: number;
+}
+
+export interface ReanalyzeScenarioResult {
+  /** What reanalyzeSavedContent returned, per request */
+  reanalyze: { error: string | null; conflict?: boolean }[];
+  runs: AnalysisRun[];
+  versions: AnalysisVersion[];
+}
+
+export interface RetryScenarioInput {
+  recording: LLMRecording;
+  analyzerType: AnalyzerType;
+  /** Tables holding the brand and its runs (from runPipelineScenario) */
+  store: MemoryStore;
+  brandId?: string;
+  /** The run as the caller read it (default: the stored one) */
+  run?: AnalysisRun;
+}
+
+export interface RetryScenarioResult {
+  /** What retryAnalyzer returned */
+  retry: { error: string | null; conflict?: boolean };
+  runs: AnalysisRun[];
+  versions: AnalysisVersion[];
+}
+
+export interface DocScenarioInput {
+  url: string;
+  recording: LLMRecording;
+  templateId: DocTemplateId;
+  /** Tables holding the brand's analysis runs (from runAnalyzerScenario) */
+  store: MemoryStore;
+  brandId?: string;
+  /** Display name (default: the basics business name) */
+  brandName?: string;
+}
+
+export interface DocScenarioResult {
+  result: DocGenerationResult;
+  /** The stored doc after generation */
+  doc: GeneratedDoc | null;
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Read a saved page and its recorded model responses.
+ *
+ * @param name - Directory under lib/harness/fixtures
+ * @param url - URL the page was saved from (default https://<name>.example)
+ * @throws Error if either file is missing or the recording isn't JSON
+ */
+export async function loadFixture(name: string, url = `https://${name}.example`): Promise<HarnessFixture> {
+  if (!isValidFixtureName(name)) {
+    throw new Error(`Invalid fixture name "${name}"`);
+  }
+
+  const dir = path.join(FIXTURES_DIR, name);
+
+  const [html, recording] = await Promise.all([
+    readFile(path.join(dir, 'page.html'), 'utf8'),
+    readFile(path.join(dir, 'recording.json'), 'utf8'),
+  ]);
+
+  return { name, url, html, recording: JSON.parse(recording) as LLMRecording };
+}
+
+/**
+ * Scrape a saved page and run every analyzer on it, the way
+ * startBrandAnalysis does, against in-memory tables and recorded
+ * model responses.
+ *
+ * @param input - Page, recording and (optionally) the tables to use
+ * @returns Analyzer results plus the stored runs and versions
+ * @throws Error if the page can't be scraped
+ */
+export async function runAnalyzerScenario(input: AnalyzerScenarioInput): Promise<AnalyzerScenarioResult> {
+  const { url, html, recording, brandId = HARNESS_BRAND_ID } = input;
+  const store = input.store ?? createMemoryStore({ now: () => HARNESS_NOW });
+
+  const scrape = await scrapeHtmlFile({ url, content: html });
+
+  if (!scrape.success || !scrape.content) {
+    throw new Error(`Could not scrape the fixture page: ${scrape.error ?? 'no content'}`);
+  }
+
+  const content = scrape.content;
+  const evidence = {
+    structuredData: scrape.metadata?.structuredData ?? null,
+    pricing: scrape.metadata?.pricing ?? null,
+    blogFeed: scrape.metadata?.blogFeed ?? null,
+    language: scrape.metadata?.language ?? null,
+  };
+
+  const contentHash = hashContent(`${content}\n${JSON.stringify(evidence.structuredData)}`);
+
+  const results = await withHarness(store, recording, async () => {
+    const { error } = await createAnalysisRuns(brandId);
+    if (error) throw new Error(`Could not create analysis runs: ${error}`);
+
+    return runAllAnalyzers(brandId, content, evidence, contentHash);
+  });
+
+  return {
+    scrape,
+    results,
+    runs: store.select('analysis_runs', { brand_id: brandId }),
+    versions: store.select('analysis_versions', { brand_id: brandId }),
+    store,
+  };
+}
+
+/**
+ * Scrape a saved page and hand it to startBrandAnalysis(), the way the
+ * analyze and re-scan routes do, then wait for the background analyzers.
+ *
+ * @param input - Page, recording and (optionally) the tables to use
+ * @returns startBrandAnalysis's result plus the stored brand, runs and versions
+ * @throws Error if the page can't be scraped or the analyzers don't finish
+ *   (not waited for when the start was refused)
+ */
+export async function runPipelineScenario(input: PipelineScenarioInput): Promise<PipelineScenarioResult> {
+  const { url, html, recording, brandId = HARNESS_BRAND_ID, force } = input;
+  const store = input.store ?? createMemoryStore({ now: () => HARNESS_NOW });
+
+  if (store.select('brands', { id: brandId }).length === 0) {
+    store.insert('brands', { id: brandId, user_id: 'harness-user', source_url: url });
+  }
+
+  const scrape = await scrapeHtmlFile({ url, content: html });
+
+  if (!scrape.success || !scrape.content) {
+    throw new Error(`Could not scrape the fixture page: ${scrape.error ?? 'no content'}`);
+  }
+
+  const start = await withHarness(store, recording, async () => {
+    const { brand } = await getBrand(brandId);
+
+    const result = await startBrandAnalysis(brandId, scrape, {
+      previousHash: brand?.content_hash,
+      force,
+      analysisLanguage: brand?.analysis_language,
+    });
+
+    // A refused start leaves the runs to the analysis that has them
+    if (!result.conflict) {
+      await waitForRuns(store, brandId);
+    }
+    return result;
+  });
+
+  return {
+    start,
+    brand: store.select('brands', { id: brandId })[0] ?? null,
+    runs: store.select('analysis_runs', { brand_id: brandId }),
+    versions: store.select('analysis_versions', { brand_id: brandId }),
+    store,
+  };
+}
+
+/**
+ * Re-analyze the brand's saved content with reanalyzeSavedContent(),
+ * the way the reanalyze route does for manual sources - `requests`
+ * times at once, each with the brand as read before any of them - and
+ * wait for the analyzers to finish.
+ *
+ * @param input - Recording, the tables with the brand and the number of requests
+ * @returns reanalyzeSavedContent's results plus the stored runs and versions
+ * @throws Error if the brand isn't in the tables or the analyzers don't finish
+ */
+export async function runReanalyzeScenario(input: ReanalyzeScenarioInput): Promise<ReanalyzeScenarioResult> {
+  const { recording, store, brandId = HARNESS_BRAND_ID, requests = 1 } = input;
+
+  const reanalyze = await withHarness(store, recording, async () => {
+    const { brand } = await getBrand(brandId);
+
+    if (!brand) {
+      throw new Error('No brand to re-analyze');
+    }
+
+    const results = await Promise.all(
+      Array.from({ length: requests }, () => reanalyzeSavedContent(brand))
+    );
+
+    await waitForRuns(store, brandId);
+    return results;
+  });
+
+  return {
+    reanalyze,
+    runs: store.select('analysis_runs', { brand_id: brandId }),
+    versions: store.select('analysis_versions', { brand_id: brandId }),
+  };
+}
+
+/**
+ * Re-run one analyzer with retryAnalyzer(), the way the retry route
+ * does, and wait for it to finish.
+ *
+ * @param input - Analyzer, recording and the tables with the brand and runs
+ * @returns retryAnalyzer's result plus the stored runs and versions
+ * @throws Error if the brand or run isn't in the tables, or the analyzer doesn't finish
+ */
+export async function runRetryScenario(input: RetryScenarioInput): Promise<RetryScenarioResult> {
+  const { recording, analyzerType, store, brandId = HARNESS_BRAND_ID } = input;
+
+  const retry = await withHarness(store, recording, async () => {
+    const { brand } = await getBrand(brandId);
+    const { runs } = await getAnalysisRuns(brandId);
+    const run = input.run ?? runs.find(r => r.analyzer_type === analyzerType);
+
+    if (!brand || !run) {
+      throw new Error(`No brand or ${analyzerType} run to retry`);
+    }
+
+    const result = await retryAnalyzer(brand, run, runs);
+
+    await waitForRuns(store, brandId);
+    return result;
+  });
+
+  return {
+    retry,
+    runs: store.select('analysis_runs', { brand_id: brandId }),
+    versions: store.select('analysis_versions', { brand_id: brandId }),
+  };
+}
+
+/**
+ * Generate a doc from the brand's stored analysis runs, the way the
+ * generate route does: create the doc as "generating", generate and
+ * render it, then save it as "complete" or "error".
+ *
+ * @param input - Template, recording and the tables with the runs
+ * @returns The generation result and the stored doc
+ */
+export async function runDocScenario(input: DocScenarioInput): Promise<DocScenarioResult> {
+  const { url, recording, templateId, store, brandId = HARNESS_BRAND_ID } = input;
+
+  return withHarness(store, recording, async () => {
+    const { runs } = await getAnalysisRuns(brandId);
+
+    const basicsRun = runs.find(r => r.analyzer_type === 'basics' && r.status === 'complete');
+    const basicsData = basicsRun?.parsed_data as { business_name?: string } | null;
+    const brandName = input.brandName || basicsData?.business_name || 'Unknown Brand';
+
+    const brandData = buildBrandDataFromRuns(brandName, url, runs);
+
+    const { doc, error } = await createGeneratedDoc({
+      brand_id: brandId,
+      template_id: templateId,
+      title: generateDocTitle(templateId, brandData),
+      source_data: brandData as unknown as Record<string, unknown>,
+      status: 'generating',
+    });
+
+    if (error || !doc) {
+      throw new Error(`Could not create the doc: ${error ?? 'no row'}`);
+    }
+
+    const result = await generateDoc({ brandId, templateId, brandData });
+
+    const { doc: saved } = result.success && result.parsedContent
+      ? await updateGeneratedDoc(doc.id, {
+          content: result.parsedContent as Record<string, unknown>,
+          content_markdown: result.markdown || null,
+          status: 'complete',
+          error_message: null,
+        })
+      : await updateGeneratedDoc(doc.id, {
+          status: 'error',
+          error_message: result.error || 'Generation failed',
+        });
+
+    return { result, doc: saved };
+  });
+}
+
+/**
+ * A copy of a recording with some answers replaced, for error and
+ * malformed-output cases.
+ *
+ * @example
+ * withRecorded(recording, {
+ *   functionCalls: { extract_products: [{ arguments: '{"offerings": [' }] },
+ * });
+ */
+export function withRecorded(
+  recording: LLMRecording,
+  changes: Partial<LLMRecording>
+): LLMRecording {
+  return {
+    completions: changes.completions ?? recording.completions,
+    functionCalls: { ...recording.functionCalls, ...changes.functionCalls },
+  };
+}
+
+/**
+ * Whether a fixture name is a plain directory name under lib/harness/fixtures.
+ */
+export function isValidFixtureName(name: string): boolean {
+  return FIXTURE_NAME_PATTERN.test(name);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Wait until none of the brand's runs are queued or in progress
+ * (startBrandAnalysis and retryAnalyzer don't await the analyzers).
+ */
+async function waitForRuns(store: MemoryStore, brandId: string): Promise<void> {
+  const giveUpAt = Date.now() + SETTLE_TIMEOUT_MS;
+
+  while (store.select('analysis_runs', { brand_id: brandId }).some(run => PENDING_STATUSES.includes(run.status))) {
+    if (Date.now() > giveUpAt) {
+      throw new Error(`Analyzers didn't finish within ${SETTLE_TIMEOUT_MS}ms`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
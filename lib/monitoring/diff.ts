@@ -0,0 +1,103 @@
+/**
+ * CONTENT DIFF
+ * =============
+ * Paragraph-level diff between two scrapes of the same brand.
+ *
+ * Scraped content is one block of text per line (headings, paragraphs,
+ * list items), so a "paragraph" here is a non-empty line. Order is
+ * ignored - a section that moved isn't a change worth reporting.
+ */
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Lines shorter than this are navigation crumbs, not content */
+const MIN_PARAGRAPH_LENGTH = 3;
+
+/** Scraper-generated lines (page labels, separators, truncation notes) */
+const SCAFFOLDING_PATTERNS = [
+  /^=== PAGE: .* ===$/,
+  /^-{3,}$/,
+  /^\[Content truncated\.\.\.\]$/,
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ParagraphDiff {
+  /** Paragraphs in the new content but not the old */
+  added: string[];
+  /** Paragraphs in the old content but not the new */
+  removed: string[];
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Split scraped content into normalized paragraphs.
+ *
+ * @param content - Scraped text
+ * @returns Whitespace-collapsed paragraphs, scaffolding removed
+ */
+export function splitParagraphs(content: string): string[] {
+  return content
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line =>
+      line.length >= MIN_PARAGRAPH_LENGTH &&
+      !SCAFFOLDING_PATTERNS.some(pattern => pattern.test(line))
+    );
+}
+
+/**
+ * Diff two scrapes at paragraph level.
+ * Repeated paragraphs are counted, so a duplicated block shows up once
+ * as added.
+ *
+ * @param previous - Content from the last scan
+ * @param current - Content from this scan
+ * @returns Added and removed paragraphs, in document order
+ *
+ * @example
+ * const { added, removed } = diffParagraphs(brand.scraped_content, result.content);
+ */
+export function diffParagraphs(previous: string, current: string): ParagraphDiff {
+  const before = splitParagraphs(previous);
+  const after = splitParagraphs(current);
+
+  return {
+    added: subtract(after, before),
+    removed: subtract(before, after),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Paragraphs of `from` left over after removing one match per paragraph
+ * in `other`.
+ */
+function subtract(from: string[], other: string[]): string[] {
+  const remaining = new Map<string, number>();
+  for (const paragraph of other) {
+    remaining.set(paragraph, (remaining.get(paragraph) ?? 0) + 1);
+  }
+
+  const result: string[] = [];
+  for (const paragraph of from) {
+    const count = remaining.get(paragraph) ?? 0;
+    if (count > 0) {
+      remaining.set(paragraph, count - 1);
+    } else {
+      result.push(paragraph);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,245 @@
+/**
+ * CHANGE HIGHLIGHTS
+ * ==================
+ * Classifies a paragraph diff into the changes people actually track:
+ * new/removed products, price changes and new messaging.
+ *
+ * Heuristic and deterministic - no AI call, so every scheduled scan is
+ * cheap. Products come from structured data when the site has it;
+ * prices and messaging come from the changed paragraphs.
+ */
+
+import type { ParagraphDiff } from './diff';
+import type { StructuredProduct } from '@/lib/scrapers/types';
+import type { ChangeHighlight } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Max highlights of each kind (the full diff is stored separately) */
+const MAX_HIGHLIGHTS_PER_KIND = 5;
+
+/** Headline/tagline-sized paragraphs count as messaging */
+const MAX_MESSAGING_LENGTH = 140;
+const MIN_MESSAGING_WORDS = 3;
+
+/** Longest paragraph excerpt shown in a highlight */
+const MAX_EXCERPT_LENGTH = 80;
+
+/** $29, €1.299,00, £9.99, 29 USD, 49€ */
+const PRICE_PATTERN = /(?:[$€£¥]\s?\d[\d,.]*|\d[\d,.]*\s?(?:[$€£¥]|\b(?:USD|EUR|GBP)\b))/gi;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HighlightInput {
+  diff: ParagraphDiff;
+  /** Structured data products from the previous scan */
+  previousProducts?: StructuredProduct[];
+  /** Structured data products from this scan */
+  currentProducts?: StructuredProduct[];
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Find product, price and messaging changes.
+ *
+ * @param input - Paragraph diff plus structured products before/after
+ * @returns Highlights, products first
+ */
+export function detectHighlights(input: HighlightInput): ChangeHighlight[] {
+  const { diff, previousProducts = [], currentProducts = [] } = input;
+
+  const products = detectProductChanges(previousProducts, currentProducts);
+  const prices = [
+    ...detectProductPriceChanges(previousProducts, currentProducts),
+    ...detectParagraphPriceChanges(diff),
+  ];
+  const messaging = detectMessagingChanges(diff);
+
+  return [
+    ...products.slice(0, MAX_HIGHLIGHTS_PER_KIND),
+    ...prices.slice(0, MAX_HIGHLIGHTS_PER_KIND),
+    ...messaging.slice(0, MAX_HIGHLIGHTS_PER_KIND),
+  ];
+}
+
+/**
+ * One-line summary of a change.
+ *
+ * @example
+ * summarizeChange(diff, highlights);
+ * // "4 sections added, 1 removed · 2 new products · 1 price change"
+ */
+export function summarizeChange(diff: ParagraphDiff, highlights: ChangeHighlight[]): string {
+  const parts: string[] = [];
+
+  const added = diff.added.length;
+  const removed = diff.removed.length;
+  if (added > 0 && removed > 0) {
+    parts.push(`${plural(added, 'section')} added, ${removed} removed`);
+  } else if (added > 0) {
+    parts.push(`${plural(added, 'section')} added`);
+  } else if (removed > 0) {
+    parts.push(`${plural(removed, 'section')} removed`);
+  }
+
+  const newProducts = highlights.filter(h => h.kind === 'product' && h.change === 'added').length;
+  const goneProducts = highlights.filter(h => h.kind === 'product' && h.change === 'removed').length;
+  const prices = highlights.filter(h => h.kind === 'price').length;
+  const messaging = highlights.some(h => h.kind === 'messaging' && h.change === 'added');
+
+  if (newProducts > 0) parts.push(plural(newProducts, 'new product'));
+  if (goneProducts > 0) parts.push(`${plural(goneProducts, 'product')} removed`);
+  if (prices > 0) parts.push(plural(prices, 'price change'));
+  if (messaging) parts.push('new messaging');
+
+  return parts.join(' · ') || 'Minor content changes';
+}
+
+// ============================================================================
+// PRODUCTS
+// ============================================================================
+
+function detectProductChanges(
+  previous: StructuredProduct[],
+  current: StructuredProduct[]
+): ChangeHighlight[] {
+  const before = new Set(previous.map(p => productKey(p)));
+  const after = new Set(current.map(p => productKey(p)));
+
+  return [
+    ...current
+      .filter(p => !before.has(productKey(p)))
+      .map((p): ChangeHighlight => ({ kind: 'product', change: 'added', text: p.name })),
+    ...previous
+      .filter(p => !after.has(productKey(p)))
+      .map((p): ChangeHighlight => ({ kind: 'product', change: 'removed', text: p.name })),
+  ];
+}
+
+function detectProductPriceChanges(
+  previous: StructuredProduct[],
+  current: StructuredProduct[]
+): ChangeHighlight[] {
+  const previousByKey = new Map(previous.map(p => [productKey(p), p]));
+  const highlights: ChangeHighlight[] = [];
+
+  for (const product of current) {
+    const old = previousByKey.get(productKey(product));
+    if (!old) continue;
+
+    const oldPrice = formatProductPrice(old);
+    const newPrice = formatProductPrice(product);
+    if (oldPrice && newPrice && oldPrice !== newPrice) {
+      highlights.push({ kind: 'price', change: 'changed', text: `${product.name}: ${oldPrice} → ${newPrice}` });
+    }
+  }
+
+  return highlights;
+}
+
+function productKey(product: StructuredProduct): string {
+  return product.name.toLowerCase().trim();
+}
+
+function formatProductPrice(product: StructuredProduct): string | null {
+  if (!product.price) return null;
+  const range = product.highPrice ? `${product.price}–${product.highPrice}` : product.price;
+  return product.priceCurrency ? `${range} ${product.priceCurrency}` : range;
+}
+
+// ============================================================================
+// PRICES IN TEXT
+// ============================================================================
+
+/**
+ * Pair removed and added paragraphs that only differ in their prices
+ * (e.g. "Pro - $29/month" → "Pro - $39/month"); unpaired ones are new or
+ * removed prices.
+ */
+function detectParagraphPriceChanges(diff: ParagraphDiff): ChangeHighlight[] {
+  const removed = diff.removed.filter(hasPrice);
+  const added = diff.added.filter(hasPrice);
+  const highlights: ChangeHighlight[] = [];
+
+  const unmatchedRemoved = [...removed];
+  for (const paragraph of added) {
+    const template = priceTemplate(paragraph);
+    const index = unmatchedRemoved.findIndex(old => priceTemplate(old) === template);
+
+    if (index >= 0) {
+      const [old] = unmatchedRemoved.splice(index, 1);
+      // Text before the first price usually names the plan/product
+      const label = excerpt(paragraph.slice(0, paragraph.search(PRICE_PATTERN)));
+      highlights.push({
+        kind: 'price',
+        change: 'changed',
+        text: `${label ? `${label}: ` : ''}${prices(old).join(', ')} → ${prices(paragraph).join(', ')}`,
+      });
+    } else {
+      highlights.push({ kind: 'price', change: 'added', text: excerpt(paragraph) });
+    }
+  }
+
+  for (const old of unmatchedRemoved) {
+    highlights.push({ kind: 'price', change: 'removed', text: excerpt(old) });
+  }
+
+  return highlights;
+}
+
+function hasPrice(paragraph: string): boolean {
+  return prices(paragraph).length > 0;
+}
+
+function prices(paragraph: string): string[] {
+  return paragraph.match(PRICE_PATTERN) ?? [];
+}
+
+function priceTemplate(paragraph: string): string {
+  return paragraph.replace(PRICE_PATTERN, '#').toLowerCase();
+}
+
+// ============================================================================
+// MESSAGING
+// ============================================================================
+
+/**
+ * Short, price-free paragraphs - headlines, taglines, CTAs.
+ */
+function detectMessagingChanges(diff: ParagraphDiff): ChangeHighlight[] {
+  const isMessaging = (paragraph: string) =>
+    paragraph.length <= MAX_MESSAGING_LENGTH &&
+    paragraph.split(' ').length >= MIN_MESSAGING_WORDS &&
+    !hasPrice(paragraph);
+
+  return [
+    ...diff.added
+      .filter(isMessaging)
+      .map((p): ChangeHighlight => ({ kind: 'messaging', change: 'added', text: excerpt(p) })),
+    ...diff.removed
+      .filter(isMessaging)
+      .map((p): ChangeHighlight => ({ kind: 'messaging', change: 'removed', text: excerpt(p) })),
+  ];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function excerpt(text: string): string {
+  const trimmed = text.trim().replace(/[\s:–-]+$/, '');
+  return trimmed.length > MAX_EXCERPT_LENGTH
+    ? `${trimmed.slice(0, MAX_EXCERPT_LENGTH - 1)}…`
+    : trimmed;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
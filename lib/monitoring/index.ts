@@ -0,0 +1,26 @@
+/**
+ * MONITORING MODULE
+ * ==================
+ * Scheduled re-scans and website change detection.
+ * Import from '@/lib/monitoring' instead of individual files
+ * (client components: import '@/lib/monitoring/schedule' directly).
+ *
+ * Usage:
+ *   import { rescanBrand } from '@/lib/monitoring';
+ *   const { error, change } = await rescanBrand(brand, { trigger: 'scheduled' });
+ */
+
+// Rescan (server only)
+export { rescanBrand, type RescanOptions, type RescanResult } from './rescan';
+
+// Diffing and classification
+export { diffParagraphs, splitParagraphs, type ParagraphDiff } from './diff';
+export { detectHighlights, summarizeChange, type HighlightInput } from './highlights';
+
+// Schedule
+export {
+  MONITOR_FREQUENCY_OPTIONS,
+  canMonitorBrand,
+  getNextCheckAt,
+  isMonitorFrequency,
+} from './schedule';
@@ -0,0 +1,176 @@
+/**
+ * BRAND RESCAN
+ * =============
+ * Re-scrapes an existing brand, records what changed since the last
+ * scan, and re-runs the analyzers if the content is different.
+ *
+ * Shared by the manual refresh route and the scheduled monitor job so
+ * both produce the same change timeline.
+ */
+
+import { getScraper, getBrandScraperType, isManualScraperType } from '@/lib/scrapers';
+import { startBrandAnalysis } from '@/lib/analyzers/pipeline';
+import { updateBrandAdmin } from '@/lib/supabase/brands';
+import { createBrandChange } from '@/lib/supabase/brand-changes';
+import { recordScrapeAttempt } from '@/lib/supabase/scrape-attempts';
+import { log } from '@/lib/utils/logger';
+import { diffParagraphs } from './diff';
+import { detectHighlights, summarizeChange } from './highlights';
+import { getNextCheckAt } from './schedule';
+import type { ScrapeErrorCode, ScraperType, StructuredData } from '@/lib/scrapers/types';
+import type { Brand, BrandChange, ChangeTrigger } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Max paragraphs stored per side of a change (counts are kept in full) */
+const MAX_STORED_PARAGRAPHS = 50;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RescanOptions {
+  /** Web scraper to use (defaults to the one that produced the brand's content) */
+  scraperType?: ScraperType;
+  /** Bypass the scrape cache and re-run analyzers even if unchanged */
+  forceRefresh?: boolean;
+  /** Re-run analyzers even if unchanged (the scrape cache is still used) */
+  reanalyze?: boolean;
+  trigger: ChangeTrigger;
+}
+
+export interface RescanResult {
+  error: string | null;
+  errorCode?: ScrapeErrorCode;
+  /** True when the error came from the scrape (the site, not the app) */
+  scrapeFailed: boolean;
+  /** True when the content was unchanged and analyzers didn't run */
+  skipped: boolean;
+  /** True when an earlier analysis of the brand was still running */
+  conflict?: boolean;
+  /** The recorded change, if the content differed from the last scan */
+  change: BrandChange | null;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Re-scan a brand's website.
+ *
+ * On scrape failure the previous content and analysis are kept. Monitored
+ * brands get their next check scheduled whether or not the scan worked.
+ *
+ * Brands built from pasted text or an uploaded document are refused (and
+ * their monitoring turned off) - a site scrape would replace their content.
+ *
+ * @param brand - The brand as it was before the scan
+ * @param options - Scraper, force flags and trigger
+ * @returns Error, whether analyzers were skipped, and the recorded change
+ *
+ * @example
+ * const { error, change } = await rescanBrand(brand, { trigger: 'scheduled' });
+ */
+export async function rescanBrand(brand: Brand, options: RescanOptions): Promise<RescanResult> {
+  const { scraperType = getBrandScraperType(brand), forceRefresh = false, reanalyze = false, trigger } = options;
+  const nextCheckAt = getNextCheckAt(brand.monitor_frequency);
+
+  if (isManualScraperType(scraperType)) {
+    log.warn('Cannot rescan a manual source', { brandId: brand.id, scraperType });
+
+    if (brand.monitor_frequency !== 'off') {
+      await updateBrandAdmin(brand.id, { monitorFrequency: 'off', nextCheckAt: null });
+    }
+
+    return {
+      error: 'This brand was built from supplied content and has no website to re-scan',
+      scrapeFailed: false,
+      skipped: false,
+      change: null,
+    };
+  }
+
+  log.info('🔁 Rescanning brand', { brandId: brand.id, scraperType, trigger, forceRefresh });
+
+  await updateBrandAdmin(brand.id, { scrapeStatus: 'scraping' });
+
+  const scrapeResult = await getScraper(scraperType).scrape({
+    url: brand.source_url,
+    forceRefresh,
+    preferEnglish: brand.analysis_language !== 'source',
+  });
+
+  await recordScrapeAttempt({ brandId: brand.id, scraperType, trigger, result: scrapeResult });
+
+  if (!scrapeResult.success || !scrapeResult.content) {
+    log.error('Rescan failed', { brandId: brand.id, error: scrapeResult.error });
+
+    // Keep the previous content and analysis if there was one
+    await updateBrandAdmin(brand.id, {
+      scrapeStatus: brand.scraped_content ? 'complete' : 'failed',
+      scrapeError: scrapeResult.error || 'Failed to scrape website',
+      nextCheckAt,
+    });
+
+    return {
+      error: scrapeResult.error || 'Failed to scrape website',
+      errorCode: scrapeResult.errorCode,
+      scrapeFailed: true,
+      skipped: false,
+      change: null,
+    };
+  }
+
+  const { error, skipped, contentHash, conflict } = await startBrandAnalysis(brand.id, scrapeResult, {
+    previousHash: brand.content_hash,
+    force: forceRefresh || reanalyze,
+    analysisLanguage: brand.analysis_language,
+  });
+
+  if (nextCheckAt) {
+    await updateBrandAdmin(brand.id, { nextCheckAt });
+  }
+
+  if (conflict) {
+    // Nothing was saved - leave the brand to the running analysis
+    await updateBrandAdmin(brand.id, { scrapeStatus: brand.scrape_status });
+  }
+
+  if (error || skipped || !contentHash || !brand.scraped_content) {
+    return { error, conflict, scrapeFailed: false, skipped, change: null };
+  }
+
+  // ========================================
+  // Record what changed since the last scan
+  // ========================================
+
+  const diff = diffParagraphs(brand.scraped_content, scrapeResult.content);
+  const previousStructured = brand.structured_data as StructuredData | null;
+  const highlights = detectHighlights({
+    diff,
+    previousProducts: previousStructured?.products,
+    currentProducts: scrapeResult.metadata?.structuredData?.products,
+  });
+
+  if (diff.added.length === 0 && diff.removed.length === 0 && highlights.length === 0) {
+    return { error: null, scrapeFailed: false, skipped, change: null };
+  }
+
+  const { change } = await createBrandChange({
+    brand_id: brand.id,
+    trigger,
+    summary: summarizeChange(diff, highlights),
+    added: diff.added.slice(0, MAX_STORED_PARAGRAPHS),
+    removed: diff.removed.slice(0, MAX_STORED_PARAGRAPHS),
+    highlights,
+    added_count: diff.added.length,
+    removed_count: diff.removed.length,
+    previous_hash: brand.content_hash,
+    content_hash: contentHash,
+  });
+
+  return { error: null, scrapeFailed: false, skipped, change };
+}
@@ -0,0 +1,65 @@
+/**
+ * MONITORING SCHEDULE
+ * ====================
+ * Frequencies and due-date math for scheduled re-scans.
+ * Safe to import from client components.
+ */
+
+import type { ScraperType } from '@/lib/scrapers/types';
+import type { Brand, MonitorFrequency } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days between scans for each frequency */
+const FREQUENCY_DAYS: Record<Exclude<MonitorFrequency, 'off'>, number> = {
+  weekly: 7,
+  monthly: 30,
+};
+
+/** Content sources that fetch the website (pasted text and uploads have nothing to re-scan) */
+const MONITORABLE_SCRAPER_TYPES: ScraperType[] = ['web-homepage', 'web-deep'];
+
+/** Options for the schedule picker, in display order */
+export const MONITOR_FREQUENCY_OPTIONS: { value: MonitorFrequency; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check if a value is a valid monitor frequency.
+ */
+export function isMonitorFrequency(value: unknown): value is MonitorFrequency {
+  return value === 'off' || value === 'weekly' || value === 'monthly';
+}
+
+/**
+ * Check if a brand's content came from its website, so it can be re-scanned.
+ * Brands saved before the source was recorded were scraped from the site.
+ */
+export function canMonitorBrand(brand: Pick<Brand, 'scraper_type'>): boolean {
+  return brand.scraper_type === null || (MONITORABLE_SCRAPER_TYPES as string[]).includes(brand.scraper_type);
+}
+
+/**
+ * When the next scan is due.
+ *
+ * @param frequency - The brand's monitor frequency
+ * @param from - Time of the last scan (defaults to now)
+ * @returns ISO timestamp, or null when monitoring is off
+ *
+ * @example
+ * getNextCheckAt('weekly'); // one week from now
+ */
+export function getNextCheckAt(frequency: MonitorFrequency, from: Date = new Date()): string | null {
+  if (frequency === 'off') return null;
+  return new Date(from.getTime() + FREQUENCY_DAYS[frequency] * DAY_MS).toISOString();
+}
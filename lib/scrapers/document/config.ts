@@ -0,0 +1,14 @@
+/**
+ * DOCUMENT SOURCE CONFIG
+ * =======================
+ * Configuration for uploaded brand documents.
+ */
+
+import type { ScraperConfig } from '../types';
+
+export const config: ScraperConfig = {
+  id: 'document',
+  name: 'Brand Document',
+  description: 'Reads an uploaded PDF, Word (.docx) or plain-text brand deck',
+  input: 'file',
+};
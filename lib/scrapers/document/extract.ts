@@ -0,0 +1,77 @@
+/**
+ * DOCUMENT TEXT EXTRACTION
+ * =========================
+ * Reads plain text out of uploaded brand documents.
+ *
+ * Supported formats:
+ * - PDF (via unpdf / PDF.js)
+ * - Word .docx (via mammoth)
+ * - Plain text and markdown
+ */
+
+import { extractText, getDocumentProxy } from 'unpdf';
+import mammoth from 'mammoth';
+import type { ScrapeFile } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DocumentFormat = 'pdf' | 'docx' | 'text';
+
+// ============================================================================
+// FORMAT DETECTION
+// ============================================================================
+
+/**
+ * Work out a file's format from its extension and MIME type.
+ *
+ * @returns The format, or null if unsupported
+ */
+export function detectDocumentFormat(file: ScrapeFile): DocumentFormat | null {
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+
+  if (name.endsWith('.pdf') || type === 'application/pdf') {
+    return 'pdf';
+  }
+  if (
+    name.endsWith('.docx') ||
+    type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ) {
+    return 'docx';
+  }
+  if (/\.(txt|md|markdown)$/.test(name) || type.startsWith('text/plain') || type === 'text/markdown') {
+    return 'text';
+  }
+
+  return null;
+}
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+/**
+ * Extract the text of a document.
+ *
+ * @param file - The uploaded file
+ * @param format - Format from detectDocumentFormat()
+ * @returns Raw text (not yet cleaned)
+ * @throws Error if the file can't be parsed
+ */
+export async function extractDocumentText(file: ScrapeFile, format: DocumentFormat): Promise<string> {
+  switch (format) {
+    case 'pdf': {
+      const pdf = await getDocumentProxy(new Uint8Array(file.data));
+      const { text } = await extractText(pdf, { mergePages: true });
+      return text;
+    }
+    case 'docx': {
+      const { value } = await mammoth.extractRawText({ buffer: Buffer.from(file.data) });
+      return value;
+    }
+    case 'text':
+      return new TextDecoder().decode(file.data);
+  }
+}
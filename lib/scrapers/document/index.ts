@@ -0,0 +1,104 @@
+/**
+ * DOCUMENT SOURCE
+ * ================
+ * Turns an uploaded brand deck (PDF, Word, plain text) into a ScrapeResult.
+ *
+ * This source:
+ * 1. Checks the file size and format
+ * 2. Extracts the document text
+ * 3. Cleans and truncates it like any other scraped content
+ *
+ * Usage:
+ *   import { scrapeDocument } from '@/lib/scrapers/document';
+ *   const result = await scrapeDocument({ url, file });
+ */
+
+import { log } from '@/lib/utils/logger';
+import { detectDocumentFormat, extractDocumentText } from './extract';
+import {
+  cleanPlainText,
+  truncateContent,
+  MAX_UPLOAD_BYTES,
+  MIN_CONTENT_LENGTH,
+} from '../shared/content';
+import { startDiagnostics, finishDiagnostics } from '../shared/diagnostics';
+import { detectTextLanguage } from '../extractors/language';
+import type { ScrapeInput, ScrapeResult } from '../types';
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Build a scrape result from an uploaded document.
+ *
+ * @param input - Brand URL (for reference) and the uploaded file
+ * @returns Extracted content or a user-facing error
+ */
+export async function scrapeDocument(input: ScrapeInput): Promise<ScrapeResult> {
+  const { url, file } = input;
+
+  if (!file) {
+    return { success: false, error: 'Please upload a PDF, Word (.docx) or text file.' };
+  }
+
+  log.info('📄 Reading uploaded document', { url, fileName: file.name, bytes: file.data.byteLength });
+  const startTime = Date.now();
+
+  if (file.data.byteLength > MAX_UPLOAD_BYTES) {
+    return { success: false, error: 'This file is too large. The limit is 10MB.' };
+  }
+
+  const format = detectDocumentFormat(file);
+  if (!format) {
+    return {
+      success: false,
+      error: 'Unsupported file type. Please upload a PDF, Word (.docx) or text file.',
+    };
+  }
+
+  try {
+    const text = cleanPlainText(await extractDocumentText(file, format));
+
+    if (text.length < MIN_CONTENT_LENGTH) {
+      log.warn('Document has too little text', { fileName: file.name, length: text.length });
+      return {
+        success: false,
+        error: format === 'pdf'
+          ? 'Could not find enough text in this PDF. Scanned PDFs (images of text) are not supported.'
+          : 'Could not find enough text in this document.',
+        diagnostics: finishDiagnostics(startDiagnostics(file.name), startTime, { text }),
+      };
+    }
+
+    const finalContent = truncateContent(text);
+    const duration = Date.now() - startTime;
+
+    log.success('Document read', {
+      fileName: file.name,
+      format,
+      contentLength: finalContent.length,
+      duration: `${duration}ms`,
+    });
+
+    return {
+      success: true,
+      content: finalContent,
+      diagnostics: finishDiagnostics(startDiagnostics(file.name), startTime, { text }),
+      metadata: {
+        url,
+        scrapedAt: new Date().toISOString(),
+        contentLength: finalContent.length,
+        scraperType: 'document',
+        language: detectTextLanguage(finalContent) ?? undefined,
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Document extraction failed', { fileName: file.name, format, error: message });
+    return {
+      success: false,
+      error: 'Could not read this file. It may be damaged or password-protected.',
+    };
+  }
+}
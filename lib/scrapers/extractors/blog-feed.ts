@@ -0,0 +1,358 @@
+/**
+ * BLOG FEED EXTRACTOR
+ * ====================
+ * Finds the site's RSS / Atom feed and reads its latest posts, so
+ * positioning published on the blog reaches the analyzers even though
+ * the crawl rarely gets that far.
+ *
+ * Feed discovery, in order:
+ * 1. <link rel="alternate" type="application/rss+xml|atom+xml"> on the page
+ * 2. Links to /feed, /rss.xml, atom.xml... on the page
+ * 3. Common feed paths on the site's origin
+ *
+ * Feeds go through the scrape cache like pages, and robots.txt applies.
+ */
+
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import { log } from '@/lib/utils/logger';
+import { FEED_CONTENT_TYPES } from '../shared/fetch';
+import { fetchCachedPage } from '../shared/cache';
+import type { RobotsPolicy } from '../shared/robots';
+import type { BlogFeed, BlogPost, FeedTheme, PublishingCadence } from '../types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const FEED_TIMEOUT_MS = 8000;
+
+/** Feeds can be large (full post content) - we only need the latest posts */
+const MAX_FEED_BYTES = 2 * 1024 * 1024;
+
+/** Candidate feed URLs tried before giving up */
+const MAX_FEED_ATTEMPTS = 3;
+
+const MAX_POSTS = 20;
+const MAX_THEMES = 10;
+const MAX_SUMMARY_LENGTH = 280;
+const MAX_CATEGORIES_PER_POST = 8;
+
+/** Tried when the page doesn't link a feed, most common first */
+const COMMON_FEED_PATHS = ['/feed', '/rss.xml', '/blog/feed', '/feed.xml', '/atom.xml', '/blog/rss.xml'];
+
+/** Same-origin links that look like a feed */
+const FEED_LINK_PATTERN = /(?:\/(?:feed|rss)(?:\.xml)?\/?|\.rss|\/atom\.xml|\/index\.xml)$/i;
+
+/** Comment feeds (WordPress adds one per post) aren't the blog */
+const COMMENT_FEED_PATTERN = /\/comments?\//i;
+
+/** Categories that say nothing about the content */
+const IGNORED_CATEGORIES = new Set(['uncategorized', 'uncategorised', 'general', 'blog', 'news', 'posts']);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30.44;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ScrapeOptions {
+  /** Skip feeds that robots.txt disallows */
+  robots?: RobotsPolicy;
+  /** Gap before each request to this host */
+  hostIntervalMs?: number;
+  /** Stop trying feeds if the host's rate-limit slot starts after this timestamp */
+  deadline?: number;
+  /** Ignore the scrape cache */
+  forceRefresh?: boolean;
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Discover the site's feed from a page and read its latest posts.
+ * Failures are non-fatal - the scrape just has no blog feed.
+ *
+ * @param html - HTML of the page (usually the homepage)
+ * @param pageUrl - URL of the page (for resolving links and common paths)
+ * @param options - robots.txt policy, rate limit, deadline and cache bypass
+ * @returns The feed's latest posts, or null if no feed was found
+ *
+ * @example
+ * const blogFeed = await scrapeBlogFeed(html, response.url, { robots });
+ * blogFeed?.cadence.postsPerMonth // -> 4.2
+ */
+export async function scrapeBlogFeed(
+  html: string,
+  pageUrl: string,
+  options: ScrapeOptions = {}
+): Promise<BlogFeed | null> {
+  const candidates = findFeedUrls(html, pageUrl)
+    .filter(url => !options.robots || options.robots.isAllowed(url))
+    .slice(0, MAX_FEED_ATTEMPTS);
+
+  for (const url of candidates) {
+    if (options.deadline && Date.now() >= options.deadline) break;
+
+    try {
+      const response = await fetchCachedPage(url, {
+        timeoutMs: FEED_TIMEOUT_MS,
+        maxBytes: MAX_FEED_BYTES,
+        contentTypes: FEED_CONTENT_TYPES,
+        hostIntervalMs: options.hostIntervalMs,
+        deadline: options.deadline,
+        forceRefresh: options.forceRefresh,
+      });
+
+      const feed = response.ok ? parseFeed(response.text, response.url) : null;
+      if (feed && feed.posts.length > 0) {
+        return feed;
+      }
+    } catch (error) {
+      log.debug('Feed candidate skipped', {
+        url,
+        error: error instanceof Error ? error.message : 'Unknown',
+      });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Candidate feed URLs for a page, best first.
+ *
+ * @param html - HTML of the page
+ * @param pageUrl - URL of the page
+ * @returns Declared feeds, then linked feeds, then common paths (deduped)
+ */
+export function findFeedUrls(html: string, pageUrl: string): string[] {
+  const $ = cheerio.load(html);
+  const origin = new URL(pageUrl).origin;
+
+  // Feeds declared in <head> may live on another host (blog subdomain, FeedBurner)
+  const declared = $('link[rel~="alternate" i]')
+    .filter((_, el) => /(rss|atom)\+xml/i.test($(el).attr('type') || ''))
+    .toArray()
+    .map(el => resolveUrl($(el).attr('href'), pageUrl));
+
+  const linked = $('a[href]')
+    .toArray()
+    .map(el => resolveUrl($(el).attr('href'), pageUrl))
+    .filter(url => url?.startsWith(origin) && FEED_LINK_PATTERN.test(new URL(url).pathname));
+
+  const common = COMMON_FEED_PATHS.map(path => `${origin}${path}`);
+
+  return [...new Set([...declared, ...linked, ...common])]
+    .filter((url): url is string => !!url && !COMMENT_FEED_PATTERN.test(url));
+}
+
+/**
+ * Parse an RSS 2.0, RSS 1.0 (RDF) or Atom document.
+ *
+ * @param xml - The feed document
+ * @param feedUrl - URL of the feed (for resolving relative post links)
+ * @returns The feed's latest posts, or null if the document isn't a feed
+ */
+export function parseFeed(xml: string, feedUrl: string): BlogFeed | null {
+  const $ = cheerio.load(xml, { xml: true });
+
+  const isAtom = $('feed').length > 0 && $('rss, channel').length === 0;
+  if (!isAtom && $('rss, channel').length === 0) {
+    return null;
+  }
+
+  const items = isAtom ? $('entry').toArray() : $('item').toArray();
+  const posts = items
+    .map(el => (isAtom ? parseAtomEntry($, $(el), feedUrl) : parseRssItem($, $(el), feedUrl)))
+    .filter((post): post is BlogPost => post !== null)
+    .sort(byNewest)
+    .slice(0, MAX_POSTS);
+
+  const title = cleanText((isAtom ? $('feed > title') : $('channel > title')).first().text());
+
+  return {
+    feedUrl,
+    format: isAtom ? 'atom' : 'rss',
+    ...(title ? { title } : {}),
+    posts,
+    themes: countThemes(posts),
+    cadence: computeCadence(posts),
+  };
+}
+
+/**
+ * Check whether a feed with posts was found.
+ */
+export function hasBlogFeed(feed: BlogFeed | null | undefined): feed is BlogFeed {
+  return !!feed && feed.posts.length > 0;
+}
+
+// ============================================================================
+// FEED PARSING
+// ============================================================================
+
+function parseRssItem($: CheerioAPI, $item: Cheerio<Element>, feedUrl: string): BlogPost | null {
+  const title = cleanText(childText($item, 'title'));
+  if (!title) return null;
+
+  const guid = $item.children('guid').first();
+  const link = childText($item, 'link') ||
+    (guid.attr('isPermaLink') !== 'false' ? guid.text().trim() : '');
+
+  return buildPost({
+    title,
+    url: resolveUrl(link, feedUrl),
+    date: childText($item, 'pubDate') || childText($item, 'dc\\:date'),
+    summary: childText($item, 'description') || childText($item, 'content\\:encoded'),
+    categories: $item.children('category, dc\\:subject').toArray().map(el => $(el).text()),
+  });
+}
+
+function parseAtomEntry($: CheerioAPI, $entry: Cheerio<Element>, feedUrl: string): BlogPost | null {
+  const title = cleanText(childText($entry, 'title'));
+  if (!title) return null;
+
+  const links = $entry.children('link').toArray().map(el => $(el));
+  const link = links.find(l => !l.attr('rel') || l.attr('rel') === 'alternate') ?? links[0];
+
+  return buildPost({
+    title,
+    url: resolveUrl(link?.attr('href'), feedUrl),
+    date: childText($entry, 'published') || childText($entry, 'updated'),
+    summary: childText($entry, 'summary') || childText($entry, 'content'),
+    categories: $entry.children('category').toArray().map(el => $(el).attr('term') || $(el).text()),
+  });
+}
+
+function buildPost(fields: {
+  title: string;
+  url: string | undefined;
+  date: string;
+  summary: string;
+  categories: string[];
+}): BlogPost {
+  const publishedAt = parseDate(fields.date);
+  const summary = toPlainText(fields.summary);
+  const categories = [...new Set(fields.categories.map(cleanText).filter(Boolean))]
+    .slice(0, MAX_CATEGORIES_PER_POST);
+
+  return {
+    title: fields.title,
+    ...(fields.url ? { url: fields.url } : {}),
+    ...(publishedAt ? { publishedAt } : {}),
+    ...(summary ? { summary: truncate(summary, MAX_SUMMARY_LENGTH) } : {}),
+    categories,
+  };
+}
+
+// ============================================================================
+// THEMES AND CADENCE
+// ============================================================================
+
+/**
+ * Count categories across posts (case-insensitive, first spelling wins).
+ */
+function countThemes(posts: BlogPost[]): FeedTheme[] {
+  const counts = new Map<string, FeedTheme>();
+
+  for (const category of posts.flatMap(p => p.categories)) {
+    const key = category.toLowerCase();
+    if (IGNORED_CATEGORIES.has(key)) continue;
+
+    const theme = counts.get(key) ?? { name: category, count: 0 };
+    theme.count++;
+    counts.set(key, theme);
+  }
+
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_THEMES);
+}
+
+/**
+ * Publishing frequency over the span of the dated posts.
+ */
+function computeCadence(posts: BlogPost[]): PublishingCadence {
+  const times = posts
+    .map(p => (p.publishedAt ? Date.parse(p.publishedAt) : NaN))
+    .filter(t => !Number.isNaN(t))
+    .sort((a, b) => a - b);
+
+  if (times.length === 0) {
+    return {
+      datedPosts: 0,
+      firstPublishedAt: null,
+      lastPublishedAt: null,
+      postsPerMonth: null,
+      averageDaysBetweenPosts: null,
+    };
+  }
+
+  const first = times[0];
+  const last = times[times.length - 1];
+  const spanDays = (last - first) / DAY_MS;
+  const averageDays = times.length > 1 && spanDays > 0 ? spanDays / (times.length - 1) : null;
+
+  return {
+    datedPosts: times.length,
+    firstPublishedAt: new Date(first).toISOString(),
+    lastPublishedAt: new Date(last).toISOString(),
+    postsPerMonth: averageDays ? round(DAYS_PER_MONTH / averageDays) : null,
+    averageDaysBetweenPosts: averageDays ? round(averageDays) : null,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function childText($parent: Cheerio<Element>, selector: string): string {
+  return $parent.children(selector).first().text().trim();
+}
+
+/**
+ * Feed summaries are usually HTML (escaped or in CDATA).
+ */
+function toPlainText(html: string): string {
+  if (!html) return '';
+  const $ = cheerio.load(html);
+  $('script, style, figure, img').remove();
+  return cleanText($.root().text());
+}
+
+function parseDate(value: string): string | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function byNewest(a: BlogPost, b: BlogPost): number {
+  return (b.publishedAt ?? '').localeCompare(a.publishedAt ?? '');
+}
+
+function resolveUrl(href: string | undefined, baseUrl: string): string | undefined {
+  if (!href) return undefined;
+  try {
+    const url = new URL(href.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,379 @@
+/**
+ * CONTACT INFO EXTRACTOR
+ * =======================
+ * Finds emails, phone numbers, postal addresses and social profiles in
+ * a page's HTML - the facts that don't need an AI to read.
+ *
+ * Sources (best first):
+ * - Organization markup (email, telephone, address, sameAs)
+ * - mailto: / tel: links and links to social profiles
+ * - <address> elements
+ * - Visible text (emails, and phone numbers in an unambiguous format)
+ *
+ * Everything is normalized and deduplicated, so the same profile linked
+ * from the header, footer and JSON-LD is one record.
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type {
+  ContactAddress,
+  ContactEmail,
+  ContactInfo,
+  ContactPhone,
+  ContactSource,
+  SocialPlatform,
+  SocialProfile,
+  StructuredAddress,
+  StructuredOrganization,
+} from '../types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MAX_EMAILS = 5;
+const MAX_PHONES = 5;
+const MAX_ADDRESSES = 3;
+const MAX_SOCIALS = 10;
+const MAX_ADDRESS_LENGTH = 200;
+
+/** Phone numbers have 7-15 digits (E.164) */
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+
+/** Lower index = better source */
+const SOURCE_ORDER: ContactSource[] = ['structured-data', 'link', 'address-tag', 'text'];
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,24}/gi;
+
+/**
+ * Only phone formats that can't be confused with dates or IDs:
+ * +44 20 7946 0958, (555) 123-4567
+ */
+const TEXT_PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?(?:\(\d{1,4}\)[\s.-]?)?\d{1,4}(?:[\s.-]\d{2,4}){1,4}|\(\d{3}\)\s?\d{3}[\s.-]\d{4})/g;
+
+/** Addresses that are never a real contact */
+const IGNORED_EMAIL = /(^|\.)(example\.(com|org|net)|sentry\.io|wixpress\.com|domain\.com|email\.com)$|\.(png|jpe?g|gif|svg|webp)$/i;
+
+/** Profile URL patterns per platform; the first capture group is the handle */
+const SOCIAL_PATTERNS: { platform: SocialPlatform; hosts: RegExp; path: RegExp }[] = [
+  { platform: 'linkedin', hosts: /^([a-z]{2}\.)?linkedin\.com$/, path: /^\/(?:company|school|showcase)\/([^/]+)/ },
+  { platform: 'instagram', hosts: /^instagram\.com$/, path: /^\/([a-z0-9._]+)\/?$/i },
+  { platform: 'x', hosts: /^(twitter|x)\.com$/, path: /^\/([a-z0-9_]{1,15})\/?$/i },
+  { platform: 'tiktok', hosts: /^tiktok\.com$/, path: /^\/@([a-z0-9._]+)\/?$/i },
+  { platform: 'youtube', hosts: /^youtube\.com$/, path: /^\/(@[^/]+|c\/[^/]+|channel\/[^/]+|user\/[^/]+)\/?$/ },
+  { platform: 'facebook', hosts: /^(facebook|fb)\.com$/, path: /^\/([a-z0-9.-]+)\/?$/i },
+];
+
+/** Hosts with several aliases are stored under one */
+const CANONICAL_HOSTS: Partial<Record<SocialPlatform, string>> = {
+  linkedin: 'linkedin.com',
+  x: 'x.com',
+  facebook: 'facebook.com',
+};
+
+/** Paths that look like profiles but are app pages */
+const RESERVED_HANDLES = new Set([
+  'share', 'sharer', 'sharer.php', 'intent', 'home', 'login', 'signup', 'explore', 'hashtag',
+  'search', 'watch', 'embed', 'p', 'reel', 'reels', 'stories', 'tv', 'privacy', 'terms',
+  'about', 'help', 'legal', 'policies', 'dialog', 'plugins', 'tr', 'groups', 'events',
+  'profile.php', 'pages',
+]);
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ExtractOptions {
+  /** Organization from the page's structured data, if known */
+  organization?: StructuredOrganization | null;
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Extract contact details and social profiles from a page.
+ *
+ * @param html - Raw HTML string, or an already-loaded document (not modified)
+ * @param pageUrl - URL of the page (for resolving relative links)
+ * @param options - Structured data organization
+ * @returns Deduplicated contact info (empty lists if none found)
+ *
+ * @example
+ * const contact = extractContactInfo(html, 'https://acme.com', {
+ *   organization: structuredData.organization,
+ * });
+ * contact.socials[0] // -> { platform: 'linkedin', handle: 'acme', ... }
+ */
+export function extractContactInfo(
+  html: string | CheerioAPI,
+  pageUrl: string,
+  options: ExtractOptions = {}
+): ContactInfo {
+  const $ = typeof html === 'string' ? cheerio.load(html) : html;
+  const org = options.organization;
+
+  const emails: ContactEmail[] = [];
+  const phones: ContactPhone[] = [];
+  const addresses: ContactAddress[] = [];
+  const socials: SocialProfile[] = [];
+
+  // Structured data
+  if (org?.email) addEmail(emails, org.email, 'structured-data');
+  if (org?.telephone) addPhone(phones, org.telephone, 'structured-data');
+  if (org?.address) addAddress(addresses, formatAddress(org.address), 'structured-data', org.address);
+  for (const url of org?.sameAs ?? []) addSocial(socials, url, pageUrl, 'structured-data');
+
+  // Links
+  $('a[href]').each((_, el) => {
+    const href = ($(el).attr('href') || '').trim();
+
+    if (/^mailto:/i.test(href)) {
+      addEmail(emails, decodeURIComponentSafe(href.slice(7).split('?')[0]), 'link');
+    } else if (/^tel:/i.test(href)) {
+      const display = $(el).text().trim();
+      const number = decodeURIComponentSafe(href.slice(4));
+      addPhone(phones, /\d/.test(display) ? display : number, 'link', number);
+    } else {
+      addSocial(socials, href, pageUrl, 'link');
+    }
+  });
+
+  // <address> elements
+  $('address').each((_, el) => {
+    const text = $(el).text().replace(/\s+/g, ' ').trim();
+    // Skip ones that are just an email or phone (already captured above)
+    if (/\d/.test(text) && /[a-z]{3}/i.test(text) && !text.includes('@')) {
+      addAddress(addresses, text.slice(0, MAX_ADDRESS_LENGTH), 'address-tag');
+    }
+  });
+
+  // Visible text
+  const text = visibleText($);
+  for (const match of text.match(EMAIL_PATTERN) ?? []) addEmail(emails, match, 'text');
+  for (const match of text.match(TEXT_PHONE_PATTERN) ?? []) addPhone(phones, match.trim(), 'text');
+
+  return rankContactInfo({ emails, phones, addresses, socials });
+}
+
+/**
+ * Merge contact info from several pages (e.g. a multi-page crawl).
+ * Records keep their best source; lists are re-ranked and capped.
+ *
+ * @param items - Contact info per page, most important page first
+ * @returns A single merged record
+ */
+export function mergeContactInfo(items: ContactInfo[]): ContactInfo {
+  return rankContactInfo({
+    emails: dedupeBy(items.flatMap(i => i.emails), e => e.address),
+    phones: items.flatMap(i => i.phones).reduce<ContactPhone[]>((list, phone) => {
+      addPhone(list, phone.display, phone.source, phone.normalized);
+      return list;
+    }, []),
+    addresses: dedupeBy(items.flatMap(i => i.addresses), a => addressKey(a.formatted)),
+    socials: dedupeBy(items.flatMap(i => i.socials), s => socialKey(s)),
+  });
+}
+
+/**
+ * Check whether any contact info was found.
+ */
+export function hasContactInfo(info: ContactInfo | null | undefined): info is ContactInfo {
+  return !!info && (
+    info.emails.length > 0 ||
+    info.phones.length > 0 ||
+    info.addresses.length > 0 ||
+    info.socials.length > 0
+  );
+}
+
+// ============================================================================
+// EMAILS
+// ============================================================================
+
+function addEmail(list: ContactEmail[], raw: string, source: ContactSource): void {
+  const address = raw.trim().toLowerCase().replace(/^mailto:/, '');
+  if (!/^[a-z0-9._%+-]+@[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,24}$/.test(address)) return;
+  if (IGNORED_EMAIL.test(address.split('@')[1]) || IGNORED_EMAIL.test(address)) return;
+  if (list.some(e => e.address === address)) return;
+  list.push({ address, source });
+}
+
+// ============================================================================
+// PHONES
+// ============================================================================
+
+/**
+ * @param display - Number as shown to visitors
+ * @param value - Number to normalize, if different (e.g. the tel: href)
+ */
+function addPhone(list: ContactPhone[], display: string, source: ContactSource, value = display): void {
+  const normalized = normalizePhone(value);
+  if (!normalized) return;
+  if (list.some(p => samePhone(p.normalized, normalized))) return;
+  list.push({ display: display.replace(/\s+/g, ' ').trim(), normalized, source });
+}
+
+function normalizePhone(value: string): string | null {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < MIN_PHONE_DIGITS || digits.length > MAX_PHONE_DIGITS) return null;
+  const international = /^\s*(\+|00)/.test(value);
+  return international ? `+${digits.replace(/^00/, '')}` : digits;
+}
+
+/**
+ * "+1 555 123 4567" and "(555) 123-4567" are the same number.
+ */
+function samePhone(a: string, b: string): boolean {
+  const x = a.replace('+', '');
+  const y = b.replace('+', '');
+  return x === y || (x.length !== y.length && (x.endsWith(y) || y.endsWith(x)) && Math.min(x.length, y.length) >= 9);
+}
+
+// ============================================================================
+// ADDRESSES
+// ============================================================================
+
+function addAddress(
+  list: ContactAddress[],
+  formatted: string,
+  source: ContactSource,
+  parts?: StructuredAddress
+): void {
+  if (!formatted) return;
+  const key = addressKey(formatted);
+  if (list.some(a => addressKey(a.formatted) === key)) return;
+  list.push(parts ? { formatted, parts, source } : { formatted, source });
+}
+
+function formatAddress(address: StructuredAddress): string {
+  const cityLine = [address.postalCode, address.locality].filter(Boolean).join(' ');
+  return [address.street, cityLine, address.region, address.country]
+    .filter(Boolean)
+    .join(', ');
+}
+
+function addressKey(formatted: string): string {
+  return formatted.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// ============================================================================
+// SOCIAL PROFILES
+// ============================================================================
+
+function addSocial(list: SocialProfile[], href: string, pageUrl: string, source: ContactSource): void {
+  const profile = parseSocialUrl(href, pageUrl, source);
+  if (!profile) return;
+  if (list.some(s => socialKey(s) === socialKey(profile))) return;
+  list.push(profile);
+}
+
+/**
+ * Turn a link into a canonical social profile, or null if it isn't one
+ * (share buttons, posts, videos and other non-profile pages are skipped).
+ */
+function parseSocialUrl(href: string, pageUrl: string, source: ContactSource): SocialProfile | null {
+  let url: URL;
+  try {
+    url = new URL(href, pageUrl);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+  const host = url.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+  const path = decodeURIComponentSafe(url.pathname).replace(/\/+$/, '') || '/';
+
+  for (const { platform, hosts, path: pattern } of SOCIAL_PATTERNS) {
+    if (!hosts.test(host)) continue;
+
+    const match = path.match(pattern);
+    if (!match) return null;
+
+    const handle = match[1].replace(/^@/, '');
+    const slug = handle.split('/').pop() || handle;
+    if (RESERVED_HANDLES.has(slug.toLowerCase())) return null;
+
+    const canonicalHost = CANONICAL_HOSTS[platform] ?? host;
+    return {
+      platform,
+      url: `https://${canonicalHost}${match[0].replace(/\/$/, '')}`,
+      handle: slug,
+      source,
+    };
+  }
+
+  return null;
+}
+
+function socialKey(profile: SocialProfile): string {
+  return `${profile.platform}:${profile.handle.toLowerCase()}`;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Text of the page body with script/style content left out. Text nodes
+ * are joined with spaces so adjacent elements don't run together.
+ */
+function visibleText($: CheerioAPI): string {
+  const parts: string[] = [];
+
+  $('body')
+    .find('*')
+    .not('script, style, noscript, template, svg')
+    .contents()
+    .each((_, node) => {
+      if (node.type === 'text') parts.push(node.data);
+    });
+
+  return parts.join(' ').replace(/\s+/g, ' ');
+}
+
+/**
+ * Sort each list by source quality and cap it.
+ */
+function rankContactInfo(info: ContactInfo): ContactInfo {
+  return {
+    emails: bySource(info.emails).slice(0, MAX_EMAILS),
+    phones: bySource(info.phones).slice(0, MAX_PHONES),
+    addresses: bySource(info.addresses).slice(0, MAX_ADDRESSES),
+    socials: bySource(info.socials).slice(0, MAX_SOCIALS),
+  };
+}
+
+function bySource<T extends { source: ContactSource }>(items: T[]): T[] {
+  // Array.prototype.sort is stable, so page order is kept within a source
+  return [...items].sort((a, b) => SOURCE_ORDER.indexOf(a.source) - SOURCE_ORDER.indexOf(b.source));
+}
+
+/**
+ * Keep the first occurrence of each key, upgrading its source if a later
+ * duplicate came from a better one.
+ */
+function dedupeBy<T extends { source: ContactSource }>(items: T[], key: (item: T) => string): T[] {
+  const byKey = new Map<string, T>();
+  for (const item of items) {
+    const k = key(item);
+    const existing = byKey.get(k);
+    if (!existing) {
+      byKey.set(k, item);
+    } else if (SOURCE_ORDER.indexOf(item.source) < SOURCE_ORDER.indexOf(existing.source)) {
+      byKey.set(k, { ...existing, source: item.source });
+    }
+  }
+  return Array.from(byKey.values());
+}
+
+function decodeURIComponentSafe(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * LANGUAGE DETECTOR
+ * ==================
+ * Works out which language a page is written in, so analyzers know
+ * what they're reading and can answer in English or the source language.
+ *
+ * Signals:
+ * - Declared: <html lang>, Content-Language header, og:locale
+ * - Text: script ranges (CJK, Cyrillic, Arabic...) and stopword counts
+ *   for common Latin-script languages
+ *
+ * Declared languages are often template leftovers (lang="en" on a
+ * German site), so a confident text match wins over them.
+ *
+ * resolvePageLanguage() also switches to the site's English version
+ * (hreflang alternate) when asked to.
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { log } from '@/lib/utils/logger';
+import { HTML_CONTENT_TYPES } from '../shared/fetch';
+import { fetchCachedPage, type CachedFetchResult } from '../shared/cache';
+import type { RobotsPolicy } from '../shared/robots';
+import type { DetectedLanguage, LanguageAlternate, LanguageSource } from '../types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const ALTERNATE_TIMEOUT_MS = 10000;
+
+/** Characters of page text analyzed (plenty for stopword counts) */
+const MAX_SAMPLE_LENGTH = 5000;
+
+const MAX_ALTERNATES = 20;
+
+/** Stopword hits needed before the text says anything */
+const MIN_STOPWORD_HITS = 8;
+
+/** Share of letters in a non-Latin script that decides the language */
+const MIN_SCRIPT_SHARE = 0.3;
+
+/** Text confidence needed to overrule a declared language */
+const OVERRULE_CONFIDENCE = 65;
+
+/** Most frequent function words - enough to tell these languages apart */
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'you', 'that', 'for', 'it', 'with', 'are', 'on', 'this', 'your', 'we', 'our', 'be', 'as', 'at', 'by', 'from', 'can', 'have', 'more', 'all', 'will'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'ein', 'eine', 'für', 'auf', 'sie', 'wir', 'ihr', 'ihre', 'den', 'dem', 'des', 'zu', 'von', 'sich', 'auch', 'mehr', 'oder', 'bei', 'über', 'unsere', 'werden'],
+  fr: ['le', 'les', 'et', 'des', 'est', 'une', 'pour', 'que', 'qui', 'dans', 'du', 'sur', 'pas', 'vous', 'nous', 'avec', 'au', 'plus', 'votre', 'notre', 'sont', 'ce', 'cette', 'aux'],
+  es: ['el', 'los', 'las', 'y', 'que', 'es', 'un', 'una', 'para', 'con', 'por', 'del', 'se', 'su', 'sus', 'al', 'más', 'nuestro', 'nuestra', 'como', 'tu', 'está', 'nuestros'],
+  it: ['il', 'di', 'che', 'è', 'per', 'un', 'una', 'con', 'non', 'della', 'gli', 'sono', 'più', 'nostro', 'nostra', 'dei', 'delle', 'anche', 'come', 'tuo', 'nel', 'alla'],
+  pt: ['os', 'que', 'é', 'um', 'uma', 'para', 'com', 'não', 'do', 'da', 'dos', 'das', 'em', 'no', 'na', 'seu', 'sua', 'mais', 'nosso', 'nossa', 'você', 'são'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'op', 'te', 'voor', 'met', 'niet', 'zijn', 'je', 'jouw', 'wij', 'onze', 'ons', 'ook', 'maar', 'bij', 'naar', 'meer', 'hoe'],
+  sv: ['och', 'att', 'det', 'som', 'en', 'ett', 'är', 'på', 'för', 'med', 'av', 'till', 'den', 'inte', 'vi', 'du', 'våra', 'vår', 'har', 'kan', 'om', 'mer', 'eller', 'från'],
+  da: ['og', 'at', 'det', 'som', 'en', 'et', 'er', 'på', 'for', 'med', 'af', 'til', 'den', 'ikke', 'vi', 'du', 'vores', 'har', 'kan', 'om', 'mere', 'eller', 'fra', 'jer'],
+  no: ['og', 'at', 'det', 'som', 'en', 'et', 'er', 'på', 'for', 'med', 'av', 'til', 'den', 'ikke', 'vi', 'du', 'våre', 'vår', 'har', 'kan', 'om', 'mer', 'eller', 'fra'],
+  pl: ['i', 'w', 'na', 'z', 'że', 'się', 'do', 'nie', 'jest', 'to', 'dla', 'od', 'jak', 'po', 'ze', 'są', 'oraz', 'przez', 'twój', 'nasz', 'nasze', 'może', 'więcej'],
+  tr: ['ve', 'bir', 'bu', 'için', 'ile', 'çok', 'daha', 'olan', 'gibi', 'her', 'size', 'biz', 'bizim', 'sizin', 'olarak', 'değil', 'ne', 'veya'],
+};
+
+/** Non-Latin scripts, checked in order (kana before Han so Japanese isn't read as Chinese) */
+const SCRIPTS: { code: string; pattern: RegExp }[] = [
+  { code: 'ja', pattern: /[\u3040-\u30ff]/g },
+  { code: 'zh', pattern: /[\u4e00-\u9fff]/g },
+  { code: 'ko', pattern: /[\uac00-\ud7af]/g },
+  { code: 'ru', pattern: /[\u0400-\u04ff]/g },
+  { code: 'ar', pattern: /[\u0600-\u06ff]/g },
+  { code: 'he', pattern: /[\u0590-\u05ff]/g },
+  { code: 'el', pattern: /[\u0370-\u03ff]/g },
+  { code: 'th', pattern: /[\u0e00-\u0e7f]/g },
+  { code: 'hi', pattern: /[\u0900-\u097f]/g },
+];
+
+/** Letters only found in Ukrainian Cyrillic */
+const UKRAINIAN_LETTERS = /[іїєґ]/gi;
+
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(([code, words]) => ({ code, words: new Set(words) }));
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface DetectOptions {
+  /** Response headers of the page (lowercase names) */
+  headers?: Record<string, string>;
+}
+
+interface ResolveOptions {
+  /** Switch to the site's English version when the page isn't English */
+  preferEnglish?: boolean;
+  /** Skip the alternate if robots.txt disallows it */
+  robots?: RobotsPolicy;
+  /** Gap before the request to this host */
+  hostIntervalMs?: number;
+  /** Skip the alternate if the host's rate-limit slot starts after this timestamp */
+  deadline?: number;
+  /** Ignore the scrape cache */
+  forceRefresh?: boolean;
+}
+
+interface TextLanguage {
+  code: string;
+  confidence: number;
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Detect the language of an HTML page.
+ *
+ * @param html - Raw HTML string, or an already-loaded document (not modified)
+ * @param options - Response headers (for Content-Language)
+ * @returns The detected language, or null if there's no signal at all
+ *
+ * @example
+ * const language = detectLanguage(html, { headers: response.headers });
+ * language?.code // -> 'de'
+ */
+export function detectLanguage(
+  html: string | CheerioAPI,
+  options: DetectOptions = {}
+): DetectedLanguage | null {
+  const $ = typeof html === 'string' ? cheerio.load(html) : html;
+
+  const declared = getDeclaredLanguage($, options.headers);
+  const text = detectTextCode(getTextSample($));
+  const alternates = getAlternates($);
+
+  if (!declared) {
+    return text ? buildLanguage(text.code, undefined, 'text', text.confidence, alternates) : null;
+  }
+
+  if (text?.code === declared.code) {
+    return buildLanguage(declared.code, declared.tag, declared.source, 100, alternates);
+  }
+
+  // They disagree: trust a confident text match over the markup
+  if (text && text.confidence >= OVERRULE_CONFIDENCE) {
+    return buildLanguage(text.code, undefined, 'text', text.confidence, alternates);
+  }
+
+  return buildLanguage(declared.code, declared.tag, declared.source, text ? 60 : 70, alternates);
+}
+
+/**
+ * Detect the language of plain text (pasted content, documents).
+ *
+ * @param text - The text to analyze
+ * @returns The detected language, or null if the text is inconclusive
+ */
+export function detectTextLanguage(text: string): DetectedLanguage | null {
+  const result = detectTextCode(text.slice(0, MAX_SAMPLE_LENGTH));
+  return result ? buildLanguage(result.code, undefined, 'text', result.confidence, []) : null;
+}
+
+/**
+ * Detect a fetched page's language and, if asked to, swap a non-English
+ * page for the English version it links with hreflang.
+ * Failures are non-fatal - the original page is kept.
+ *
+ * @param page - The fetched page
+ * @param options - preferEnglish, robots.txt policy, rate limit, deadline and cache bypass
+ * @returns The page to scrape and its language
+ *
+ * @example
+ * const { page, language } = await resolvePageLanguage(fetched, { preferEnglish: true, robots });
+ */
+export async function resolvePageLanguage(
+  page: CachedFetchResult,
+  options: ResolveOptions = {}
+): Promise<{ page: CachedFetchResult; language: DetectedLanguage | null }> {
+  const language = detectLanguage(page.text, { headers: page.headers });
+  const original = { page, language };
+
+  if (!options.preferEnglish || !language || language.code === 'en') {
+    return original;
+  }
+
+  const alternateUrl = findEnglishAlternate(language.alternates, page.url);
+  if (!alternateUrl || (options.robots && !options.robots.isAllowed(alternateUrl))) {
+    return original;
+  }
+
+  try {
+    const alternate = await fetchCachedPage(alternateUrl, {
+      timeoutMs: ALTERNATE_TIMEOUT_MS,
+      contentTypes: HTML_CONTENT_TYPES,
+      hostIntervalMs: options.hostIntervalMs,
+      deadline: options.deadline,
+      forceRefresh: options.forceRefresh,
+    });
+
+    // hreflang tags are sometimes wrong - only switch to real English content
+    const alternateLanguage = alternate.ok && alternate.text
+      ? detectLanguage(alternate.text, { headers: alternate.headers })
+      : null;
+    if (alternateLanguage?.code !== 'en') {
+      return original;
+    }
+
+    log.info('Using English version of the page', {
+      original: page.url,
+      originalLanguage: language.code,
+      alternate: alternate.url,
+    });
+
+    return {
+      page: alternate,
+      language: { ...alternateLanguage, originalCode: language.code, originalUrl: page.url },
+    };
+  } catch (error) {
+    log.debug('English alternate skipped', {
+      url: alternateUrl,
+      error: error instanceof Error ? error.message : 'Unknown',
+    });
+    return original;
+  }
+}
+
+// ============================================================================
+// DECLARED LANGUAGE
+// ============================================================================
+
+function getDeclaredLanguage(
+  $: CheerioAPI,
+  headers: Record<string, string> = {}
+): { code: string; tag?: string; source: LanguageSource } | null {
+  const candidates: [string | undefined, LanguageSource][] = [
+    [$('html').attr('lang') || $('html').attr('xml:lang'), 'html-lang'],
+    [headers['content-language']?.split(',')[0], 'content-language'],
+    [$('meta[property="og:locale"]').attr('content'), 'og-locale'],
+  ];
+
+  for (const [value, source] of candidates) {
+    const tag = normalizeTag(value);
+    if (tag) {
+      const code = tag.split('-')[0];
+      return { code, ...(tag !== code ? { tag } : {}), source };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * "de_AT" / "DE-at" -> "de-AT"; null for empty or invalid tags.
+ */
+function normalizeTag(value: string | undefined): string | null {
+  const match = value?.trim().match(/^([a-z]{2,3})(?:[-_]([a-z]{2}|\d{3}))?\b/i);
+  if (!match) return null;
+  return match[2] ? `${match[1].toLowerCase()}-${match[2].toUpperCase()}` : match[1].toLowerCase();
+}
+
+function getAlternates($: CheerioAPI): LanguageAlternate[] {
+  const alternates: LanguageAlternate[] = [];
+  const seen = new Set<string>();
+
+  $('link[rel~="alternate" i][hreflang][href]').each((_, el) => {
+    const hreflang = $(el).attr('hreflang')!.trim();
+    const url = $(el).attr('href')!.trim();
+    if (!/^https?:\/\//i.test(url) || seen.has(hreflang.toLowerCase())) return;
+
+    seen.add(hreflang.toLowerCase());
+    alternates.push({ hreflang, url });
+  });
+
+  return alternates.slice(0, MAX_ALTERNATES);
+}
+
+/**
+ * The best English alternate: "en", then "en-US", "en-GB", any "en-*".
+ */
+function findEnglishAlternate(alternates: LanguageAlternate[], currentUrl: string): string | null {
+  const english = alternates
+    .filter(a => /^en(-|$)/i.test(a.hreflang) && a.url !== currentUrl)
+    .sort((a, b) => englishRank(a.hreflang) - englishRank(b.hreflang));
+
+  return english[0]?.url ?? null;
+}
+
+function englishRank(hreflang: string): number {
+  const order = ['en', 'en-us', 'en-gb'];
+  const index = order.indexOf(hreflang.toLowerCase());
+  return index === -1 ? order.length : index;
+}
+
+// ============================================================================
+// TEXT DETECTION
+// ============================================================================
+
+function detectTextCode(text: string): TextLanguage | null {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return null;
+
+  // Non-Latin scripts are unambiguous
+  for (const { code, pattern } of SCRIPTS) {
+    const count = text.match(pattern)?.length ?? 0;
+    const share = count / letters;
+    if (share >= MIN_SCRIPT_SHARE) {
+      const finalCode = code === 'ru' && (text.match(UKRAINIAN_LETTERS)?.length ?? 0) > count * 0.02
+        ? 'uk'
+        : code;
+      return { code: finalCode, confidence: Math.min(100, Math.round(50 + share * 50)) };
+    }
+  }
+
+  // Latin script: count stopwords per language
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = STOPWORD_SETS
+    .map(({ code, words: stopwords }) => ({
+      code,
+      hits: words.reduce((sum, word) => sum + (stopwords.has(word) ? 1 : 0), 0),
+    }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, second] = scores;
+  if (best.hits < MIN_STOPWORD_HITS) return null;
+
+  return {
+    code: best.code,
+    confidence: Math.round((100 * best.hits) / (best.hits + second.hits)),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Visible text of the page, with a space between nodes.
+ */
+function getTextSample($: CheerioAPI): string {
+  const parts: string[] = [];
+  $('body').find('*').addBack().not('script, style, noscript, template, svg, code, pre').contents().each((_, node) => {
+    if (node.type === 'text') parts.push(node.data);
+  });
+  return parts.join(' ').replace(/\s+/g, ' ').slice(0, MAX_SAMPLE_LENGTH);
+}
+
+function buildLanguage(
+  code: string,
+  tag: string | undefined,
+  source: LanguageSource,
+  confidence: number,
+  alternates: LanguageAlternate[]
+): DetectedLanguage {
+  return {
+    code,
+    ...(tag ? { tag } : {}),
+    source,
+    confidence,
+    alternates,
+  };
+}
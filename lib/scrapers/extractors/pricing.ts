@@ -0,0 +1,420 @@
+/**
+ * PRICING EXTRACTOR
+ * ==================
+ * Parses pricing tables - the row of plan cards (or columns) found on
+ * most pricing pages - into structured tiers: name, price, currency,
+ * billing period, features, and whether it's a "contact sales" tier.
+ *
+ * How a table is found:
+ * 1. Find the innermost elements whose text is a price ("$29", "€9,99", "Free")
+ * 2. Walk up from each price to find a container whose children are
+ *    plan cards: each has a price or a contact-sales call to action,
+ *    plus a name (heading) or a feature list
+ * 3. The container with the most cards wins
+ *
+ * scrapePricing() also follows the homepage's pricing link when the page
+ * itself has no table (one extra request, through the scrape cache).
+ */
+
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { isTag, type AnyNode, type Element } from 'domhandler';
+import { log } from '@/lib/utils/logger';
+import { HTML_CONTENT_TYPES } from '../shared/fetch';
+import { fetchCachedPage } from '../shared/cache';
+import { extractLinks } from '../web-deep/discovery';
+import { rankLinks } from '../web-deep/ranking';
+import type { RobotsPolicy } from '../shared/robots';
+import type { BillingPeriod, PricingTable, PricingTier } from '../types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const PRICING_PAGE_TIMEOUT_MS = 10000;
+
+const MAX_TIERS = 8;
+const MAX_FEATURES = 12;
+const MAX_FEATURE_LENGTH = 120;
+const MAX_NAME_LENGTH = 60;
+
+/** Longest text an element can have and still be "a price" */
+const MAX_PRICE_TEXT_LENGTH = 40;
+
+/** How far above a price to look for the table container */
+const MAX_ANCESTOR_DEPTH = 8;
+
+const MONEY_PATTERN = /(?:[$€£¥₹]\s?\d|\d\s?(?:€|£)|\b(?:USD|EUR|GBP|CAD|AUD|CHF|INR|JPY)\s?\d)/i;
+
+const FREE_PATTERN = /^free(?: forever)?$/i;
+
+const CUSTOM_PATTERN = /\b(?:contact (?:us|sales)|talk to (?:sales|us|an expert)|custom (?:pricing|quote|plan)|get a quote|request (?:a )?quote|let'?s talk|book a demo)\b/i;
+
+const HIGHLIGHT_PATTERN = /\b(?:most popular|recommended|best value)\b/i;
+const HIGHLIGHT_CLASS_PATTERN = /(?:popular|featured|recommended|highlight)/i;
+
+const NAME_SELECTOR = 'h2, h3, h4, h5, h6, [class*="name" i], [class*="title" i]';
+
+/** Checked in order; "$" last because CA$ / A$ contain it */
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['CA$', 'CAD'],
+  ['A$', 'AUD'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+  ['$', 'USD'],
+];
+
+const CURRENCY_CODE_PATTERN = /\b(USD|EUR|GBP|CAD|AUD|CHF|INR|JPY)\b/i;
+
+const PERIOD_PATTERNS: { period: BillingPeriod; pattern: RegExp }[] = [
+  { period: 'one-time', pattern: /\b(?:one[- ]time|lifetime|single payment)\b/i },
+  { period: 'month', pattern: /\/\s?mo(?:nth)?\b|\bper month\b|\ba month\b|\bmonthly\b|\bmo\b/i },
+  { period: 'year', pattern: /\/\s?y(?:ea)?r\b|\bper year\b|\ba year\b|\bannually\b|\byearly\b/i },
+  { period: 'week', pattern: /\/\s?w(?:ee)?k\b|\bper week\b|\bweekly\b/i },
+  { period: 'day', pattern: /\/\s?day\b|\bper day\b|\bdaily\b/i },
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ScrapeOptions {
+  /** Skip the pricing page if robots.txt disallows it */
+  robots?: RobotsPolicy;
+  /** Gap before the request to this host */
+  hostIntervalMs?: number;
+  /** Skip the pricing page if the host's rate-limit slot starts after this timestamp */
+  deadline?: number;
+  /** Ignore the scrape cache */
+  forceRefresh?: boolean;
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Parse the pricing table on a page.
+ *
+ * @param html - Raw HTML string, or an already-loaded document (not modified)
+ * @param pageUrl - URL of the page (stored with the table)
+ * @returns The pricing table, or null if the page has fewer than two tiers
+ *
+ * @example
+ * const pricing = extractPricing(html, 'https://acme.com/pricing');
+ * pricing?.tiers[0] // -> { name: 'Starter', price: '$29', amount: 29, period: 'month', ... }
+ */
+export function extractPricing(html: string | CheerioAPI, pageUrl: string): PricingTable | null {
+  const $ = typeof html === 'string' ? cheerio.load(html) : html;
+
+  const priceNodes = findPriceNodes($);
+  if (priceNodes.length < 2) return null;
+
+  const cards = findTierCards($, priceNodes);
+  if (cards.length < 2) return null;
+
+  const tiers: PricingTier[] = [];
+  for (const card of cards) {
+    const tier = parseTier($, card, priceNodes);
+    if (tier && !tiers.some(t => t.name.toLowerCase() === tier.name.toLowerCase())) {
+      tiers.push(tier);
+    }
+  }
+
+  if (tiers.length < 2) return null;
+
+  return {
+    url: pageUrl,
+    currency: mostCommon(tiers.map(t => t.currency)),
+    tiers: tiers.slice(0, MAX_TIERS),
+  };
+}
+
+/**
+ * Find pricing on a page, following its pricing link if the page
+ * itself has no pricing table.
+ *
+ * @param html - Raw HTML of the scraped page
+ * @param pageUrl - URL of the page (after redirects)
+ * @param options - Robots policy, rate limit and cache options for the extra request
+ * @returns The pricing table, or null if none was found
+ *
+ * @example
+ * const pricing = await scrapePricing(html, response.url, { robots });
+ */
+export async function scrapePricing(
+  html: string,
+  pageUrl: string,
+  options: ScrapeOptions = {}
+): Promise<PricingTable | null> {
+  const onPage = extractPricing(html, pageUrl);
+  if (onPage) return onPage;
+
+  const link = rankLinks(extractLinks(html, pageUrl), pageUrl, Infinity)
+    .find(l => l.category === 'pricing');
+
+  if (!link || (options.robots && !options.robots.isAllowed(link.url))) {
+    return null;
+  }
+
+  try {
+    const page = await fetchCachedPage(link.url, {
+      timeoutMs: PRICING_PAGE_TIMEOUT_MS,
+      contentTypes: HTML_CONTENT_TYPES,
+      hostIntervalMs: options.hostIntervalMs,
+      deadline: options.deadline,
+      forceRefresh: options.forceRefresh,
+    });
+
+    return page.ok ? extractPricing(page.text, page.url) : null;
+  } catch (error) {
+    log.debug('Pricing page skipped', {
+      url: link.url,
+      error: error instanceof Error ? error.message : 'Unknown',
+    });
+    return null;
+  }
+}
+
+/**
+ * Pick the best pricing table from several pages (e.g. a multi-page crawl).
+ *
+ * @param tables - Pricing tables per page (null where none was found)
+ * @returns The table with the most tiers (earliest page wins ties)
+ */
+export function pickPricing(tables: (PricingTable | null)[]): PricingTable | null {
+  return tables.reduce<PricingTable | null>(
+    (best, table) => table && (!best || table.tiers.length > best.tiers.length) ? table : best,
+    null
+  );
+}
+
+/**
+ * Check whether a pricing table was found.
+ */
+export function hasPricing(pricing: PricingTable | null | undefined): pricing is PricingTable {
+  return !!pricing && pricing.tiers.length > 0;
+}
+
+// ============================================================================
+// TABLE DETECTION
+// ============================================================================
+
+/**
+ * Innermost elements whose whole text is a price.
+ */
+function findPriceNodes($: CheerioAPI): Element[] {
+  const matches: Element[] = [];
+
+  $('body *').not('script, style, noscript, template, svg, option').each((_, el) => {
+    const text = cleanText($(el).text());
+    if (text.length > 0 && text.length <= MAX_PRICE_TEXT_LENGTH && isPriceText(text)) {
+      matches.push(el);
+    }
+  });
+
+  return matches.filter(el => !matches.some(other => other !== el && contains(el, other)));
+}
+
+/**
+ * Children of the best table container that look like plan cards.
+ */
+function findTierCards($: CheerioAPI, priceNodes: Element[]): Element[] {
+  // Ancestors of each price, innermost first, in document order
+  const candidates = new Set<Element>();
+  for (const node of priceNodes) {
+    let current = node.parent;
+    for (let depth = 0; current && isTag(current) && depth < MAX_ANCESTOR_DEPTH; depth++) {
+      candidates.add(current);
+      current = current.parent;
+    }
+  }
+
+  let best: Element[] = [];
+
+  for (const container of candidates) {
+    if (isHidden($(container))) continue;
+
+    const children = container.children.filter(isTag);
+    if (children.length < 2) continue;
+
+    const cards = children.filter(child => isTierCard($, child, priceNodes));
+    if (cards.length >= 2 && cards.length >= children.length / 2 && cards.length > best.length) {
+      best = cards;
+    }
+  }
+
+  return best;
+}
+
+function isTierCard($: CheerioAPI, el: Element, priceNodes: Element[]): boolean {
+  const $el = $(el);
+  const hasPrice = priceNodes.some(node => contains(el, node));
+
+  if (!hasPrice && !CUSTOM_PATTERN.test(spacedText($el))) return false;
+
+  return $el.find(NAME_SELECTOR).length > 0 || $el.find('li').length >= 2;
+}
+
+// ============================================================================
+// TIER PARSING
+// ============================================================================
+
+function parseTier($: CheerioAPI, card: Element, priceNodes: Element[]): PricingTier | null {
+  const $card = $(card);
+  const name = findTierName($, $card);
+  if (!name) return null;
+
+  // The headline price, not a price mentioned in a feature bullet
+  const cardPrices = priceNodes.filter(node => contains(card, node));
+  const priceNode = cardPrices.find(node => $(node).closest('li').length === 0) ?? cardPrices[0];
+
+  const price = priceNode ? cleanText($(priceNode).text()) : null;
+  const cardText = spacedText($card);
+  const amount = price ? parseAmount(price) : null;
+
+  return {
+    name,
+    price,
+    amount,
+    currency: price ? parseCurrency(price) : null,
+    period: priceNode && amount !== 0
+      ? parsePeriod(priceContext($, priceNode)) ?? parsePeriod(cardText)
+      : null,
+    isCustom: !price && CUSTOM_PATTERN.test(cardText),
+    highlighted: HIGHLIGHT_PATTERN.test(cardText) ||
+      HIGHLIGHT_CLASS_PATTERN.test($card.attr('class') || ''),
+    features: findFeatures($, $card),
+  };
+}
+
+function findTierName($: CheerioAPI, $card: Cheerio<Element>): string | null {
+  const candidates = $card.find(NAME_SELECTOR).toArray();
+
+  for (const el of candidates) {
+    const text = cleanText($(el).text());
+    if (
+      text.length > 0 &&
+      text.length <= MAX_NAME_LENGTH &&
+      !MONEY_PATTERN.test(text) &&
+      !HIGHLIGHT_PATTERN.test(text)
+    ) {
+      return text;
+    }
+  }
+
+  return null;
+}
+
+function findFeatures($: CheerioAPI, $card: Cheerio<Element>): string[] {
+  const features: string[] = [];
+
+  $card.find('li').each((_, el) => {
+    const text = cleanText($(el).text());
+    if (
+      text.length > 0 &&
+      text.length <= MAX_FEATURE_LENGTH &&
+      !features.includes(text)
+    ) {
+      features.push(text);
+    }
+  });
+
+  return features.slice(0, MAX_FEATURES);
+}
+
+/**
+ * Text around a price, where "/month" or "billed annually" usually sits.
+ */
+function priceContext($: CheerioAPI, priceNode: Element): string {
+  const $node = $(priceNode);
+  const parts = [$node.text(), $node.next().text()];
+
+  const parentText = $node.parent().text();
+  if (cleanText(parentText).length <= MAX_PRICE_TEXT_LENGTH * 2) {
+    parts.push(parentText);
+  }
+
+  return cleanText(parts.join(' '));
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isPriceText(text: string): boolean {
+  return MONEY_PATTERN.test(text) || FREE_PATTERN.test(text);
+}
+
+/**
+ * First number in a price, handling "1,299.00" and "1.299,00".
+ */
+function parseAmount(price: string): number | null {
+  if (FREE_PATTERN.test(price)) return 0;
+
+  const match = price.match(/\d[\d.,]*/);
+  if (!match) return null;
+
+  let number = match[0].replace(/[.,]$/, '');
+  if (/^\d{1,3}(\.\d{3})+(,\d+)?$/.test(number) || /^\d+,\d{1,2}$/.test(number)) {
+    number = number.replace(/\./g, '').replace(',', '.');
+  } else {
+    number = number.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(number);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function parseCurrency(price: string): string | null {
+  const code = price.match(CURRENCY_CODE_PATTERN);
+  if (code) return code[1].toUpperCase();
+
+  const symbol = CURRENCY_SYMBOLS.find(([s]) => price.includes(s));
+  return symbol ? symbol[1] : null;
+}
+
+function parsePeriod(text: string): BillingPeriod | null {
+  return PERIOD_PATTERNS.find(({ pattern }) => pattern.test(text))?.period ?? null;
+}
+
+function isHidden($el: Cheerio<Element>): boolean {
+  return $el.attr('hidden') !== undefined ||
+    $el.attr('aria-hidden') === 'true' ||
+    /display\s*:\s*none/i.test($el.attr('style') || '');
+}
+
+function contains(ancestor: Element, node: AnyNode): boolean {
+  let current = node.parent;
+  while (current) {
+    if (current === ancestor) return true;
+    current = current.parent;
+  }
+  return false;
+}
+
+function mostCommon(values: (string | null)[]): string | null {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+/**
+ * Text with a space between nodes, so "SLA</li><a>Contact sales" doesn't
+ * run together.
+ */
+function spacedText($el: Cheerio<Element>): string {
+  const parts: string[] = [];
+  $el.find('*').addBack().contents().each((_, node) => {
+    if (node.type === 'text') parts.push(node.data);
+  });
+  return cleanText(parts.join(' '));
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,384 @@
+/**
+ * SITE INVENTORY EXTRACTOR
+ * =========================
+ * Reads the site's sitemaps and counts its pages per section (blog,
+ * product, docs, legal, careers, locations), which shows how big and
+ * content-heavy a site is without crawling it.
+ *
+ * Sitemaps, in order:
+ * 1. Sitemap: lines in robots.txt (all of them)
+ * 2. Otherwise the first of /sitemap.xml, /sitemap_index.xml, /wp-sitemap.xml
+ *
+ * Sitemap indexes are followed up to a fixed number of files. Sitemaps go
+ * through the scrape cache like pages.
+ */
+
+import { decodeHtmlEntities } from '@/lib/utils/format';
+import { log } from '@/lib/utils/logger';
+import { XML_CONTENT_TYPES } from '../shared/fetch';
+import { fetchCachedPage } from '../shared/cache';
+import type { RobotsPolicy } from '../shared/robots';
+import type { SiteInventory, SiteSection, SiteSectionSummary } from '../types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const SITEMAP_TIMEOUT_MS = 8000;
+
+/** The sitemap spec allows 50MB - larger files than this are skipped */
+const MAX_SITEMAP_BYTES = 10 * 1024 * 1024;
+
+/** Sitemap files read, indexes included */
+const MAX_SITEMAP_FILES = 8;
+
+/** Page URLs counted before stopping */
+const MAX_URLS = 20000;
+
+/** Time spent on sitemaps when the caller gives no deadline */
+const DEFAULT_BUDGET_MS = 15000;
+
+const MAX_EXAMPLES = 3;
+const RECENT_DAYS = 90;
+
+/** Tried in order when robots.txt doesn't list a sitemap */
+const CONVENTIONAL_SITEMAP_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/wp-sitemap.xml'];
+
+/**
+ * Path segment patterns per section, checked in this order
+ * ("/products/privacy-screen" is a product, not legal).
+ */
+const SECTION_PATTERNS: { section: SiteSection; pattern: RegExp }[] = [
+  {
+    section: 'legal',
+    pattern: /^(legal|privacy(-policy)?|terms(-of-(service|use))?|terms-and-conditions|tos|cookies?(-policy)?|gdpr|imprint|impressum|disclaimer|dpa|accessibility|compliance)$/,
+  },
+  {
+    section: 'careers',
+    pattern: /^(careers?|jobs?|join(-us)?|work-with-us|hiring|vacancies|openings|positions)$/,
+  },
+  {
+    section: 'docs',
+    pattern: /^(docs?|documentation|help(-center)?|support|kb|knowledge(-base)?|faqs?|guides?|tutorials?|api|developers?|manuals?|learn|academy)$/,
+  },
+  {
+    section: 'blog',
+    pattern: /^(blogs?|news|articles?|posts?|insights|stories|journal|magazine|press|newsroom|updates|resources|category|tags?|author)$/,
+  },
+  {
+    section: 'locations',
+    pattern: /^(locations?|stores|store-locator|branches|offices|find-us|near-me|cities|areas?|regions?)$/,
+  },
+  {
+    section: 'product',
+    pattern: /^(products?|shop|store|collections?|catalog(ue)?|p|items?|features?|solutions?|integrations?|pricing|plans|services?)$/,
+  },
+];
+
+/** Leading language segment ("/en/", "/de-at/") skipped before matching */
+const LOCALE_SEGMENT = /^[a-z]{2}(?:[-_][a-z]{2,4})?$/i;
+
+/** WordPress-style dated permalinks ("/2024/05/post-title") are posts */
+const DATED_PATH = /\/(?:19|20)\d{2}\/(?:0?[1-9]|1[0-2])\//;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ScrapeOptions {
+  /** Sitemaps listed in robots.txt, and which conventional paths may be fetched */
+  robots?: RobotsPolicy;
+  /** Gap before each request to this host */
+  hostIntervalMs?: number;
+  /** Stop reading sitemaps after this timestamp (default 15s from now) */
+  deadline?: number;
+  /** Ignore the scrape cache */
+  forceRefresh?: boolean;
+}
+
+interface SitemapEntry {
+  loc: string;
+  lastmod: string | null;
+}
+
+interface ParsedSitemap {
+  /** Child sitemaps of a sitemap index */
+  sitemaps: string[];
+  /** Page URLs of a urlset (or a plain-text sitemap) */
+  urls: SitemapEntry[];
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Build a page inventory from the site's sitemaps.
+ * Failures are non-fatal - the scrape just has no inventory.
+ *
+ * @param siteUrl - Any URL on the site (the origin is used)
+ * @param options - robots.txt policy, rate limit, deadline and cache bypass
+ * @returns Page counts per section, or null if no sitemap was found
+ *
+ * @example
+ * const inventory = await scrapeSiteInventory(response.url, { robots });
+ * inventory?.sections[0] // -> { section: 'blog', count: 412, ... }
+ */
+export async function scrapeSiteInventory(
+  siteUrl: string,
+  options: ScrapeOptions = {}
+): Promise<SiteInventory | null> {
+  const origin = new URL(siteUrl).origin;
+  const siteHost = stripWww(new URL(siteUrl).hostname);
+  const deadline = options.deadline ?? Date.now() + DEFAULT_BUDGET_MS;
+
+  const declared = options.robots?.sitemaps ?? [];
+  const conventional = CONVENTIONAL_SITEMAP_PATHS
+    .map(path => `${origin}${path}`)
+    .filter(url => !options.robots || options.robots.isAllowed(url));
+
+  let queue = declared.length > 0 ? [...declared] : conventional;
+  const seen = new Set<string>();
+  const read: string[] = [];
+  const pages = new Map<string, string | null>();
+  let truncated = false;
+
+  while (queue.length > 0) {
+    if (read.length >= MAX_SITEMAP_FILES || Date.now() >= deadline) {
+      truncated = true;
+      break;
+    }
+
+    const [url, ...rest] = queue;
+    queue = rest;
+
+    // Gzipped sitemaps would need decompressing - rare enough to skip
+    if (seen.has(url) || /\.gz$/i.test(url)) continue;
+    seen.add(url);
+
+    const sitemap = await fetchSitemap(url, { ...options, deadline });
+    if (!sitemap) continue;
+
+    read.push(url);
+
+    // Conventional paths are alternatives - stop at the first that exists
+    if (declared.length === 0) {
+      queue = queue.filter(candidate => !conventional.includes(candidate));
+    }
+
+    queue.push(...sitemap.sitemaps);
+
+    for (const entry of sitemap.urls) {
+      const pageUrl = normalizePageUrl(entry.loc, siteHost);
+      if (!pageUrl) continue;
+
+      // Keep the newest lastmod when a URL is listed twice
+      const previous = pages.get(pageUrl);
+      pages.set(pageUrl, latest(previous ?? null, entry.lastmod));
+
+      if (pages.size >= MAX_URLS) break;
+    }
+
+    if (pages.size >= MAX_URLS) {
+      truncated = true;
+      break;
+    }
+  }
+
+  if (pages.size === 0) {
+    return null;
+  }
+
+  return {
+    sitemaps: read,
+    totalUrls: pages.size,
+    truncated,
+    lastModified: [...pages.values()].reduce<string | null>(latest, null),
+    sections: summarizeSections(pages),
+  };
+}
+
+/**
+ * Which section of the site a URL belongs to.
+ *
+ * @param url - An absolute page URL
+ * @returns The section, or 'other' if the path doesn't say
+ *
+ * @example
+ * classifyUrl('https://acme.com/en/blog/launch') // -> 'blog'
+ * classifyUrl('https://acme.com/company/careers') // -> 'careers'
+ */
+export function classifyUrl(url: string): SiteSection {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname.toLowerCase();
+  } catch {
+    return 'other';
+  }
+
+  const segments = pathname.split('/').filter(Boolean);
+  if (segments.length > 1 && LOCALE_SEGMENT.test(segments[0])) {
+    segments.shift();
+  }
+
+  // First segment decides; the second one only if the first says nothing
+  for (const segment of segments.slice(0, 2)) {
+    const match = SECTION_PATTERNS.find(({ pattern }) => pattern.test(segment));
+    if (match) return match.section;
+  }
+
+  return DATED_PATH.test(pathname) ? 'blog' : 'other';
+}
+
+/**
+ * Check whether an inventory with pages was found.
+ */
+export function hasSiteInventory(
+  inventory: SiteInventory | null | undefined
+): inventory is SiteInventory {
+  return !!inventory && inventory.totalUrls > 0;
+}
+
+// ============================================================================
+// SITEMAP PARSING
+// ============================================================================
+
+/**
+ * Fetch and parse one sitemap. Returns null if it's missing or unreadable.
+ */
+async function fetchSitemap(url: string, options: ScrapeOptions): Promise<ParsedSitemap | null> {
+  try {
+    const response = await fetchCachedPage(url, {
+      timeoutMs: SITEMAP_TIMEOUT_MS,
+      maxBytes: MAX_SITEMAP_BYTES,
+      contentTypes: XML_CONTENT_TYPES,
+      hostIntervalMs: options.hostIntervalMs,
+      deadline: options.deadline,
+      forceRefresh: options.forceRefresh,
+    });
+
+    return response.ok ? parseSitemap(response.text) : null;
+  } catch (error) {
+    log.debug('Sitemap skipped', {
+      url,
+      error: error instanceof Error ? error.message : 'Unknown',
+    });
+    return null;
+  }
+}
+
+/**
+ * Parse a sitemap index, a urlset, or a plain-text sitemap (one URL per line).
+ * Regex rather than a DOM - sitemaps can hold 50,000 entries.
+ */
+function parseSitemap(text: string): ParsedSitemap | null {
+  if (!text.includes('<')) {
+    const urls = text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => /^https?:\/\//i.test(line))
+      .map(loc => ({ loc, lastmod: null }));
+    return urls.length > 0 ? { sitemaps: [], urls } : null;
+  }
+
+  if (!/<(sitemapindex|urlset)\b/i.test(text)) {
+    return null;
+  }
+
+  const sitemaps: string[] = [];
+  const urls: SitemapEntry[] = [];
+  const blockPattern = /<(url|sitemap)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = blockPattern.exec(text)) !== null) {
+    const loc = readTag(match[2], 'loc');
+    if (!loc) continue;
+
+    if (match[1].toLowerCase() === 'sitemap') {
+      sitemaps.push(loc);
+    } else {
+      urls.push({ loc, lastmod: parseDate(readTag(match[2], 'lastmod')) });
+    }
+  }
+
+  return { sitemaps, urls };
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+/**
+ * Count pages per section, largest section first.
+ */
+function summarizeSections(pages: Map<string, string | null>): SiteSectionSummary[] {
+  const recentSince = Date.now() - RECENT_DAYS * DAY_MS;
+  const sections = new Map<SiteSection, SiteSectionSummary>();
+
+  for (const [url, lastmod] of pages) {
+    const section = classifyUrl(url);
+    const summary = sections.get(section) ?? {
+      section,
+      count: 0,
+      lastModified: null,
+      recentlyModified: 0,
+      examples: [],
+    };
+
+    summary.count++;
+    summary.lastModified = latest(summary.lastModified, lastmod);
+    if (lastmod && Date.parse(lastmod) >= recentSince) summary.recentlyModified++;
+    if (summary.examples.length < MAX_EXAMPLES) summary.examples.push(url);
+
+    sections.set(section, summary);
+  }
+
+  return [...sections.values()].sort((a, b) => b.count - a.count);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function readTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>\\s*(?:<!\\[CDATA\\[)?\\s*([^<\\]]+?)\\s*(?:\\]\\]>)?\\s*</${tag}>`, 'i'));
+  return match ? decodeHtmlEntities(match[1]) : null;
+}
+
+/**
+ * Same-site page URL without fragment or trailing slash, or null for
+ * other hosts and non-http links.
+ */
+function normalizePageUrl(loc: string, siteHost: string): string | null {
+  try {
+    const url = new URL(loc.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    if (stripWww(url.hostname) !== siteHost) return null;
+
+    url.hash = '';
+    return url.toString().replace(/\/$/, '');
+  } catch {
+    return null;
+  }
+}
+
+function parseDate(value: string | null): string | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/**
+ * The later of two ISO dates (either may be missing).
+ */
+function latest(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+function stripWww(hostname: string): string {
+  return hostname.replace(/^www\./, '').toLowerCase();
+}
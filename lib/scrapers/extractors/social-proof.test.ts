@@ -0,0 +1,42 @@
+/**
+ * SOCIAL PROOF STAT TESTS
+ * ========================
+ * Stat callouts in the markup shapes sites actually use.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { extractSocialProof } from './social-proof';
+
+const PAGE_URL = 'https://acme.example';
+
+function stats(body: string) {
+  return extractSocialProof(`<html><body>${body}</body></html>`, PAGE_URL).stats
+    .map(({ value, label }) => `${value} | ${label}`);
+}
+
+describe('extractSocialProof stats', () => {
+  it('reads a stat in its own element', () => {
+    expect(stats('<p>10,000+ customers</p>')).toEqual(['10,000+ | customers']);
+  });
+
+  it('reads a stat inside a short sentence', () => {
+    expect(stats('<p>Trusted by 10,000+ customers worldwide</p>')).toEqual(['10,000+ | customers worldwide']);
+  });
+
+  it('reads every stat in a short element', () => {
+    expect(stats('<p>99.9% uptime and 2.5M tasks done</p>')).toEqual(['99.9% | uptime', '2.5M | tasks done']);
+  });
+
+  it('reads the label from the element after the number', () => {
+    expect(stats('<div><strong>4.9/5</strong><span>average rating</span></div>')).toEqual(['4.9/5 | average rating']);
+  });
+
+  it('reads the label from the text after the number', () => {
+    expect(stats('<div><strong>10,000+</strong> customers</div>')).toEqual(['10,000+ | customers']);
+  });
+
+  it('skips prices, years and small bare numbers', () => {
+    expect(stats('<p>Plans from $299 per month</p><p>Founded in 2015 by two engineers</p><p>Launch in 3 steps</p>'))
+      .toEqual([]);
+  });
+});
@@ -0,0 +1,439 @@
+/**
+ * SOCIAL PROOF EXTRACTOR
+ * =======================
+ * Pulls proof points out of a page before the text cleaner flattens
+ * them into anonymous prose:
+ *
+ * - Testimonials: <blockquote> / testimonial blocks, with author, role
+ *   and company when the markup gives them
+ * - Client logos: image walls under "Trusted by" style headings
+ *   (names from alt text, title or filename)
+ * - Ratings: schema.org AggregateRating (via structured data)
+ * - Stat callouts: "10,000+ customers", "99.9% uptime"
+ *
+ * Every record keeps the URL of the page it came from, so doc templates
+ * can cite it.
+ */
+
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import type {
+  ClientLogo,
+  ReviewRating,
+  SocialProof,
+  StatCallout,
+  StructuredData,
+  Testimonial,
+} from '../types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MAX_TESTIMONIALS = 10;
+const MAX_LOGOS = 30;
+const MAX_RATINGS = 10;
+const MAX_STATS = 10;
+
+const MIN_QUOTE_LENGTH = 30;
+const MAX_QUOTE_LENGTH = 600;
+const MAX_ATTRIBUTION_LENGTH = 120;
+
+/** Logo walls have at least this many images and little text */
+const MIN_WALL_LOGOS = 3;
+const MAX_WALL_LOGOS = 60;
+const MAX_WALL_TEXT_PER_LOGO = 30;
+
+/** Testimonial cards; a card may wrap its own <blockquote> */
+const CARD_SELECTOR = '[class*="testimonial" i], [class*="review" i], [data-testimonial]';
+const TESTIMONIAL_SELECTOR = `blockquote, ${CARD_SELECTOR}`;
+
+/** Tried in order: specific name elements before whole captions */
+const AUTHOR_SELECTORS = [
+  '[itemprop="author"], [class*="name" i]:not([class*="company" i])',
+  '[class*="author" i], cite',
+  'figcaption, footer',
+  'strong, b',
+];
+const ROLE_SELECTOR = '[class*="role" i], [class*="position" i], [class*="job" i], [class*="title" i]:not(h1, h2)';
+const COMPANY_SELECTOR = '[class*="company" i], [class*="organization" i]';
+
+/** Headings, labels and class names that mark a client logo wall */
+const LOGO_WALL_PATTERN = /\b(trusted by|used by|loved by|chosen by|our (clients|customers|partners)|(clients|customers|companies|teams|brands) (like|include|that|who|using)|as seen (in|on)|featured (in|on)|backed by|join \S+ (companies|teams))\b/i;
+const LOGO_WALL_CLASS_PATTERN = /(logo|client|customer|partner|brand|marquee|trusted)/i;
+
+/** Words stripped from logo names ("Acme logo" -> "Acme") */
+const LOGO_NAME_NOISE = /\b(logo(type)?|icon|img|image|white|black|dark|light|color|colour|grey|gray|mono|svg|png)\b/gi;
+
+/** "10,000+", "2.5M", "99.9%", "4.9/5", "3x" */
+const STAT_VALUE = String.raw`\d[\d,.]*\s?(?:\+|[kKmMbB]\+?|%|x|/5|/10|★)?\+?`;
+const STAT_LABEL = String.raw`[A-Za-z][A-Za-z &'/-]{2,60}`;
+/** Anywhere in the text: "Trusted by 10,000+ customers worldwide" (not prices or part of a longer number) */
+const STAT_PATTERN = new RegExp(`(?<![\\w.,$€£])(${STAT_VALUE})\\s+(?:of\\s+)?(${STAT_LABEL})`, 'g');
+const STAT_VALUE_ONLY = new RegExp(`^${STAT_VALUE}$`);
+/** Label at the start of the text after a number element */
+const STAT_LABEL_START = new RegExp(`^(?:of\\s+)?(${STAT_LABEL})`);
+
+const MAX_STAT_TEXT_LENGTH = 80;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ExtractOptions {
+  /** Structured data from the same page (for AggregateRating) */
+  structuredData?: StructuredData | null;
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Extract testimonials, client logos, ratings and stat callouts from a page.
+ *
+ * @param html - Raw HTML string, or an already-loaded document (not modified)
+ * @param pageUrl - URL of the page (stored on every record)
+ * @param options - Structured data from the same page
+ * @returns Social proof (empty lists if none found)
+ *
+ * @example
+ * const proof = extractSocialProof(html, 'https://acme.com', { structuredData });
+ * proof.testimonials[0] // -> { quote: '...', author: 'Jane Doe', company: 'Globex', ... }
+ */
+export function extractSocialProof(
+  html: string | CheerioAPI,
+  pageUrl: string,
+  options: ExtractOptions = {}
+): SocialProof {
+  const $ = typeof html === 'string' ? cheerio.load(html) : html;
+
+  return {
+    testimonials: extractTestimonials($, pageUrl),
+    clientLogos: extractClientLogos($, pageUrl),
+    ratings: (options.structuredData?.ratings ?? [])
+      .map(rating => ({ ...rating, sourceUrl: pageUrl }))
+      .slice(0, MAX_RATINGS),
+    stats: extractStats($, pageUrl),
+  };
+}
+
+/**
+ * Merge social proof from several pages (e.g. a multi-page crawl).
+ * Duplicates keep the first (most important) page as their source.
+ *
+ * @param items - Social proof per page, most important page first
+ * @returns A single merged record
+ */
+export function mergeSocialProof(items: SocialProof[]): SocialProof {
+  return {
+    testimonials: dedupeBy(items.flatMap(i => i.testimonials), t => quoteKey(t.quote))
+      .slice(0, MAX_TESTIMONIALS),
+    clientLogos: dedupeBy(items.flatMap(i => i.clientLogos), l => l.name.toLowerCase())
+      .slice(0, MAX_LOGOS),
+    ratings: dedupeBy(items.flatMap(i => i.ratings), ratingKey)
+      .slice(0, MAX_RATINGS),
+    stats: dedupeBy(items.flatMap(i => i.stats), s => `${s.value} ${s.label}`.toLowerCase())
+      .slice(0, MAX_STATS),
+  };
+}
+
+/**
+ * Check whether any social proof was found.
+ */
+export function hasSocialProof(proof: SocialProof | null | undefined): proof is SocialProof {
+  return !!proof && (
+    proof.testimonials.length > 0 ||
+    proof.clientLogos.length > 0 ||
+    proof.ratings.length > 0 ||
+    proof.stats.length > 0
+  );
+}
+
+// ============================================================================
+// TESTIMONIALS
+// ============================================================================
+
+function extractTestimonials($: CheerioAPI, pageUrl: string): Testimonial[] {
+  const testimonials: Testimonial[] = [];
+
+  // Skip wrappers around several cards ("testimonials" sections), then
+  // skip a <blockquote> inside a card so the card's author is kept
+  const candidates = $(TESTIMONIAL_SELECTOR)
+    .filter((_, el) => $(el).find(CARD_SELECTOR).length === 0)
+    .toArray();
+  const cards = new Set(candidates);
+  const blocks = candidates.filter(el => !$(el).parents().toArray().some(parent => cards.has(parent)));
+
+  for (const block of blocks) {
+    const $block = $(block);
+    const quote = findQuote($, $block);
+    if (!quote) continue;
+
+    const attribution = findAttribution($block, quote);
+    testimonials.push({ quote, ...attribution, sourceUrl: pageUrl });
+  }
+
+  return dedupeBy(testimonials, t => quoteKey(t.quote)).slice(0, MAX_TESTIMONIALS);
+}
+
+/**
+ * The quote text: the <blockquote> / <q> if there is one, otherwise the
+ * longest paragraph in the block.
+ */
+function findQuote($: CheerioAPI, $block: Cheerio<Element>): string | null {
+  const explicit = $block.is('blockquote, q') ? $block : $block.find('blockquote, q').first();
+
+  let text: string;
+  if (explicit.length > 0) {
+    // Leave out a <cite>/<footer> inside the blockquote
+    const $copy = explicit.clone();
+    $copy.find('cite, footer, figcaption').remove();
+    text = spacedText($copy);
+  } else {
+    text = $block.find('p')
+      .toArray()
+      .map(p => spacedText($(p)))
+      .sort((a, b) => b.length - a.length)[0] ?? '';
+  }
+
+  const quote = stripQuotes(text);
+  return quote.length >= MIN_QUOTE_LENGTH && quote.length <= MAX_QUOTE_LENGTH ? quote : null;
+}
+
+/**
+ * Author, role and company from dedicated elements, or parsed from a
+ * single line like "Jane Doe, CEO at Acme".
+ */
+function findAttribution(
+  $block: Cheerio<Element>,
+  quote: string
+): Pick<Testimonial, 'author' | 'role' | 'company'> {
+  const textOf = (selector: string) => {
+    const text = spacedText($block.find(selector).first()).replace(/^[-–—\s]+/, '');
+    return text && text.length <= MAX_ATTRIBUTION_LENGTH && !quote.includes(text) ? text : undefined;
+  };
+
+  let authorLine: string | undefined;
+  for (const selector of AUTHOR_SELECTORS) {
+    authorLine = textOf(selector);
+    if (authorLine) break;
+  }
+  if (!authorLine) return {};
+
+  const role = textOf(ROLE_SELECTOR);
+  const company = textOf(COMPANY_SELECTOR);
+  const parsed = parseAttribution(authorLine);
+
+  return stripEmpty({
+    author: parsed.author,
+    role: role ?? parsed.role,
+    company: company ?? parsed.company,
+  });
+}
+
+/**
+ * "Jane Doe, CEO at Acme" / "Jane Doe - Head of Growth, Acme"
+ */
+function parseAttribution(line: string): Pick<Testimonial, 'author' | 'role' | 'company'> {
+  const [author, ...rest] = line.split(/\s*(?:,|\s[-–—|]\s)\s*/).filter(Boolean);
+  if (rest.length === 0) return { author };
+
+  const detail = rest.join(', ');
+  const at = detail.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+  if (at) return { author, role: at[1], company: at[2] };
+
+  return rest.length >= 2
+    ? { author, role: rest[0], company: rest.slice(1).join(', ') }
+    : { author, role: rest[0] };
+}
+
+// ============================================================================
+// CLIENT LOGOS
+// ============================================================================
+
+function extractClientLogos($: CheerioAPI, pageUrl: string): ClientLogo[] {
+  const logos: ClientLogo[] = [];
+  const used = new Set<Element>();
+
+  // Innermost containers first, so a page wrapper can't claim every image
+  for (const el of $('section, div, ul').toArray().reverse()) {
+    const $el = $(el);
+    const images = $el.find('img').toArray().filter(img => !used.has(img));
+    if (images.length < MIN_WALL_LOGOS || images.length > MAX_WALL_LOGOS) continue;
+
+    const text = spacedText($el);
+    if (text.length > images.length * MAX_WALL_TEXT_PER_LOGO + 120) continue;
+    if (!isLogoWall($el, text)) continue;
+
+    for (const img of images) {
+      used.add(img);
+      const logo = toClientLogo($(img), pageUrl);
+      if (logo) logos.push(logo);
+    }
+  }
+
+  return dedupeBy(logos, l => l.name.toLowerCase()).slice(0, MAX_LOGOS);
+}
+
+function isLogoWall($el: Cheerio<Element>, text: string): boolean {
+  const label = [
+    $el.attr('class'),
+    $el.attr('id'),
+    $el.attr('aria-label'),
+  ].filter(Boolean).join(' ');
+
+  const heading = spacedText($el.prevAll('h1, h2, h3, h4, h5, h6, p').first());
+
+  return LOGO_WALL_PATTERN.test(text) ||
+    LOGO_WALL_PATTERN.test(heading) ||
+    LOGO_WALL_PATTERN.test(label) ||
+    LOGO_WALL_CLASS_PATTERN.test(label);
+}
+
+function toClientLogo($img: Cheerio<Element>, pageUrl: string): ClientLogo | null {
+  const src = $img.attr('src') || $img.attr('data-src') || '';
+  const raw = $img.attr('alt') || $img.attr('title') || fileName(src);
+
+  const name = raw.replace(LOGO_NAME_NOISE, ' ').replace(/[-_]+/g, ' ').replace(/\s+/g, ' ').trim();
+  if (name.length < 2 || name.length > 60) return null;
+
+  return stripEmpty({
+    name,
+    imageUrl: resolveUrl(src, pageUrl),
+    sourceUrl: pageUrl,
+  });
+}
+
+/**
+ * "/img/clients/acme-corp-logo@2x.a1b2c3.png" -> "acme-corp-logo"
+ */
+function fileName(src: string): string {
+  if (src.startsWith('data:')) return '';
+  const base = src.split(/[?#]/)[0].split('/').pop() || '';
+  return base.replace(/\.[a-z0-9]+$/i, '').replace(/@\dx/, '').replace(/\.[a-f0-9]{6,}$/i, '');
+}
+
+// ============================================================================
+// STAT CALLOUTS
+// ============================================================================
+
+function extractStats($: CheerioAPI, pageUrl: string): StatCallout[] {
+  const stats: StatCallout[] = [];
+
+  $('body')
+    .find('h1, h2, h3, h4, h5, h6, p, li, span, strong, div, dt, dd')
+    .each((_, el) => {
+      const $el = $(el);
+      // Innermost elements only
+      if ($el.children().filter((_, child) => spacedText($(child)).length > 0).length > 2) return;
+
+      const text = spacedText($el);
+      if (!text || text.length > MAX_STAT_TEXT_LENGTH) return;
+
+      // <strong>10,000+</strong><span>customers</span> or <strong>10,000+</strong> customers
+      if (STAT_VALUE_ONLY.test(text)) {
+        const label = textAfter($, el).match(STAT_LABEL_START);
+        if (label) {
+          addStat(stats, text, label[1], pageUrl);
+        }
+        return;
+      }
+
+      // "10,000+ customers" anywhere in a short element
+      for (const match of text.matchAll(STAT_PATTERN)) {
+        addStat(stats, match[1], match[2], pageUrl);
+      }
+    });
+
+  return dedupeBy(stats, s => `${s.value} ${s.label}`.toLowerCase()).slice(0, MAX_STATS);
+}
+
+/**
+ * Keep numbers that read as a claim: "10,000+", "2M", "99%", "4.9/5", "3x"
+ * or anything over 100 - not "3 steps" or "2024".
+ */
+function addStat(stats: StatCallout[], value: string, label: string, pageUrl: string): void {
+  const cleanValue = value.trim();
+  const number = Number(cleanValue.replace(/[^\d.]/g, ''));
+  const hasUnit = /[+%xkKmMbB★]|\/(5|10)/.test(cleanValue);
+
+  if (!hasUnit && (number < 100 || /^(19|20)\d{2}$/.test(cleanValue))) return;
+  if (label.split(/\s+/).length > 8) return;
+
+  // "99.9% uptime and 2M tasks" -> "uptime"
+  const cleanLabel = label.trim().replace(/\s+(and|or|with|&|in|on|for|to|from|by)$/i, '');
+
+  stats.push({ value: cleanValue, label: cleanLabel, sourceUrl: pageUrl });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Text of the node right after an element, whether it's an element or
+ * bare text ($el.next() skips text nodes).
+ */
+function textAfter($: CheerioAPI, el: Element): string {
+  let node = el.nextSibling;
+  while (node && node.type === 'text' && !node.data.trim()) {
+    node = node.nextSibling;
+  }
+
+  if (!node) return '';
+  if (node.type === 'text') return node.data.replace(/\s+/g, ' ').trim();
+  return node.type === 'tag' ? spacedText($(node as Element)) : '';
+}
+
+/**
+ * Text with a space between nodes, so adjacent elements don't run together.
+ */
+function spacedText($el: Cheerio<Element>): string {
+  const parts: string[] = [];
+  $el.find('*').addBack().not('script, style, noscript, svg').contents().each((_, node) => {
+    if (node.type === 'text') parts.push(node.data);
+  });
+  return parts.join(' ').replace(/\s+/g, ' ').trim();
+}
+
+function stripQuotes(text: string): string {
+  return text.replace(/^["“”'‘’«»\s]+|["“”'‘’«»\s]+$/g, '').trim();
+}
+
+function quoteKey(quote: string): string {
+  return quote.toLowerCase().replace(/[^a-z0-9]+/g, ' ').slice(0, 80);
+}
+
+function ratingKey(rating: ReviewRating): string {
+  return `${rating.itemName?.toLowerCase() ?? ''}|${rating.ratingValue}|${rating.reviewCount ?? ''}`;
+}
+
+function resolveUrl(src: string, pageUrl: string): string | undefined {
+  if (!src || src.startsWith('data:')) return undefined;
+  try {
+    return new URL(src, pageUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function dedupeBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Remove undefined values so stored JSON stays compact.
+ */
+function stripEmpty<T extends object>(obj: T): T {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, value]) => value !== undefined)
+  ) as T;
+}
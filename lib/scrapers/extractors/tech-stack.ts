@@ -0,0 +1,481 @@
+/**
+ * TECH STACK EXTRACTOR
+ * =====================
+ * Fingerprints the technologies a site runs on (CMS, shop platform,
+ * analytics, ad pixels, payments, chat widgets, hosting) from what the
+ * scrape already captured - no extra requests and no AI call.
+ *
+ * Signals:
+ * - Markup and inline scripts (e.g. __NEXT_DATA__, fbq('init'))
+ * - <script src> and <link href> URLs (e.g. js.stripe.com)
+ * - Response headers (e.g. x-shopid, server: cloudflare)
+ * - Cookie names set by the response (e.g. _shopify_y, __hstc)
+ * - <meta name="generator">
+ *
+ * Each rule's matched signals add up to a 0-100 confidence, and the
+ * matches are kept as evidence so the UI can show why.
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type {
+  TechCategory,
+  TechDetection,
+  TechEvidence,
+  TechEvidenceType,
+  TechStack,
+} from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A pattern, optionally with its own confidence or a fixed version.
+ * A capture group in a meta or header pattern is read as the version.
+ */
+type Signal = RegExp | { pattern: RegExp; confidence?: number; version?: string };
+
+interface TechRule {
+  name: string;
+  category: TechCategory;
+  html?: Signal[];
+  scripts?: Signal[];
+  /** Header name (lowercase) -> value pattern */
+  headers?: Record<string, Signal>;
+  cookies?: Signal[];
+  meta?: Signal;
+}
+
+interface DetectOptions {
+  /** Response headers (lowercase names) */
+  headers?: Record<string, string>;
+  /** Cookie names set by the response */
+  cookies?: string[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Confidence a match adds when the signal doesn't set its own */
+const DEFAULT_CONFIDENCE: Record<TechEvidenceType, number> = {
+  meta: 100,
+  header: 100,
+  cookie: 100,
+  script: 100,
+  html: 50,
+};
+
+const MAX_EVIDENCE = 3;
+const MAX_EVIDENCE_LENGTH = 120;
+
+/** Display order when confidence ties */
+const CATEGORY_ORDER: TechCategory[] = [
+  'cms', 'ecommerce', 'site-builder', 'framework', 'payments',
+  'marketing', 'analytics', 'advertising', 'chat', 'hosting',
+];
+
+const RULES: TechRule[] = [
+  // CMS, shops and site builders
+  {
+    name: 'Shopify',
+    category: 'ecommerce',
+    html: [/Shopify\.theme\b/, /\bshopify-section\b/],
+    scripts: [/cdn\.shopify\.com/, /\.myshopify\.com/],
+    headers: { 'x-shopid': /./, 'x-shopify-stage': /./, 'powered-by': /shopify/i },
+    cookies: [/^_shopify_[sy]$/, /^secure_customer_sig$/],
+  },
+  {
+    name: 'WooCommerce',
+    category: 'ecommerce',
+    html: [/\bwoocommerce\b/],
+    scripts: [/\/wp-content\/plugins\/woocommerce\//],
+    cookies: [/^woocommerce_/, /^wp_woocommerce_session_/],
+  },
+  {
+    name: 'BigCommerce',
+    category: 'ecommerce',
+    scripts: [/cdn\d*\.bigcommerce\.com/],
+    headers: { 'x-bc-storefront': /./ },
+  },
+  {
+    name: 'WordPress',
+    category: 'cms',
+    meta: /^WordPress ?([\d.]+)?/i,
+    html: [/<link[^>]+rel=["']https:\/\/api\.w\.org\/["']/i],
+    scripts: [/\/wp-(?:content|includes)\//],
+    headers: { 'x-pingback': /xmlrpc\.php/, 'link': /rel="https:\/\/api\.w\.org\/"/ },
+    cookies: [/^wordpress_/, /^wp-settings-/],
+  },
+  {
+    name: 'Drupal',
+    category: 'cms',
+    meta: /^Drupal ?(\d+)?/i,
+    html: [/data-drupal-selector=/, /\/sites\/default\/files\//],
+    headers: { 'x-drupal-cache': /./, 'x-generator': /^Drupal ?(\d+)?/i },
+  },
+  {
+    name: 'Ghost',
+    category: 'cms',
+    meta: /^Ghost ?([\d.]+)?/i,
+  },
+  {
+    name: 'Webflow',
+    category: 'site-builder',
+    meta: /^Webflow/i,
+    html: [/\bdata-wf-(?:page|site)=/],
+    scripts: [/(?:assets|cdn\.prod)\.website-files\.com/, /webflow\.[\w.]*js/],
+  },
+  {
+    name: 'Wix',
+    category: 'site-builder',
+    meta: /^Wix\.com/i,
+    scripts: [/static\.(?:parastorage|wixstatic)\.com/],
+    headers: { 'x-wix-request-id': /./ },
+  },
+  {
+    name: 'Squarespace',
+    category: 'site-builder',
+    html: [/Static\.SQUARESPACE_CONTEXT/],
+    scripts: [/(?:static1|assets)\.squarespace\.com/],
+    headers: { 'server': /squarespace/i },
+  },
+  {
+    name: 'Framer',
+    category: 'site-builder',
+    meta: /^Framer/i,
+    scripts: [/framerusercontent\.com/],
+  },
+
+  // Frameworks
+  {
+    name: 'Next.js',
+    category: 'framework',
+    html: [{ pattern: /<script[^>]+id=["']__NEXT_DATA__["']/, confidence: 100 }, /\/_next\/static\//],
+    headers: { 'x-powered-by': /next\.js ?([\d.]+)?/i },
+  },
+  {
+    name: 'Nuxt',
+    category: 'framework',
+    html: [{ pattern: /window\.__NUXT__/, confidence: 100 }, /\/_nuxt\//],
+  },
+  {
+    name: 'Gatsby',
+    category: 'framework',
+    meta: /^Gatsby ?([\d.]+)?/i,
+    html: [{ pattern: /id=["']___gatsby["']/, confidence: 100 }],
+  },
+
+  // Payments
+  {
+    name: 'Stripe',
+    category: 'payments',
+    scripts: [/js\.stripe\.com/],
+    cookies: [/^__stripe_(?:mid|sid)$/],
+  },
+  {
+    name: 'PayPal',
+    category: 'payments',
+    scripts: [/paypal\.com\/sdk\/js/, /paypalobjects\.com/],
+  },
+
+  // Marketing automation
+  {
+    name: 'HubSpot',
+    category: 'marketing',
+    scripts: [/js\.(?:hs-scripts|hsforms|hs-analytics|hubspot|hs-banner)\.(?:com|net)/],
+    cookies: [/^__hs(?:tc|sc|fp)$/, /^hubspotutk$/],
+  },
+  {
+    name: 'Mailchimp',
+    category: 'marketing',
+    html: [/list-manage\.com\/subscribe/],
+    scripts: [/chimpstatic\.com/],
+  },
+  {
+    name: 'Klaviyo',
+    category: 'marketing',
+    scripts: [/static\.klaviyo\.com/],
+    cookies: [/^__kla_id$/],
+  },
+  {
+    name: 'Marketo',
+    category: 'marketing',
+    scripts: [/munchkin\.marketo\.net/],
+    cookies: [/^_mkto_trk$/],
+  },
+
+  // Analytics
+  {
+    name: 'Google Analytics',
+    category: 'analytics',
+    scripts: [{ pattern: /googletagmanager\.com\/gtag\/js\?id=G-/, version: 'GA4' }, /google-analytics\.com\/analytics\.js/],
+    html: [{ pattern: /gtag\(\s*['"]config['"],\s*['"]G-/, confidence: 100, version: 'GA4' }],
+    cookies: [/^_ga(?:_[A-Z0-9]+)?$/],
+  },
+  {
+    name: 'Google Tag Manager',
+    category: 'analytics',
+    scripts: [/googletagmanager\.com\/gtm\.js/],
+    html: [/googletagmanager\.com\/ns\.html\?id=GTM-/, /['"]GTM-[A-Z0-9]{4,}['"]/],
+  },
+  {
+    name: 'Hotjar',
+    category: 'analytics',
+    scripts: [/static\.hotjar\.com/],
+    html: [/\bhjid\s*:\s*\d+/],
+    cookies: [/^_hjSessionUser_/],
+  },
+  {
+    name: 'Segment',
+    category: 'analytics',
+    scripts: [/cdn\.segment\.com/],
+    cookies: [/^ajs_anonymous_id$/],
+  },
+  {
+    name: 'Mixpanel',
+    category: 'analytics',
+    scripts: [/cdn\.mxpnl\.com/],
+    html: [/mixpanel\.init\(/],
+  },
+  {
+    name: 'Plausible',
+    category: 'analytics',
+    scripts: [/plausible\.io\/js\//],
+  },
+
+  // Advertising pixels
+  {
+    name: 'Meta Pixel',
+    category: 'advertising',
+    scripts: [/connect\.facebook\.net\/[\w_]+\/fbevents\.js/],
+    html: [{ pattern: /fbq\(\s*['"]init['"]/, confidence: 100 }],
+    cookies: [/^_fbp$/],
+  },
+  {
+    name: 'Google Ads',
+    category: 'advertising',
+    scripts: [/googleadservices\.com/, /googletagmanager\.com\/gtag\/js\?id=AW-/],
+    html: [{ pattern: /gtag\(\s*['"]config['"],\s*['"]AW-/, confidence: 100 }],
+  },
+  {
+    name: 'LinkedIn Insight Tag',
+    category: 'advertising',
+    scripts: [/snap\.licdn\.com\/li\.lms-analytics/],
+    html: [{ pattern: /_linkedin_partner_id/, confidence: 100 }],
+  },
+  {
+    name: 'TikTok Pixel',
+    category: 'advertising',
+    scripts: [/analytics\.tiktok\.com/],
+    html: [{ pattern: /ttq\.load\(/, confidence: 100 }],
+  },
+
+  // Chat and support widgets
+  {
+    name: 'Intercom',
+    category: 'chat',
+    scripts: [/widget\.intercom\.io/, /js\.intercomcdn\.com/],
+    html: [{ pattern: /window\.intercomSettings/, confidence: 100 }],
+    cookies: [/^intercom-(?:id|session)-/],
+  },
+  {
+    name: 'Drift',
+    category: 'chat',
+    scripts: [/js\.driftt\.com/],
+  },
+  {
+    name: 'Zendesk',
+    category: 'chat',
+    scripts: [/static\.zdassets\.com/],
+  },
+  {
+    name: 'Crisp',
+    category: 'chat',
+    scripts: [/client\.crisp\.chat/],
+  },
+  {
+    name: 'tawk.to',
+    category: 'chat',
+    scripts: [/embed\.tawk\.to/],
+  },
+
+  // Hosting and CDN
+  {
+    name: 'Cloudflare',
+    category: 'hosting',
+    headers: { 'server': /^cloudflare$/i, 'cf-ray': /./ },
+    cookies: [/^__cf_bm$/],
+  },
+  {
+    name: 'Vercel',
+    category: 'hosting',
+    headers: { 'server': /^vercel$/i, 'x-vercel-id': /./ },
+  },
+  {
+    name: 'Netlify',
+    category: 'hosting',
+    headers: { 'server': /^netlify$/i, 'x-nf-request-id': /./ },
+  },
+  {
+    name: 'Amazon CloudFront',
+    category: 'hosting',
+    headers: { 'x-amz-cf-id': /./ },
+  },
+];
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Detect the technologies used by a page.
+ *
+ * @param html - Raw HTML string, or an already-loaded document (not modified)
+ * @param options - Response headers and cookie names, when the page was fetched
+ * @returns Detections, most confident first (empty if nothing matched)
+ *
+ * @example
+ * const techStack = detectTechStack(html, { headers, cookies });
+ * techStack.technologies[0] // -> { name: 'Shopify', category: 'ecommerce', confidence: 100, ... }
+ */
+export function detectTechStack(
+  html: string | CheerioAPI,
+  options: DetectOptions = {}
+): TechStack {
+  const $ = typeof html === 'string' ? cheerio.load(html) : html;
+  const markup = typeof html === 'string' ? html : $.html();
+  const headers = options.headers ?? {};
+  const cookies = options.cookies ?? [];
+
+  const urls = new Set<string>();
+  $('script[src], link[href]').each((_, el) => {
+    const url = ($(el).attr('src') || $(el).attr('href') || '').trim();
+    if (url) urls.add(url);
+  });
+
+  const generators = $('meta[name="generator" i]')
+    .map((_, el) => ($(el).attr('content') || '').trim())
+    .get()
+    .filter(Boolean);
+
+  const technologies: TechDetection[] = [];
+
+  for (const rule of RULES) {
+    const matches: Match[] = [];
+
+    // Strongest signals first - evidence is capped
+    if (rule.meta) {
+      for (const generator of generators) {
+        const match = generator.match(patternOf(rule.meta));
+        if (match) {
+          matches.push(toMatch(rule.meta, 'meta', generator, match[1]));
+          break;
+        }
+      }
+    }
+
+    for (const [name, signal] of Object.entries(rule.headers ?? {})) {
+      const value = headers[name];
+      const match = value !== undefined ? value.match(patternOf(signal)) : null;
+      if (match) matches.push(toMatch(signal, 'header', `${name}: ${value}`, match[1]));
+    }
+
+    for (const signal of rule.scripts ?? []) {
+      const url = Array.from(urls).find(u => patternOf(signal).test(u));
+      if (url) matches.push(toMatch(signal, 'script', url));
+    }
+
+    for (const signal of rule.cookies ?? []) {
+      const cookie = cookies.find(c => patternOf(signal).test(c));
+      if (cookie) matches.push(toMatch(signal, 'cookie', cookie));
+    }
+
+    for (const signal of rule.html ?? []) {
+      const match = markup.match(patternOf(signal));
+      if (match) matches.push(toMatch(signal, 'html', match[0]));
+    }
+
+    if (matches.length > 0) {
+      technologies.push({
+        name: rule.name,
+        category: rule.category,
+        confidence: Math.min(100, matches.reduce((sum, m) => sum + m.confidence, 0)),
+        version: matches.find(m => m.version)?.version,
+        evidence: matches.slice(0, MAX_EVIDENCE).map(m => m.evidence),
+      });
+    }
+  }
+
+  return { technologies: rankTechnologies(technologies) };
+}
+
+/**
+ * Merge detections from several pages (e.g. a multi-page crawl).
+ * Each technology keeps its highest confidence and the first evidence found.
+ *
+ * @param items - Tech stacks per page, most important page first
+ * @returns A single merged tech stack
+ */
+export function mergeTechStack(items: TechStack[]): TechStack {
+  const byName = new Map<string, TechDetection>();
+
+  for (const detection of items.flatMap(i => i.technologies)) {
+    const existing = byName.get(detection.name);
+    if (!existing) {
+      byName.set(detection.name, { ...detection, evidence: [...detection.evidence] });
+      continue;
+    }
+
+    existing.confidence = Math.max(existing.confidence, detection.confidence);
+    existing.version = existing.version ?? detection.version;
+    for (const evidence of detection.evidence) {
+      const seen = existing.evidence.some(e => e.type === evidence.type && e.detail === evidence.detail);
+      if (!seen && existing.evidence.length < MAX_EVIDENCE) existing.evidence.push(evidence);
+    }
+  }
+
+  return { technologies: rankTechnologies(Array.from(byName.values())) };
+}
+
+/**
+ * Check whether any technology was detected.
+ */
+export function hasTechStack(techStack: TechStack | null | undefined): techStack is TechStack {
+  return !!techStack && techStack.technologies.length > 0;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+interface Match {
+  confidence: number;
+  version?: string;
+  evidence: TechEvidence;
+}
+
+function patternOf(signal: Signal): RegExp {
+  return signal instanceof RegExp ? signal : signal.pattern;
+}
+
+function toMatch(signal: Signal, type: TechEvidenceType, detail: string, captured?: string): Match {
+  const options = signal instanceof RegExp ? null : signal;
+  return {
+    confidence: options?.confidence ?? DEFAULT_CONFIDENCE[type],
+    version: options?.version ?? captured,
+    evidence: { type, detail: detail.replace(/\s+/g, ' ').slice(0, MAX_EVIDENCE_LENGTH) },
+  };
+}
+
+/**
+ * Most confident first, then by category and name.
+ */
+function rankTechnologies(technologies: TechDetection[]): TechDetection[] {
+  return [...technologies].sort((a, b) =>
+    b.confidence - a.confidence ||
+    CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) ||
+    a.name.localeCompare(b.name)
+  );
+}
@@ -0,0 +1,492 @@
+/**
+ * VISUAL IDENTITY EXTRACTOR
+ * ==========================
+ * Finds a brand's logo, color palette and fonts from its homepage.
+ *
+ * Sources:
+ * - Logos: <img> tags that look like a logo, Organization.logo from
+ *   structured data, apple-touch-icon / icon links, og:image
+ * - Colors: CSS custom properties and color declarations in inline
+ *   styles, <style> blocks and linked stylesheets, plus theme-color
+ * - Fonts: font-family declarations, @font-face and Google Fonts links
+ *
+ * Linked stylesheets are fetched through fetchText(), so they get the
+ * same SSRF, size and rate-limit protection as pages.
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { log } from '@/lib/utils/logger';
+import { fetchText, CSS_CONTENT_TYPES } from '../shared/fetch';
+import type { BrandColor, BrandFont, LogoCandidate, LogoSource, VisualIdentity } from '../types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MAX_STYLESHEETS = 3;
+const STYLESHEET_TIMEOUT_MS = 5000;
+const MAX_STYLESHEET_BYTES = 1024 * 1024; // 1MB
+
+const MAX_LOGOS = 6;
+const MAX_COLORS = 10;
+const MAX_NEUTRAL_COLORS = 3;
+const MAX_FONTS = 5;
+
+/** Logo sources, most trustworthy first */
+const LOGO_SOURCE_ORDER: LogoSource[] = ['logo-image', 'structured-data', 'apple-touch-icon', 'icon', 'og-image'];
+
+/** Properties whose values are colors worth counting */
+const COLOR_PROPERTY = /^(color|background|background-color|border|border-(top|right|bottom|left)|border(-(top|right|bottom|left))?-color|outline-color|fill|stroke|accent-color|text-decoration-color)$/;
+
+/** Custom property names that usually hold the main brand color */
+const BRAND_VARIABLE = /primary|brand|accent|secondary|theme/i;
+
+/** Generic and fallback families that say nothing about the brand */
+const GENERIC_FONTS = new Set([
+  'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-sans-serif',
+  'ui-serif', 'ui-monospace', 'ui-rounded', '-apple-system', 'blinkmacsystemfont', 'emoji',
+  'math', 'inherit', 'initial', 'unset', 'revert', 'segoe ui', 'roboto', 'helvetica neue',
+  'helvetica', 'arial', 'noto sans', 'apple color emoji', 'segoe ui emoji', 'segoe ui symbol',
+  'noto color emoji', 'times new roman', 'times', 'courier new', 'courier', 'menlo', 'monaco',
+  'consolas',
+]);
+
+/** Icon fonts aren't typography */
+const ICON_FONT = /awesome|icon|glyph|material symbols|dashicons|swiper/i;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ExtractOptions {
+  /** Contents of linked stylesheets (already fetched) */
+  stylesheets?: { url: string; css: string }[];
+  /** Organization.logo from structured data, if known */
+  structuredLogo?: string;
+}
+
+interface ScrapeOptions {
+  /** Organization.logo from structured data, if known */
+  structuredLogo?: string;
+  /** Skip stylesheets whose rate-limit slot starts after this timestamp */
+  deadline?: number;
+}
+
+interface ColorTally {
+  hex: string;
+  count: number;
+  source: BrandColor['source'];
+  variable?: string;
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Extract visual identity from a page, fetching its linked stylesheets.
+ * Never throws - stylesheets that fail to load are skipped.
+ *
+ * @param html - Raw homepage HTML
+ * @param pageUrl - Final URL of the page (for resolving relative links)
+ * @param options - Structured data logo and crawl deadline
+ * @returns Logos, colors and fonts (empty lists if none found)
+ */
+export async function scrapeVisualIdentity(
+  html: string,
+  pageUrl: string,
+  options: ScrapeOptions = {}
+): Promise<VisualIdentity> {
+  const $ = cheerio.load(html);
+  const urls = collectStylesheetUrls($, pageUrl);
+
+  const stylesheets = await Promise.all(urls.map(async url => {
+    try {
+      const { text } = await fetchText(url, {
+        timeoutMs: STYLESHEET_TIMEOUT_MS,
+        maxBytes: MAX_STYLESHEET_BYTES,
+        contentTypes: CSS_CONTENT_TYPES,
+        deadline: options.deadline,
+      });
+      return text ? { url, css: text } : null;
+    } catch (error) {
+      log.debug('Stylesheet skipped', { url, error: error instanceof Error ? error.message : 'Unknown' });
+      return null;
+    }
+  }));
+
+  return extractVisualIdentity($, pageUrl, {
+    stylesheets: stylesheets.filter((s): s is { url: string; css: string } => s !== null),
+    structuredLogo: options.structuredLogo,
+  });
+}
+
+/**
+ * Extract visual identity from a page without fetching anything.
+ *
+ * @param html - Raw HTML string, or an already-loaded document
+ * @param pageUrl - URL of the page (for resolving relative links)
+ * @param options - Pre-fetched stylesheets and structured data logo
+ * @returns Logos, colors and fonts (empty lists if none found)
+ *
+ * @example
+ * const identity = extractVisualIdentity(html, 'https://acme.com');
+ * identity.colors[0]?.hex // -> '#ff5a1f'
+ */
+export function extractVisualIdentity(
+  html: string | CheerioAPI,
+  pageUrl: string,
+  options: ExtractOptions = {}
+): VisualIdentity {
+  const $ = typeof html === 'string' ? cheerio.load(html) : html;
+  const stylesheets = options.stylesheets ?? [];
+
+  // Inline <style> blocks and style="" attributes count like stylesheets
+  const cssSources = [
+    ...stylesheets.map(s => s.css),
+    ...$('style').toArray().map(el => $(el).text()),
+    ...$('[style]').toArray().map(el => `x{${$(el).attr('style')}}`),
+  ];
+  const css = stripComments(cssSources.join('\n'));
+
+  return {
+    logos: extractLogos($, pageUrl, options.structuredLogo),
+    colors: extractColors($, css),
+    fonts: extractFonts($, css),
+    stylesheets: stylesheets.map(s => s.url),
+  };
+}
+
+/**
+ * Check whether anything was found.
+ */
+export function hasVisualIdentity(identity: VisualIdentity): boolean {
+  return identity.logos.length > 0 || identity.colors.length > 0 || identity.fonts.length > 0;
+}
+
+// ============================================================================
+// STYLESHEETS
+// ============================================================================
+
+/**
+ * Absolute URLs of the first few screen stylesheets linked from the page.
+ */
+function collectStylesheetUrls($: CheerioAPI, pageUrl: string): string[] {
+  const urls: string[] = [];
+
+  $('link[rel~="stylesheet"][href]').each((_, el) => {
+    const media = ($(el).attr('media') || '').toLowerCase();
+    if (media && !media.includes('screen') && !media.includes('all')) return;
+
+    const href = $(el).attr('href') || '';
+    // Font CSS has no colors; Google Fonts families are read from the link itself
+    if (href.includes('fonts.googleapis.com')) return;
+
+    const url = resolveUrl(href, pageUrl);
+    if (url && !urls.includes(url)) urls.push(url);
+  });
+
+  return urls.slice(0, MAX_STYLESHEETS);
+}
+
+// ============================================================================
+// LOGOS
+// ============================================================================
+
+function extractLogos($: CheerioAPI, pageUrl: string, structuredLogo?: string): LogoCandidate[] {
+  const candidates: LogoCandidate[] = [];
+
+  const add = (href: string | undefined, source: LogoSource, size?: number) => {
+    const url = href ? resolveUrl(href, pageUrl) : null;
+    if (!url || candidates.some(c => c.url === url)) return;
+    candidates.push(size ? { url, source, size } : { url, source });
+  };
+
+  // Images that call themselves a logo, or sit in a logo/header container
+  $('img').each((_, el) => {
+    const img = $(el);
+    const src = img.attr('src') || img.attr('data-src');
+    const own = `${src} ${img.attr('alt')} ${img.attr('class')} ${img.attr('id')}`;
+    const container = img.parents().toArray()
+      .some(parent => /logo|brand/i.test(`${$(parent).attr('class')} ${$(parent).attr('id')}`));
+    const inHomeLink = img.closest('header a[href="/"], nav a[href="/"]').length > 0;
+
+    if (/logo/i.test(own) || container || inHomeLink) {
+      add(src, 'logo-image');
+    }
+  });
+
+  add(structuredLogo, 'structured-data');
+
+  $('link[rel][href]').each((_, el) => {
+    const rel = ($(el).attr('rel') || '').toLowerCase().split(/\s+/);
+    const size = parseIconSize($(el).attr('sizes'));
+
+    if (rel.some(r => r.startsWith('apple-touch-icon'))) {
+      add($(el).attr('href'), 'apple-touch-icon', size);
+    } else if (rel.includes('icon') || rel.includes('mask-icon')) {
+      add($(el).attr('href'), 'icon', size);
+    }
+  });
+
+  add($('meta[property="og:image"]').attr('content'), 'og-image');
+
+  // Best source first, then bigger icons first
+  return candidates
+    .sort((a, b) =>
+      LOGO_SOURCE_ORDER.indexOf(a.source) - LOGO_SOURCE_ORDER.indexOf(b.source) ||
+      (b.size ?? 0) - (a.size ?? 0)
+    )
+    .slice(0, MAX_LOGOS);
+}
+
+function parseIconSize(sizes: string | undefined): number | undefined {
+  const match = sizes?.match(/(\d+)x\d+/i);
+  return match ? Number(match[1]) : undefined;
+}
+
+// ============================================================================
+// COLORS
+// ============================================================================
+
+function extractColors($: CheerioAPI, css: string): BrandColor[] {
+  const tallies = new Map<string, ColorTally>();
+
+  const tally = (hex: string, source: ColorTally['source'], variable?: string) => {
+    const existing = tallies.get(hex);
+    if (existing) {
+      existing.count++;
+      // Variables (and the theme color) beat plain usage as the reported source
+      if (source !== 'css' && existing.source === 'css') {
+        existing.source = source;
+        existing.variable = variable;
+      }
+      if (variable && !existing.variable) existing.variable = variable;
+      return;
+    }
+    tallies.set(hex, { hex, count: 1, source, variable });
+  };
+
+  for (const [property, value] of declarations(css)) {
+    const isVariable = property.startsWith('--');
+    if (!isVariable && !COLOR_PROPERTY.test(property)) continue;
+
+    for (const hex of findColors(value)) {
+      tally(hex, isVariable ? 'css-variable' : 'css', isVariable ? property : undefined);
+    }
+  }
+
+  const themeColor = findColors($('meta[name="theme-color"]').attr('content') || '')[0];
+  if (themeColor) tally(themeColor, 'theme-color');
+
+  const colors = [...tallies.values()].map(t => ({ ...t, neutral: isNeutral(t.hex) }));
+
+  const score = (color: BrandColor) =>
+    color.count +
+    (color.source === 'theme-color' ? 20 : 0) +
+    (color.variable && BRAND_VARIABLE.test(color.variable) ? 10 : 0);
+
+  const byScore = (a: BrandColor, b: BrandColor) => score(b) - score(a);
+
+  const brand = colors.filter(c => !c.neutral).sort(byScore);
+  const neutrals = colors.filter(c => c.neutral).sort(byScore).slice(0, MAX_NEUTRAL_COLORS);
+
+  return [...brand.slice(0, MAX_COLORS - neutrals.length), ...neutrals].map(c => {
+    const { hex, count, source, variable, neutral } = c;
+    return variable ? { hex, count, source, variable, neutral } : { hex, count, source, neutral };
+  });
+}
+
+/**
+ * Every color in a CSS value, normalized to #rrggbb.
+ * Mostly-transparent colors are skipped.
+ */
+function findColors(value: string): string[] {
+  const found: string[] = [];
+
+  for (const match of value.matchAll(/#([0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})\b/gi)) {
+    const hex = normalizeHex(match[1]);
+    if (hex) found.push(hex);
+  }
+
+  for (const match of value.matchAll(/\b(rgba?|hsla?)\(\s*([^)]+)\)/gi)) {
+    const hex = functionToHex(match[1].toLowerCase(), match[2]);
+    if (hex) found.push(hex);
+  }
+
+  return found;
+}
+
+function normalizeHex(digits: string): string | null {
+  let full = digits.toLowerCase();
+  if (full.length <= 4) {
+    full = full.split('').map(c => c + c).join('');
+  }
+  if (full.length === 8) {
+    if (parseInt(full.slice(6), 16) < 128) return null;
+    full = full.slice(0, 6);
+  }
+  return `#${full}`;
+}
+
+function functionToHex(name: string, args: string): string | null {
+  // Both "r, g, b, a" and "r g b / a" syntaxes
+  const parts = args.split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3 || parts.some(p => p.startsWith('var('))) return null;
+
+  const alpha = parts[3] === undefined ? 1 : parseAlpha(parts[3]);
+  if (alpha < 0.5) return null;
+
+  let rgb: number[];
+  if (name.startsWith('rgb')) {
+    rgb = parts.slice(0, 3).map(p =>
+      p.endsWith('%') ? (parseFloat(p) / 100) * 255 : parseFloat(p)
+    );
+  } else {
+    const h = parseFloat(parts[0]);
+    const s = parseFloat(parts[1]) / 100;
+    const l = parseFloat(parts[2]) / 100;
+    rgb = hslToRgb(h, s, l);
+  }
+
+  if (rgb.some(v => Number.isNaN(v))) return null;
+
+  return '#' + rgb
+    .map(v => Math.round(Math.min(255, Math.max(0, v))).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function parseAlpha(value: string): number {
+  return value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+}
+
+function hslToRgb(h: number, s: number, l: number): number[] {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return [f(0) * 255, f(8) * 255, f(4) * 255];
+}
+
+/**
+ * Grays, near-white and near-black.
+ */
+function isNeutral(hex: string): boolean {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const saturation = max === min ? 0 : (max - min) / (1 - Math.abs(2 * lightness - 1));
+
+  return saturation < 0.12 || lightness > 0.96 || lightness < 0.06;
+}
+
+// ============================================================================
+// FONTS
+// ============================================================================
+
+function extractFonts($: CheerioAPI, css: string): BrandFont[] {
+  const tallies = new Map<string, BrandFont>();
+
+  const tally = (family: string, source: BrandFont['source'], weight = 1) => {
+    const key = family.toLowerCase();
+    const existing = tallies.get(key);
+    if (existing) {
+      existing.count += weight;
+      if (source !== 'css') existing.source = source;
+      return;
+    }
+    tallies.set(key, { family, count: weight, source });
+  };
+
+  // @font-face declares the fonts the site ships
+  for (const block of css.matchAll(/@font-face\s*\{([^}]*)\}/gi)) {
+    const family = cleanFamily(block[1].match(/font-family\s*:\s*([^;]+)/i)?.[1] || '');
+    if (family && !ICON_FONT.test(family)) tally(family, 'font-face');
+  }
+
+  const withoutFontFaces = css.replace(/@font-face\s*\{[^}]*\}/gi, '');
+
+  for (const [property, value] of declarations(withoutFontFaces)) {
+    const isFontVariable = property.startsWith('--') && /font/i.test(property) &&
+      !/size|weight|height|spacing|style/i.test(property);
+
+    if (property === 'font-family' || isFontVariable) {
+      const family = primaryFamily(value);
+      if (family) tally(family, 'css');
+    }
+  }
+
+  // Google Fonts links name the families directly
+  $('link[href*="fonts.googleapis.com"]').each((_, el) => {
+    for (const family of parseGoogleFontsUrl($(el).attr('href') || '')) {
+      tally(family, 'google-fonts', 5);
+    }
+  });
+
+  return [...tallies.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_FONTS);
+}
+
+/**
+ * First real family in a font-family list (skips generics, system stacks and icon fonts).
+ */
+function primaryFamily(value: string): string | null {
+  if (value.includes('var(')) return null;
+
+  for (const raw of value.split(',')) {
+    const family = cleanFamily(raw);
+    if (!family || GENERIC_FONTS.has(family.toLowerCase()) || ICON_FONT.test(family)) continue;
+    return family;
+  }
+
+  return null;
+}
+
+function cleanFamily(raw: string): string {
+  return raw.replace(/!important/i, '').trim().replace(/^["']|["']$/g, '').trim();
+}
+
+/**
+ * Family names from a Google Fonts CSS URL (v1 "a|b" and css2 repeated params).
+ */
+function parseGoogleFontsUrl(href: string): string[] {
+  try {
+    const url = new URL(href, 'https://fonts.googleapis.com');
+    return url.searchParams.getAll('family')
+      .flatMap(value => value.split('|'))
+      .map(value => value.split(':')[0].trim())
+      .filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function stripComments(css: string): string {
+  return css.replace(/\/\*[\s\S]*?\*\//g, '');
+}
+
+/**
+ * Every `property: value` pair in a stylesheet, properties lowercased.
+ */
+function* declarations(css: string): Generator<[string, string]> {
+  for (const match of css.matchAll(/([{;]|^)\s*(--[\w-]+|[a-z-]+)\s*:\s*([^;{}]+)/gim)) {
+    const property = match[2].startsWith('--') ? match[2] : match[2].toLowerCase();
+    yield [property, match[3].trim()];
+  }
+}
+
+function resolveUrl(href: string, base: string): string | null {
+  if (!href || href.startsWith('data:')) return null;
+  try {
+    const url = new URL(href, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * HTML FILE SOURCE CONFIG
+ * ========================
+ * Configuration for pasted or uploaded HTML.
+ */
+
+import type { ScraperConfig } from '../types';
+
+export const config: ScraperConfig = {
+  id: 'html-file',
+  name: 'HTML File',
+  description: 'Parses a saved web page (pasted HTML or an uploaded .html file)',
+  input: 'text',
+};
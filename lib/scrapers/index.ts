@@ -1,14 +1,133 @@
 /**
  * SCRAPERS INDEX
  * ===============
- * Central export for all scrapers.
+ * Central export and registry for all scrapers.
+ *
+ * "Scrapers" covers every content source: the web crawlers plus manual
+ * sources (pasted text, uploaded documents, saved HTML). They all return
+ * a ScrapeResult, so the analysis pipeline doesn't care where content came from.
+ *
+ * Usage:
+ *   import { getScraper } from '@/lib/scrapers';
+ *   const result = await getScraper('web-deep').scrape({ url: 'https://example.com' });
  */
 
-// Main scraper function
-export { scrapeWebHomepage } from './web-homepage';
+import { scrapeWebHomepage } from './web-homepage';
+import { scrapeWebDeep } from './web-deep';
+import { scrapeManualText } from './manual-text';
+import { scrapeDocument } from './document';
+import { scrapeHtmlFile } from './html-file';
+import { config as webHomepageConfig } from './web-homepage/config';
+import { config as webDeepConfig } from './web-deep/config';
+import { config as manualTextConfig } from './manual-text/config';
+import { config as documentConfig } from './document/config';
+import { config as htmlFileConfig } from './html-file/config';
+import type { ScraperDefinition, ScraperType } from './types';
+import type { Brand } from '@/types';
+
+// Main scraper functions
+export { scrapeWebHomepage, scrapeWebDeep, scrapeManualText, scrapeDocument, scrapeHtmlFile };
 
 // Types
 export * from './types';
 
 // Config
-export { config as webHomepageConfig } from './web-homepage/config';
+export { webHomepageConfig, webDeepConfig, manualTextConfig, documentConfig, htmlFileConfig };
+
+// URL safety (SSRF protection)
+export { assertSafeUrl, UnsafeRequestError } from './shared/url-safety';
+
+// Request parsing (JSON or multipart uploads)
+export { readScrapeRequest, RequestBodyError } from './shared/input';
+export type { ScrapeRequestBody } from './shared/input';
+
+// Headless rendering fallback (pluggable renderer)
+export {
+  setPageRenderer,
+  getPageRenderer,
+  createBrowserRenderer,
+  createStubRenderer,
+} from './shared/render';
+export type { PageRenderer, RenderOptions, RenderedPage, BlockedResourceType } from './shared/render';
+
+// ============================================================================
+// SCRAPER REGISTRY
+// ============================================================================
+
+/**
+ * Map of all scraper definitions.
+ */
+export const scrapers: Record<ScraperType, ScraperDefinition> = {
+  'web-homepage': {
+    config: webHomepageConfig,
+    scrape: ({ url, forceRefresh, preferEnglish }) => scrapeWebHomepage(url, { forceRefresh, preferEnglish }),
+  },
+  'web-deep': {
+    config: webDeepConfig,
+    scrape: ({ url, forceRefresh, preferEnglish }) => scrapeWebDeep(url, { forceRefresh, preferEnglish }),
+  },
+  'manual-text': {
+    config: manualTextConfig,
+    scrape: scrapeManualText,
+  },
+  'document': {
+    config: documentConfig,
+    scrape: scrapeDocument,
+  },
+  'html-file': {
+    config: htmlFileConfig,
+    scrape: scrapeHtmlFile,
+  },
+};
+
+/**
+ * Scraper used when a request doesn't specify one.
+ */
+export const DEFAULT_SCRAPER_TYPE: ScraperType = 'web-homepage';
+
+/**
+ * Get a scraper definition by type.
+ *
+ * @param type - The scraper type
+ * @returns The scraper definition
+ */
+export function getScraper(type: ScraperType): ScraperDefinition {
+  const scraper = scrapers[type];
+  if (!scraper) {
+    throw new Error(`Unknown scraper: ${type}`);
+  }
+  return scraper;
+}
+
+/**
+ * Scrapers that use content supplied by the user instead of fetching the site.
+ */
+export const MANUAL_SCRAPER_TYPES: ScraperType[] = (Object.keys(scrapers) as ScraperType[])
+  .filter(type => scrapers[type].config.input !== 'url');
+
+/**
+ * Check if a string is a registered scraper type.
+ */
+export function isValidScraperType(type: string): type is ScraperType {
+  return Object.prototype.hasOwnProperty.call(scrapers, type);
+}
+
+/**
+ * Check if a scraper uses content supplied by the user (no site to re-scan).
+ */
+export function isManualScraperType(type: ScraperType): boolean {
+  return MANUAL_SCRAPER_TYPES.includes(type);
+}
+
+/**
+ * The scraper that produced a brand's content.
+ * Brands saved before this was recorded fall back to the default scraper.
+ *
+ * @example
+ * const scraperType = getBrandScraperType(brand); // 'web-deep'
+ */
+export function getBrandScraperType(brand: Pick<Brand, 'scraper_type'>): ScraperType {
+  return brand.scraper_type && isValidScraperType(brand.scraper_type)
+    ? brand.scraper_type
+    : DEFAULT_SCRAPER_TYPE;
+}
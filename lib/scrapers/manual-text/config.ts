@@ -0,0 +1,14 @@
+/**
+ * MANUAL TEXT SOURCE CONFIG
+ * ==========================
+ * Configuration for pasted brand content.
+ */
+
+import type { ScraperConfig } from '../types';
+
+export const config: ScraperConfig = {
+  id: 'manual-text',
+  name: 'Pasted Text',
+  description: 'Uses text you paste in (e.g. copied from a site that blocks scraping)',
+  input: 'text',
+};
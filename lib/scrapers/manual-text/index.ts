@@ -0,0 +1,70 @@
+/**
+ * MANUAL TEXT SOURCE
+ * ===================
+ * Turns pasted text into a ScrapeResult.
+ *
+ * Used when a site blocks scraping or sits behind a login: the user
+ * copies the content themselves and it flows into the analyzers exactly
+ * like a scraped homepage.
+ *
+ * Usage:
+ *   import { scrapeManualText } from '@/lib/scrapers/manual-text';
+ *   const result = await scrapeManualText({ url, content: pastedText });
+ */
+
+import { log } from '@/lib/utils/logger';
+import { cleanPlainText, truncateContent, MIN_CONTENT_LENGTH } from '../shared/content';
+import { startDiagnostics, finishDiagnostics } from '../shared/diagnostics';
+import { detectTextLanguage } from '../extractors/language';
+import type { ScrapeInput, ScrapeResult } from '../types';
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Build a scrape result from pasted text.
+ *
+ * @param input - Brand URL (for reference) and the pasted content
+ * @returns Cleaned content or a user-facing error
+ */
+export async function scrapeManualText(input: ScrapeInput): Promise<ScrapeResult> {
+  const { url, content } = input;
+
+  log.info('📝 Using pasted content', { url, length: content?.length ?? 0 });
+  const startTime = Date.now();
+
+  if (!content || !content.trim()) {
+    return {
+      success: false,
+      error: 'Please paste some content about the brand.',
+    };
+  }
+
+  const text = cleanPlainText(content);
+
+  if (text.length < MIN_CONTENT_LENGTH) {
+    return {
+      success: false,
+      error: `Please paste at least ${MIN_CONTENT_LENGTH} characters so there's enough to analyze.`,
+      diagnostics: finishDiagnostics(startDiagnostics(), startTime, { text }),
+    };
+  }
+
+  const finalContent = truncateContent(text);
+
+  log.success('Pasted content ready', { url, contentLength: finalContent.length });
+
+  return {
+    success: true,
+    content: finalContent,
+    diagnostics: finishDiagnostics(startDiagnostics(), startTime, { text }),
+    metadata: {
+      url,
+      scrapedAt: new Date().toISOString(),
+      contentLength: finalContent.length,
+      scraperType: 'manual-text',
+      language: detectTextLanguage(finalContent) ?? undefined,
+    },
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * SCRAPE CACHE
+ * =============
+ * Page fetching backed by the scrape_cache table.
+ *
+ * - Fresh entries (validated within the TTL) are served without a request
+ * - Stale entries are revalidated with If-None-Match / If-Modified-Since;
+ *   a 304 reuses the cached body
+ * - Everything else is fetched normally and stored with its validators
+ *   and a SHA-256 content hash
+ *
+ * The cache is best-effort: if Supabase isn't reachable, pages are simply
+ * fetched every time.
+ *
+ * Configuration:
+ *   SCRAPE_CACHE_TTL_SECONDS - how long a page is trusted without
+ *   revalidating (default 6 hours, 0 = always revalidate)
+ */
+
+import { createHash } from 'node:crypto';
+import { log } from '@/lib/utils/logger';
+import { getCachedPage, saveCachedPage, markCachedPageValidated } from '@/lib/supabase/scrape-cache';
+import { fetchText, getResponseHeaders, getCookieNames, type FetchTextOptions } from './fetch';
+import type { ScrapeCacheEntry } from '@/types';
+import type { RedirectHop } from '../types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const DEFAULT_TTL_SECONDS = 6 * 60 * 60; // 6 hours
+
+/** Bodies larger than this are fetched but not cached */
+const MAX_CACHED_BODY_LENGTH = 2 * 1024 * 1024; // ~2MB of text
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How a page was served.
+ * - hit: from cache, no request made
+ * - revalidated: server answered 304 Not Modified
+ * - miss: downloaded (and cached)
+ * - bypass: downloaded because a fresh fetch was forced
+ */
+export type CacheStatus = 'hit' | 'revalidated' | 'miss' | 'bypass';
+
+export interface CachedFetchOptions extends FetchTextOptions {
+  /** Ignore the cache and download the page */
+  forceRefresh?: boolean;
+}
+
+export interface CachedFetchResult {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  /** URL after redirects */
+  url: string;
+  /** Page body, or '' if the response was not ok */
+  text: string;
+  /** Response headers of the download (lowercase names, no Set-Cookie) */
+  headers: Record<string, string>;
+  /** Names of the cookies the download set */
+  cookies: string[];
+  /** When the body was downloaded (earlier than now for cached copies) */
+  fetchedAt: string;
+  cache: CacheStatus;
+  /** Requests made for this result, redirects first (empty for cache hits) */
+  hops: RedirectHop[];
+  /** From the first request to the final response's headers (null for cache hits) */
+  timeToFirstByteMs: number | null;
+  /** Size of the body in bytes */
+  bytes: number;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Fetch a page through the scrape cache.
+ * Same guarantees as fetchText() whenever a request is made.
+ *
+ * @param url - The URL to fetch
+ * @param options - fetchText() options plus forceRefresh
+ * @returns The page body and how it was served
+ * @throws Whatever fetchText() throws (cached hits never throw)
+ *
+ * @example
+ * const page = await fetchCachedPage(url, { timeoutMs: 10000, contentTypes: HTML_CONTENT_TYPES });
+ * if (page.ok) parse(page.text);
+ */
+export async function fetchCachedPage(
+  url: string,
+  options: CachedFetchOptions
+): Promise<CachedFetchResult> {
+  const { forceRefresh = false, ...fetchOptions } = options;
+
+  const cached = forceRefresh ? null : (await getCachedPage(url)).entry;
+
+  if (cached && Date.now() - new Date(cached.validated_at).getTime() < getCacheTtlMs()) {
+    log.debug('Scrape cache hit', { url });
+    return cachedResult(cached, 'hit');
+  }
+
+  // Ask the server whether our copy is still current
+  const headers: Record<string, string> = {};
+  if (cached?.etag) headers['If-None-Match'] = cached.etag;
+  if (cached?.last_modified) headers['If-Modified-Since'] = cached.last_modified;
+
+  const { response, text, hops, timeToFirstByteMs, bytes } = await fetchText(url, { ...fetchOptions, headers });
+
+  if (cached && response.status === 304) {
+    log.debug('Scrape cache revalidated', { url });
+    await markCachedPageValidated(url);
+    return { ...cachedResult(cached, 'revalidated'), hops, timeToFirstByteMs };
+  }
+
+  const finalUrl = response.url || url;
+  const responseHeaders = getResponseHeaders(response);
+  const cookies = getCookieNames(response);
+
+  if (response.ok && text && text.length <= MAX_CACHED_BODY_LENGTH) {
+    await saveCachedPage({
+      url,
+      final_url: finalUrl,
+      etag: response.headers.get('etag'),
+      last_modified: response.headers.get('last-modified'),
+      content_hash: hashContent(text),
+      body: text,
+      response_headers: responseHeaders,
+      cookie_names: cookies,
+    });
+  }
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    statusText: response.statusText,
+    url: finalUrl,
+    text,
+    headers: responseHeaders,
+    cookies,
+    fetchedAt: new Date().toISOString(),
+    cache: forceRefresh ? 'bypass' : 'miss',
+    hops,
+    timeToFirstByteMs,
+    bytes,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * SHA-256 of a string, as hex.
+ */
+export function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Cache TTL from SCRAPE_CACHE_TTL_SECONDS (invalid values use the default).
+ */
+export function getCacheTtlMs(): number {
+  const configured = Number(process.env.SCRAPE_CACHE_TTL_SECONDS);
+  const seconds = process.env.SCRAPE_CACHE_TTL_SECONDS && Number.isFinite(configured) && configured >= 0
+    ? configured
+    : DEFAULT_TTL_SECONDS;
+  return seconds * 1000;
+}
+
+function cachedResult(entry: ScrapeCacheEntry, cache: CacheStatus): CachedFetchResult {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    url: entry.final_url,
+    text: entry.body,
+    headers: entry.response_headers ?? {},
+    cookies: entry.cookie_names ?? [],
+    fetchedAt: entry.fetched_at,
+    cache,
+    hops: [],
+    timeToFirstByteMs: null,
+    bytes: Buffer.byteLength(entry.body),
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * SHARED CONTENT HELPERS
+ * =======================
+ * Length limits and cleanup shared by the manual content sources
+ * (pasted text, uploaded documents, pasted HTML).
+ */
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Same budget as the web scrapers (~50KB of text) */
+export const MAX_CONTENT_LENGTH = 50000;
+
+/** Less than this isn't enough to analyze */
+export const MIN_CONTENT_LENGTH = 100;
+
+/** Largest file we accept for upload */
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // 10MB
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Normalize whitespace in plain text while keeping paragraph breaks.
+ */
+export function cleanPlainText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    // Strip control characters that sneak in from PDFs and Word
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/[ \t ]+/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Truncate content to the shared budget.
+ */
+export function truncateContent(text: string): string {
+  return text.length > MAX_CONTENT_LENGTH
+    ? text.slice(0, MAX_CONTENT_LENGTH) + '\n\n[Content truncated...]'
+    : text;
+}
@@ -0,0 +1,78 @@
+/**
+ * SCRAPE DIAGNOSTICS
+ * ===================
+ * Builds the ScrapeDiagnostics every scraper attaches to its result,
+ * successful or not, so a weak analysis can be traced back to what the
+ * scrape actually saw.
+ *
+ * Usage:
+ *   let diagnostics = startDiagnostics(url);
+ *   diagnostics = { ...diagnostics, ...describeFetch(page) };
+ *   return { success: false, error, diagnostics: finishDiagnostics(diagnostics, startTime, { text }) };
+ */
+
+import { MAX_CONTENT_LENGTH } from './content';
+import type { CachedFetchResult } from './cache';
+import type { ScrapeDiagnostics } from '../types';
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Empty diagnostics for a scrape that's about to start.
+ *
+ * @param requestedUrl - URL or file name the scrape starts from
+ */
+export function startDiagnostics(requestedUrl?: string): ScrapeDiagnostics {
+  return {
+    ...(requestedUrl ? { requestedUrl } : {}),
+    hops: [],
+    extractedChars: 0,
+    truncated: false,
+    durationMs: 0,
+  };
+}
+
+/**
+ * HTTP details of the fetched start page.
+ *
+ * @param page - The page as returned by fetchCachedPage()
+ * @returns Fields to spread into the diagnostics
+ */
+export function describeFetch(page: CachedFetchResult): Partial<ScrapeDiagnostics> {
+  return {
+    finalUrl: page.url,
+    hops: page.hops,
+    status: page.status,
+    ...(page.headers['content-type'] ? { contentType: page.headers['content-type'] } : {}),
+    responseBytes: page.bytes,
+    timeToFirstByteMs: page.timeToFirstByteMs,
+    cache: page.cache,
+  };
+}
+
+/**
+ * Complete the diagnostics once the scrape is done.
+ *
+ * @param diagnostics - Diagnostics gathered so far
+ * @param startTime - When the scrape started (Date.now())
+ * @param extraction - The extracted text, plus its full length and whether it
+ *   was cut when the text passed in is already combined or truncated
+ * @returns Diagnostics with text stats, the cleaned text and the duration
+ */
+export function finishDiagnostics(
+  diagnostics: ScrapeDiagnostics,
+  startTime: number,
+  extraction: { text?: string | null; extractedChars?: number; truncated?: boolean } = {}
+): ScrapeDiagnostics {
+  const text = extraction.text ?? '';
+
+  return {
+    ...diagnostics,
+    extractedChars: extraction.extractedChars ?? text.length,
+    truncated: extraction.truncated ?? text.length > MAX_CONTENT_LENGTH,
+    ...(text ? { cleanedText: text.slice(0, MAX_CONTENT_LENGTH) } : {}),
+    durationMs: Date.now() - startTime,
+  };
+}
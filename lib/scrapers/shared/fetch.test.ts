@@ -0,0 +1,58 @@
+/**
+ * SHARED FETCH TESTS
+ * ===================
+ * The headers every scrape request sends, and the byte limit on bodies.
+ *
+ * DNS and fetch are stubbed, so nothing here touches the network.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { lookup } from 'node:dns/promises';
+import { fetchText, readTextWithLimit, USER_AGENT } from './fetch';
+
+vi.mock('node:dns/promises', () => ({ lookup: vi.fn() }));
+
+vi.mocked(lookup).mockResolvedValue([{ address: '93.184.215.14', family: 4 }] as never);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchText', () => {
+  it('sends the bot user agent and no Accept-Language', async () => {
+    const fetchMock = vi.fn(async () => new Response('<h1>Acme</h1>', { headers: { 'content-type': 'text/html' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { text } = await fetchText('https://acme.example.com/', {
+      timeoutMs: 1000,
+      hostIntervalMs: 0,
+      headers: { 'If-None-Match': '"v1"' },
+    });
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = new Headers(init.headers);
+    expect(text).toBe('<h1>Acme</h1>');
+    expect(headers.get('user-agent')).toBe(USER_AGENT);
+    expect(headers.get('if-none-match')).toBe('"v1"');
+    expect(headers.has('accept-language')).toBe(false);
+  });
+});
+
+describe('readTextWithLimit', () => {
+  it('decodes the body with the response charset', async () => {
+    const body = new Uint8Array([0x63, 0x61, 0x66, 0xe9]); // "café" in latin1
+    const response = new Response(body, { headers: { 'content-type': 'text/html; charset=iso-8859-1' } });
+
+    expect(await readTextWithLimit(response, 100)).toEqual({ text: 'café', bytes: 4 });
+  });
+
+  it('counts bytes, not characters', async () => {
+    await expect(readTextWithLimit(new Response('€€€€'), 10)).rejects.toMatchObject({ reason: 'too-large' });
+  });
+
+  it('refuses a declared length over the limit without reading the body', async () => {
+    const response = new Response('short', { headers: { 'content-length': '5000' } });
+
+    await expect(readTextWithLimit(response, 100)).rejects.toMatchObject({ reason: 'too-large' });
+  });
+});
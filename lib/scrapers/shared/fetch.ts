@@ -0,0 +1,397 @@
+/**
+ * SHARED FETCH HELPERS
+ * =====================
+ * HTTP helpers used by every web scraper.
+ * Keeps the user agent, default headers, safety checks, and error
+ * messages consistent.
+ *
+ * Every request:
+ * - Validates the URL (see url-safety.ts) before connecting, and connects
+ *   only to the addresses that were checked (no second DNS lookup to rebind)
+ * - Follows redirects manually, re-validating each hop
+ * - Enforces a maximum response size while streaming the body
+ * - Checks the response content type
+ * - Waits for the host's rate-limit slot (see rate-limit.ts)
+ */
+
+import { isIP, type LookupFunction } from 'node:net';
+import { Agent } from 'undici';
+import { log } from '@/lib/utils/logger';
+import { normalizeHostname, resolveSafeUrl, UnsafeRequestError } from './url-safety';
+import { waitForHostSlot, DEFAULT_HOST_INTERVAL_MS } from './rate-limit';
+import type { RedirectHop } from '../types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const USER_AGENT =
+  'Mozilla/5.0 (compatible; CleverKitBot/1.0; +https://thecleverkit.com/bot)';
+
+/**
+ * No Accept-Language: pages are cached by URL, so every brand must get the
+ * site's default version (English is reached through hreflang instead)
+ */
+const DEFAULT_HEADERS: Record<string, string> = {
+  'User-Agent': USER_AGENT,
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+};
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/** Default body size limit (5MB - far beyond any real homepage) */
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+
+/** Content types accepted as web pages */
+export const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+/** Content types accepted for sitemaps */
+export const XML_CONTENT_TYPES = ['application/xml', 'text/xml', 'text/plain'];
+
+/** Content types accepted for RSS / Atom feeds */
+export const FEED_CONTENT_TYPES = ['application/rss+xml', 'application/atom+xml', ...XML_CONTENT_TYPES];
+
+/** Content types accepted for stylesheets (some servers send text/plain) */
+export const CSS_CONTENT_TYPES = ['text/css', 'text/plain'];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FetchTextOptions {
+  timeoutMs: number;
+  /** Abort once the body exceeds this many bytes (default 5MB) */
+  maxBytes?: number;
+  /** Accepted content types (substring match). Missing header is allowed. */
+  contentTypes?: string[];
+  /** Gap before the next request to this host (default 1s, 0 to skip the limiter) */
+  hostIntervalMs?: number;
+  /** Give up (without requesting) if the host's slot starts after this timestamp; also caps the timeout */
+  deadline?: number;
+  /** Extra request headers (e.g. conditional request validators) */
+  headers?: Record<string, string>;
+}
+
+export interface FetchTextResult {
+  /** Final response (after redirects). Body already consumed. */
+  response: Response;
+  /** Decoded body, or '' if the response was not ok */
+  text: string;
+  /** Every request made, redirects first and the final response last */
+  hops: RedirectHop[];
+  /** From the first request to the final response's headers */
+  timeToFirstByteMs: number;
+  /** Size of the body as downloaded */
+  bytes: number;
+}
+
+// ============================================================================
+// FETCH
+// ============================================================================
+
+/**
+ * Fetch a URL and read its body as text, within time and size limits.
+ * The timeout starts once the host's rate-limit slot arrives and covers
+ * redirects and the body download (never running past the deadline).
+ *
+ * @param url - The URL to fetch
+ * @param options - Timeout, size limit and accepted content types
+ * @returns The final response, its text, and the redirect chain and timings
+ * @throws UnsafeRequestError for unsafe URLs, oversized bodies or wrong content types
+ * @throws Error if the host's rate-limit slot would miss the deadline
+ *
+ * @example
+ * const { response, text } = await fetchText(url, {
+ *   timeoutMs: 10000,
+ *   contentTypes: HTML_CONTENT_TYPES,
+ * });
+ */
+export async function fetchText(
+  url: string,
+  options: FetchTextOptions
+): Promise<FetchTextResult> {
+  const {
+    timeoutMs,
+    maxBytes = DEFAULT_MAX_BYTES,
+    contentTypes,
+    hostIntervalMs = DEFAULT_HOST_INTERVAL_MS,
+    deadline,
+    headers,
+  } = options;
+
+  if (hostIntervalMs > 0) {
+    const host = getHostname(url);
+    if (host && !(await waitForHostSlot(host, hostIntervalMs, deadline))) {
+      throw new Error('Crawl budget exhausted while waiting for rate limit');
+    }
+  }
+
+  // Within a crawl, the request only gets what's left of the budget
+  const budgetMs = deadline !== undefined ? Math.min(timeoutMs, deadline - Date.now()) : timeoutMs;
+  if (budgetMs <= 0) {
+    throw new Error('Crawl budget exhausted before the request');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), budgetMs);
+
+  // Hostname -> addresses checked for it; the only answers the agent's DNS lookup gives
+  const checkedAddresses = new Map<string, string[]>();
+  const dispatcher = new Agent({ connect: { lookup: createCheckedLookup(checkedAddresses) } });
+
+  try {
+    const startTime = Date.now();
+    const { response, hops } = await fetchFollowingRedirects(
+      url,
+      controller.signal,
+      dispatcher,
+      checkedAddresses,
+      headers
+    );
+    const timeToFirstByteMs = Date.now() - startTime;
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return { response, text: '', hops, timeToFirstByteMs, bytes: 0 };
+    }
+
+    if (contentTypes) {
+      assertContentType(response, contentTypes);
+    }
+
+    const { text, bytes } = await readTextWithLimit(response, maxBytes);
+    return { response, text, hops, timeToFirstByteMs, bytes };
+  } catch (error) {
+    if (error instanceof UnsafeRequestError) {
+      log.warn('Blocked unsafe request', { url, reason: error.reason, detail: error.detail });
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    // The body has been read or cancelled by now
+    dispatcher.destroy().catch(() => {});
+  }
+}
+
+// ============================================================================
+// RESPONSE DETAILS
+// ============================================================================
+
+/**
+ * Response headers as a plain object with lowercase names.
+ * Set-Cookie is left out - see getCookieNames().
+ *
+ * @example
+ * getResponseHeaders(response)['x-powered-by'] // -> 'Next.js'
+ */
+export function getResponseHeaders(response: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (name !== 'set-cookie') headers[name] = value;
+  });
+  return headers;
+}
+
+/**
+ * Names of the cookies a response sets (values are dropped).
+ *
+ * @example
+ * getCookieNames(response) // -> ['_shopify_y', 'cart_currency']
+ */
+export function getCookieNames(response: Response): string[] {
+  const names = response.headers
+    .getSetCookie()
+    .map(cookie => cookie.split('=')[0].trim())
+    .filter(Boolean);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Read a body as text, aborting once it exceeds maxBytes.
+ * Counts bytes as they arrive, so an oversized body is never buffered whole.
+ *
+ * @param response - Response whose body hasn't been read
+ * @param maxBytes - Largest body accepted
+ * @returns The decoded text (using the response's charset) and its size in bytes
+ * @throws UnsafeRequestError 'too-large' once the body exceeds maxBytes
+ *
+ * @example
+ * const { text } = await readTextWithLimit(response, 5 * 1024 * 1024);
+ */
+export async function readTextWithLimit(
+  response: Response,
+  maxBytes: number
+): Promise<{ text: string; bytes: number }> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw new UnsafeRequestError('too-large', `content-length ${declared}`);
+  }
+
+  if (!response.body) return { text: '', bytes: 0 };
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new UnsafeRequestError('too-large', `more than ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const text = new TextDecoder(getCharset(response)).decode(concatChunks(chunks, received));
+  return { text, bytes: received };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Follow redirects by hand so each hop is validated before we connect.
+ * Connections go through an agent that only knows the checked addresses.
+ */
+async function fetchFollowingRedirects(
+  url: string,
+  signal: AbortSignal,
+  dispatcher: Agent,
+  checkedAddresses: Map<string, string[]>,
+  headers: Record<string, string> = {}
+): Promise<{ response: Response; hops: RedirectHop[] }> {
+  let currentUrl = url;
+  const hops: RedirectHop[] = [];
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const { hostname, addresses } = await resolveSafeUrl(currentUrl);
+    checkedAddresses.set(hostname, addresses);
+
+    // Node's fetch takes an undici dispatcher; the DOM RequestInit type doesn't list it
+    const response = await fetch(currentUrl, {
+      signal,
+      headers: { ...DEFAULT_HEADERS, ...headers },
+      redirect: 'manual',
+      dispatcher,
+    } as RequestInit);
+
+    hops.push({ url: currentUrl, status: response.status });
+
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      return { response, hops };
+    }
+
+    await response.body?.cancel();
+
+    const nextUrl = new URL(location, currentUrl).toString();
+    log.debug('Following redirect', { from: currentUrl, to: nextUrl, status: response.status });
+    currentUrl = nextUrl;
+  }
+
+  throw new UnsafeRequestError('too-many-redirects', url);
+}
+
+/**
+ * DNS lookup that answers only with addresses resolveSafeUrl() checked.
+ * Hosts that weren't checked fail instead of being resolved.
+ */
+function createCheckedLookup(checkedAddresses: Map<string, string[]>): LookupFunction {
+  return (hostname, options, callback) => {
+    const addresses = checkedAddresses.get(normalizeHostname(hostname));
+
+    if (!addresses?.length) {
+      const error = new UnsafeRequestError('dns-failure', `${hostname} was not checked`);
+      callback(error as NodeJS.ErrnoException, '', 4);
+      return;
+    }
+
+    const family = options.family === 'IPv4' ? 4 : options.family === 'IPv6' ? 6 : options.family;
+    const matching = family ? addresses.filter(address => isIP(address) === family) : addresses;
+    const candidates = matching.length > 0 ? matching : addresses;
+
+    if (options.all) {
+      const all = candidates.map(address => ({ address, family: isIP(address) }));
+      (callback as (err: null, addresses: { address: string; family: number }[]) => void)(null, all);
+    } else {
+      callback(null, candidates[0], isIP(candidates[0]));
+    }
+  };
+}
+
+/**
+ * Refuse responses that aren't the kind of document we asked for.
+ */
+function assertContentType(response: Response, allowed: string[]): void {
+  const contentType = (response.headers.get('content-type') || '').toLowerCase();
+  if (!contentType) return;
+
+  if (!allowed.some(type => contentType.includes(type))) {
+    throw new UnsafeRequestError('unsupported-content-type', contentType);
+  }
+}
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+function getCharset(response: Response): string {
+  const match = (response.headers.get('content-type') || '').match(/charset=["']?([\w-]+)/i);
+  const charset = match?.[1]?.toLowerCase() || 'utf-8';
+
+  try {
+    new TextDecoder(charset);
+    return charset;
+  } catch {
+    return 'utf-8';
+  }
+}
+
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
+
+// ============================================================================
+// ERROR HANDLING
+// ============================================================================
+
+/**
+ * Convert a thrown fetch error into a user-facing message.
+ *
+ * @param error - Whatever was thrown by fetch
+ * @returns A message safe to show in the UI
+ */
+export function describeFetchError(error: unknown): string {
+  if (error instanceof UnsafeRequestError) {
+    return error.message;
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const name = error instanceof Error ? error.name : '';
+
+  if (message.includes('timeout') || message.includes('AbortError') || name === 'AbortError') {
+    return 'Website took too long to respond. Please try again.';
+  }
+
+  if (message.includes('ENOTFOUND') || message.includes('getaddrinfo')) {
+    return 'Could not find this website. Please check the URL.';
+  }
+
+  return `Failed to scrape website: ${message}`;
+}
@@ -0,0 +1,124 @@
+/**
+ * SCRAPE REQUEST PARSING TESTS
+ * =============================
+ * Body limits are enforced while the body streams in, not after it has
+ * been buffered.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { readScrapeRequest, RequestBodyError } from './input';
+import { MAX_UPLOAD_BYTES } from './content';
+
+const URL = 'https://app.example/api/brands/analyze';
+
+/** A request whose body arrives in chunks, optionally with a (false) Content-Length */
+function streamedRequest(
+  chunks: Uint8Array[],
+  headers: Record<string, string>
+): { request: Request; pulled: () => number } {
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < chunks.length) controller.enqueue(chunks[index++]);
+      else controller.close();
+    },
+  });
+
+  const request = new Request(URL, { method: 'POST', body, headers, duplex: 'half' } as RequestInit);
+  return { request, pulled: () => index };
+}
+
+async function formRequest(form: FormData): Promise<Request> {
+  const encoded = new Request(URL, { method: 'POST', body: form });
+  const body = new Uint8Array(await encoded.arrayBuffer());
+
+  return new Request(URL, {
+    method: 'POST',
+    body,
+    headers: {
+      'content-type': encoded.headers.get('content-type') ?? '',
+      'content-length': String(body.byteLength),
+    },
+  });
+}
+
+function expectRefused(promise: Promise<unknown>, status: number) {
+  return expect(promise).rejects.toSatisfy(
+    error => error instanceof RequestBodyError && error.status === status
+  );
+}
+
+describe('readScrapeRequest', () => {
+  it('reads a multipart upload', async () => {
+    const form = new FormData();
+    form.set('url', 'https://acme.example');
+    form.set('scraperType', 'document');
+    form.set('file', new File(['hello'], 'notes.txt', { type: 'text/plain' }));
+
+    const body = await readScrapeRequest(await formRequest(form));
+
+    expect(body.url).toBe('https://acme.example');
+    expect(body.scraperType).toBe('document');
+    expect(body.file?.name).toBe('notes.txt');
+    expect(body.file?.data.byteLength).toBe(5);
+  });
+
+  it('reads a JSON body', async () => {
+    const json = JSON.stringify({ url: 'https://acme.example', forceRefresh: true });
+    const request = new Request(URL, {
+      method: 'POST',
+      body: json,
+      headers: { 'content-type': 'application/json', 'content-length': String(json.length) },
+    });
+
+    expect(await readScrapeRequest(request)).toEqual({ url: 'https://acme.example', forceRefresh: true });
+  });
+
+  it('refuses a declared Content-Length over the limit without reading the body', async () => {
+    const { request, pulled } = streamedRequest([new Uint8Array(10)], {
+      'content-type': 'multipart/form-data; boundary=x',
+      'content-length': String(MAX_UPLOAD_BYTES * 2),
+    });
+
+    await expectRefused(readScrapeRequest(request), 413);
+    expect(pulled()).toBe(0);
+  });
+
+  it('refuses a chunked upload without a Content-Length', async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    const { request } = streamedRequest(Array(20).fill(chunk), {
+      'content-type': 'multipart/form-data; boundary=x',
+    });
+
+    await expectRefused(readScrapeRequest(request), 411);
+  });
+
+  it('stops reading an upload that outgrows its Content-Length', async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    const { request, pulled } = streamedRequest(Array(20).fill(chunk), {
+      'content-type': 'multipart/form-data; boundary=x',
+      'content-length': '1000',
+    });
+
+    await expectRefused(readScrapeRequest(request), 413);
+    expect(pulled()).toBeLessThan(20);
+  });
+
+  it('refuses an oversized JSON body', async () => {
+    const chunk = new TextEncoder().encode(`{"content": "${'a'.repeat(512 * 1024)}`);
+    const { request, pulled } = streamedRequest(Array(6).fill(chunk), {
+      'content-type': 'application/json',
+      'content-length': '100',
+    });
+
+    await expectRefused(readScrapeRequest(request), 413);
+    expect(pulled()).toBeLessThan(6);
+  });
+
+  it('refuses a file over the limit', async () => {
+    const form = new FormData();
+    form.set('file', new File([new Uint8Array(MAX_UPLOAD_BYTES + 1)], 'big.pdf', { type: 'application/pdf' }));
+
+    await expect(readScrapeRequest(await formRequest(form))).rejects.toThrow('This file is too large. The limit is 10MB.');
+  });
+});
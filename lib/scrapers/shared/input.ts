@@ -0,0 +1,187 @@
+/**
+ * SCRAPE REQUEST PARSING
+ * =======================
+ * Reads scrape requests sent either as JSON (website URL, pasted text)
+ * or as multipart form data (file uploads).
+ *
+ * Bodies are read through a byte counter that stops at the limit
+ * (MAX_UPLOAD_BYTES plus room for the other fields for uploads, 1MB for
+ * JSON), so an oversized body is never buffered whole - whatever its
+ * Content-Length says. Requests without a Content-Length (chunked
+ * uploads) are refused outright. Callers should authenticate first.
+ */
+
+import { MAX_UPLOAD_BYTES } from './content';
+import type { ScrapeFile, ScraperType } from '../types';
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Why a request body was refused. Each reason has its own HTTP status
+ * and user-facing message.
+ */
+export type RequestBodyReason = 'length-required' | 'body-too-large' | 'file-too-large';
+
+const REASON_STATUS: Record<RequestBodyReason, 411 | 413> = {
+  'length-required': 411,
+  'body-too-large': 413,
+  'file-too-large': 413,
+};
+
+const REASON_MESSAGES: Record<RequestBodyReason, string> = {
+  'length-required': 'This request is missing its Content-Length. Please try again.',
+  'body-too-large': 'This request is too large.',
+  'file-too-large': `This file is too large. The limit is ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB.`,
+};
+
+/**
+ * Thrown when a request body can't be accepted.
+ * `message` is safe to show to users; `status` is the HTTP status to return.
+ */
+export class RequestBodyError extends Error {
+  readonly reason: RequestBodyReason;
+  readonly status: 411 | 413;
+
+  constructor(reason: RequestBodyReason) {
+    super(REASON_MESSAGES[reason]);
+    this.name = 'RequestBodyError';
+    this.reason = reason;
+    this.status = REASON_STATUS[reason];
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Room for the other form fields (pasted content is capped well below this) */
+const MAX_FORM_OVERHEAD_BYTES = 1024 * 1024;
+
+/** Largest multipart body: the file plus the other fields */
+const MAX_FORM_BYTES = MAX_UPLOAD_BYTES + MAX_FORM_OVERHEAD_BYTES;
+
+/** Largest JSON body (a URL, options and pasted content) */
+const MAX_JSON_BYTES = 1024 * 1024;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScrapeRequestBody {
+  url?: string;
+  /** Existing brand (when adding a source to a brand) */
+  brandId?: string;
+  isOwnBrand?: boolean;
+  scraperType?: ScraperType;
+  /** Pasted text or HTML for manual sources */
+  content?: string;
+  /** Uploaded file for document / HTML file sources */
+  file?: ScrapeFile;
+  /** Bypass the scrape cache */
+  forceRefresh?: boolean;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Read a scrape request body.
+ *
+ * Form fields: url, brandId, isOwnBrand and forceRefresh ('true'/'false'),
+ * scraperType, content, file.
+ *
+ * @param request - The incoming request
+ * @returns Parsed body (fields are not yet validated)
+ * @throws RequestBodyError if the body has no Content-Length, or the
+ *   body or file is over its limit
+ */
+export async function readScrapeRequest(request: Request): Promise<ScrapeRequestBody> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (!contentType.includes('multipart/form-data')) {
+    const body = await readBodyWithLimit(request, MAX_JSON_BYTES, 'body-too-large');
+    return JSON.parse(new TextDecoder().decode(body)) as ScrapeRequestBody;
+  }
+
+  const body = await readBodyWithLimit(request, MAX_FORM_BYTES, 'file-too-large');
+  const form = await new Response(body, { headers: { 'content-type': contentType } }).formData();
+  const field = (name: string) => {
+    const value = form.get(name);
+    return typeof value === 'string' && value ? value : undefined;
+  };
+
+  const upload = form.get('file');
+  if (upload instanceof File && upload.size > MAX_UPLOAD_BYTES) {
+    throw new RequestBodyError('file-too-large');
+  }
+
+  const file = upload instanceof File && upload.size > 0
+    ? { name: upload.name, type: upload.type, data: await upload.arrayBuffer() }
+    : undefined;
+
+  return {
+    url: field('url'),
+    brandId: field('brandId'),
+    isOwnBrand: field('isOwnBrand') === 'true',
+    scraperType: field('scraperType') as ScraperType | undefined,
+    content: field('content'),
+    file,
+    forceRefresh: field('forceRefresh') === 'true',
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Read the whole body, giving up as soon as it passes `maxBytes`
+ * (a Content-Length can understate the body).
+ *
+ * @param tooLarge - Reason to throw when the body is over the limit
+ */
+async function readBodyWithLimit(
+  request: Request,
+  maxBytes: number,
+  tooLarge: RequestBodyReason
+): Promise<Uint8Array<ArrayBuffer>> {
+  const declared = request.headers.get('content-length');
+  if (declared === null) {
+    await request.body?.cancel();
+    throw new RequestBodyError('length-required');
+  }
+
+  if (Number(declared) > maxBytes) {
+    await request.body?.cancel();
+    throw new RequestBodyError(tooLarge);
+  }
+
+  if (!request.body) return new Uint8Array(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new RequestBodyError(tooLarge);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
@@ -0,0 +1,81 @@
+/**
+ * PER-HOST RATE LIMITER
+ * ======================
+ * Spaces out requests to the same host so we never hammer a site,
+ * even when several analyses crawl it at once.
+ *
+ * Each host gets a "next free slot" timestamp. Callers reserve the next
+ * slot and sleep until it arrives. State is per server process, which
+ * covers concurrent analyses handled by the same instance.
+ */
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Default gap between requests to one host (robots.txt Crawl-delay overrides) */
+export const DEFAULT_HOST_INTERVAL_MS = 1000;
+
+/** Forget hosts that haven't been hit for this long */
+const IDLE_HOST_TTL_MS = 10 * 60 * 1000;
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+/** host -> timestamp when the next request may start */
+const nextSlots = new Map<string, number>();
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Wait for this host's next request slot.
+ *
+ * @param host - Hostname (www. is ignored so both variants share a slot)
+ * @param intervalMs - Minimum gap after this request before the next one
+ * @param deadline - Optional timestamp; if the slot would start after it,
+ *                   nothing is reserved and false is returned
+ * @returns true once the slot has arrived, false if it would miss the deadline
+ *
+ * @example
+ * if (await waitForHostSlot('example.com', 2000, deadline)) {
+ *   await fetch(...);
+ * }
+ */
+export async function waitForHostSlot(
+  host: string,
+  intervalMs: number,
+  deadline?: number
+): Promise<boolean> {
+  const key = host.replace(/^www\./, '').toLowerCase();
+  const now = Date.now();
+  const slot = Math.max(now, nextSlots.get(key) ?? 0);
+
+  if (deadline !== undefined && slot > deadline) {
+    return false;
+  }
+
+  // Reserve synchronously so concurrent callers queue behind us
+  nextSlots.set(key, slot + intervalMs);
+  pruneIdleHosts(now);
+
+  if (slot > now) {
+    await new Promise(resolve => setTimeout(resolve, slot - now));
+  }
+
+  return true;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function pruneIdleHosts(now: number): void {
+  for (const [host, slot] of nextSlots) {
+    if (slot + IDLE_HOST_TTL_MS < now) {
+      nextSlots.delete(host);
+    }
+  }
+}
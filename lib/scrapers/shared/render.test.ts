@@ -0,0 +1,117 @@
+/**
+ * HEADLESS RENDERING TESTS
+ * =========================
+ * renderPage() with the stub renderer (including a browser that ends up
+ * somewhere private), and the browser service renderer against a stubbed
+ * fetch: the page it returns, failed pages and the size limit.
+ *
+ * DNS is stubbed, so nothing here touches the network.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { lookup } from 'node:dns/promises';
+import { createBrowserRenderer, createStubRenderer, renderPage, setPageRenderer } from './render';
+
+vi.mock('node:dns/promises', () => ({ lookup: vi.fn() }));
+
+const PAGE_URL = 'https://spa.example.com/';
+const RENDERED_HTML = '<html><body><h1>Acme</h1><p>Rendered by scripts.</p></body></html>';
+
+/** Answer every DNS lookup with a public address, except intranet hosts */
+vi.mocked(lookup).mockImplementation((async (hostname: string) => [
+  { address: hostname.startsWith('intranet.') ? '10.0.0.8' : '93.184.215.14', family: 4 },
+]) as never);
+
+afterEach(() => {
+  setPageRenderer(undefined);
+  vi.unstubAllGlobals();
+});
+
+describe('renderPage', () => {
+  it('returns the page from the configured renderer', async () => {
+    setPageRenderer(createStubRenderer({ [PAGE_URL]: RENDERED_HTML }));
+
+    expect(await renderPage(PAGE_URL, { hostIntervalMs: 0 })).toEqual({ url: PAGE_URL, html: RENDERED_HTML });
+  });
+
+  it('returns null when no renderer is configured', async () => {
+    setPageRenderer(null);
+
+    expect(await renderPage(PAGE_URL, { hostIntervalMs: 0 })).toBeNull();
+  });
+
+  it('returns null when the renderer fails', async () => {
+    setPageRenderer(createStubRenderer({}));
+
+    expect(await renderPage(PAGE_URL, { hostIntervalMs: 0 })).toBeNull();
+  });
+
+  it('discards a page the browser was redirected to a private host for', async () => {
+    setPageRenderer(createStubRenderer({
+      [PAGE_URL]: { url: 'http://intranet.example.com/admin', html: RENDERED_HTML },
+    }));
+
+    expect(await renderPage(PAGE_URL, { hostIntervalMs: 0 })).toBeNull();
+  });
+
+  it('keeps a page the browser was redirected to on a public host', async () => {
+    setPageRenderer(createStubRenderer({
+      [PAGE_URL]: { url: 'https://www.spa.example.com/', html: RENDERED_HTML },
+    }));
+
+    expect((await renderPage(PAGE_URL, { hostIntervalMs: 0 }))?.url).toBe('https://www.spa.example.com/');
+  });
+
+  it('never hands a private URL to the renderer', async () => {
+    const renderer = createStubRenderer({ 'http://169.254.169.254/': RENDERED_HTML });
+    const render = vi.spyOn(renderer, 'render');
+    setPageRenderer(renderer);
+
+    expect(await renderPage('http://169.254.169.254/', { hostIntervalMs: 0 })).toBeNull();
+    expect(render).not.toHaveBeenCalled();
+  });
+
+  it('skips rendering once the deadline has passed', async () => {
+    setPageRenderer(createStubRenderer({ [PAGE_URL]: RENDERED_HTML }));
+
+    expect(await renderPage(PAGE_URL, { hostIntervalMs: 0, deadline: Date.now() - 1 })).toBeNull();
+  });
+});
+
+describe('createBrowserRenderer', () => {
+  const renderer = createBrowserRenderer({ endpoint: 'http://localhost:3000', token: 'secret' });
+
+  it('posts the page to the service and returns its HTML and final URL', async () => {
+    const fetchMock = vi.fn(async () => new Response(RENDERED_HTML, {
+      headers: { 'content-type': 'text/html; charset=utf-8', 'x-response-url': 'https://www.spa.example.com/' },
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const page = await renderer.render(PAGE_URL, { timeoutMs: 1000 });
+
+    expect(page).toEqual({ url: 'https://www.spa.example.com/', html: RENDERED_HTML });
+    expect(String((fetchMock.mock.calls[0] as unknown[])[0])).toBe('http://localhost:3000/content?token=secret');
+  });
+
+  it('fails when the page itself responded with an error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('<h1>Not found</h1>', {
+      headers: { 'x-response-code': '404' },
+    })));
+
+    await expect(renderer.render(PAGE_URL, { timeoutMs: 1000 })).rejects.toThrow('Page responded 404');
+  });
+
+  it('fails when the service responds with an error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('busy', { status: 503, statusText: 'Service Unavailable' })));
+
+    await expect(renderer.render(PAGE_URL, { timeoutMs: 1000 })).rejects.toThrow('Render service responded 503');
+  });
+
+  it('refuses HTML over the size limit in bytes', async () => {
+    // 2 million three-byte characters: under the limit in characters, over it in bytes
+    const html = '€'.repeat(2_000_000);
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(html, { headers: { 'content-type': 'text/html' } })));
+
+    await expect(renderer.render(PAGE_URL, { timeoutMs: 1000 })).rejects.toThrow('too large');
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * HEADLESS RENDERING
+ * ===================
+ * Fallback for JavaScript-only sites (React / Vue SPAs) whose HTML is an
+ * empty shell until scripts run.
+ *
+ * Scrapers fetch pages statically first. When that yields too little
+ * text they call renderPage(), which hands the URL to the configured
+ * PageRenderer and returns the rendered HTML.
+ *
+ * Renderers:
+ * - Headless browser service: any Browserless-compatible /content endpoint
+ *   (hosted, or a local Docker container)
+ * - Stub: fixed HTML per URL, for local development and tests
+ *
+ * Rendered pages don't go through the scrape cache.
+ *
+ * The browser follows redirects, meta refreshes and script navigations on
+ * its own, so the page it ends up on is checked again (assertSafeUrl) and
+ * discarded if it's private. The browser service also refuses requests to
+ * private IP literals and internal hostnames, but it can't see where a
+ * public hostname resolves: run it in a network without access to internal
+ * hosts or cloud metadata endpoints.
+ *
+ * Configuration:
+ *   HEADLESS_RENDER_URL - base URL of the rendering service (unset = no fallback)
+ *   HEADLESS_RENDER_TOKEN - API token for the service (optional)
+ *   HEADLESS_RENDER_TIMEOUT_MS - per-page render timeout (default 20000)
+ */
+
+import { log } from '@/lib/utils/logger';
+import { readTextWithLimit, USER_AGENT } from './fetch';
+import { assertSafeUrl } from './url-safety';
+import { waitForHostSlot, DEFAULT_HOST_INTERVAL_MS } from './rate-limit';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const DEFAULT_RENDER_TIMEOUT_MS = 20000;
+
+/** Extra time for the service to respond after its own navigation timeout */
+const SERVICE_OVERHEAD_MS = 5000;
+
+/** Rendered HTML larger than this is refused (matches the fetch limit) */
+const MAX_RENDERED_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Requests the browser service refuses (regexes on the request URL):
+ * internal hostnames, private and link-local IPv4 literals, IPv6 literals.
+ * Covers navigations too, so a redirect to one of these fails the page.
+ */
+const PRIVATE_REQUEST_PATTERNS = [
+  '^[a-z]+://([^/?#]*@)?(localhost|[^/?#:]*\\.(localhost|local|internal|home\\.arpa))\\.?(:\\d+)?([/?#]|$)',
+  '^[a-z]+://([^/?#]*@)?(0|10|127)\\.\\d+\\.\\d+\\.\\d+',
+  '^[a-z]+://([^/?#]*@)?(169\\.254|192\\.168|172\\.(1[6-9]|2\\d|3[01])|100\\.(6[4-9]|[7-9]\\d|1[01]\\d|12[0-7]))\\.\\d+\\.\\d+',
+  '^[a-z]+://([^/?#]*@)?\\[',
+];
+
+/** Requests the browser skips by default - none of them add text */
+export const DEFAULT_BLOCKED_RESOURCES: BlockedResourceType[] = ['image', 'media', 'font'];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Browser request types that can be blocked while rendering
+ * (Chrome DevTools resource types).
+ */
+export type BlockedResourceType = 'image' | 'media' | 'font' | 'stylesheet' | 'websocket' | 'other';
+
+export interface RenderOptions {
+  /** Give up on the page after this long */
+  timeoutMs: number;
+  /** Request types the browser skips (default images, media and fonts) */
+  blockResources?: BlockedResourceType[];
+}
+
+export interface RenderedPage {
+  /** URL after redirects (the requested URL if the renderer can't tell) */
+  url: string;
+  /** HTML of the DOM once scripts have run */
+  html: string;
+}
+
+/**
+ * Something that can turn a URL into scripted HTML.
+ * Implement this to plug in another browser or service.
+ */
+export interface PageRenderer {
+  /** Shown in logs */
+  name: string;
+  /**
+   * @throws Error if the page can't be rendered
+   */
+  render(url: string, options: RenderOptions): Promise<RenderedPage>;
+}
+
+export interface RenderPageOptions {
+  /** Render timeout (default HEADLESS_RENDER_TIMEOUT_MS) */
+  timeoutMs?: number;
+  blockResources?: BlockedResourceType[];
+  /** Gap before the request to this host (default 1s) */
+  hostIntervalMs?: number;
+  /** Skip rendering if the host's slot starts after this timestamp */
+  deadline?: number;
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+/** Renderer set with setPageRenderer() (undefined = use the environment) */
+let rendererOverride: PageRenderer | null | undefined;
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Render a page with the configured renderer.
+ * Failures are non-fatal - callers keep the static HTML.
+ *
+ * @param url - The page to render (checked for SSRF like fetched pages,
+ *   and so is the URL the browser ends up on)
+ * @param options - Timeout, blocked resources, rate limit and deadline
+ * @returns The rendered page, or null if no renderer is configured or rendering failed
+ *
+ * @example
+ * const rendered = await renderPage(response.url, { hostIntervalMs: getHostInterval(robots) });
+ * if (rendered) html = rendered.html;
+ */
+export async function renderPage(
+  url: string,
+  options: RenderPageOptions = {}
+): Promise<RenderedPage | null> {
+  const renderer = getPageRenderer();
+  if (!renderer) {
+    log.debug('No headless renderer configured', { url });
+    return null;
+  }
+
+  const {
+    blockResources = DEFAULT_BLOCKED_RESOURCES,
+    hostIntervalMs = DEFAULT_HOST_INTERVAL_MS,
+    deadline,
+  } = options;
+
+  try {
+    // The service connects to the site, but the URL is still ours to vet
+    await assertSafeUrl(url);
+
+    if (hostIntervalMs > 0 && !(await waitForHostSlot(new URL(url).hostname, hostIntervalMs, deadline))) {
+      log.warn('Skipped headless render - out of time', { url });
+      return null;
+    }
+
+    // Within a crawl, rendering only gets what's left of the budget
+    const timeoutMs = Math.min(
+      options.timeoutMs ?? getRenderTimeoutMs(),
+      deadline ? deadline - Date.now() : Infinity
+    );
+    if (timeoutMs <= 0) {
+      log.warn('Skipped headless render - out of time', { url });
+      return null;
+    }
+
+    log.info('Rendering page with headless browser', { url, renderer: renderer.name });
+    const startTime = Date.now();
+
+    const rendered = await renderer.render(url, { timeoutMs, blockResources });
+
+    // The browser may have been redirected or navigated somewhere private
+    if (rendered.url !== url) {
+      await assertSafeUrl(rendered.url);
+    }
+
+    log.success('Page rendered', {
+      url: rendered.url,
+      renderer: renderer.name,
+      htmlLength: rendered.html.length,
+      duration: `${Date.now() - startTime}ms`,
+    });
+    return rendered;
+  } catch (error) {
+    log.warn('Headless render failed', {
+      url,
+      renderer: renderer.name,
+      error: error instanceof Error ? error.message : 'Unknown',
+    });
+    return null;
+  }
+}
+
+/**
+ * The renderer scrapers fall back to.
+ *
+ * @returns The renderer set with setPageRenderer(), else the headless
+ *   browser service from HEADLESS_RENDER_URL, else null
+ */
+export function getPageRenderer(): PageRenderer | null {
+  if (rendererOverride !== undefined) {
+    return rendererOverride;
+  }
+
+  const endpoint = process.env.HEADLESS_RENDER_URL;
+  return endpoint
+    ? createBrowserRenderer({ endpoint, token: process.env.HEADLESS_RENDER_TOKEN })
+    : null;
+}
+
+/**
+ * Replace the renderer for this server process.
+ *
+ * @param renderer - A renderer, null to turn the fallback off, or
+ *   undefined to go back to the environment configuration
+ *
+ * @example
+ * setPageRenderer(createStubRenderer({ 'https://spa.test/': '<main>...</main>' }));
+ */
+export function setPageRenderer(renderer: PageRenderer | null | undefined): void {
+  rendererOverride = renderer;
+}
+
+// ============================================================================
+// RENDERERS
+// ============================================================================
+
+/**
+ * Renderer backed by a Browserless-compatible headless Chrome service.
+ * Posts to its /content endpoint, which loads the page, waits for the
+ * network to settle and returns the DOM as HTML.
+ *
+ * @param config - Service base URL and optional API token
+ *
+ * @example
+ * const renderer = createBrowserRenderer({ endpoint: 'http://localhost:3000' });
+ */
+export function createBrowserRenderer(config: { endpoint: string; token?: string }): PageRenderer {
+  const contentUrl = new URL('/content', config.endpoint);
+  if (config.token) {
+    contentUrl.searchParams.set('token', config.token);
+  }
+
+  return {
+    name: 'headless-browser',
+
+    async render(url, options) {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs + SERVICE_OVERHEAD_MS);
+
+      try {
+        // The service is trusted configuration, so this skips fetchText()'s
+        // private-address checks (it often runs on localhost)
+        const response = await fetch(contentUrl, {
+          method: 'POST',
+          signal: controller.signal,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            url,
+            userAgent: USER_AGENT,
+            gotoOptions: { waitUntil: 'networkidle2', timeout: options.timeoutMs },
+            rejectResourceTypes: options.blockResources ?? DEFAULT_BLOCKED_RESOURCES,
+            rejectRequestPattern: PRIVATE_REQUEST_PATTERNS,
+            bestAttempt: true,
+          }),
+        });
+
+        if (!response.ok) {
+          await response.body?.cancel();
+          throw new Error(`Render service responded ${response.status} ${response.statusText}`);
+        }
+
+        const pageStatus = Number(response.headers.get('x-response-code'));
+        if (pageStatus >= 400) {
+          await response.body?.cancel();
+          throw new Error(`Page responded ${pageStatus}`);
+        }
+
+        // Stops reading once the HTML passes the limit
+        const { text: html } = await readTextWithLimit(response, MAX_RENDERED_BYTES);
+
+        return { url: response.headers.get('x-response-url') || url, html };
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+  };
+}
+
+/**
+ * Renderer that serves fixed HTML per URL, without a browser.
+ * For local development and tests.
+ *
+ * @param pages - Rendered HTML keyed by URL, or the rendered page to
+ *   return (to stand in for a browser that was redirected elsewhere)
+ *
+ * @example
+ * setPageRenderer(createStubRenderer({
+ *   'https://spa.test/': '<html><body><h1>Acme</h1><p>...</p></body></html>',
+ *   'https://spa.test/old': { url: 'https://spa.test/new', html: '<main>...</main>' },
+ * }));
+ */
+export function createStubRenderer(pages: Record<string, string | RenderedPage>): PageRenderer {
+  return {
+    name: 'stub',
+
+    async render(url) {
+      const page = pages[url];
+      if (page === undefined) {
+        throw new Error(`No stubbed page for ${url}`);
+      }
+      return typeof page === 'string' ? { url, html: page } : page;
+    },
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Render timeout from HEADLESS_RENDER_TIMEOUT_MS (invalid values use the default).
+ */
+export function getRenderTimeoutMs(): number {
+  const configured = Number(process.env.HEADLESS_RENDER_TIMEOUT_MS);
+  return process.env.HEADLESS_RENDER_TIMEOUT_MS && Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_RENDER_TIMEOUT_MS;
+}
@@ -0,0 +1,165 @@
+/**
+ * ROBOTS.TXT TESTS
+ * =================
+ * Parsing per RFC 9309, and what a robots.txt answer means for the
+ * crawl: 2xx is parsed, 4xx allows everything, 5xx / 429 / network
+ * errors disallow everything unless an earlier copy was read.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchText } from './fetch';
+import { UnsafeRequestError } from './url-safety';
+import { getRobotsPolicy, loadRobotsPolicy, parseRobotsTxt } from './robots';
+
+vi.mock('./fetch', () => ({ fetchText: vi.fn() }));
+
+const ORIGIN = 'https://example.com';
+
+const ROBOTS_TXT = [
+  'User-agent: *',
+  'Disallow: /private',
+  '',
+  'User-agent: CleverKitBot/1.0',
+  'Disallow: /admin',
+  'Allow: /admin/public',
+  'Disallow: /*.pdf$',
+  'Crawl-delay: 2',
+  '',
+  'Sitemap: https://example.com/sitemap.xml',
+].join('\n');
+
+/** Make fetchText answer robots.txt with a status and body */
+function answer(status: number, text = ''): void {
+  vi.mocked(fetchText).mockResolvedValueOnce({
+    response: new Response(null, { status }),
+    text,
+  } as Awaited<ReturnType<typeof fetchText>>);
+}
+
+afterEach(() => {
+  vi.mocked(fetchText).mockReset();
+});
+
+describe('parseRobotsTxt', () => {
+  const policy = parseRobotsTxt(ROBOTS_TXT);
+
+  it('uses our group instead of "*"', () => {
+    expect(policy.isAllowed(`${ORIGIN}/private`)).toBe(true);
+    expect(policy.isAllowed(`${ORIGIN}/admin/users`)).toBe(false);
+  });
+
+  it('lets the longest matching rule win', () => {
+    expect(policy.isAllowed(`${ORIGIN}/admin/public/page`)).toBe(true);
+  });
+
+  it('supports "*" and "$" patterns', () => {
+    expect(policy.isAllowed(`${ORIGIN}/docs/guide.pdf`)).toBe(false);
+    expect(policy.isAllowed(`${ORIGIN}/docs/guide.pdf?download=1`)).toBe(true);
+  });
+
+  it('reads Crawl-delay and sitemaps', () => {
+    expect(policy.crawlDelayMs).toBe(2000);
+    expect(policy.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('falls back to the "*" group', () => {
+    const wildcard = parseRobotsTxt('User-agent: *\nDisallow: /');
+    expect(wildcard.isAllowed(`${ORIGIN}/`)).toBe(false);
+  });
+});
+
+describe('loadRobotsPolicy', () => {
+  it('parses a 2xx answer', async () => {
+    answer(200, ROBOTS_TXT);
+
+    const { policy, reachable } = await loadRobotsPolicy(ORIGIN);
+
+    expect(reachable).toBe(true);
+    expect(policy.isAllowed(`${ORIGIN}/admin`)).toBe(false);
+    expect(policy.isAllowed(`${ORIGIN}/`)).toBe(true);
+  });
+
+  it.each([401, 403, 404, 410])('allows everything on %i', async status => {
+    answer(status);
+
+    const { policy, reachable } = await loadRobotsPolicy(ORIGIN);
+
+    expect(reachable).toBe(true);
+    expect(policy.isAllowed(`${ORIGIN}/admin`)).toBe(true);
+    expect(policy.unreachable).toBeUndefined();
+  });
+
+  it.each([429, 500, 503])('disallows everything on %i', async status => {
+    answer(status);
+
+    const { policy, reachable } = await loadRobotsPolicy(ORIGIN);
+
+    expect(reachable).toBe(false);
+    expect(policy.isAllowed(`${ORIGIN}/`)).toBe(false);
+    expect(policy.unreachable).toBe(true);
+  });
+
+  it('disallows everything when the request fails', async () => {
+    vi.mocked(fetchText).mockRejectedValueOnce(new Error('fetch failed'));
+
+    const { policy, reachable } = await loadRobotsPolicy(ORIGIN);
+
+    expect(reachable).toBe(false);
+    expect(policy.isAllowed(`${ORIGIN}/`)).toBe(false);
+  });
+
+  it('keeps the last copy read while robots.txt is unreachable', async () => {
+    const previous = parseRobotsTxt(ROBOTS_TXT);
+    answer(503);
+
+    const { policy, reachable } = await loadRobotsPolicy(ORIGIN, previous);
+
+    expect(reachable).toBe(false);
+    expect(policy).toBe(previous);
+  });
+
+  it('treats an answer that isn\'t a text file as missing', async () => {
+    vi.mocked(fetchText).mockRejectedValueOnce(new UnsafeRequestError('unsupported-content-type', 'text/html'));
+
+    const { policy, reachable } = await loadRobotsPolicy(ORIGIN);
+
+    expect(reachable).toBe(true);
+    expect(policy.isAllowed(`${ORIGIN}/admin`)).toBe(true);
+  });
+});
+
+describe('getRobotsPolicy', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('uses the cached copy when robots.txt becomes unreachable', async () => {
+    const origin = 'https://cached.example';
+    answer(200, ROBOTS_TXT);
+    expect((await getRobotsPolicy(`${origin}/`)).isAllowed(`${origin}/admin`)).toBe(false);
+
+    // After the cache expires the server errors - the copy read earlier still applies
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+    answer(503);
+    const policy = await getRobotsPolicy(`${origin}/`);
+
+    expect(policy.isAllowed(`${origin}/`)).toBe(true);
+    expect(policy.isAllowed(`${origin}/admin`)).toBe(false);
+  });
+
+  it('retries an unreachable robots.txt sooner than a read one', async () => {
+    const origin = 'https://flaky.example';
+    answer(503);
+    expect((await getRobotsPolicy(`${origin}/`)).unreachable).toBe(true);
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    answer(404);
+
+    expect((await getRobotsPolicy(`${origin}/`)).isAllowed(`${origin}/`)).toBe(true);
+    expect(fetchText).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * ROBOTS.TXT
+ * ===========
+ * Fetches, parses and caches robots.txt so CleverKitBot only crawls
+ * what site owners allow.
+ *
+ * Rules follow RFC 9309:
+ * - The "CleverKitBot" group wins over "*" (groups for the same agent are merged)
+ * - Longest matching Allow/Disallow pattern wins; Allow wins ties
+ * - "*" wildcards and "$" end anchors are supported
+ * - Missing robots.txt (4xx) means everything is allowed
+ * - Unreachable robots.txt (5xx, 429, network errors) means nothing is
+ *   allowed, unless an earlier copy for the origin was read - then that
+ *   copy still applies. Unreachable results are retried sooner.
+ *
+ * Crawl-delay is honored via the per-host rate limiter (see rate-limit.ts),
+ * up to MAX_CRAWL_DELAY_MS. Sites asking for more only get the requests a
+ * scrape can't do without (see hasExcessiveCrawlDelay).
+ */
+
+import { log } from '@/lib/utils/logger';
+import { fetchText } from './fetch';
+import { DEFAULT_HOST_INTERVAL_MS } from './rate-limit';
+import { UnsafeRequestError, type UnsafeRequestReason } from './url-safety';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Product token matched against User-agent lines (case-insensitive) */
+export const ROBOTS_AGENT = 'CleverKitBot';
+
+/** User-facing error when robots.txt blocks the requested page */
+export const ROBOTS_DISALLOWED_ERROR =
+  "This website's robots.txt asks automated tools not to read this page.";
+
+/** User-facing error when robots.txt couldn't be read (so nothing may be crawled) */
+export const ROBOTS_UNREACHABLE_ERROR =
+  "This website's robots.txt couldn't be read right now, so automated tools may not read the site. Try again later.";
+
+const ROBOTS_TIMEOUT_MS = 5000;
+const ROBOTS_MAX_BYTES = 500 * 1024;       // RFC 9309 minimum parse limit
+const CACHE_TTL_MS = 60 * 60 * 1000;       // 1 hour
+const UNREACHABLE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/** Refusals that mean robots.txt is there but unusable - treated like a missing file */
+const UNUSABLE_ROBOTS_REASONS: UnsafeRequestReason[] = ['unsupported-content-type', 'too-large', 'too-many-redirects'];
+
+/** Longest Crawl-delay we wait between requests (the site decides how long a scrape takes) */
+export const MAX_CRAWL_DELAY_MS = 10000;
+const MAX_CACHE_ENTRIES = 500;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+/**
+ * What robots.txt says about our crawler for one origin.
+ */
+export interface RobotsPolicy {
+  /** Check whether a URL on this origin may be fetched */
+  isAllowed: (url: string) => boolean;
+  /** Requested delay between requests, if any */
+  crawlDelayMs: number | null;
+  /** Sitemap URLs listed in robots.txt */
+  sitemaps: string[];
+  /** Set when robots.txt couldn't be read and nothing is allowed */
+  unreachable?: boolean;
+}
+
+/**
+ * What fetching robots.txt gave: a policy, and whether the file could be
+ * read (a 2xx or 4xx answer) at all.
+ */
+export interface RobotsLoadResult {
+  policy: RobotsPolicy;
+  reachable: boolean;
+}
+
+interface CacheEntry {
+  policy: Promise<RobotsPolicy>;
+  expiresAt: number;
+}
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+/**
+ * Per-origin cache. Stores promises so concurrent analyses of the same
+ * site share a single robots.txt request.
+ */
+const cache = new Map<string, CacheEntry>();
+
+/** Last policy read per origin, used while robots.txt is unreachable */
+const lastReadPolicies = new Map<string, RobotsPolicy>();
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Get the robots.txt policy for a URL's origin (cached for an hour).
+ *
+ * Never throws. A missing robots.txt allows everything; an unreachable
+ * one allows what the last copy read allowed, or nothing.
+ *
+ * @param url - Any URL on the site
+ * @returns The policy for our user agent
+ *
+ * @example
+ * const robots = await getRobotsPolicy('https://example.com/about');
+ * if (!robots.isAllowed('https://example.com/about')) { ... }
+ */
+export async function getRobotsPolicy(url: string): Promise<RobotsPolicy> {
+  const origin = new URL(url).origin;
+  const now = Date.now();
+
+  const cached = cache.get(origin);
+  if (cached && cached.expiresAt > now) {
+    return cached.policy;
+  }
+
+  const loading = loadRobotsPolicy(origin, lastReadPolicies.get(origin));
+  const entry: CacheEntry = { policy: loading.then(result => result.policy), expiresAt: now + CACHE_TTL_MS };
+
+  cache.delete(origin);
+  cache.set(origin, entry);
+
+  void loading.then(({ policy, reachable }) => {
+    if (reachable) {
+      lastReadPolicies.delete(origin);
+      lastReadPolicies.set(origin, policy);
+      if (lastReadPolicies.size > MAX_CACHE_ENTRIES) {
+        const oldest = lastReadPolicies.keys().next().value;
+        if (oldest) lastReadPolicies.delete(oldest);
+      }
+    } else {
+      entry.expiresAt = Date.now() + UNREACHABLE_CACHE_TTL_MS;
+    }
+  });
+
+  // Map keeps insertion order, so the first key is the oldest entry
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest) cache.delete(oldest);
+  }
+
+  return entry.policy;
+}
+
+/**
+ * Gap to keep between requests to a host: Crawl-delay if it asks for
+ * more than our default, capped at MAX_CRAWL_DELAY_MS.
+ */
+export function getHostInterval(policy: RobotsPolicy): number {
+  return Math.min(MAX_CRAWL_DELAY_MS, Math.max(DEFAULT_HOST_INTERVAL_MS, policy.crawlDelayMs ?? 0));
+}
+
+/**
+ * Whether the site's Crawl-delay is longer than we're willing to wait.
+ * Scrapers then skip optional requests (pricing page, feeds, sitemaps,
+ * other pages) instead of hitting the site faster than it asked.
+ */
+export function hasExcessiveCrawlDelay(policy: RobotsPolicy): boolean {
+  return (policy.crawlDelayMs ?? 0) > MAX_CRAWL_DELAY_MS;
+}
+
+/**
+ * Fetch and parse robots.txt for an origin (RFC 9309 section 2.3.1):
+ * - 2xx: the parsed file
+ * - 4xx: no restrictions
+ * - 5xx, 429 and network errors: `previous` if given, else complete
+ *   disallow (429 asks us to back off, so it counts as a server error)
+ *
+ * @param origin - Site origin, e.g. https://example.com
+ * @param previous - The last policy read for the origin, if any
+ * @returns The policy and whether robots.txt could be read
+ */
+export async function loadRobotsPolicy(
+  origin: string,
+  previous?: RobotsPolicy
+): Promise<RobotsLoadResult> {
+  const robotsUrl = `${origin}/robots.txt`;
+
+  const unreachable = (detail: Record<string, unknown>): RobotsLoadResult => {
+    log.warn('robots.txt unreachable', { origin, ...detail, fallback: previous ? 'last copy' : 'disallow all' });
+    return { policy: previous ?? DISALLOW_ALL, reachable: false };
+  };
+
+  try {
+    const { response, text } = await fetchText(robotsUrl, {
+      timeoutMs: ROBOTS_TIMEOUT_MS,
+      maxBytes: ROBOTS_MAX_BYTES,
+      contentTypes: ['text/plain'],
+      hostIntervalMs: 0,
+    });
+
+    if (response.status >= 500 || response.status === 429) {
+      return unreachable({ status: response.status });
+    }
+
+    if (!response.ok) {
+      log.debug('No robots.txt', { origin, status: response.status });
+      return { policy: ALLOW_ALL, reachable: true };
+    }
+
+    const policy = parseRobotsTxt(text);
+    log.debug('robots.txt loaded', {
+      origin,
+      crawlDelayMs: policy.crawlDelayMs ?? 'none',
+    });
+    return { policy, reachable: true };
+  } catch (error) {
+    // An answer we can't use (e.g. an SPA serving HTML) - treat as absent
+    if (error instanceof UnsafeRequestError && UNUSABLE_ROBOTS_REASONS.includes(error.reason)) {
+      log.debug('robots.txt unusable', { origin, reason: error.reason });
+      return { policy: ALLOW_ALL, reachable: true };
+    }
+
+    return unreachable({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+const ALLOW_ALL: RobotsPolicy = {
+  isAllowed: () => true,
+  crawlDelayMs: null,
+  sitemaps: [],
+};
+
+const DISALLOW_ALL: RobotsPolicy = {
+  isAllowed: () => false,
+  crawlDelayMs: null,
+  sitemaps: [],
+  unreachable: true,
+};
+
+/**
+ * Parse robots.txt content into a policy for our user agent.
+ *
+ * @param content - Raw robots.txt text
+ * @returns The policy for ROBOTS_AGENT (falls back to the "*" group)
+ */
+export function parseRobotsTxt(content: string): RobotsPolicy {
+  const agent = ROBOTS_AGENT.toLowerCase();
+  const sitemaps: string[] = [];
+
+  const specific: { rules: RobotsRule[]; crawlDelay: number | null } = { rules: [], crawlDelay: null };
+  const wildcard: { rules: RobotsRule[]; crawlDelay: number | null } = { rules: [], crawlDelay: null };
+
+  // Agents of the group being read, and whether we're still in its User-agent lines
+  let groupAgents: string[] = [];
+  let readingAgents = false;
+  let hasSpecificGroup = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      if (!readingAgents) groupAgents = [];
+      groupAgents.push(value.toLowerCase());
+      readingAgents = true;
+      if (matchesAgent(value, agent)) hasSpecificGroup = true;
+      continue;
+    }
+
+    readingAgents = false;
+
+    const targets = [
+      ...(groupAgents.some(a => matchesAgent(a, agent)) ? [specific] : []),
+      ...(groupAgents.includes('*') ? [wildcard] : []),
+    ];
+
+    for (const target of targets) {
+      if (field === 'allow' || field === 'disallow') {
+        // Empty Disallow means "allow everything" - no rule needed
+        if (!value) continue;
+        target.rules.push({ allow: field === 'allow', pattern: value, regex: patternToRegex(value) });
+      } else if (field === 'crawl-delay') {
+        const seconds = parseFloat(value);
+        if (Number.isFinite(seconds) && seconds >= 0) {
+          target.crawlDelay = seconds * 1000;
+        }
+      }
+    }
+  }
+
+  const group = hasSpecificGroup ? specific : wildcard;
+
+  return {
+    isAllowed: (url: string) => isPathAllowed(group.rules, url),
+    crawlDelayMs: group.crawlDelay,
+    sitemaps,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * User-agent lines may carry a version ("CleverKitBot/1.0").
+ */
+function matchesAgent(value: string, agent: string): boolean {
+  const token = value.toLowerCase().split('/')[0].trim();
+  return token === agent;
+}
+
+/**
+ * Longest matching rule wins; Allow wins ties; no match = allowed.
+ */
+function isPathAllowed(rules: RobotsRule[], url: string): boolean {
+  let path: string;
+  try {
+    const parsed = new URL(url);
+    path = parsed.pathname + parsed.search;
+  } catch {
+    path = url;
+  }
+
+  let best: RobotsRule | null = null;
+
+  for (const rule of rules) {
+    if (!rule.regex.test(path)) continue;
+
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+/**
+ * Convert a robots.txt path pattern to a prefix-matching regex.
+ */
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
@@ -0,0 +1,273 @@
+/**
+ * URL SAFETY
+ * ===========
+ * Guards server-side fetches against SSRF.
+ *
+ * Every URL a scraper fetches (including each redirect hop) goes through
+ * resolveSafeUrl() / assertSafeUrl(), which check:
+ * - Scheme allowlist (http, https)
+ * - Port allowlist (default ports plus common alternates)
+ * - Hostname blocklist (localhost, *.internal, ...)
+ * - Resolved addresses against loopback, private, link-local,
+ *   carrier-grade NAT, multicast and reserved ranges
+ *
+ * resolveSafeUrl() also returns the checked addresses, so the fetch can
+ * connect to exactly those (a second DNS lookup could be rebound to a
+ * private address).
+ *
+ * Failures throw UnsafeRequestError with a user-facing message.
+ */
+
+import { BlockList, isIP } from 'node:net';
+import { lookup } from 'node:dns/promises';
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Why a request was refused. Each reason has its own user-facing message.
+ */
+export type UnsafeRequestReason =
+  | 'invalid-url'
+  | 'blocked-scheme'
+  | 'blocked-port'
+  | 'blocked-host'
+  | 'private-address'
+  | 'dns-failure'
+  | 'too-many-redirects'
+  | 'too-large'
+  | 'unsupported-content-type';
+
+const REASON_MESSAGES: Record<UnsafeRequestReason, string> = {
+  'invalid-url': 'This URL is not valid. Please check it and try again.',
+  'blocked-scheme': 'Only http:// and https:// websites can be analyzed.',
+  'blocked-port': 'This URL uses a non-standard port. Please use the public website address.',
+  'blocked-host': 'This address is not a public website and cannot be analyzed.',
+  'private-address': 'This website resolves to a private or internal network address and cannot be analyzed.',
+  'dns-failure': 'Could not find this website. Please check the URL.',
+  'too-many-redirects': 'This website redirected too many times. Please try its final address directly.',
+  'too-large': 'This page is too large to analyze.',
+  'unsupported-content-type': 'This URL does not point to a web page.',
+};
+
+/**
+ * Thrown when a URL or response fails a safety check.
+ * `message` is safe to show to users; `detail` is for logs only.
+ */
+export class UnsafeRequestError extends Error {
+  readonly reason: UnsafeRequestReason;
+  readonly detail?: string;
+
+  constructor(reason: UnsafeRequestReason, detail?: string) {
+    super(REASON_MESSAGES[reason]);
+    this.name = 'UnsafeRequestError';
+    this.reason = reason;
+    this.detail = detail;
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const ALLOWED_PROTOCOLS = new Set(['http:', 'https:']);
+
+/** Empty string = the scheme's default port */
+const ALLOWED_PORTS = new Set(['', '80', '443', '8080', '8443']);
+
+/** Hostnames (and suffixes) that never point at the public web */
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata.google.internal'];
+const BLOCKED_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal', '.home.arpa'];
+
+/**
+ * Address ranges that must never be fetched.
+ * Covers loopback, RFC 1918, link-local (incl. cloud metadata 169.254.169.254),
+ * CGNAT, documentation, benchmarking, multicast and reserved space, plus the
+ * IPv6 ranges that embed an IPv4 address: IPv4-compatible (::a.b.c.d),
+ * IPv4-translated (::ffff:0:a.b.c.d), NAT64, 6to4 (2002::/16) and Teredo
+ * (2001::/32). IPv4-mapped addresses (::ffff:a.b.c.d) are checked as IPv4.
+ */
+const BLOCKED_RANGES = new BlockList();
+
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+const BLOCKED_IPV6_SUBNETS: Array<[string, number]> = [
+  ['::', 96],
+  ['::ffff:0:0:0', 96],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001::', 32],
+  ['2001:db8::', 32],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+
+for (const [network, prefix] of BLOCKED_IPV4_SUBNETS) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of BLOCKED_IPV6_SUBNETS) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SafeUrl {
+  url: URL;
+  /** Hostname as checked (no IPv6 brackets, lowercase, no trailing dot) */
+  hostname: string;
+  /** Every address the hostname resolved to, all public */
+  addresses: string[];
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check that a URL is safe to fetch from the server.
+ *
+ * @param url - Absolute URL to check
+ * @returns The parsed URL
+ * @throws UnsafeRequestError if any check fails
+ *
+ * @example
+ * await assertSafeUrl('https://example.com');      // ok
+ * await assertSafeUrl('http://169.254.169.254/');  // throws 'private-address'
+ */
+export async function assertSafeUrl(url: string): Promise<URL> {
+  const { url: parsed } = await resolveSafeUrl(url);
+  return parsed;
+}
+
+/**
+ * Check that a URL is safe to fetch and return the addresses checked.
+ * Connect only to these addresses - resolving the hostname again may
+ * give a different answer.
+ *
+ * @param url - Absolute URL to check
+ * @returns The parsed URL, normalized hostname and its public addresses
+ * @throws UnsafeRequestError if any check fails
+ *
+ * @example
+ * const { hostname, addresses } = await resolveSafeUrl('https://example.com');
+ */
+export async function resolveSafeUrl(url: string): Promise<SafeUrl> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new UnsafeRequestError('invalid-url', url);
+  }
+
+  if (!ALLOWED_PROTOCOLS.has(parsed.protocol)) {
+    throw new UnsafeRequestError('blocked-scheme', parsed.protocol);
+  }
+
+  if (!ALLOWED_PORTS.has(parsed.port)) {
+    throw new UnsafeRequestError('blocked-port', parsed.port);
+  }
+
+  if (parsed.username || parsed.password) {
+    throw new UnsafeRequestError('invalid-url', 'credentials in URL');
+  }
+
+  // IPv6 literals come back wrapped in brackets
+  const hostname = normalizeHostname(parsed.hostname);
+
+  if (
+    BLOCKED_HOSTNAMES.includes(hostname) ||
+    BLOCKED_HOSTNAME_SUFFIXES.some(suffix => hostname.endsWith(suffix))
+  ) {
+    throw new UnsafeRequestError('blocked-host', hostname);
+  }
+
+  // IP literals are checked directly; hostnames are resolved
+  const addresses = isIP(hostname) ? [hostname] : await resolveAll(hostname);
+
+  for (const address of addresses) {
+    if (isPrivateAddress(address)) {
+      throw new UnsafeRequestError('private-address', `${hostname} -> ${address}`);
+    }
+  }
+
+  return { url: parsed, hostname, addresses };
+}
+
+/**
+ * Normalize a hostname the way resolveSafeUrl() reports it.
+ */
+export function normalizeHostname(hostname: string): string {
+  return hostname.replace(/^\[|\]$/g, '').toLowerCase().replace(/\.$/, '');
+}
+
+/**
+ * Check whether an IP address is in a blocked (non-public) range.
+ * IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return BLOCKED_RANGES.check(mapped[1], 'ipv4');
+  }
+
+  // The URL parser normalizes mapped addresses to hex (::ffff:7f00:1)
+  const mappedHex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1], 16);
+    const low = parseInt(mappedHex[2], 16);
+    const ipv4 = [high >> 8, high & 255, low >> 8, low & 255].join('.');
+    return BLOCKED_RANGES.check(ipv4, 'ipv4');
+  }
+
+  const family = isIP(address);
+  if (family === 4) return BLOCKED_RANGES.check(address, 'ipv4');
+  if (family === 6) return BLOCKED_RANGES.check(address, 'ipv6');
+
+  // Not an IP at all - refuse rather than guess
+  return true;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Resolve every address for a hostname (A and AAAA).
+ * A host is only safe if none of its addresses are private.
+ */
+async function resolveAll(hostname: string): Promise<string[]> {
+  try {
+    const results = await lookup(hostname, { all: true, verbatim: true });
+    if (results.length === 0) {
+      throw new UnsafeRequestError('dns-failure', hostname);
+    }
+    return results.map(result => result.address);
+  } catch (error) {
+    if (error instanceof UnsafeRequestError) throw error;
+    throw new UnsafeRequestError(
+      'dns-failure',
+      `${hostname}: ${error instanceof Error ? error.message : 'lookup failed'}`
+    );
+  }
+}
@@ -4,31 +4,692 @@
  * Shared types for all scraper modules.
  */
 
+import type { CacheStatus } from './shared/cache';
+
 // ============================================================================
 // SCRAPER CONFIG
 // ============================================================================
 
-export type ScraperType = 'web-homepage';
+export type ScraperType =
+  | 'web-homepage'
+  | 'web-deep'
+  | 'manual-text'
+  | 'document'
+  | 'html-file';
+
+/**
+ * What a scraper needs from the user besides the brand URL.
+ * - url: fetches the site itself
+ * - text: pasted content
+ * - file: an uploaded file
+ */
+export type ScraperInputKind = 'url' | 'text' | 'file';
 
 export interface ScraperConfig {
   id: ScraperType;
   name: string;
   description: string;
+  input: ScraperInputKind;
+}
+
+// ============================================================================
+// SCRAPER INPUT
+// ============================================================================
+
+/**
+ * An uploaded file, read into memory.
+ */
+export interface ScrapeFile {
+  name: string;
+  /** MIME type reported by the browser (may be empty) */
+  type: string;
+  data: ArrayBuffer;
+}
+
+/**
+ * Everything a scraper may receive.
+ * `url` is always the brand's website; manual sources use it as a reference only.
+ */
+export interface ScrapeInput {
+  url: string;
+  /** Pasted text or HTML (text-input scrapers) */
+  content?: string;
+  /** Uploaded file (file-input scrapers) */
+  file?: ScrapeFile;
+  /** Bypass the scrape cache and download every page (url-input scrapers) */
+  forceRefresh?: boolean;
+  /** Scrape the site's English version when a non-English page links one (url-input scrapers) */
+  preferEnglish?: boolean;
+}
+
+/**
+ * Options for the web (url-input) scrapers.
+ */
+export interface WebScrapeOptions {
+  /** Bypass the scrape cache and download every page */
+  forceRefresh?: boolean;
+  /** Switch to the English hreflang alternate of a non-English homepage */
+  preferEnglish?: boolean;
+}
+
+// ============================================================================
+// PAGE PROVENANCE
+// ============================================================================
+
+/**
+ * How the scraped HTML was obtained.
+ * - static: plain HTTP fetch
+ * - rendered: headless browser, because the static HTML had too little text
+ */
+export type RenderMode = 'static' | 'rendered';
+
+/**
+ * What kind of page a crawled URL looks like.
+ * Used to rank pages and label them in the combined content.
+ */
+export type PageCategory =
+  | 'home'
+  | 'about'
+  | 'pricing'
+  | 'products'
+  | 'services'
+  | 'team'
+  | 'faq'
+  | 'contact'
+  | 'other';
+
+/**
+ * Where a crawled link was discovered.
+ */
+export type LinkSource = 'start' | 'nav' | 'footer' | 'body' | 'sitemap';
+
+/**
+ * Provenance record for one page included in a scrape.
+ * Lets us trace any piece of combined content back to its URL.
+ */
+export interface ScrapedPageInfo {
+  url: string;
+  title?: string;
+  category: PageCategory;
+  source: LinkSource;
+  /** Ranking score used to pick this page (higher = more useful) */
+  score: number;
+  /** Characters of text this page contributed to the combined content */
+  contentLength: number;
+  fetchedAt: string;
+}
+
+// ============================================================================
+// STRUCTURED DATA
+// ============================================================================
+
+/**
+ * Where a structured data fact came from.
+ */
+export type StructuredDataSource = 'json-ld' | 'opengraph' | 'microdata';
+
+/**
+ * A schema.org PostalAddress (or a plain address string in `street`).
+ */
+export interface StructuredAddress {
+  street?: string;
+  locality?: string;
+  region?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+/**
+ * Organization facts from schema.org Organization / LocalBusiness markup.
+ */
+export interface StructuredOrganization {
+  name?: string;
+  legalName?: string;
+  description?: string;
+  foundingDate?: string;
+  founders?: string[];
+  url?: string;
+  logo?: string;
+  email?: string;
+  telephone?: string;
+  address?: StructuredAddress;
+  /** Social and directory profile URLs */
+  sameAs?: string[];
+}
+
+/**
+ * A product or service from schema.org Product / Service / Offer markup.
+ */
+export interface StructuredProduct {
+  name: string;
+  description?: string;
+  brand?: string;
+  /** Single price, or the low end of a price range */
+  price?: string;
+  highPrice?: string;
+  priceCurrency?: string;
+  url?: string;
+}
+
+/**
+ * Review score from schema.org AggregateRating markup.
+ */
+export interface StructuredRating {
+  /** What was rated (product, business...), if named */
+  itemName?: string;
+  ratingValue: number;
+  /** Top of the scale (schema.org default is 5) */
+  bestRating?: number;
+  /** Number of reviews (or ratings, if no review count is given) */
+  reviewCount?: number;
+}
+
+/**
+ * A question/answer pair from schema.org FAQPage markup.
+ */
+export interface StructuredFaq {
+  question: string;
+  answer: string;
+}
+
+/**
+ * Machine-readable data the site publishes about itself.
+ * Pulled from JSON-LD, OpenGraph and schema.org microdata, then normalized.
+ * These are the site owner's own claims, so analyzers treat them as
+ * high-confidence evidence.
+ */
+export interface StructuredData {
+  organization: StructuredOrganization | null;
+  products: StructuredProduct[];
+  faqs: StructuredFaq[];
+  /** AggregateRating scores (only present when found) */
+  ratings?: StructuredRating[];
+  /** og:* meta tags, keyed without the "og:" prefix (e.g. "site_name") */
+  openGraph: Record<string, string>;
+  /** Every schema.org type found on the page (e.g. ["Organization", "Product"]) */
+  types: string[];
+  /** Which markup formats were present */
+  sources: StructuredDataSource[];
+}
+
+// ============================================================================
+// VISUAL IDENTITY
+// ============================================================================
+
+/**
+ * Where a logo candidate was found (listed roughly from most to least
+ * likely to be the real logo).
+ */
+export type LogoSource = 'logo-image' | 'structured-data' | 'apple-touch-icon' | 'icon' | 'og-image';
+
+export interface LogoCandidate {
+  /** Absolute URL */
+  url: string;
+  source: LogoSource;
+  /** Declared pixel width (from `sizes` on icon links), if any */
+  size?: number;
+}
+
+/**
+ * A color used by the site's CSS.
+ */
+export interface BrandColor {
+  /** Normalized #rrggbb */
+  hex: string;
+  /** How many declarations use it */
+  count: number;
+  /** css-variable: defined as a custom property; theme-color: <meta name="theme-color"> */
+  source: 'css-variable' | 'css' | 'theme-color';
+  /** Custom property name (e.g. "--brand-primary"), when defined as one */
+  variable?: string;
+  /** Grays, near-white and near-black */
+  neutral: boolean;
+}
+
+/**
+ * A font family declared by the site.
+ */
+export interface BrandFont {
+  family: string;
+  /** How many declarations use it */
+  count: number;
+  source: 'css' | 'font-face' | 'google-fonts';
+}
+
+/**
+ * Logo, palette and typography pulled from the page's markup and CSS.
+ */
+export interface VisualIdentity {
+  /** Most likely logo first */
+  logos: LogoCandidate[];
+  /** Brand colors first, then up to a few neutrals */
+  colors: BrandColor[];
+  /** Most used first */
+  fonts: BrandFont[];
+  /** Stylesheets that were read (inline <style> blocks aren't listed) */
+  stylesheets: string[];
+}
+
+// ============================================================================
+// CONTACT INFO
+// ============================================================================
+
+/**
+ * Where a contact detail was found.
+ * - structured-data: Organization markup (JSON-LD / microdata)
+ * - link: mailto:, tel: or profile links
+ * - text: visible page text
+ * - address-tag: an <address> element
+ */
+export type ContactSource = 'structured-data' | 'link' | 'text' | 'address-tag';
+
+export interface ContactEmail {
+  /** Lowercased address */
+  address: string;
+  source: ContactSource;
+}
+
+export interface ContactPhone {
+  /** As written on the page */
+  display: string;
+  /** Digits only, with a leading + when an international prefix was given */
+  normalized: string;
+  source: ContactSource;
+}
+
+export interface ContactAddress {
+  /** Single-line address for display */
+  formatted: string;
+  /** Parts, when the address came from structured data */
+  parts?: StructuredAddress;
+  source: ContactSource;
+}
+
+export type SocialPlatform = 'linkedin' | 'instagram' | 'x' | 'tiktok' | 'youtube' | 'facebook';
+
+export interface SocialProfile {
+  platform: SocialPlatform;
+  /** Canonical profile URL (https, no www, query or trailing slash) */
+  url: string;
+  /** Username / page slug (without @) */
+  handle: string;
+  source: ContactSource;
+}
+
+/**
+ * Deterministic contact details and social profiles found on the
+ * scraped page(s). Each list is deduplicated, best sources first.
+ */
+export interface ContactInfo {
+  emails: ContactEmail[];
+  phones: ContactPhone[];
+  addresses: ContactAddress[];
+  socials: SocialProfile[];
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+/**
+ * How often a tier's price is charged.
+ * - one-time: single payment (incl. "lifetime" deals)
+ */
+export type BillingPeriod = 'month' | 'year' | 'week' | 'day' | 'one-time';
+
+export interface PricingTier {
+  /** Tier name as shown, e.g. "Pro" */
+  name: string;
+  /** Price as shown, e.g. "$29" (null for contact-sales tiers) */
+  price: string | null;
+  /** Numeric price (0 for free tiers, null if not shown) */
+  amount: number | null;
+  /** ISO 4217 code, e.g. "USD" */
+  currency: string | null;
+  period: BillingPeriod | null;
+  /** "Contact sales" / custom quote tier */
+  isCustom: boolean;
+  /** Marked as most popular / recommended */
+  highlighted: boolean;
+  /** Feature bullets listed in the tier */
+  features: string[];
+}
+
+/**
+ * Pricing tiers parsed from a pricing table (cards or columns with prices).
+ */
+export interface PricingTable {
+  /** Page the table was found on */
+  url: string;
+  /** Most common currency across tiers */
+  currency: string | null;
+  tiers: PricingTier[];
+}
+
+// ============================================================================
+// SOCIAL PROOF
+// ============================================================================
+
+/**
+ * A customer quote with whatever attribution the page gives.
+ */
+export interface Testimonial {
+  quote: string;
+  author?: string;
+  role?: string;
+  company?: string;
+  /** Page the testimonial was found on */
+  sourceUrl: string;
+}
+
+/**
+ * A company shown in a "trusted by" / client logo wall.
+ */
+export interface ClientLogo {
+  /** From the image's alt text, title or filename */
+  name: string;
+  imageUrl?: string;
+  sourceUrl: string;
+}
+
+export interface ReviewRating extends StructuredRating {
+  sourceUrl: string;
+}
+
+/**
+ * A numeric claim such as "10,000+ customers" or "99.9% uptime".
+ */
+export interface StatCallout {
+  /** The number as shown, e.g. "10,000+" */
+  value: string;
+  /** What it counts, e.g. "customers" */
+  label: string;
+  sourceUrl: string;
+}
+
+/**
+ * Proof points found on the scraped page(s), each with the page it came from.
+ */
+export interface SocialProof {
+  testimonials: Testimonial[];
+  clientLogos: ClientLogo[];
+  ratings: ReviewRating[];
+  stats: StatCallout[];
+}
+
+// ============================================================================
+// TECH STACK
+// ============================================================================
+
+export type TechCategory =
+  | 'cms'
+  | 'ecommerce'
+  | 'site-builder'
+  | 'framework'
+  | 'analytics'
+  | 'advertising'
+  | 'marketing'
+  | 'payments'
+  | 'chat'
+  | 'hosting';
+
+/**
+ * What a detection was based on.
+ * - html: markup or inline script content
+ * - script: a <script src> / <link href> URL
+ * - header: a response header
+ * - cookie: a cookie name set by the response
+ * - meta: a <meta name="generator"> tag
+ */
+export type TechEvidenceType = 'html' | 'script' | 'header' | 'cookie' | 'meta';
+
+export interface TechEvidence {
+  type: TechEvidenceType;
+  /** What matched, e.g. "cdn.shopify.com/s/files/..." or "x-powered-by: Next.js" */
+  detail: string;
+}
+
+export interface TechDetection {
+  /** Display name, e.g. "Shopify" */
+  name: string;
+  category: TechCategory;
+  /** 0-100, the sum of the matched rules' weights */
+  confidence: number;
+  /** Version, when a rule could read one */
+  version?: string;
+  evidence: TechEvidence[];
+}
+
+/**
+ * Technologies fingerprinted from the scraped page(s), most confident first.
+ */
+export interface TechStack {
+  technologies: TechDetection[];
+}
+
+// ============================================================================
+// BLOG FEED
+// ============================================================================
+
+export type FeedFormat = 'rss' | 'atom';
+
+export interface BlogPost {
+  title: string;
+  url?: string;
+  /** ISO timestamp (missing if the feed has no parseable date) */
+  publishedAt?: string;
+  /** Plain-text excerpt (HTML stripped, truncated) */
+  summary?: string;
+  /** <category> / Atom category terms */
+  categories: string[];
+}
+
+/**
+ * A category or tag and how many of the parsed posts use it.
+ */
+export interface FeedTheme {
+  name: string;
+  count: number;
+}
+
+/**
+ * How often the brand publishes, from the dated posts in the feed.
+ */
+export interface PublishingCadence {
+  /** Posts with a date */
+  datedPosts: number;
+  firstPublishedAt: string | null;
+  lastPublishedAt: string | null;
+  /** Average over the span of the dated posts (null with fewer than 2) */
+  postsPerMonth: number | null;
+  averageDaysBetweenPosts: number | null;
+}
+
+/**
+ * The latest posts from the site's RSS / Atom feed.
+ */
+export interface BlogFeed {
+  feedUrl: string;
+  format: FeedFormat;
+  /** Feed (blog) title */
+  title?: string;
+  /** Newest first */
+  posts: BlogPost[];
+  /** Most used categories across the posts, most used first */
+  themes: FeedTheme[];
+  cadence: PublishingCadence;
+}
+
+// ============================================================================
+// LANGUAGE
+// ============================================================================
+
+/**
+ * Where the detected language came from.
+ * - text: stopword / script analysis of the page text
+ * - html-lang: the <html lang> attribute
+ * - content-language: the Content-Language response header
+ * - og-locale: the og:locale meta tag
+ */
+export type LanguageSource = 'text' | 'html-lang' | 'content-language' | 'og-locale';
+
+/**
+ * Another language version of the page (<link rel="alternate" hreflang>).
+ */
+export interface LanguageAlternate {
+  /** Tag as declared, e.g. "en-GB" or "x-default" */
+  hreflang: string;
+  url: string;
+}
+
+export interface DetectedLanguage {
+  /** ISO 639-1 code of the scraped content, e.g. "de" */
+  code: string;
+  /** Declared tag when it carries a region, e.g. "de-AT" */
+  tag?: string;
+  source: LanguageSource;
+  /** 0-100 */
+  confidence: number;
+  alternates: LanguageAlternate[];
+  /** Set when the site's English version was scraped instead: the original page's language */
+  originalCode?: string;
+  /** The original (non-English) page */
+  originalUrl?: string;
+}
+
+// ============================================================================
+// SITE INVENTORY
+// ============================================================================
+
+/**
+ * Part of a site a sitemap URL belongs to (from its path).
+ */
+export type SiteSection = 'blog' | 'product' | 'docs' | 'legal' | 'careers' | 'locations' | 'other';
+
+export interface SiteSectionSummary {
+  section: SiteSection;
+  /** URLs in this section */
+  count: number;
+  /** Most recent <lastmod> in the section (ISO), if any URL has one */
+  lastModified: string | null;
+  /** URLs modified in the 90 days before the scrape */
+  recentlyModified: number;
+  /** A few URLs from the section */
+  examples: string[];
+}
+
+/**
+ * Page inventory built from the site's sitemaps.
+ */
+export interface SiteInventory {
+  /** Sitemap files read (indexes included) */
+  sitemaps: string[];
+  /** Same-site page URLs found */
+  totalUrls: number;
+  /** Stopped early - the site has more URLs than we read */
+  truncated: boolean;
+  /** Most recent <lastmod> across all URLs (ISO) */
+  lastModified: string | null;
+  /** Sections with at least one URL, largest first */
+  sections: SiteSectionSummary[];
 }
 
 // ============================================================================
 // SCRAPER RESULT
 // ============================================================================
 
+/**
+ * One request in a redirect chain.
+ */
+export interface RedirectHop {
+  url: string;
+  status: number;
+}
+
+/**
+ * What happened during one scrape, for debugging failed or weak results.
+ * HTTP fields describe the start page and are missing for manual sources.
+ */
+export interface ScrapeDiagnostics {
+  /** URL (or file name) the scrape started from */
+  requestedUrl?: string;
+  /** Start page URL after redirects */
+  finalUrl?: string;
+  /** Status of every request for the start page, redirects first */
+  hops: RedirectHop[];
+  /** Final HTTP status */
+  status?: number;
+  contentType?: string;
+  /** Start page body size in bytes */
+  responseBytes?: number;
+  /** From the first request to the final response's headers (null for cache hits) */
+  timeToFirstByteMs?: number | null;
+  cache?: CacheStatus;
+  renderMode?: RenderMode;
+  /** Characters of text extracted, before truncation */
+  extractedChars: number;
+  /** The text was cut to MAX_CONTENT_LENGTH */
+  truncated: boolean;
+  /** The cleaned text as analyzed (or as far as extraction got) */
+  cleanedText?: string;
+  durationMs: number;
+}
+
+/**
+ * Machine-readable failure reasons the UI handles specially.
+ * - robots-disallowed: the site's robots.txt blocks us, or couldn't be read
+ *   (offer manual content instead)
+ */
+export type ScrapeErrorCode = 'robots-disallowed';
+
 export interface ScrapeResult {
   success: boolean;
   content?: string;
   error?: string;
+  errorCode?: ScrapeErrorCode;
+  /** Recorded for failed scrapes too */
+  diagnostics?: ScrapeDiagnostics;
   metadata?: {
     title?: string;
     description?: string;
     url: string;
     scrapedAt: string;
     contentLength: number;
+    /** Which scraper produced this result */
+    scraperType?: ScraperType;
+    /** Per-page provenance (multi-page scrapers only) */
+    pages?: ScrapedPageInfo[];
+    /** JSON-LD / OpenGraph / microdata found on the scraped page(s) */
+    structuredData?: StructuredData;
+    /** Logo, colors and fonts (homepage only) */
+    visualIdentity?: VisualIdentity;
+    /** Emails, phones, addresses and social profiles */
+    contactInfo?: ContactInfo;
+    /** Technologies detected from HTML, headers, script URLs and cookies */
+    techStack?: TechStack;
+    /** Tiers parsed from the pricing page (or a pricing table on the scraped page) */
+    pricing?: PricingTable;
+    /** Testimonials, client logos, ratings and stat callouts */
+    socialProof?: SocialProof;
+    /** Latest posts from the site's RSS / Atom feed */
+    blogFeed?: BlogFeed;
+    /** Language of the scraped content */
+    language?: DetectedLanguage;
+    /** Whether the (start) page was fetched statically or rendered (web scrapers only) */
+    renderMode?: RenderMode;
+    /** Page counts per section from the site's sitemaps */
+    siteInventory?: SiteInventory;
   };
 }
+
+// ============================================================================
+// SCRAPER DEFINITION
+// ============================================================================
+
+/**
+ * Complete scraper module: config plus the scrape function.
+ */
+export interface ScraperDefinition {
+  config: ScraperConfig;
+  scrape: (input: ScrapeInput) => Promise<ScrapeResult>;
+}
@@ -0,0 +1,14 @@
+/**
+ * WEB DEEP SCRAPER CONFIG
+ * ========================
+ * Configuration for the multi-page site crawler.
+ */
+
+import type { ScraperConfig } from '../types';
+
+export const config: ScraperConfig = {
+  id: 'web-deep',
+  name: 'Website (Key Pages)',
+  description: 'Crawls the homepage plus about, pricing, product and team pages',
+  input: 'url',
+};
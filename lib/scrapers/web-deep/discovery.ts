@@ -0,0 +1,207 @@
+/**
+ * LINK DISCOVERY
+ * ===============
+ * Finds same-origin pages worth crawling from a site's homepage.
+ *
+ * Sources (in order of trust):
+ * - Navigation links (<nav>, <header>)
+ * - Footer links (<footer>)
+ * - Other in-page links
+ * - sitemap.xml entries
+ */
+
+import { decodeHtmlEntities } from '@/lib/utils/format';
+import { log } from '@/lib/utils/logger';
+import { fetchText, XML_CONTENT_TYPES } from '../shared/fetch';
+import type { LinkSource } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DiscoveredLink {
+  url: string;
+  anchorText: string;
+  source: LinkSource;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Maximum URLs read from a sitemap (they can contain tens of thousands) */
+const MAX_SITEMAP_URLS = 200;
+
+/** File extensions that are never HTML pages */
+const NON_PAGE_EXTENSIONS = /\.(pdf|jpe?g|png|gif|svg|webp|ico|css|js|json|xml|zip|mp4|mp3|woff2?|ttf)$/i;
+
+// ============================================================================
+// HTML LINK EXTRACTION
+// ============================================================================
+
+/**
+ * Extract same-origin links from a page, tagged with where they were found.
+ *
+ * @param html - Raw HTML of the page
+ * @param baseUrl - URL the HTML was fetched from (for resolving relative links)
+ * @returns Deduplicated links, nav/footer links first
+ */
+export function extractLinks(html: string, baseUrl: string): DiscoveredLink[] {
+  const links: DiscoveredLink[] = [];
+
+  // Pull out nav and footer blocks first so their links keep their source
+  let remaining = html;
+  const blockPatterns: { source: LinkSource; pattern: RegExp }[] = [
+    { source: 'nav', pattern: /<(nav|header)\b[^>]*>([\s\S]*?)<\/\1>/gi },
+    { source: 'footer', pattern: /<footer\b[^>]*>([\s\S]*?)<\/footer>/gi },
+  ];
+
+  for (const { source, pattern } of blockPatterns) {
+    remaining = remaining.replace(pattern, (block) => {
+      links.push(...extractAnchors(block, baseUrl, source));
+      return ' ';
+    });
+  }
+
+  links.push(...extractAnchors(remaining, baseUrl, 'body'));
+
+  return dedupeLinks(links);
+}
+
+/**
+ * Extract anchors from an HTML fragment.
+ */
+function extractAnchors(
+  fragment: string,
+  baseUrl: string,
+  source: LinkSource
+): DiscoveredLink[] {
+  const results: DiscoveredLink[] = [];
+  const anchorPattern = /<a\b[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = anchorPattern.exec(fragment)) !== null) {
+    const url = normalizeLink(decodeHtmlEntities(match[1]), baseUrl);
+    if (!url) continue;
+
+    const anchorText = decodeHtmlEntities(match[2].replace(/<[^>]+>/g, ' '))
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    results.push({ url, anchorText, source });
+  }
+
+  return results;
+}
+
+// ============================================================================
+// SITEMAP DISCOVERY
+// ============================================================================
+
+/**
+ * Read page URLs from the site's sitemap.xml.
+ * Follows one level of sitemap index. Failures are non-fatal.
+ *
+ * @param siteUrl - Any URL on the site (the origin is used)
+ * @param timeoutMs - Timeout per sitemap request
+ * @returns Same-origin page links from the sitemap
+ */
+export async function fetchSitemapLinks(
+  siteUrl: string,
+  timeoutMs: number
+): Promise<DiscoveredLink[]> {
+  const origin = new URL(siteUrl).origin;
+
+  try {
+    let locs = await fetchSitemapLocs(`${origin}/sitemap.xml`, timeoutMs);
+
+    // Sitemap index: follow the first child sitemap
+    const childSitemap = locs.find(loc => /\.xml(\.gz)?$/i.test(loc));
+    if (childSitemap && !childSitemap.endsWith('.gz')) {
+      locs = await fetchSitemapLocs(childSitemap, timeoutMs);
+    }
+
+    return locs
+      .slice(0, MAX_SITEMAP_URLS)
+      .map(loc => normalizeLink(loc, siteUrl))
+      .filter((url): url is string => url !== null)
+      .map(url => ({ url, anchorText: '', source: 'sitemap' as const }));
+  } catch (error) {
+    log.debug('Sitemap not available', {
+      origin,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return [];
+  }
+}
+
+/**
+ * Fetch a sitemap and return its <loc> entries.
+ */
+async function fetchSitemapLocs(url: string, timeoutMs: number): Promise<string[]> {
+  const { response, text: xml } = await fetchText(url, {
+    timeoutMs,
+    contentTypes: XML_CONTENT_TYPES,
+  });
+  if (!response.ok) return [];
+
+  const locs: string[] = [];
+  const locPattern = /<loc>\s*([^<\s]+)\s*<\/loc>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = locPattern.exec(xml)) !== null) {
+    locs.push(decodeHtmlEntities(match[1]));
+  }
+
+  return locs;
+}
+
+// ============================================================================
+// URL HELPERS
+// ============================================================================
+
+/**
+ * Resolve a link against the base URL and keep it only if it's a
+ * same-origin HTML page. Strips fragments and trailing slashes.
+ *
+ * @returns Normalized absolute URL, or null if the link should be skipped
+ */
+export function normalizeLink(href: string, baseUrl: string): string | null {
+  const trimmed = href.trim();
+  if (!trimmed || /^(mailto:|tel:|javascript:|#)/i.test(trimmed)) {
+    return null;
+  }
+
+  try {
+    const base = new URL(baseUrl);
+    const resolved = new URL(trimmed, base);
+
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return null;
+    if (stripWww(resolved.hostname) !== stripWww(base.hostname)) return null;
+    if (NON_PAGE_EXTENSIONS.test(resolved.pathname)) return null;
+
+    resolved.hash = '';
+    resolved.hostname = base.hostname;
+    resolved.protocol = base.protocol;
+
+    return resolved.toString().replace(/\/$/, '');
+  } catch {
+    return null;
+  }
+}
+
+function stripWww(hostname: string): string {
+  return hostname.replace(/^www\./, '').toLowerCase();
+}
+
+/**
+ * Remove duplicate URLs, keeping the first (most trusted) occurrence.
+ */
+function dedupeLinks(links: DiscoveredLink[]): DiscoveredLink[] {
+  const seen = new Set<string>();
+  return links.filter(link => {
+    if (seen.has(link.url)) return false;
+    seen.add(link.url);
+    return true;
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * DEEP SCRAPER TESTS
+ * ===================
+ * Which pages scrapeWebDeep() keeps: extra pages that redirect off the
+ * brand's site are dropped, and every request (the homepage included)
+ * runs within the crawl's deadline.
+ *
+ * Page fetches, robots.txt and sitemaps are stubbed, so nothing here
+ * touches the network.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchCachedPage, type CachedFetchResult } from '../shared/cache';
+import { scrapeWebDeep } from '.';
+
+vi.mock('../shared/cache', () => ({ fetchCachedPage: vi.fn() }));
+vi.mock('../shared/robots', async importOriginal => {
+  const robots = await importOriginal<typeof import('../shared/robots')>();
+  return { ...robots, getRobotsPolicy: vi.fn(async () => robots.parseRobotsTxt('')) };
+});
+vi.mock('./discovery', async importOriginal => ({
+  ...await importOriginal<object>(),
+  fetchSitemapLinks: vi.fn(async () => []),
+}));
+
+const SITE = 'https://acme.example.com';
+
+const PARAGRAPH = '<p>Hand-forged trowels, pruners and hoes, built to last a lifetime and sharpened for free every spring.</p>';
+
+const HOMEPAGE_HTML = `<html><head><title>Acme</title></head><body>
+  <nav><a href="/about">About</a><a href="/pricing">Pricing</a></nav>
+  <main><h1>Acme makes garden tools</h1>${PARAGRAPH}</main>
+</body></html>`;
+
+/** Pages by URL: the final URL after redirects and the HTML served there */
+const PAGES: Record<string, { url: string; html: string }> = {
+  [SITE]: { url: `${SITE}/`, html: HOMEPAGE_HTML },
+  [`${SITE}/pricing`]: {
+    url: `${SITE}/pricing`,
+    html: `<html><body><main><h1>Pricing</h1>${PARAGRAPH}</main></body></html>`,
+  },
+  [`${SITE}/about`]: {
+    url: 'https://accounts.other.example/login',
+    html: `<html><body><main><h1>Sign in to Other</h1>${PARAGRAPH}</main></body></html>`,
+  },
+};
+
+afterEach(() => {
+  vi.mocked(fetchCachedPage).mockReset();
+});
+
+describe('scrapeWebDeep', () => {
+  it('drops pages that redirect off the site', async () => {
+    vi.mocked(fetchCachedPage).mockImplementation(async url => page(url));
+
+    const result = await scrapeWebDeep(SITE);
+
+    expect(result.success).toBe(true);
+    expect(fetchCachedPage).toHaveBeenCalledWith(`${SITE}/about`, expect.anything());
+    expect(result.metadata?.pages?.map(p => p.url)).toEqual([`${SITE}/`, `${SITE}/pricing`]);
+    expect(result.content).not.toContain('Sign in to Other');
+  });
+
+  it('fetches the homepage within the crawl deadline', async () => {
+    vi.mocked(fetchCachedPage).mockImplementation(async url => page(url));
+
+    await scrapeWebDeep(SITE);
+
+    expect(fetchCachedPage).toHaveBeenNthCalledWith(1, SITE, expect.objectContaining({
+      deadline: expect.any(Number),
+    }));
+  });
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** The stubbed page for a URL, or a 404 */
+function page(url: string): CachedFetchResult {
+  const found = PAGES[url];
+  return {
+    ok: !!found,
+    status: found ? 200 : 404,
+    statusText: found ? 'OK' : 'Not Found',
+    url: found?.url ?? url,
+    text: found?.html ?? '',
+    headers: { 'content-type': 'text/html; charset=utf-8' },
+    cookies: [],
+    fetchedAt: new Date().toISOString(),
+    cache: 'miss',
+    hops: [{ url, status: found ? 200 : 404 }],
+    timeToFirstByteMs: 10,
+    bytes: found?.html.length ?? 0,
+  };
+}
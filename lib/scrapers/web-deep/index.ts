@@ -0,0 +1,503 @@
+/**
+ * WEB DEEP SCRAPER
+ * =================
+ * Crawls a handful of high-signal pages on a site, not just the homepage.
+ *
+ * This scraper:
+ * 1. Fetches the homepage (if robots.txt allows it)
+ *    - pages go through the scrape cache, so unchanged pages aren't re-downloaded
+ *    - a JavaScript-only homepage is rendered in a headless browser
+ * 2. Discovers same-origin links (nav, footer, body, sitemap.xml)
+ * 3. Ranks the ones robots.txt allows by likely usefulness (about, pricing, products, team, FAQ)
+ * 4. Fetches the top pages within per-page and total time budgets,
+ *    spaced out by the per-host rate limiter (honors Crawl-delay)
+ * 5. Returns combined content with per-page provenance in metadata
+ *    (visual identity comes from the homepage only)
+ *
+ * Usage:
+ *   import { scrapeWebDeep } from '@/lib/scrapers/web-deep';
+ *   const result = await scrapeWebDeep('https://example.com');
+ */
+
+import { log } from '@/lib/utils/logger';
+import { ensureProtocol } from '@/lib/utils/format';
+import { describeFetchError, HTML_CONTENT_TYPES } from '../shared/fetch';
+import { fetchCachedPage, type CacheStatus } from '../shared/cache';
+import {
+  getRobotsPolicy,
+  getHostInterval,
+  hasExcessiveCrawlDelay,
+  ROBOTS_DISALLOWED_ERROR,
+  ROBOTS_UNREACHABLE_ERROR,
+} from '../shared/robots';
+import { renderPage } from '../shared/render';
+import { startDiagnostics, describeFetch, finishDiagnostics } from '../shared/diagnostics';
+import { extractTextContent } from '../web-homepage/parser';
+import { hasStructuredData, mergeStructuredData } from '../web-homepage/structured-data';
+import { scrapeVisualIdentity, hasVisualIdentity } from '../extractors/visual-identity';
+import { extractContactInfo, mergeContactInfo, hasContactInfo } from '../extractors/contact-info';
+import { detectTechStack, mergeTechStack, hasTechStack } from '../extractors/tech-stack';
+import { extractPricing, pickPricing, hasPricing } from '../extractors/pricing';
+import { extractSocialProof, mergeSocialProof, hasSocialProof } from '../extractors/social-proof';
+import { scrapeBlogFeed, hasBlogFeed } from '../extractors/blog-feed';
+import { scrapeSiteInventory, hasSiteInventory } from '../extractors/site-inventory';
+import { resolvePageLanguage, detectLanguage } from '../extractors/language';
+import { extractLinks, fetchSitemapLinks } from './discovery';
+import { rankLinks, type RankedLink } from './ranking';
+import type {
+  ContactInfo,
+  PageCategory,
+  PricingTable,
+  RenderMode,
+  ScrapedPageInfo,
+  ScrapeResult,
+  SocialProof,
+  StructuredData,
+  TechStack,
+  WebScrapeOptions,
+} from '../types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const PAGE_TIMEOUT_MS = 10000;       // 10 seconds per page
+const TOTAL_BUDGET_MS = 40000;       // 40 seconds for the whole crawl
+const SITEMAP_TIMEOUT_MS = 5000;     // Sitemaps are optional, don't wait long
+const MAX_EXTRA_PAGES = 5;           // Pages fetched in addition to the homepage
+const CONCURRENCY = 3;               // Pages fetched at the same time
+const MAX_CONTENT_LENGTH = 50000;    // Combined text budget (matches web-homepage)
+const MAX_PAGE_CONTENT_LENGTH = 12000; // Per-page text budget
+const MIN_PAGE_CONTENT_LENGTH = 100; // Skip pages with less text than this
+
+const CATEGORY_LABELS: Record<PageCategory, string> = {
+  home: 'Homepage',
+  about: 'About',
+  pricing: 'Pricing',
+  products: 'Products',
+  services: 'Services',
+  team: 'Team',
+  faq: 'FAQ',
+  contact: 'Contact',
+  other: 'Page',
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface FetchedPage {
+  info: ScrapedPageInfo;
+  text: string;
+  structuredData: StructuredData;
+  contactInfo: ContactInfo;
+  techStack: TechStack;
+  pricing: PricingTable | null;
+  socialProof: SocialProof;
+  cache: CacheStatus;
+}
+
+// ============================================================================
+// MAIN SCRAPER FUNCTION
+// ============================================================================
+
+/**
+ * Crawl the homepage plus the most useful pages of a site.
+ *
+ * The homepage must succeed; any other page failing is logged and skipped.
+ *
+ * @param url - The site URL (protocol will be added if missing)
+ * @param options - Set forceRefresh to bypass the scrape cache
+ * @returns Combined content from all fetched pages, or error
+ *
+ * @example
+ * const result = await scrapeWebDeep('https://example.com');
+ * if (result.success) {
+ *   console.log(result.metadata?.pages?.map(p => p.url));
+ * }
+ */
+export async function scrapeWebDeep(
+  url: string,
+  options: WebScrapeOptions = {}
+): Promise<ScrapeResult> {
+  const { forceRefresh = false, preferEnglish = false } = options;
+  const normalizedUrl = ensureProtocol(url);
+  const startTime = Date.now();
+  const deadline = startTime + TOTAL_BUDGET_MS;
+  let diagnostics = startDiagnostics(normalizedUrl);
+
+  log.info('🕸️ Starting deep web scrape', { url: normalizedUrl });
+
+  try {
+    // ========================================
+    // 1. Homepage (required)
+    // ========================================
+
+    const robots = await getRobotsPolicy(normalizedUrl);
+
+    if (!robots.isAllowed(normalizedUrl)) {
+      log.warn('Deep scrape blocked by robots.txt', { url: normalizedUrl, unreachable: robots.unreachable ?? false });
+      return {
+        success: false,
+        error: robots.unreachable ? ROBOTS_UNREACHABLE_ERROR : ROBOTS_DISALLOWED_ERROR,
+        errorCode: 'robots-disallowed',
+        diagnostics: finishDiagnostics(diagnostics, startTime),
+      };
+    }
+
+    const fetched = await fetchCachedPage(normalizedUrl, {
+      timeoutMs: Math.min(PAGE_TIMEOUT_MS, remaining(deadline)),
+      contentTypes: HTML_CONTENT_TYPES,
+      hostIntervalMs: getHostInterval(robots),
+      deadline,
+      forceRefresh,
+    });
+    diagnostics = { ...diagnostics, ...describeFetch(fetched) };
+
+    if (!fetched.ok) {
+      log.error('Deep scrape failed - bad homepage response', {
+        status: fetched.status,
+        statusText: fetched.statusText,
+      });
+      return {
+        success: false,
+        error: `Failed to fetch: ${fetched.status} ${fetched.statusText}`,
+        diagnostics: finishDiagnostics(diagnostics, startTime),
+      };
+    }
+
+    // Detect the language; links are then discovered from the English
+    // version when preferEnglish switched to it
+    const { page: response, language: staticLanguage } = await resolvePageLanguage(fetched, {
+      preferEnglish: preferEnglish && !hasExcessiveCrawlDelay(robots),
+      robots,
+      hostIntervalMs: getHostInterval(robots),
+      deadline,
+      forceRefresh,
+    });
+    let html = response.text;
+    let language = staticLanguage;
+    let renderMode: RenderMode = 'static';
+    diagnostics = { ...diagnostics, ...describeFetch(response) };
+
+    let homepage = extractTextContent(html);
+
+    // JavaScript-only sites (SPAs) ship an empty shell - render the homepage
+    // instead, so links are discovered from the rendered navigation too
+    if ((homepage.text?.length ?? 0) < MIN_PAGE_CONTENT_LENGTH && robots.isAllowed(response.url)) {
+      const rendered = await renderPage(response.url, {
+        hostIntervalMs: getHostInterval(robots),
+        deadline,
+      });
+
+      if (rendered) {
+        html = rendered.html;
+        homepage = extractTextContent(html);
+        renderMode = 'rendered';
+        // The shell has no text to detect from (keep an English switch as is)
+        if (!language?.originalCode) {
+          language = detectLanguage(html, { headers: response.headers }) ?? language;
+        }
+      }
+    }
+
+    diagnostics = { ...diagnostics, renderMode };
+
+    if (!homepage.text || homepage.text.length < MIN_PAGE_CONTENT_LENGTH) {
+      log.warn('Homepage content too short', { length: homepage.text?.length || 0 });
+      return {
+        success: false,
+        error: 'Could not extract meaningful content from website',
+        diagnostics: finishDiagnostics(diagnostics, startTime, { text: homepage.text }),
+      };
+    }
+
+    // Use the post-redirect URL so relative links resolve correctly
+    const homeUrl = response.url;
+
+    const pages: FetchedPage[] = [{
+      info: {
+        url: homeUrl,
+        title: homepage.title || undefined,
+        category: 'home',
+        source: 'start',
+        score: 100,
+        contentLength: 0,
+        fetchedAt: response.fetchedAt,
+      },
+      text: homepage.text,
+      structuredData: homepage.structuredData,
+      contactInfo: extractContactInfo(html, homeUrl, {
+        organization: homepage.structuredData.organization,
+      }),
+      techStack: detectTechStack(html, { headers: response.headers, cookies: response.cookies }),
+      pricing: extractPricing(html, homeUrl),
+      socialProof: extractSocialProof(html, homeUrl, { structuredData: homepage.structuredData }),
+      cache: response.cache,
+    }];
+
+    // ========================================
+    // 2. Discover and rank links
+    // ========================================
+
+    // The homepage may have redirected to another host (e.g. www.)
+    const siteRobots = new URL(homeUrl).origin === new URL(normalizedUrl).origin
+      ? robots
+      : await getRobotsPolicy(homeUrl);
+    const hostIntervalMs = getHostInterval(siteRobots);
+    const siteOrigin = new URL(homeUrl).origin;
+
+    // A site asking for a longer Crawl-delay than we wait only gets the homepage
+    const optionalFetches = !hasExcessiveCrawlDelay(siteRobots);
+    if (!optionalFetches) {
+      log.info('Crawl-delay too long - crawling the homepage only', {
+        url: homeUrl,
+        crawlDelayMs: siteRobots.crawlDelayMs,
+      });
+    }
+
+    const pageLinks = optionalFetches ? extractLinks(html, homeUrl) : [];
+    const sitemapLinks = optionalFetches
+      ? await fetchSitemapLinks(homeUrl, Math.min(SITEMAP_TIMEOUT_MS, remaining(deadline)))
+      : [];
+
+    // Logo, palette and fonts from the homepage (reads linked stylesheets)
+    const visualIdentity = await scrapeVisualIdentity(html, homeUrl, {
+      structuredLogo: homepage.structuredData.organization?.logo,
+      deadline,
+    });
+
+    const allowedLinks = [...pageLinks, ...sitemapLinks].filter(link => siteRobots.isAllowed(link.url));
+    const candidates = rankLinks(allowedLinks, homeUrl, MAX_EXTRA_PAGES);
+
+    log.info('Pages selected for crawl', {
+      discovered: pageLinks.length + sitemapLinks.length,
+      blockedByRobots: pageLinks.length + sitemapLinks.length - allowedLinks.length,
+      selected: candidates.map(c => `${c.category}: ${c.url}`).join(', ') || 'none',
+    });
+
+    // ========================================
+    // 3. Fetch selected pages within budget
+    // ========================================
+
+    for (let i = 0; i < candidates.length; i += CONCURRENCY) {
+      if (remaining(deadline) <= 0) {
+        log.warn('Deep scrape budget exhausted', { fetched: pages.length });
+        break;
+      }
+
+      const batch = candidates.slice(i, i + CONCURRENCY);
+      const results = await Promise.all(
+        batch.map(link => fetchPage(link, siteOrigin, deadline, hostIntervalMs, forceRefresh))
+      );
+
+      for (const page of results) {
+        if (page) pages.push(page);
+      }
+    }
+
+    // Latest blog posts and the sitemap page inventory, with whatever
+    // budget the pages left
+    const blogFeed = optionalFetches
+      ? await scrapeBlogFeed(html, homeUrl, {
+          robots: siteRobots,
+          hostIntervalMs,
+          deadline,
+          forceRefresh,
+        })
+      : null;
+
+    const siteInventory = optionalFetches
+      ? await scrapeSiteInventory(homeUrl, {
+          robots: siteRobots,
+          hostIntervalMs,
+          deadline,
+          forceRefresh,
+        })
+      : null;
+
+    // ========================================
+    // 4. Combine content
+    // ========================================
+
+    const { content, truncated } = combinePages(pages);
+    const structuredData = mergeStructuredData(pages.map(p => p.structuredData));
+    const contactInfo = mergeContactInfo(pages.map(p => p.contactInfo));
+    const techStack = mergeTechStack(pages.map(p => p.techStack));
+    // Pricing pages first, so they win ties with teaser tables elsewhere
+    const pricing = pickPricing([
+      ...pages.filter(p => p.info.category === 'pricing'),
+      ...pages.filter(p => p.info.category !== 'pricing'),
+    ].map(p => p.pricing));
+    const socialProof = mergeSocialProof(pages.map(p => p.socialProof));
+    const duration = Date.now() - startTime;
+
+    log.success('Deep scrape complete', {
+      url: normalizedUrl,
+      pages: pages.length,
+      contentLength: content.length,
+      duration: `${duration}ms`,
+      renderMode,
+      structuredData: structuredData.sources.join(', ') || 'none',
+      cached: pages.filter(p => p.cache === 'hit' || p.cache === 'revalidated').length,
+      socials: contactInfo.socials.map(s => s.platform).join(', ') || 'none',
+      tech: techStack.technologies.length,
+      pricingTiers: pricing?.tiers.length ?? 0,
+      testimonials: socialProof.testimonials.length,
+      blogPosts: blogFeed?.posts.length ?? 0,
+      sitemapUrls: siteInventory?.totalUrls ?? 0,
+      language: language?.code ?? 'unknown',
+    });
+
+    return {
+      success: true,
+      content,
+      diagnostics: finishDiagnostics(diagnostics, startTime, {
+        text: content,
+        extractedChars: pages.reduce((sum, p) => sum + p.text.length, 0),
+        truncated,
+      }),
+      metadata: {
+        title: homepage.title || undefined,
+        description: homepage.description || undefined,
+        url: normalizedUrl,
+        scrapedAt: new Date().toISOString(),
+        contentLength: content.length,
+        scraperType: 'web-deep',
+        pages: pages.map(p => p.info).filter(info => info.contentLength > 0),
+        structuredData: hasStructuredData(structuredData) ? structuredData : undefined,
+        visualIdentity: hasVisualIdentity(visualIdentity) ? visualIdentity : undefined,
+        contactInfo: hasContactInfo(contactInfo) ? contactInfo : undefined,
+        techStack: hasTechStack(techStack) ? techStack : undefined,
+        pricing: hasPricing(pricing) ? pricing : undefined,
+        socialProof: hasSocialProof(socialProof) ? socialProof : undefined,
+        blogFeed: hasBlogFeed(blogFeed) ? blogFeed : undefined,
+        siteInventory: hasSiteInventory(siteInventory) ? siteInventory : undefined,
+        language: language ?? undefined,
+        renderMode,
+      },
+    };
+  } catch (error) {
+    const message = describeFetchError(error);
+    log.error('Deep scrape error', { url: normalizedUrl, error: message });
+    return {
+      success: false,
+      error: message,
+      diagnostics: finishDiagnostics(diagnostics, startTime),
+    };
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Fetch and extract a single non-homepage page.
+ * Returns null on any failure - extra pages are best-effort - and for
+ * pages that redirected away from the site's origin.
+ */
+async function fetchPage(
+  link: RankedLink,
+  siteOrigin: string,
+  deadline: number,
+  hostIntervalMs: number,
+  forceRefresh: boolean
+): Promise<FetchedPage | null> {
+  const timeoutMs = Math.min(PAGE_TIMEOUT_MS, remaining(deadline));
+  if (timeoutMs <= 0) return null;
+
+  try {
+    const response = await fetchCachedPage(link.url, {
+      timeoutMs,
+      contentTypes: HTML_CONTENT_TYPES,
+      hostIntervalMs,
+      deadline,
+      forceRefresh,
+    });
+
+    if (!response.ok) {
+      log.debug('Skipping page', { url: link.url, status: response.status });
+      return null;
+    }
+
+    // A link on the site can redirect anywhere (a login provider, another
+    // brand) - that content isn't this brand's
+    if (new URL(response.url).origin !== siteOrigin) {
+      log.debug('Skipping page - redirected off the site', { url: link.url, finalUrl: response.url });
+      return null;
+    }
+
+    const { text, title, structuredData } = extractTextContent(response.text);
+    if (!text || text.length < MIN_PAGE_CONTENT_LENGTH) {
+      return null;
+    }
+
+    return {
+      info: {
+        url: link.url,
+        title: title || undefined,
+        category: link.category,
+        source: link.source,
+        score: link.score,
+        contentLength: 0,
+        fetchedAt: response.fetchedAt,
+      },
+      text,
+      structuredData,
+      contactInfo: extractContactInfo(response.text, response.url, {
+        organization: structuredData.organization,
+      }),
+      techStack: detectTechStack(response.text, { headers: response.headers, cookies: response.cookies }),
+      pricing: extractPricing(response.text, response.url),
+      socialProof: extractSocialProof(response.text, response.url, { structuredData }),
+      cache: response.cache,
+    };
+  } catch (error) {
+    log.debug('Page fetch failed', {
+      url: link.url,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Join pages into one labelled document, respecting per-page and total
+ * length budgets. Records each page's contribution in its provenance info.
+ *
+ * @returns The combined content, and whether any page was cut or left out
+ */
+function combinePages(pages: FetchedPage[]): { content: string; truncated: boolean } {
+  const sections: string[] = [];
+  let total = 0;
+  let truncated = false;
+
+  for (const page of pages) {
+    const budget = Math.min(MAX_PAGE_CONTENT_LENGTH, MAX_CONTENT_LENGTH - total);
+    if (budget <= MIN_PAGE_CONTENT_LENGTH) {
+      truncated = true;
+      break;
+    }
+
+    if (page.text.length > budget) truncated = true;
+    const text = page.text.length > budget
+      ? page.text.slice(0, budget) + '\n\n[Content truncated...]'
+      : page.text;
+
+    const label = CATEGORY_LABELS[page.info.category];
+    sections.push(`=== PAGE: ${label} (${page.info.url}) ===\n\n${text}`);
+
+    page.info.contentLength = text.length;
+    total += text.length;
+  }
+
+  return { content: sections.join('\n\n---\n\n'), truncated };
+}
+
+/**
+ * Milliseconds left before the crawl deadline.
+ */
+function remaining(deadline: number): number {
+  return deadline - Date.now();
+}
@@ -0,0 +1,145 @@
+/**
+ * PAGE RANKING
+ * =============
+ * Scores discovered links by how likely they are to contain brand signal.
+ *
+ * About, pricing and product pages carry most of what our analyzers need;
+ * legal pages, blog posts and login screens carry almost none.
+ */
+
+import type { DiscoveredLink } from './discovery';
+import type { LinkSource, PageCategory } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RankedLink extends DiscoveredLink {
+  category: PageCategory;
+  score: number;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Keyword patterns per category, matched against the URL path and anchor text.
+ * Checked in order - the first match wins.
+ */
+const CATEGORY_PATTERNS: { category: PageCategory; pattern: RegExp }[] = [
+  { category: 'pricing', pattern: /\b(pricing|prices|plans|packages|rates)\b/i },
+  { category: 'about', pattern: /\b(about|about-us|our-story|story|company|mission|who-we-are)\b/i },
+  { category: 'products', pattern: /\b(products?|shop|store|features|solutions|platform|collections?)\b/i },
+  { category: 'services', pattern: /\b(services?|what-we-do|offerings?|work-with-us|consulting)\b/i },
+  { category: 'team', pattern: /\b(team|founders?|leadership|people|our-team)\b/i },
+  { category: 'faq', pattern: /\b(faqs?|questions|help|how-it-works)\b/i },
+  { category: 'contact', pattern: /\b(contact|contact-us|locations?)\b/i },
+];
+
+/** Base usefulness of each category */
+const CATEGORY_SCORES: Record<PageCategory, number> = {
+  home: 100,
+  about: 50,
+  pricing: 48,
+  products: 42,
+  services: 42,
+  team: 30,
+  faq: 26,
+  contact: 12,
+  other: 0,
+};
+
+/** Bonus for where the link was found - nav links are curated by the site owner */
+const SOURCE_BONUS: Record<LinkSource, number> = {
+  start: 0,
+  nav: 10,
+  footer: 5,
+  body: 3,
+  sitemap: 0,
+};
+
+/** Pages that are never worth a fetch */
+const EXCLUDED_PATTERN = /\b(login|log-in|signin|sign-in|signup|sign-up|register|cart|checkout|account|privacy|terms|legal|cookie|gdpr|careers|jobs|press|wp-admin|tag|category|author|search)\b/i;
+
+/** Blog-like paths: low value individually, too many to crawl */
+const ARTICLE_PATTERN = /\/(blog|news|articles?|posts?|insights)\/.+/i;
+
+/** At most this many pages of the same category */
+const MAX_PER_CATEGORY = 2;
+
+// ============================================================================
+// RANKING
+// ============================================================================
+
+/**
+ * Classify a link into a page category from its URL path and anchor text.
+ *
+ * @param url - Absolute URL of the page
+ * @param anchorText - Visible link text, if known
+ * @returns The best-matching category
+ */
+export function categorizeUrl(url: string, anchorText = ''): PageCategory {
+  const path = new URL(url).pathname.replace(/[_/]+/g, ' ');
+  if (path.trim() === '') return 'home';
+
+  const haystack = `${path} ${anchorText}`;
+  const match = CATEGORY_PATTERNS.find(({ pattern }) => pattern.test(haystack));
+  return match?.category ?? 'other';
+}
+
+/**
+ * Score a single link. Returns a negative score for pages we should skip.
+ */
+export function scoreLink(link: DiscoveredLink, category: PageCategory): number {
+  const path = new URL(link.url).pathname;
+
+  if (EXCLUDED_PATTERN.test(path.replace(/[_/]+/g, ' '))) return -1;
+  if (ARTICLE_PATTERN.test(path)) return -1;
+
+  // Shallow pages are usually section landing pages
+  const depth = path.split('/').filter(Boolean).length;
+  const depthPenalty = Math.max(0, depth - 1) * 8;
+
+  return CATEGORY_SCORES[category] + SOURCE_BONUS[link.source] - depthPenalty;
+}
+
+/**
+ * Rank discovered links and pick the most useful pages to crawl.
+ *
+ * @param links - All discovered links (nav/footer/body/sitemap)
+ * @param startUrl - The homepage URL (excluded from results)
+ * @param limit - Maximum number of pages to return
+ * @returns Highest-scoring links, with at most two pages per category
+ */
+export function rankLinks(
+  links: DiscoveredLink[],
+  startUrl: string,
+  limit: number
+): RankedLink[] {
+  const startKey = startUrl.replace(/\/$/, '');
+
+  const ranked = links
+    .filter(link => link.url !== startKey)
+    .map(link => {
+      const category = categorizeUrl(link.url, link.anchorText);
+      return { ...link, category, score: scoreLink(link, category) };
+    })
+    .filter(link => link.score > 0 && link.category !== 'other')
+    .sort((a, b) => b.score - a.score);
+
+  const perCategory = new Map<PageCategory, number>();
+  const selected: RankedLink[] = [];
+
+  for (const link of ranked) {
+    const count = perCategory.get(link.category) ?? 0;
+    if (count >= MAX_PER_CATEGORY) continue;
+
+    perCategory.set(link.category, count + 1);
+    selected.push(link);
+
+    if (selected.length >= limit) break;
+  }
+
+  return selected;
+}
@@ -10,4 +10,5 @@ export const config: ScraperConfig = {
   id: 'web-homepage',
   name: 'Website Homepage',
   description: 'Scrapes the main content from a website URL',
+  input: 'url',
 };
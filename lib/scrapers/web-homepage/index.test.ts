@@ -0,0 +1,103 @@
+/**
+ * HOMEPAGE SCRAPER TESTS
+ * =======================
+ * When scrapeWebHomepage() falls back to the headless renderer: only
+ * for pages whose static HTML has too little text.
+ *
+ * The page fetch, robots.txt and DNS are stubbed and the stub renderer
+ * stands in for the browser, so nothing here touches the network.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { lookup } from 'node:dns/promises';
+import { fetchCachedPage, type CachedFetchResult } from '../shared/cache';
+import { createStubRenderer, setPageRenderer } from '../shared/render';
+import { scrapeWebHomepage } from '.';
+
+vi.mock('node:dns/promises', () => ({ lookup: vi.fn() }));
+vi.mock('../shared/cache', () => ({ fetchCachedPage: vi.fn() }));
+vi.mock('../shared/robots', async importOriginal => {
+  const robots = await importOriginal<typeof import('../shared/robots')>();
+  return { ...robots, getRobotsPolicy: vi.fn(async () => robots.parseRobotsTxt('')) };
+});
+
+const PAGE_URL = 'https://spa.example.com/';
+
+const SHELL_HTML = '<html><head><title>Acme</title></head><body><div id="root"></div></body></html>';
+
+const CONTENT_HTML = `<html><head><title>Acme</title></head><body><main>
+  <h1>Acme makes garden tools</h1>
+  <p>Hand-forged trowels, pruners and hoes, built to last a lifetime and sharpened for free every spring.</p>
+</main></body></html>`;
+
+vi.mocked(lookup).mockResolvedValue([{ address: '93.184.215.14', family: 4 }] as never);
+
+/** Serve `html` for the homepage and 404 for anything else */
+function serveHomepage(html: string): void {
+  vi.mocked(fetchCachedPage).mockImplementation(async url => page(url, url === PAGE_URL ? html : null));
+}
+
+afterEach(() => {
+  setPageRenderer(undefined);
+  vi.mocked(fetchCachedPage).mockReset();
+});
+
+describe('scrapeWebHomepage rendering', () => {
+  it('renders a page whose static HTML is an empty shell', async () => {
+    serveHomepage(SHELL_HTML);
+    setPageRenderer(createStubRenderer({ [PAGE_URL]: CONTENT_HTML }));
+
+    const result = await scrapeWebHomepage(PAGE_URL);
+
+    expect(result.success).toBe(true);
+    expect(result.content).toContain('Hand-forged trowels');
+    expect(result.diagnostics?.renderMode).toBe('rendered');
+  });
+
+  it('keeps the static HTML when it has enough text', async () => {
+    serveHomepage(CONTENT_HTML);
+    const renderer = createStubRenderer({ [PAGE_URL]: SHELL_HTML });
+    const render = vi.spyOn(renderer, 'render');
+    setPageRenderer(renderer);
+
+    const result = await scrapeWebHomepage(PAGE_URL);
+
+    expect(result.success).toBe(true);
+    expect(result.diagnostics?.renderMode).toBe('static');
+    expect(render).not.toHaveBeenCalled();
+  });
+
+  it('fails an empty shell the browser was redirected to a private host for', async () => {
+    serveHomepage(SHELL_HTML);
+    setPageRenderer(createStubRenderer({
+      [PAGE_URL]: { url: 'http://localhost:8080/', html: CONTENT_HTML },
+    }));
+
+    const result = await scrapeWebHomepage(PAGE_URL);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Could not extract meaningful content from website');
+    expect(result.diagnostics?.renderMode).toBe('static');
+  });
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function page(url: string, html: string | null): CachedFetchResult {
+  return {
+    ok: html !== null,
+    status: html !== null ? 200 : 404,
+    statusText: html !== null ? 'OK' : 'Not Found',
+    url,
+    text: html ?? '',
+    headers: { 'content-type': 'text/html; charset=utf-8' },
+    cookies: [],
+    fetchedAt: new Date().toISOString(),
+    cache: 'miss',
+    hops: [{ url, status: html !== null ? 200 : 404 }],
+    timeToFirstByteMs: 10,
+    bytes: html?.length ?? 0,
+  };
+}
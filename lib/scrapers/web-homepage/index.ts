@@ -4,9 +4,18 @@
  * Scrapes content from a website URL.
  *
  * This scraper:
- * 1. Fetches the HTML from the URL
- * 2. Extracts and cleans the text content
- * 3. Returns a structured result
+ * 1. Checks robots.txt
+ * 2. Fetches the HTML from the URL (through the scrape cache)
+ * 3. Extracts and cleans the text content (rendering the page in a
+ *    headless browser if the static HTML has too little text)
+ * 4. Extracts the visual identity (logo, colors, fonts), contact info
+ *    and tech stack
+ * 5. Parses the pricing table (following the pricing link if needed)
+ *    and reads the blog feed and sitemaps (page inventory)
+ * 6. Returns a structured result
+ *
+ * Everything after the homepage request shares one time budget
+ * (TOTAL_BUDGET_MS); requests that would run past it are skipped.
  *
  * Usage:
  *   import { scrapeWebHomepage } from '@/lib/scrapers/web-homepage';
@@ -15,18 +24,37 @@
 
 import { log } from '@/lib/utils/logger';
 import { ensureProtocol } from '@/lib/utils/format';
+import { describeFetchError, HTML_CONTENT_TYPES } from '../shared/fetch';
+import { fetchCachedPage } from '../shared/cache';
+import {
+  getRobotsPolicy,
+  getHostInterval,
+  hasExcessiveCrawlDelay,
+  ROBOTS_DISALLOWED_ERROR,
+  ROBOTS_UNREACHABLE_ERROR,
+} from '../shared/robots';
+import { renderPage } from '../shared/render';
+import { startDiagnostics, describeFetch, finishDiagnostics } from '../shared/diagnostics';
 import { extractTextContent } from './parser';
-import type { ScrapeResult } from '../types';
+import { hasStructuredData } from './structured-data';
+import { scrapeVisualIdentity, hasVisualIdentity } from '../extractors/visual-identity';
+import { extractContactInfo, hasContactInfo } from '../extractors/contact-info';
+import { detectTechStack, hasTechStack } from '../extractors/tech-stack';
+import { scrapePricing, extractPricing, hasPricing } from '../extractors/pricing';
+import { extractSocialProof, hasSocialProof } from '../extractors/social-proof';
+import { scrapeBlogFeed, hasBlogFeed } from '../extractors/blog-feed';
+import { scrapeSiteInventory, hasSiteInventory } from '../extractors/site-inventory';
+import { resolvePageLanguage, detectLanguage } from '../extractors/language';
+import type { RenderMode, ScrapeResult, WebScrapeOptions } from '../types';
 
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
 
 const SCRAPE_TIMEOUT_MS = 15000; // 15 seconds
+const TOTAL_BUDGET_MS = 30000; // 30 seconds for the whole scrape
 const MAX_CONTENT_LENGTH = 50000; // ~50KB of text
-
-const USER_AGENT =
-  'Mozilla/5.0 (compatible; CleverKitBot/1.0; +https://thecleverkit.com/bot)';
+const MIN_CONTENT_LENGTH = 100; // Less text than this is an empty shell or an error page
 
 // ============================================================================
 // MAIN SCRAPER FUNCTION
@@ -36,6 +64,7 @@ const USER_AGENT =
  * Scrape content from a website URL.
  *
  * @param url - The URL to scrape (protocol will be added if missing)
+ * @param options - Set forceRefresh to bypass the scrape cache
  * @returns Scraped content or error
  *
  * @example
@@ -44,49 +73,167 @@ const USER_AGENT =
  *   console.log(result.content);
  * }
  */
-export async function scrapeWebHomepage(url: string): Promise<ScrapeResult> {
+export async function scrapeWebHomepage(
+  url: string,
+  options: WebScrapeOptions = {}
+): Promise<ScrapeResult> {
   const normalizedUrl = ensureProtocol(url);
 
   log.info('🌐 Starting web scrape', { url: normalizedUrl });
   const startTime = Date.now();
+  const deadline = startTime + TOTAL_BUDGET_MS;
+  let diagnostics = startDiagnostics(normalizedUrl);
 
   try {
-    // Fetch the page
-    const response = await fetchWithTimeout(normalizedUrl, SCRAPE_TIMEOUT_MS);
+    // Respect robots.txt
+    const robots = await getRobotsPolicy(normalizedUrl);
+
+    if (!robots.isAllowed(normalizedUrl)) {
+      log.warn('Scrape blocked by robots.txt', { url: normalizedUrl, unreachable: robots.unreachable ?? false });
+      return {
+        success: false,
+        error: robots.unreachable ? ROBOTS_UNREACHABLE_ERROR : ROBOTS_DISALLOWED_ERROR,
+        errorCode: 'robots-disallowed',
+        diagnostics: finishDiagnostics(diagnostics, startTime),
+      };
+    }
+
+    // Fetch the page (SSRF, size and content-type checks happen here)
+    const fetched = await fetchCachedPage(normalizedUrl, {
+      timeoutMs: SCRAPE_TIMEOUT_MS,
+      contentTypes: HTML_CONTENT_TYPES,
+      hostIntervalMs: getHostInterval(robots),
+      forceRefresh: options.forceRefresh,
+    });
+    diagnostics = { ...diagnostics, ...describeFetch(fetched) };
 
-    if (!response.ok) {
+    if (!fetched.ok) {
       log.error('Scrape failed - bad response', {
-        status: response.status,
-        statusText: response.statusText,
+        status: fetched.status,
+        statusText: fetched.statusText,
       });
       return {
         success: false,
-        error: `Failed to fetch: ${response.status} ${response.statusText}`,
+        error: `Failed to fetch: ${fetched.status} ${fetched.statusText}`,
+        diagnostics: finishDiagnostics(diagnostics, startTime),
       };
     }
 
-    // Get the HTML content
-    const html = await response.text();
-
-    if (!html || html.length === 0) {
+    if (!fetched.text || fetched.text.length === 0) {
       log.warn('Scrape returned empty content', { url: normalizedUrl });
       return {
         success: false,
         error: 'Website returned empty content',
+        diagnostics: finishDiagnostics(diagnostics, startTime),
       };
     }
 
+    // A site asking for a longer Crawl-delay than we wait only gets the
+    // homepage request (and a render if it needs one)
+    const optionalFetches = !hasExcessiveCrawlDelay(robots);
+    if (!optionalFetches) {
+      log.info('Crawl-delay too long - skipping optional requests', {
+        url: normalizedUrl,
+        crawlDelayMs: robots.crawlDelayMs,
+      });
+    }
+
+    // Detect the language (and switch to the English version if asked to)
+    const { page: response, language: staticLanguage } = await resolvePageLanguage(fetched, {
+      preferEnglish: options.preferEnglish && optionalFetches,
+      robots,
+      hostIntervalMs: getHostInterval(robots),
+      deadline,
+      forceRefresh: options.forceRefresh,
+    });
+    let html = response.text;
+    let language = staticLanguage;
+    let renderMode: RenderMode = 'static';
+    diagnostics = { ...diagnostics, ...describeFetch(response) };
+
     // Extract and clean text content
-    const { text, title, description } = extractTextContent(html);
+    let extracted = extractTextContent(html);
+
+    // JavaScript-only sites (SPAs) ship an empty shell - render them instead
+    if ((extracted.text?.length ?? 0) < MIN_CONTENT_LENGTH && robots.isAllowed(response.url)) {
+      const rendered = await renderPage(response.url, {
+        hostIntervalMs: getHostInterval(robots),
+        deadline,
+      });
+
+      if (rendered) {
+        html = rendered.html;
+        extracted = extractTextContent(html);
+        renderMode = 'rendered';
+        // The shell has no text to detect from (keep an English switch as is)
+        if (!language?.originalCode) {
+          language = detectLanguage(html, { headers: response.headers }) ?? language;
+        }
+      }
+    }
 
-    if (!text || text.length < 100) {
+    const { text, title, description, structuredData } = extracted;
+    diagnostics = { ...diagnostics, renderMode };
+
+    if (!text || text.length < MIN_CONTENT_LENGTH) {
       log.warn('Scraped content too short', { length: text?.length || 0 });
       return {
         success: false,
         error: 'Could not extract meaningful content from website',
+        diagnostics: finishDiagnostics(diagnostics, startTime, { text }),
       };
     }
 
+    // Logo, palette and fonts (reads linked stylesheets)
+    const visualIdentity = await scrapeVisualIdentity(html, response.url, {
+      structuredLogo: structuredData.organization?.logo,
+      deadline,
+    });
+
+    // Emails, phones, addresses and social profiles
+    const contactInfo = extractContactInfo(html, response.url, {
+      organization: structuredData.organization,
+    });
+
+    // CMS, analytics, pixels, payments, chat, hosting
+    const techStack = detectTechStack(html, {
+      headers: response.headers,
+      cookies: response.cookies,
+    });
+
+    // Pricing tiers (may fetch the pricing page)
+    const pricing = optionalFetches
+      ? await scrapePricing(html, response.url, {
+          robots,
+          hostIntervalMs: getHostInterval(robots),
+          deadline,
+          forceRefresh: options.forceRefresh,
+        })
+      : extractPricing(html, response.url);
+
+    // Testimonials, client logos, ratings and stat callouts
+    const socialProof = extractSocialProof(html, response.url, { structuredData });
+
+    // Latest blog posts (fetches the RSS / Atom feed)
+    const blogFeed = optionalFetches
+      ? await scrapeBlogFeed(html, response.url, {
+          robots,
+          hostIntervalMs: getHostInterval(robots),
+          deadline,
+          forceRefresh: options.forceRefresh,
+        })
+      : null;
+
+    // Page counts per section (reads the sitemaps)
+    const siteInventory = optionalFetches
+      ? await scrapeSiteInventory(response.url, {
+          robots,
+          hostIntervalMs: getHostInterval(robots),
+          deadline,
+          forceRefresh: options.forceRefresh,
+        })
+      : null;
+
     // Truncate if too long
     const finalContent = text.length > MAX_CONTENT_LENGTH
       ? text.slice(0, MAX_CONTENT_LENGTH) + '\n\n[Content truncated...]'
@@ -97,72 +244,50 @@ export async function scrapeWebHomepage(url: string): Promise<ScrapeResult> {
       url: normalizedUrl,
       contentLength: finalContent.length,
       duration: `${duration}ms`,
+      cache: response.cache,
+      renderMode,
+      structuredData: structuredData.sources.join(', ') || 'none',
+      colors: visualIdentity.colors.length,
+      fonts: visualIdentity.fonts.map(f => f.family).join(', ') || 'none',
+      socials: contactInfo.socials.map(s => s.platform).join(', ') || 'none',
+      tech: techStack.technologies.length,
+      pricingTiers: pricing?.tiers.length ?? 0,
+      testimonials: socialProof.testimonials.length,
+      blogPosts: blogFeed?.posts.length ?? 0,
+      sitemapUrls: siteInventory?.totalUrls ?? 0,
+      language: language?.code ?? 'unknown',
     });
 
     return {
       success: true,
       content: finalContent,
+      diagnostics: finishDiagnostics(diagnostics, startTime, { text }),
       metadata: {
         title: title || undefined,
         description: description || undefined,
         url: normalizedUrl,
         scrapedAt: new Date().toISOString(),
         contentLength: finalContent.length,
+        scraperType: 'web-homepage',
+        structuredData: hasStructuredData(structuredData) ? structuredData : undefined,
+        visualIdentity: hasVisualIdentity(visualIdentity) ? visualIdentity : undefined,
+        contactInfo: hasContactInfo(contactInfo) ? contactInfo : undefined,
+        techStack: hasTechStack(techStack) ? techStack : undefined,
+        pricing: hasPricing(pricing) ? pricing : undefined,
+        socialProof: hasSocialProof(socialProof) ? socialProof : undefined,
+        blogFeed: hasBlogFeed(blogFeed) ? blogFeed : undefined,
+        siteInventory: hasSiteInventory(siteInventory) ? siteInventory : undefined,
+        language: language ?? undefined,
+        renderMode,
       },
     };
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-
-    // Handle specific error types
-    if (message.includes('timeout') || message.includes('AbortError')) {
-      log.error('Scrape timeout', { url: normalizedUrl });
-      return {
-        success: false,
-        error: 'Website took too long to respond. Please try again.',
-      };
-    }
-
-    if (message.includes('ENOTFOUND') || message.includes('getaddrinfo')) {
-      log.error('Invalid domain', { url: normalizedUrl });
-      return {
-        success: false,
-        error: 'Could not find this website. Please check the URL.',
-      };
-    }
-
+    const message = describeFetchError(error);
     log.error('Scrape error', { url: normalizedUrl, error: message });
     return {
       success: false,
-      error: `Failed to scrape website: ${message}`,
+      error: message,
+      diagnostics: finishDiagnostics(diagnostics, startTime),
     };
   }
 }
-
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-
-/**
- * Fetch with a timeout using AbortController.
- */
-async function fetchWithTimeout(
-  url: string,
-  timeoutMs: number
-): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': USER_AGENT,
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-      },
-    });
-    return response;
-  } finally {
-    clearTimeout(timeoutId);
-  }
-}
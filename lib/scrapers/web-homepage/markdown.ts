@@ -0,0 +1,245 @@
+/**
+ * HTML → MARKDOWN
+ * ================
+ * Converts the main content element into lightweight markdown.
+ *
+ * Keeps what helps an analyst read the page:
+ * - Heading hierarchy (# / ## / ###)
+ * - Paragraphs and line breaks
+ * - Lists (nested lists are indented)
+ * - Blockquotes and simple tables
+ *
+ * Drops links, images and inline formatting - analyzers only need the text.
+ */
+
+import { isTag, isText, type AnyNode, type Element } from 'domhandler';
+import type { Cheerio } from 'cheerio';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Elements that start a new paragraph */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'body', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset',
+  'figcaption', 'figure', 'form', 'header', 'main', 'p', 'section', 'summary',
+]);
+
+/** Short lines repeated after their first use are dropped ("Learn more", "Get started") */
+const MAX_REPEATED_LINE_LENGTH = 60;
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Convert an element's content to markdown.
+ *
+ * @param root - The content root (see findMainContent)
+ * @returns Markdown text with blocks separated by blank lines
+ */
+export function toMarkdown(root: Cheerio<Element>): string {
+  const writer = new MarkdownWriter();
+
+  root.each((_, el) => {
+    renderChildren(el.children, writer);
+  });
+
+  return writer.toString();
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+function renderChildren(nodes: AnyNode[], writer: MarkdownWriter): void {
+  for (const node of nodes) {
+    renderNode(node, writer);
+  }
+}
+
+function renderNode(node: AnyNode, writer: MarkdownWriter): void {
+  if (isText(node)) {
+    writer.text(node.data);
+    return;
+  }
+
+  if (!isTag(node)) return;
+
+  const tag = node.tagName;
+  const headingMatch = tag.match(/^h([1-6])$/);
+
+  if (headingMatch) {
+    const text = inlineText(node);
+    if (text) writer.block(`${'#'.repeat(Number(headingMatch[1]))} ${text}`);
+    return;
+  }
+
+  switch (tag) {
+    case 'br':
+      writer.lineBreak();
+      return;
+    case 'hr':
+      writer.block('---');
+      return;
+    case 'img':
+      return;
+    case 'ul':
+    case 'ol':
+      writer.block(renderList(node, 0).join('\n'));
+      return;
+    case 'blockquote': {
+      const text = inlineText(node);
+      if (text) writer.block(`> ${text}`);
+      return;
+    }
+    case 'pre':
+      writer.block(textOf(node).replace(/^\n+|\s+$/g, ''));
+      return;
+    case 'table':
+      writer.block(renderTable(node));
+      return;
+  }
+
+  if (BLOCK_TAGS.has(tag)) {
+    writer.flush();
+    renderChildren(node.children, writer);
+    writer.flush();
+  } else {
+    renderChildren(node.children, writer);
+  }
+}
+
+/**
+ * Render a list as "- item" / "1. item" lines, indenting nested lists.
+ */
+function renderList(list: Element, depth: number): string[] {
+  const lines: string[] = [];
+  const ordered = list.tagName === 'ol';
+  let index = 1;
+
+  for (const item of list.children) {
+    if (!isTag(item) || item.tagName !== 'li') continue;
+
+    const nested = item.children.filter(
+      (child): child is Element => isTag(child) && (child.tagName === 'ul' || child.tagName === 'ol')
+    );
+    const text = collapse(
+      item.children
+        .filter(child => !nested.includes(child as Element))
+        .map(textOf)
+        .join(' ')
+    );
+
+    if (text) {
+      const marker = ordered ? `${index++}.` : '-';
+      lines.push(`${'  '.repeat(depth)}${marker} ${text}`);
+    }
+
+    for (const child of nested) {
+      lines.push(...renderList(child, depth + 1));
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Render a table as one "cell | cell" line per row.
+ */
+function renderTable(table: Element): string {
+  const rows: string[] = [];
+
+  const visit = (node: AnyNode) => {
+    if (!isTag(node)) return;
+    if (node.tagName === 'tr') {
+      const cells = node.children
+        .filter((cell): cell is Element => isTag(cell) && (cell.tagName === 'td' || cell.tagName === 'th'))
+        .map(inlineText)
+        .filter(Boolean);
+      if (cells.length > 0) rows.push(cells.join(' | '));
+      return;
+    }
+    node.children.forEach(visit);
+  };
+
+  visit(table);
+  return rows.join('\n');
+}
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+/**
+ * Collects inline text into paragraphs and paragraphs into blocks.
+ */
+class MarkdownWriter {
+  private blocks: string[] = [];
+  private inline = '';
+  private seenLines = new Set<string>();
+
+  text(data: string): void {
+    this.inline += data.replace(/\s+/g, ' ');
+  }
+
+  lineBreak(): void {
+    this.inline += '\n';
+  }
+
+  /** End the current paragraph */
+  flush(): void {
+    const paragraph = this.inline
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .join('\n');
+
+    this.inline = '';
+    if (paragraph) this.push(paragraph);
+  }
+
+  /** Add a complete block (heading, list, table...) */
+  block(content: string): void {
+    this.flush();
+    if (content) this.push(content);
+  }
+
+  toString(): string {
+    this.flush();
+    return this.blocks.join('\n\n');
+  }
+
+  private push(content: string): void {
+    // Headings always stay - they carry the page structure
+    if (!content.startsWith('#') && content.length <= MAX_REPEATED_LINE_LENGTH) {
+      const key = content.toLowerCase();
+      if (this.seenLines.has(key)) return;
+      this.seenLines.add(key);
+    }
+    this.blocks.push(content);
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function textOf(node: AnyNode): string {
+  if (isText(node)) return node.data;
+  if (isTag(node)) {
+    if (node.tagName === 'br') return '\n';
+    return node.children
+      .map(child => (isTag(child) && BLOCK_TAGS.has(child.tagName) ? ` ${textOf(child)} ` : textOf(child)))
+      .join('');
+  }
+  return '';
+}
+
+function inlineText(node: AnyNode): string {
+  return collapse(textOf(node));
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,38 @@
+/**
+ * CONTENT EXTRACTION SNAPSHOTS
+ * =============================
+ * Runs every saved page in __fixtures__/ through extractTextContent() and
+ * compares the result with __snapshots__/<page>.md.
+ *
+ * To add a page, save its HTML in __fixtures__/ and run the tests once
+ * with snapshot updates (`npx vitest run -u`). Review the new .md file -
+ * it is exactly what buildPrompt() will see.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { extractTextContent } from './parser';
+
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__');
+
+const pages = readdirSync(FIXTURES_DIR)
+  .filter(file => file.endsWith('.html'))
+  .map(file => file.replace(/\.html$/, ''));
+
+describe('extractTextContent', () => {
+  it.each(pages)('%s', async page => {
+    const html = readFileSync(path.join(FIXTURES_DIR, `${page}.html`), 'utf8');
+    const { text, title, description } = extractTextContent(html);
+
+    const snapshot = [
+      `<!-- title: ${title ?? '(none)'} -->`,
+      `<!-- description: ${description ?? '(none)'} -->`,
+      '',
+      text,
+      '',
+    ].join('\n');
+
+    await expect(snapshot).toMatchFileSnapshot(path.join('__snapshots__', `${page}.md`));
+  });
+});
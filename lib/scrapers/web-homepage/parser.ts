@@ -4,24 +4,39 @@
  * Extracts and cleans text content from HTML.
  *
  * This parser:
- * - Removes script, style, and other non-content tags
- * - Extracts the main text content
- * - Cleans up whitespace and formatting
+ * - Parses the HTML into a DOM (tolerates malformed markup)
  * - Extracts metadata (title, description)
+ * - Extracts structured data (JSON-LD, OpenGraph, microdata)
+ * - Strips boilerplate and finds the main content (see readability.ts)
+ * - Converts it to markdown, keeping the heading hierarchy (see markdown.ts)
  */
 
-import { decodeHtmlEntities } from '@/lib/utils/format';
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { extractStructuredData } from './structured-data';
+import { findMainContent } from './readability';
+import { toMarkdown } from './markdown';
+import type { StructuredData } from '../types';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
 interface ExtractedContent {
+  /** Main content as markdown */
   text: string;
   title: string | null;
   description: string | null;
+  structuredData: StructuredData;
 }
 
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Below this, main-content detection probably dropped too much */
+const MIN_MAIN_CONTENT_LENGTH = 200;
+
 // ============================================================================
 // MAIN EXTRACTION FUNCTION
 // ============================================================================
@@ -30,142 +45,87 @@ interface ExtractedContent {
  * Extract clean text content from HTML.
  *
  * @param html - Raw HTML string
- * @returns Extracted text and metadata
+ * @returns Extracted markdown text and metadata
  */
 export function extractTextContent(html: string): ExtractedContent {
-  // Extract metadata first (before cleaning)
-  const title = extractTitle(html);
-  const description = extractMetaDescription(html);
-
-  // Remove non-content elements
-  let cleaned = html;
-
-  // Remove script tags and their content
-  cleaned = cleaned.replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, ' ');
-
-  // Remove style tags and their content
-  cleaned = cleaned.replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, ' ');
-
-  // Remove comments
-  cleaned = cleaned.replace(/<!--[\s\S]*?-->/g, ' ');
+  const $ = cheerio.load(html);
 
-  // Remove SVG elements
-  cleaned = cleaned.replace(/<svg\b[^<]*(?:(?!<\/svg>)<[^<]*)*<\/svg>/gi, ' ');
+  // Extract metadata first (before boilerplate removal)
+  const title = extractTitle($);
+  const description = extractMetaDescription($);
 
-  // Remove noscript elements
-  cleaned = cleaned.replace(/<noscript\b[^<]*(?:(?!<\/noscript>)<[^<]*)*<\/noscript>/gi, ' ');
+  // Structured data lives in <script> and <meta> tags, which are stripped below
+  const structuredData = extractStructuredData($);
 
-  // Remove header and footer (often navigation/boilerplate)
-  // We keep them but they'll be de-prioritized by the AI
-  cleaned = cleaned.replace(/<header\b[^>]*>([\s\S]*?)<\/header>/gi, '\n$1\n');
-  cleaned = cleaned.replace(/<footer\b[^>]*>([\s\S]*?)<\/footer>/gi, '\n$1\n');
+  let text = cleanWhitespace(toMarkdown(findMainContent($)));
 
-  // Remove nav elements
-  cleaned = cleaned.replace(/<nav\b[^>]*>([\s\S]*?)<\/nav>/gi, ' ');
-
-  // Add newlines for block elements
-  cleaned = cleaned.replace(/<\/(h[1-6]|p|div|section|article|li|tr)>/gi, '\n');
-  cleaned = cleaned.replace(/<(h[1-6]|p|div|section|article)[^>]*>/gi, '\n');
-
-  // Add space for inline breaks
-  cleaned = cleaned.replace(/<br\s*\/?>/gi, '\n');
-  cleaned = cleaned.replace(/<hr\s*\/?>/gi, '\n---\n');
-
-  // Remove all remaining HTML tags
-  cleaned = cleaned.replace(/<[^>]+>/g, ' ');
-
-  // Decode HTML entities
-  cleaned = decodeHtmlEntities(cleaned);
-
-  // Clean up whitespace
-  cleaned = cleanWhitespace(cleaned);
+  // Very sparse or unusual layouts - fall back to all visible text
+  if (text.length < MIN_MAIN_CONTENT_LENGTH) {
+    const fallback = extractFullText(html);
+    if (fallback.length > text.length) {
+      text = fallback;
+    }
+  }
 
   return {
-    text: cleaned,
+    text,
     title,
     description,
+    structuredData,
   };
 }
 
+/**
+ * Plain text of the whole body, without boilerplate detection.
+ */
+function extractFullText(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style, noscript, template, svg').remove();
+  return cleanWhitespace(toMarkdown($('body').first()));
+}
+
 // ============================================================================
 // METADATA EXTRACTION
 // ============================================================================
 
 /**
- * Extract the page title from HTML.
- * Decodes HTML entities for clean display.
+ * Extract the page title, falling back to og:title.
  */
-function extractTitle(html: string): string | null {
-  let title: string | null = null;
-
-  // Try <title> tag
-  const titleMatch = html.match(/<title[^>]*>([^<]*)<\/title>/i);
-  if (titleMatch && titleMatch[1]) {
-    title = titleMatch[1].trim();
-  }
-
-  // Try og:title meta tag if no title found
-  if (!title) {
-    const ogTitleMatch = html.match(
-      /<meta[^>]*property=["']og:title["'][^>]*content=["']([^"']+)["']/i
-    );
-    if (ogTitleMatch && ogTitleMatch[1]) {
-      title = ogTitleMatch[1].trim();
-    }
-  }
+function extractTitle($: CheerioAPI): string | null {
+  const title =
+    $('title').first().text().trim() ||
+    $('meta[property="og:title"]').attr('content')?.trim();
 
-  // Decode HTML entities before returning
-  return title ? decodeHtmlEntities(title) : null;
+  return title || null;
 }
 
 /**
- * Extract the meta description from HTML.
- * Decodes HTML entities for clean display.
+ * Extract the meta description, falling back to og:description.
  */
-function extractMetaDescription(html: string): string | null {
-  let description: string | null = null;
-
-  // Try standard meta description
-  const descMatch = html.match(
-    /<meta[^>]*name=["']description["'][^>]*content=["']([^"']+)["']/i
-  );
-  if (descMatch && descMatch[1]) {
-    description = descMatch[1].trim();
-  }
+function extractMetaDescription($: CheerioAPI): string | null {
+  const description =
+    $('meta[name="description"]').attr('content')?.trim() ||
+    $('meta[property="og:description"]').attr('content')?.trim();
 
-  // Try og:description if no standard description
-  if (!description) {
-    const ogDescMatch = html.match(
-      /<meta[^>]*property=["']og:description["'][^>]*content=["']([^"']+)["']/i
-    );
-    if (ogDescMatch && ogDescMatch[1]) {
-      description = ogDescMatch[1].trim();
-    }
-  }
-
-  // Decode HTML entities before returning
-  return description ? decodeHtmlEntities(description) : null;
+  return description || null;
 }
 
 // ============================================================================
 // CLEANING UTILITIES
 // ============================================================================
 
-// Note: decodeHtmlEntities is imported from @/lib/utils/format
-// to avoid duplication and ensure consistent entity handling
-
 /**
  * Clean up whitespace in text.
  */
 function cleanWhitespace(text: string): string {
   return text
-    // Replace multiple spaces with single space
-    .replace(/[ \t]+/g, ' ')
+    // Replace multiple spaces with single space (keep leading list indentation)
+    .replace(/(\S)[ \t]+/g, '$1 ')
     // Replace multiple newlines with double newline
     .replace(/\n{3,}/g, '\n\n')
-    // Remove leading/trailing whitespace from lines
+    // Remove trailing whitespace from lines (keep list indentation)
     .split('\n')
-    .map(line => line.trim())
+    .map(line => line.trimEnd())
     .join('\n')
     // Remove empty lines at start and end
     .trim();
@@ -0,0 +1,263 @@
+/**
+ * MAIN CONTENT DETECTION
+ * =======================
+ * Readability-style boilerplate removal on a parsed DOM.
+ *
+ * This module:
+ * 1. Drops non-content elements (scripts, form controls, hidden nodes)
+ * 2. Drops boilerplate (nav, footer, cookie banners, modals, share widgets)
+ * 3. Picks the content root (<main>/<article>, or the best-scoring container)
+ * 4. Drops link-heavy blocks left inside the root (menus, tag clouds)
+ *
+ * The document is modified in place; the returned root is ready for
+ * markdown conversion.
+ */
+
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Elements that never contain readable content */
+const NON_CONTENT_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe',
+  'object', 'embed', 'button', 'input', 'select', 'textarea', 'link', 'meta',
+].join(', ');
+
+/** Elements that are boilerplate by definition */
+const BOILERPLATE_SELECTOR = [
+  'nav', 'aside', 'footer', 'dialog',
+  '[role="navigation"]', '[role="contentinfo"]', '[role="dialog"]',
+  '[role="alertdialog"]', '[role="complementary"]', '[role="search"]',
+].join(', ');
+
+/** Elements hidden from readers */
+const HIDDEN_SELECTOR = [
+  '[hidden]', '[aria-hidden="true"]',
+  '[style*="display:none"]', '[style*="display: none"]',
+  '[style*="visibility:hidden"]', '[style*="visibility: hidden"]',
+].join(', ');
+
+/** class/id patterns for boilerplate widgets */
+const BOILERPLATE_PATTERN = /cookie|consent|gdpr|newsletter|popup|modal|overlay|breadcrumb|skip-?(link|nav|to)|sidebar|social-(share|links|icons)|share-(buttons|bar)|(^|[-_\s])(menu|navbar|nav)([-_\s]|$)|comments?([-_\s]|$)|related-(posts|articles)|advert|sponsor/i;
+
+/** class/id patterns that suggest main content */
+const POSITIVE_PATTERN = /article|body|content|entry|main|page|post|text|story|hero|feature|about|pricing|product|service/i;
+
+/** class/id patterns that suggest supporting chrome */
+const NEGATIVE_PATTERN = /hidden|footer|header|nav|menu|meta|sidebar|sponsor|ad-|masthead|comment|share|social|widget|promo/i;
+
+/** Boilerplate matches on elements bigger than this are ignored (likely wrappers) */
+const MAX_BOILERPLATE_LENGTH = 2000;
+
+/** Minimum text for a paragraph to count towards its container's score */
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/** The content root must hold at least this share of the page's text */
+const MIN_ROOT_SHARE = 0.6;
+
+/** Blocks with more link text than this (and no headings) are dropped */
+const MAX_LINK_DENSITY = 0.5;
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Strip boilerplate and return the element holding the page's main content.
+ *
+ * @param $ - Loaded document (modified in place)
+ * @returns The content root (falls back to <body>)
+ */
+export function findMainContent($: CheerioAPI): Cheerio<Element> {
+  removeBoilerplate($);
+
+  const body = $('body').first();
+  const root = selectContentRoot($, body);
+
+  removeLinkDenseBlocks($, root);
+
+  return root;
+}
+
+// ============================================================================
+// BOILERPLATE REMOVAL
+// ============================================================================
+
+function removeBoilerplate($: CheerioAPI): void {
+  $(NON_CONTENT_SELECTOR).remove();
+  $(HIDDEN_SELECTOR).remove();
+  $(BOILERPLATE_SELECTOR).remove();
+
+  // Site headers are usually navigation; article/hero headers are content
+  $('header').each((_, el) => {
+    const $el = $(el);
+    if ($el.closest('main, article').length === 0 && linkDensity($, $el) > MAX_LINK_DENSITY) {
+      $el.remove();
+    }
+  });
+
+  // Cookie banners, modals, share bars etc. identified by class/id
+  $('[class], [id]').each((_, el) => {
+    if (el.tagName === 'body' || el.tagName === 'html' || el.tagName === 'main') return;
+
+    const $el = $(el);
+    const signature = `${$el.attr('class') || ''} ${$el.attr('id') || ''}`;
+
+    if (BOILERPLATE_PATTERN.test(signature) && textLength($el) < MAX_BOILERPLATE_LENGTH) {
+      $el.remove();
+    }
+  });
+}
+
+/**
+ * Drop menus, tag clouds and link lists that survived boilerplate removal.
+ * Blocks with headings or real paragraphs are kept (e.g. product card grids).
+ */
+function removeLinkDenseBlocks($: CheerioAPI, root: Cheerio<Element>): void {
+  const rootLength = textLength(root);
+
+  root.find('ul, ol, div, section, table, p').each((_, el) => {
+    const $el = $(el);
+    const length = textLength($el);
+
+    if (length === 0 || length > rootLength / 2) return;
+    if ($el.find('a').length < 3) return;
+    if (linkDensity($, $el) <= MAX_LINK_DENSITY) return;
+    if ($el.find('h1, h2, h3, h4').length > 0) return;
+
+    $el.remove();
+  });
+}
+
+// ============================================================================
+// CONTENT ROOT SELECTION
+// ============================================================================
+
+/**
+ * Pick the content root: an explicit <main>/<article> if it holds most of
+ * the text, otherwise the best-scoring container widened until it does.
+ */
+function selectContentRoot($: CheerioAPI, body: Cheerio<Element>): Cheerio<Element> {
+  const bodyLength = textLength(body);
+  if (bodyLength === 0) return body;
+
+  const holdsMostText = ($el: Cheerio<Element>) =>
+    textLength($el) >= bodyLength * MIN_ROOT_SHARE;
+
+  const main = $('main, [role="main"]').first();
+  if (main.length > 0 && holdsMostText(main)) return main;
+
+  const articles = $('article');
+  if (articles.length === 1 && holdsMostText(articles.first())) return articles.first();
+
+  let candidate = findTopCandidate($);
+  if (!candidate) return body;
+
+  // Marketing pages spread content across many sections, so widen
+  // the winner until it covers most of the page
+  while (!holdsMostText(candidate) && candidate.parent().length > 0 && !candidate.is('body')) {
+    candidate = candidate.parent();
+  }
+
+  return candidate.is('html') ? body : candidate;
+}
+
+/**
+ * Score containers by the paragraphs they hold (readability's heuristic)
+ * and return the best one, discounted by link density.
+ */
+function findTopCandidate($: CheerioAPI): Cheerio<Element> | null {
+  const scores = new Map<Element, number>();
+
+  const addScore = (el: Element | null, points: number) => {
+    if (!el || el.type !== 'tag') return;
+    if (!scores.has(el)) scores.set(el, initialScore($, el));
+    scores.set(el, scores.get(el)! + points);
+  };
+
+  $('p, li, td, pre, blockquote').each((_, el) => {
+    const text = normalizedText($(el));
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    const points = 1 + text.split(',').length + Math.min(3, Math.floor(text.length / 100));
+    const parent = el.parent as Element | null;
+
+    addScore(parent, points);
+    addScore(parent?.parent as Element | null, points / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, $(el)));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+
+  return best ? $(best) : null;
+}
+
+/**
+ * Starting score from tag name and class/id hints.
+ */
+function initialScore($: CheerioAPI, el: Element): number {
+  let score = 0;
+
+  switch (el.tagName) {
+    case 'article':
+    case 'main':
+    case 'section':
+    case 'div':
+      score += 5;
+      break;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      score += 3;
+      break;
+    case 'form':
+    case 'ol':
+    case 'ul':
+      score -= 3;
+      break;
+  }
+
+  const signature = `${$(el).attr('class') || ''} ${$(el).attr('id') || ''}`;
+  if (NEGATIVE_PATTERN.test(signature)) score -= 25;
+  if (POSITIVE_PATTERN.test(signature)) score += 25;
+
+  return score;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function normalizedText($el: Cheerio<Element>): string {
+  return $el.text().replace(/\s+/g, ' ').trim();
+}
+
+function textLength($el: Cheerio<Element>): number {
+  return normalizedText($el).length;
+}
+
+/**
+ * Share of an element's text that sits inside links (0-1).
+ */
+function linkDensity($: CheerioAPI, $el: Cheerio<Element>): number {
+  const total = textLength($el);
+  if (total === 0) return 0;
+
+  let linkLength = 0;
+  $el.find('a').each((_, a) => {
+    linkLength += textLength($(a));
+  });
+
+  return Math.min(1, linkLength / total);
+}
@@ -0,0 +1,478 @@
+/**
+ * STRUCTURED DATA EXTRACTOR
+ * ==========================
+ * Pulls machine-readable facts out of HTML before the text cleaner
+ * throws <script> and <meta> tags away.
+ *
+ * Sources:
+ * - JSON-LD (<script type="application/ld+json">), including @graph
+ * - OpenGraph (<meta property="og:*">)
+ * - schema.org microdata (itemscope / itemtype / itemprop)
+ *
+ * JSON-LD and microdata are normalized into the same entity shape, so
+ * Organization, Product/Offer, FAQPage and AggregateRating handling is shared.
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { decodeHtmlEntities } from '@/lib/utils/format';
+import { log } from '@/lib/utils/logger';
+import type {
+  StructuredAddress,
+  StructuredData,
+  StructuredDataSource,
+  StructuredFaq,
+  StructuredOrganization,
+  StructuredProduct,
+  StructuredRating,
+} from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A schema.org entity as a loose JSON object (JSON-LD or converted microdata) */
+type Entity = Record<string, unknown>;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const MAX_PRODUCTS = 20;
+const MAX_FAQS = 15;
+const MAX_RATINGS = 10;
+const MAX_TEXT_LENGTH = 500;
+
+/** Types treated as "the business" */
+const ORGANIZATION_TYPES = /^(Organization|Corporation|LocalBusiness|OnlineBusiness|OnlineStore|NGO|EducationalOrganization|ProfessionalService|.*(Business|Store|Organization))$/;
+
+/** Types treated as sellable offerings */
+const PRODUCT_TYPES = /^(Product|ProductGroup|Service|SoftwareApplication|WebApplication|Course)$/;
+
+// ============================================================================
+// MAIN EXTRACTION FUNCTION
+// ============================================================================
+
+/**
+ * Extract and normalize structured data from raw HTML.
+ *
+ * @param html - Raw HTML string, or an already-loaded document
+ * @returns Normalized structured data (empty collections if none found)
+ *
+ * @example
+ * const data = extractStructuredData(html);
+ * data.organization?.foundingDate // -> '2019'
+ */
+export function extractStructuredData(html: string | CheerioAPI): StructuredData {
+  const $ = typeof html === 'string' ? cheerio.load(html) : html;
+  const sources: StructuredDataSource[] = [];
+
+  const jsonLdEntities = extractJsonLd($);
+  if (jsonLdEntities.length > 0) sources.push('json-ld');
+
+  const microdataEntities = extractMicrodata($);
+  if (microdataEntities.length > 0) sources.push('microdata');
+
+  const openGraph = extractOpenGraph($);
+  if (Object.keys(openGraph).length > 0) sources.push('opengraph');
+
+  const entities = [...jsonLdEntities, ...microdataEntities];
+  const ratings = normalizeRatings(entities);
+
+  return {
+    organization: normalizeOrganization(entities, openGraph),
+    products: normalizeProducts(entities),
+    faqs: normalizeFaqs(entities),
+    // Omitted when empty so pages without ratings keep their content hash
+    ...(ratings.length > 0 ? { ratings } : {}),
+    openGraph,
+    types: unique(entities.flatMap(getTypes)),
+    sources,
+  };
+}
+
+/**
+ * Merge structured data from several pages (e.g. a multi-page crawl).
+ * Earlier pages win for scalar fields; lists are concatenated and deduped.
+ *
+ * @param items - Structured data per page, most important page first
+ * @returns A single merged record
+ */
+export function mergeStructuredData(items: StructuredData[]): StructuredData {
+  const organizations = items
+    .map(item => item.organization)
+    .filter((org): org is StructuredOrganization => org !== null);
+
+  const organization = organizations.length > 0
+    ? organizations.reduceRight<StructuredOrganization>((acc, org) => ({
+        ...acc,
+        ...org,
+        founders: unique([...(org.founders ?? []), ...(acc.founders ?? [])]),
+        sameAs: unique([...(org.sameAs ?? []), ...(acc.sameAs ?? [])]),
+      }), {})
+    : null;
+
+  const ratings = dedupeBy(items.flatMap(item => item.ratings ?? []), ratingKey)
+    .slice(0, MAX_RATINGS);
+
+  return {
+    organization,
+    products: dedupeBy(items.flatMap(item => item.products), p => p.name.toLowerCase())
+      .slice(0, MAX_PRODUCTS),
+    faqs: dedupeBy(items.flatMap(item => item.faqs), f => f.question.toLowerCase())
+      .slice(0, MAX_FAQS),
+    ...(ratings.length > 0 ? { ratings } : {}),
+    openGraph: items.reduceRight<Record<string, string>>(
+      (acc, item) => ({ ...acc, ...item.openGraph }),
+      {}
+    ),
+    types: unique(items.flatMap(item => item.types)),
+    sources: unique(items.flatMap(item => item.sources)),
+  };
+}
+
+/**
+ * Check whether structured data contains anything worth passing on.
+ */
+export function hasStructuredData(data: StructuredData | null | undefined): data is StructuredData {
+  return !!data && (
+    data.organization !== null ||
+    data.products.length > 0 ||
+    data.faqs.length > 0 ||
+    (data.ratings?.length ?? 0) > 0 ||
+    Object.keys(data.openGraph).length > 0
+  );
+}
+
+// ============================================================================
+// SOURCE EXTRACTION
+// ============================================================================
+
+/**
+ * Parse every JSON-LD block and flatten arrays and @graph containers.
+ * Malformed blocks are skipped.
+ */
+function extractJsonLd($: CheerioAPI): Entity[] {
+  const entities: Entity[] = [];
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    const raw = $(el).text().trim();
+    if (!raw) return;
+
+    try {
+      entities.push(...flattenEntities(JSON.parse(raw)));
+    } catch {
+      log.debug('Skipping malformed JSON-LD block', { preview: raw.slice(0, 80) });
+    }
+  });
+
+  return entities;
+}
+
+/**
+ * Convert top-level microdata items into JSON-LD-shaped entities.
+ */
+function extractMicrodata($: CheerioAPI): Entity[] {
+  const entities: Entity[] = [];
+
+  // Top-level items only; nested items are read as properties
+  $('[itemscope]').each((_, el) => {
+    const $el = $(el);
+    if ($el.is('[itemprop]') || $el.parents('[itemscope]').length > 0) return;
+    entities.push(readMicrodataItem($, el));
+  });
+
+  return entities;
+}
+
+/**
+ * Read one microdata item and its own (non-nested) properties.
+ */
+function readMicrodataItem($: CheerioAPI, itemEl: Parameters<CheerioAPI>[0]): Entity {
+  const $item = $(itemEl);
+  const itemType = $item.attr('itemtype') || '';
+  const entity: Entity = {
+    '@type': itemType.split(/\s+/).map(t => t.split('/').pop()).filter(Boolean),
+  };
+
+  $item.find('[itemprop]').each((_, propEl) => {
+    const $prop = $(propEl);
+
+    // Skip properties that belong to a nested item
+    const owner = $prop.parent().closest('[itemscope]');
+    if (owner.length === 0 || owner[0] !== $item[0]) return;
+
+    const value = $prop.is('[itemscope]')
+      ? readMicrodataItem($, propEl)
+      : (
+          $prop.attr('content') ||
+          $prop.attr('href') ||
+          $prop.attr('src') ||
+          $prop.attr('datetime') ||
+          $prop.text()
+        ).trim();
+
+    for (const name of ($prop.attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+      const existing = entity[name];
+      entity[name] = existing === undefined
+        ? value
+        : [...(Array.isArray(existing) ? existing : [existing]), value];
+    }
+  });
+
+  return entity;
+}
+
+/**
+ * Collect og:* meta tags.
+ */
+function extractOpenGraph($: CheerioAPI): Record<string, string> {
+  const openGraph: Record<string, string> = {};
+
+  $('meta[property^="og:"]').each((_, el) => {
+    const key = ($(el).attr('property') || '').slice(3);
+    const value = $(el).attr('content');
+    if (key && value && !(key in openGraph)) {
+      openGraph[key] = cleanText(value);
+    }
+  });
+
+  return openGraph;
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Build the organization record from the first organization-like entity,
+ * falling back to WebSite name and og:site_name.
+ */
+function normalizeOrganization(
+  entities: Entity[],
+  openGraph: Record<string, string>
+): StructuredOrganization | null {
+  const org = entities.find(e => getTypes(e).some(t => ORGANIZATION_TYPES.test(t)));
+  const website = entities.find(e => getTypes(e).includes('WebSite'));
+
+  const result: StructuredOrganization = {
+    name: getString(org?.name) || getString(website?.name) || openGraph.site_name,
+    legalName: getString(org?.legalName),
+    description: getString(org?.description),
+    foundingDate: getString(org?.foundingDate),
+    founders: toArray(org?.founder ?? org?.founders).map(getName).filter(isPresent),
+    url: getString(org?.url),
+    logo: getString(org?.logo) || getString((org?.logo as Entity | undefined)?.url),
+    email: getString(org?.email)?.replace(/^mailto:/i, ''),
+    telephone: getString(org?.telephone),
+    address: normalizeAddress(toArray(org?.address)[0]),
+    sameAs: toArray(org?.sameAs).map(getString).filter(isPresent),
+  };
+
+  const hasValues = Object.values(result).some(value =>
+    Array.isArray(value) ? value.length > 0 : !!value
+  );
+
+  return hasValues ? stripEmpty(result) : null;
+}
+
+/**
+ * Read a PostalAddress entity, or a plain address string.
+ */
+function normalizeAddress(value: unknown): StructuredAddress | undefined {
+  if (typeof value === 'string') {
+    const street = getString(value);
+    return street ? { street } : undefined;
+  }
+  if (!value || typeof value !== 'object') return undefined;
+
+  const address = value as Entity;
+  const result = stripEmpty<StructuredAddress>({
+    street: getString(address.streetAddress),
+    locality: getString(address.addressLocality),
+    region: getString(address.addressRegion),
+    postalCode: getString(address.postalCode),
+    country: getName(address.addressCountry),
+  });
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Collect products/services and their offers.
+ */
+function normalizeProducts(entities: Entity[]): StructuredProduct[] {
+  const products: StructuredProduct[] = [];
+
+  for (const entity of entities) {
+    const types = getTypes(entity);
+
+    if (types.some(t => PRODUCT_TYPES.test(t))) {
+      const name = getString(entity.name);
+      if (!name) continue;
+
+      const offer = toArray(entity.offers)[0] as Entity | undefined;
+      products.push(stripEmpty({
+        name,
+        description: getString(entity.description),
+        brand: getName(entity.brand),
+        price: getString(offer?.price) || getString(offer?.lowPrice),
+        highPrice: getString(offer?.highPrice),
+        priceCurrency: getString(offer?.priceCurrency),
+        url: getString(entity.url),
+      }));
+    } else if (types.includes('Offer') && getString(entity.name)) {
+      // Standalone offers (common on pricing pages)
+      products.push(stripEmpty({
+        name: getString(entity.name)!,
+        description: getString(entity.description),
+        price: getString(entity.price),
+        priceCurrency: getString(entity.priceCurrency),
+        url: getString(entity.url),
+      }));
+    }
+  }
+
+  return dedupeBy(products, p => p.name.toLowerCase()).slice(0, MAX_PRODUCTS);
+}
+
+/**
+ * Collect FAQ question/answer pairs.
+ */
+function normalizeFaqs(entities: Entity[]): StructuredFaq[] {
+  const faqs: StructuredFaq[] = [];
+
+  for (const entity of entities.filter(e => getTypes(e).includes('FAQPage'))) {
+    for (const question of toArray(entity.mainEntity) as Entity[]) {
+      const name = getString(question?.name);
+      const answer = getString((toArray(question?.acceptedAnswer)[0] as Entity | undefined)?.text);
+      if (name && answer) {
+        faqs.push({ question: name, answer: truncateText(answer) });
+      }
+    }
+  }
+
+  return dedupeBy(faqs, f => f.question.toLowerCase()).slice(0, MAX_FAQS);
+}
+
+/**
+ * Collect AggregateRating scores, standalone or attached to another entity.
+ */
+function normalizeRatings(entities: Entity[]): StructuredRating[] {
+  const ratings: StructuredRating[] = [];
+
+  for (const entity of entities) {
+    const isRating = getTypes(entity).includes('AggregateRating');
+    const rating = isRating ? entity : toArray(entity.aggregateRating)[0] as Entity | undefined;
+    const ratingValue = getNumber(rating?.ratingValue);
+    if (!rating || ratingValue === undefined) continue;
+
+    ratings.push(stripEmpty({
+      itemName: isRating ? getName(rating.itemReviewed) : getString(entity.name),
+      ratingValue,
+      bestRating: getNumber(rating.bestRating),
+      reviewCount: getNumber(rating.reviewCount) ?? getNumber(rating.ratingCount),
+    }));
+  }
+
+  return dedupeBy(ratings, ratingKey).slice(0, MAX_RATINGS);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Flatten JSON-LD into a list of entities (handles arrays and @graph).
+ */
+function flattenEntities(value: unknown): Entity[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(flattenEntities);
+  }
+  if (value && typeof value === 'object') {
+    const entity = value as Entity;
+    const graph = entity['@graph'];
+    return graph ? flattenEntities(graph) : [entity];
+  }
+  return [];
+}
+
+function getTypes(entity: Entity): string[] {
+  return toArray(entity['@type'])
+    .map(type => (typeof type === 'string' ? type.split(/[/:]/).pop() || '' : ''))
+    .filter(Boolean);
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Read a string (or number) value, decoding entities and stripping tags.
+ */
+function getString(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return undefined;
+  const cleaned = cleanText(value);
+  return cleaned || undefined;
+}
+
+/**
+ * Read a number from a number or numeric string ("4.8", "1,204").
+ */
+function getNumber(value: unknown): number | undefined {
+  const number = typeof value === 'number' ? value : Number(getString(value)?.replace(/,/g, ''));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function ratingKey(rating: StructuredRating): string {
+  return `${rating.itemName?.toLowerCase() ?? ''}|${rating.ratingValue}|${rating.reviewCount ?? ''}`;
+}
+
+/**
+ * Read a name from a string or a { name } object (Person, Brand, etc.).
+ */
+function getName(value: unknown): string | undefined {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return getString((value as Entity).name);
+  }
+  return getString(value);
+}
+
+function cleanText(text: string): string {
+  return decodeHtmlEntities(text.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function truncateText(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH).trim()}...` : text;
+}
+
+function isPresent(value: string | undefined): value is string {
+  return !!value;
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+function dedupeBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Remove undefined values and empty arrays so stored JSON stays compact.
+ */
+function stripEmpty<T extends object>(obj: T): T {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, value]) =>
+      value !== undefined && !(Array.isArray(value) && value.length === 0)
+    )
+  ) as T;
+}
@@ -7,7 +7,14 @@
 
 import { createServerClient, createAdminClient } from './server';
 import { log, analyzerLog } from '@/lib/utils/logger';
-import type { AnalysisRun, AnalyzerType, AnalysisStatus } from '@/types';
+import type { AnalysisRun, AnalyzerType, AnalysisStatus, FieldEdits } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Statuses of a run the analyzers haven't finished with */
+export const ACTIVE_ANALYSIS_STATUSES: AnalysisStatus[] = ['queued', 'analyzing', 'parsing'];
 
 // ============================================================================
 // TYPES
@@ -25,6 +32,9 @@ export type UpdateAnalysisRunInput = {
   errorMessage?: string | null;
   startedAt?: string;
   completedAt?: string;
+  retryCount?: number;
+  currentVersionId?: string | null;
+  fieldEdits?: FieldEdits;
 };
 
 // ============================================================================
@@ -33,7 +43,10 @@ export type UpdateAnalysisRunInput = {
 
 /**
  * Create analysis run records for a brand.
- * Creates one run for each analyzer type (or specified types).
+ * Creates one run for each analyzer type (or specified types). Existing
+ * runs are reset to queued and their results cleared (results are kept
+ * in analysis_versions - see archiveAnalysisRuns for older ones).
+ * field_edits is left alone: the runner reapplies the human edits.
  *
  * @param brandId - The brand UUID
  * @param analyzerTypes - Which analyzers to create runs for
@@ -55,6 +68,14 @@ export async function createAnalysisRuns(
       brand_id: brandId,
       analyzer_type: analyzerType,
       status: 'queued' as AnalysisStatus,
+      raw_analysis: null,
+      parsed_data: null,
+      error_message: null,
+      started_at: null,
+      completed_at: null,
+      current_version_id: null,
+      // A fresh analysis gets a fresh retry budget
+      retry_count: 0,
     }));
 
     const { data, error } = await supabase
@@ -161,6 +182,17 @@ export async function getAnalysisRun(
   }
 }
 
+/**
+ * Check whether any of a brand's analyzers are queued or running.
+ *
+ * @param brandId - The brand UUID
+ * @returns True if a run is queued, analyzing or parsing
+ */
+export async function hasActiveAnalysisRuns(brandId: string): Promise<boolean> {
+  const { runs } = await getAnalysisRuns(brandId);
+  return runs.some(run => ACTIVE_ANALYSIS_STATUSES.includes(run.status));
+}
+
 // ============================================================================
 // UPDATE
 // ============================================================================
@@ -183,15 +215,9 @@ export async function updateAnalysisRun(
   log.debug('📝 Updating analysis run', { runId, status: input.status });
 
   try {
-    const supabase = createAdminClient();
+    const updateData = toUpdateData(input);
 
-    const updateData: Record<string, unknown> = {};
-    if (input.status !== undefined) updateData.status = input.status;
-    if (input.rawAnalysis !== undefined) updateData.raw_analysis = input.rawAnalysis;
-    if (input.parsedData !== undefined) updateData.parsed_data = input.parsedData;
-    if (input.errorMessage !== undefined) updateData.error_message = input.errorMessage;
-    if (input.startedAt !== undefined) updateData.started_at = input.startedAt;
-    if (input.completedAt !== undefined) updateData.completed_at = input.completedAt;
+    const supabase = createAdminClient();
 
     const { data, error } = await supabase
       .from('analysis_runs')
@@ -212,6 +238,123 @@ export async function updateAnalysisRun(
   }
 }
 
+/**
+ * Update an analysis run only if its status and retry count are still
+ * what the caller read, so two requests acting on the same run can't
+ * both go ahead.
+ * Uses admin client to bypass RLS (for background processing).
+ *
+ * @param run - The run as the caller read it
+ * @param input - Fields to update
+ * @returns Updated run, or null run and null error if the run changed
+ *   in the meantime
+ *
+ * @example
+ * const { run: queued, error } = await updateAnalysisRunIfUnchanged(run, { status: 'queued' });
+ * if (!queued && !error) // someone else got there first
+ */
+export async function updateAnalysisRunIfUnchanged(
+  run: Pick<AnalysisRun, 'id' | 'status' | 'retry_count'>,
+  input: UpdateAnalysisRunInput
+): Promise<{
+  run: AnalysisRun | null;
+  error: string | null;
+}> {
+  log.debug('📝 Updating analysis run if unchanged', { runId: run.id, status: input.status });
+
+  try {
+    const updateData = toUpdateData(input);
+
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('analysis_runs')
+      .update(updateData)
+      .eq('id', run.id)
+      .eq('status', run.status)
+      .eq('retry_count', run.retry_count)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      log.error('Failed to update analysis run', { error: error.message, runId: run.id });
+      return { run: null, error: error.message };
+    }
+
+    return { run: data as AnalysisRun | null, error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { run: null, error: message };
+  }
+}
+
+/**
+ * Claim a brand's runs before they are reset, so two requests can't
+ * both start an analysis, or reset runs an analysis is still writing.
+ *
+ * Refused if any run is queued or in progress. Otherwise one run (the
+ * first by analyzer type) is queued with updateAnalysisRunIfUnchanged,
+ * so of two requests reading the same runs only one gets it. A brand
+ * without runs has nothing to claim.
+ * Uses admin client to bypass RLS (for background processing).
+ *
+ * @param brandId - The brand UUID
+ * @returns The runs as read before the claim, the claimed run (to put
+ *   back if the analysis doesn't start), and whether another analysis
+ *   has them
+ *
+ * @example
+ * const { runs, claimed, conflict, error } = await claimAnalysisRuns(brandId);
+ * if (conflict) // already being analyzed
+ */
+export async function claimAnalysisRuns(brandId: string): Promise<{
+  runs: AnalysisRun[];
+  claimed: AnalysisRun | null;
+  conflict: boolean;
+  error: string | null;
+}> {
+  log.debug('🔒 Claiming analysis runs', { brandId });
+
+  try {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('analysis_runs')
+      .select('*')
+      .eq('brand_id', brandId);
+
+    if (error) {
+      log.error('Failed to fetch analysis runs', { error: error.message, brandId });
+      return { runs: [], claimed: null, conflict: false, error: error.message };
+    }
+
+    const runs = (data ?? []) as AnalysisRun[];
+
+    if (runs.some(run => ACTIVE_ANALYSIS_STATUSES.includes(run.status))) {
+      return { runs, claimed: null, conflict: true, error: null };
+    }
+
+    const [lock] = [...runs].sort((a, b) => a.analyzer_type.localeCompare(b.analyzer_type));
+
+    if (!lock) {
+      return { runs, claimed: null, conflict: false, error: null };
+    }
+
+    const { run: queued, error: claimError } = await updateAnalysisRunIfUnchanged(lock, { status: 'queued' });
+
+    if (claimError) {
+      return { runs, claimed: null, conflict: false, error: claimError };
+    }
+
+    return queued
+      ? { runs, claimed: lock, conflict: false, error: null }
+      : { runs, claimed: null, conflict: true, error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { runs: [], claimed: null, conflict: false, error: message };
+  }
+}
+
 /**
  * Update analysis run by brand ID and analyzer type.
  * Useful when you don't have the run ID handy.
@@ -227,15 +370,9 @@ export async function updateAnalysisRunByType(
   analyzerLog.start(analyzerType, brandId);
 
   try {
-    const supabase = createAdminClient();
+    const updateData = toUpdateData(input);
 
-    const updateData: Record<string, unknown> = {};
-    if (input.status !== undefined) updateData.status = input.status;
-    if (input.rawAnalysis !== undefined) updateData.raw_analysis = input.rawAnalysis;
-    if (input.parsedData !== undefined) updateData.parsed_data = input.parsedData;
-    if (input.errorMessage !== undefined) updateData.error_message = input.errorMessage;
-    if (input.startedAt !== undefined) updateData.started_at = input.startedAt;
-    if (input.completedAt !== undefined) updateData.completed_at = input.completedAt;
+    const supabase = createAdminClient();
 
     const { data, error } = await supabase
       .from('analysis_runs')
@@ -262,6 +399,24 @@ export async function updateAnalysisRunByType(
 // HELPERS
 // ============================================================================
 
+/**
+ * Column values for an update (only the fields that are set).
+ */
+function toUpdateData(input: UpdateAnalysisRunInput): Record<string, unknown> {
+  const updateData: Record<string, unknown> = {};
+  if (input.status !== undefined) updateData.status = input.status;
+  if (input.rawAnalysis !== undefined) updateData.raw_analysis = input.rawAnalysis;
+  if (input.parsedData !== undefined) updateData.parsed_data = input.parsedData;
+  if (input.errorMessage !== undefined) updateData.error_message = input.errorMessage;
+  if (input.startedAt !== undefined) updateData.started_at = input.startedAt;
+  if (input.completedAt !== undefined) updateData.completed_at = input.completedAt;
+  if (input.retryCount !== undefined) updateData.retry_count = input.retryCount;
+  if (input.currentVersionId !== undefined) updateData.current_version_id = input.currentVersionId;
+  if (input.fieldEdits !== undefined) updateData.field_edits = input.fieldEdits;
+
+  return updateData;
+}
+
 /**
  * Check if all analysis runs for a brand are complete.
  *
@@ -296,7 +451,7 @@ export async function getBrandAnalysisStatus(brandId: string): Promise<{
 
   const totalRuns = runs.length;
   const completedRuns = runs.filter(r => r.status === 'complete').length;
-  const errorRuns = runs.filter(r => r.status === 'error').length;
+  const errorRuns = runs.filter(r => r.status === 'error' || r.status === 'invalid').length;
   const inProgressRuns = runs.filter(r =>
     r.status === 'analyzing' || r.status === 'parsing'
   ).length;
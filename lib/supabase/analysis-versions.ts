@@ -0,0 +1,126 @@
+/**
+ * ANALYSIS VERSIONS DATABASE HELPERS
+ * ===================================
+ * Functions for the analyzer result history. Every analyzer execution
+ * stores its result as a version; the brand page reads them with the
+ * browser client (see useAnalysisVersions).
+ * Called from the analyzer runner and pipeline, so every helper uses
+ * the admin client.
+ */
+
+import { createAdminClient } from './server';
+import { log } from '@/lib/utils/logger';
+import type { AnalysisRun, AnalysisVersion, AnalysisVersionInsert } from '@/types';
+
+// ============================================================================
+// CREATE
+// ============================================================================
+
+/**
+ * Store one analyzer result.
+ *
+ * @param input - Brand, analyzer, result and provenance
+ * @returns Created version or error
+ */
+export async function createAnalysisVersion(input: AnalysisVersionInsert): Promise<{
+  version: AnalysisVersion | null;
+  error: string | null;
+}> {
+  try {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('analysis_versions')
+      .insert(input)
+      .select()
+      .single();
+
+    if (error) {
+      log.error('Failed to store analysis version', { brandId: input.brand_id, error: error.message });
+      return { version: null, error: error.message };
+    }
+
+    return { version: data as AnalysisVersion, error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { version: null, error: message };
+  }
+}
+
+/**
+ * Copy finished results that have no version yet (produced before
+ * versions were stored per execution) into analysis_versions.
+ * Call before the runs are reset for a new analysis.
+ *
+ * @param brandId - The brand UUID
+ * @param contentHash - Content hash the results were produced from
+ * @param runs - The brand's runs as read before they were claimed
+ *   (default: read them now)
+ * @returns Number of results archived, or error
+ *
+ * @example
+ * const { error } = await archiveAnalysisRuns(brandId, brand.content_hash);
+ */
+export async function archiveAnalysisRuns(
+  brandId: string,
+  contentHash: string | null,
+  runs?: AnalysisRun[]
+): Promise<{
+  archived: number;
+  error: string | null;
+}> {
+  try {
+    const supabase = createAdminClient();
+
+    let finished = runs?.filter(run => run.status === 'complete' && !run.current_version_id);
+
+    if (!finished) {
+      const { data, error: runsError } = await supabase
+        .from('analysis_runs')
+        .select('*')
+        .eq('brand_id', brandId)
+        .eq('status', 'complete')
+        .is('current_version_id', null);
+
+      if (runsError) {
+        log.error('Failed to read analysis runs for archiving', { brandId, error: runsError.message });
+        return { archived: 0, error: runsError.message };
+      }
+
+      finished = (data ?? []) as AnalysisRun[];
+    }
+
+    const versions: AnalysisVersionInsert[] = finished
+      .filter(run => run.parsed_data)
+      .map(run => ({
+        brand_id: brandId,
+        analyzer_type: run.analyzer_type,
+        raw_analysis: run.raw_analysis,
+        parsed_data: run.parsed_data as Record<string, unknown>,
+        content_hash: contentHash,
+        prompt_version: null,
+        model: null,
+        source: 'ai' as const,
+        analyzed_at: run.completed_at,
+      }));
+
+    if (versions.length === 0) {
+      return { archived: 0, error: null };
+    }
+
+    const { error } = await supabase
+      .from('analysis_versions')
+      .insert(versions);
+
+    if (error) {
+      log.error('Failed to archive analysis results', { brandId, error: error.message });
+      return { archived: 0, error: error.message };
+    }
+
+    log.info('Previous analysis archived', { brandId, count: versions.length });
+    return { archived: versions.length, error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { archived: 0, error: message };
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * BRAND CHANGES DATABASE HELPERS
+ * ===============================
+ * Functions for recording detected website changes and finding brands
+ * due for a scheduled re-scan.
+ * Used by background jobs, so every helper uses the admin client.
+ */
+
+import { createAdminClient } from './server';
+import { log } from '@/lib/utils/logger';
+import type { Brand, BrandChange, BrandChangeInsert } from '@/types';
+
+// ============================================================================
+// CREATE
+// ============================================================================
+
+/**
+ * Record a detected change.
+ *
+ * @param input - Diff, highlights and summary
+ * @returns Created change or error
+ */
+export async function createBrandChange(input: BrandChangeInsert): Promise<{
+  change: BrandChange | null;
+  error: string | null;
+}> {
+  try {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('brand_changes')
+      .insert(input)
+      .select()
+      .single();
+
+    if (error) {
+      log.error('Failed to record brand change', { brandId: input.brand_id, error: error.message });
+      return { change: null, error: error.message };
+    }
+
+    const typedChange = data as BrandChange;
+    log.success('Brand change recorded', { brandId: input.brand_id, summary: input.summary });
+    return { change: typedChange, error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { change: null, error: message };
+  }
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * Get monitored brands whose next scan is due.
+ * Brands that are currently scraping are left for the next run.
+ *
+ * @param limit - Max brands to return (oldest due first)
+ * @returns Due brands or error
+ */
+export async function getDueMonitoredBrands(limit: number): Promise<{
+  brands: Brand[];
+  error: string | null;
+}> {
+  try {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('brands')
+      .select('*')
+      .neq('monitor_frequency', 'off')
+      .neq('scrape_status', 'scraping')
+      .lte('next_check_at', new Date().toISOString())
+      .order('next_check_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      log.error('Failed to fetch due brands', { error: error.message });
+      return { brands: [], error: error.message };
+    }
+
+    return { brands: (data ?? []) as Brand[], error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { brands: [], error: message };
+  }
+}
@@ -7,7 +7,19 @@
 
 import { createServerClient, createAdminClient } from './server';
 import { log } from '@/lib/utils/logger';
-import type { Brand, ScrapeStatus } from '@/types';
+import type { AnalysisLanguage, Brand, MonitorFrequency, ScrapeStatus } from '@/types';
+import type {
+  BlogFeed,
+  ContactInfo,
+  DetectedLanguage,
+  PricingTable,
+  ScraperType,
+  SiteInventory,
+  SocialProof,
+  StructuredData,
+  TechStack,
+  VisualIdentity,
+} from '@/lib/scrapers/types';
 
 // ============================================================================
 // TYPES
@@ -25,6 +37,20 @@ export type UpdateBrandInput = {
   scrapedAt?: string;
   scrapeStatus?: ScrapeStatus;
   scrapeError?: string | null;
+  structuredData?: StructuredData | null;
+  visualIdentity?: VisualIdentity | null;
+  contactInfo?: ContactInfo | null;
+  techStack?: TechStack | null;
+  pricing?: PricingTable | null;
+  socialProof?: SocialProof | null;
+  blogFeed?: BlogFeed | null;
+  language?: DetectedLanguage | null;
+  analysisLanguage?: AnalysisLanguage;
+  siteInventory?: SiteInventory | null;
+  contentHash?: string | null;
+  scraperType?: ScraperType;
+  monitorFrequency?: MonitorFrequency;
+  nextCheckAt?: string | null;
 };
 
 // ============================================================================
@@ -192,6 +218,20 @@ export async function updateBrand(
     if (input.scrapedAt !== undefined) updateData.scraped_at = input.scrapedAt;
     if (input.scrapeStatus !== undefined) updateData.scrape_status = input.scrapeStatus;
     if (input.scrapeError !== undefined) updateData.scrape_error = input.scrapeError;
+    if (input.structuredData !== undefined) updateData.structured_data = input.structuredData;
+    if (input.visualIdentity !== undefined) updateData.visual_identity = input.visualIdentity;
+    if (input.contactInfo !== undefined) updateData.contact_info = input.contactInfo;
+    if (input.techStack !== undefined) updateData.tech_stack = input.techStack;
+    if (input.pricing !== undefined) updateData.pricing = input.pricing;
+    if (input.socialProof !== undefined) updateData.social_proof = input.socialProof;
+    if (input.blogFeed !== undefined) updateData.blog_feed = input.blogFeed;
+    if (input.language !== undefined) updateData.language = input.language;
+    if (input.analysisLanguage !== undefined) updateData.analysis_language = input.analysisLanguage;
+    if (input.siteInventory !== undefined) updateData.site_inventory = input.siteInventory;
+    if (input.contentHash !== undefined) updateData.content_hash = input.contentHash;
+    if (input.scraperType !== undefined) updateData.scraper_type = input.scraperType;
+    if (input.monitorFrequency !== undefined) updateData.monitor_frequency = input.monitorFrequency;
+    if (input.nextCheckAt !== undefined) updateData.next_check_at = input.nextCheckAt;
 
     const { data, error } = await supabase
       .from('brands')
@@ -236,6 +276,20 @@ export async function updateBrandAdmin(
     if (input.scrapedAt !== undefined) updateData.scraped_at = input.scrapedAt;
     if (input.scrapeStatus !== undefined) updateData.scrape_status = input.scrapeStatus;
     if (input.scrapeError !== undefined) updateData.scrape_error = input.scrapeError;
+    if (input.structuredData !== undefined) updateData.structured_data = input.structuredData;
+    if (input.visualIdentity !== undefined) updateData.visual_identity = input.visualIdentity;
+    if (input.contactInfo !== undefined) updateData.contact_info = input.contactInfo;
+    if (input.techStack !== undefined) updateData.tech_stack = input.techStack;
+    if (input.pricing !== undefined) updateData.pricing = input.pricing;
+    if (input.socialProof !== undefined) updateData.social_proof = input.socialProof;
+    if (input.blogFeed !== undefined) updateData.blog_feed = input.blogFeed;
+    if (input.language !== undefined) updateData.language = input.language;
+    if (input.analysisLanguage !== undefined) updateData.analysis_language = input.analysisLanguage;
+    if (input.siteInventory !== undefined) updateData.site_inventory = input.siteInventory;
+    if (input.contentHash !== undefined) updateData.content_hash = input.contentHash;
+    if (input.scraperType !== undefined) updateData.scraper_type = input.scraperType;
+    if (input.monitorFrequency !== undefined) updateData.monitor_frequency = input.monitorFrequency;
+    if (input.nextCheckAt !== undefined) updateData.next_check_at = input.nextCheckAt;
 
     const { data, error } = await supabase
       .from('brands')
@@ -0,0 +1,125 @@
+/**
+ * SCRAPE ATTEMPTS DATABASE HELPERS
+ * =================================
+ * Functions for recording every scrape of a brand with its diagnostics.
+ * Written from API routes and background jobs, so every helper uses the
+ * admin client. The brand page reads attempts with the browser client
+ * (see useScrapeAttempts).
+ */
+
+import { createAdminClient } from './server';
+import { log } from '@/lib/utils/logger';
+import type { ScrapeResult, ScraperType } from '@/lib/scrapers/types';
+import type { ScrapeAttempt, ScrapeAttemptInsert, ScrapeAttemptTrigger } from '@/types';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Attempts kept per brand (older ones are deleted) */
+const MAX_ATTEMPTS_PER_BRAND = 20;
+
+// ============================================================================
+// CREATE
+// ============================================================================
+
+/**
+ * Record a scrape and its diagnostics, then drop the brand's oldest attempts.
+ * Failures are logged, never thrown - diagnostics must not break a scrape.
+ *
+ * @param input - Brand, scraper, trigger and the scrape result
+ * @returns Created attempt or error
+ *
+ * @example
+ * await recordScrapeAttempt({ brandId, scraperType, trigger: 'create', result: scrapeResult });
+ */
+export async function recordScrapeAttempt(input: {
+  brandId: string;
+  scraperType: ScraperType;
+  trigger: ScrapeAttemptTrigger;
+  result: ScrapeResult;
+}): Promise<{
+  attempt: ScrapeAttempt | null;
+  error: string | null;
+}> {
+  const { brandId, scraperType, trigger, result } = input;
+  const diagnostics = result.diagnostics;
+
+  const row: ScrapeAttemptInsert = {
+    brand_id: brandId,
+    scraper_type: scraperType,
+    trigger,
+    success: result.success && Boolean(result.content),
+    error: result.error ?? null,
+    error_code: result.errorCode ?? null,
+    requested_url: diagnostics?.requestedUrl ?? null,
+    final_url: diagnostics?.finalUrl ?? null,
+    redirects: diagnostics?.hops ?? [],
+    status_code: diagnostics?.status ?? null,
+    content_type: diagnostics?.contentType ?? null,
+    response_bytes: diagnostics?.responseBytes ?? null,
+    ttfb_ms: diagnostics?.timeToFirstByteMs ?? null,
+    cache_status: diagnostics?.cache ?? null,
+    render_mode: diagnostics?.renderMode ?? null,
+    extracted_chars: diagnostics?.extractedChars ?? 0,
+    truncated: diagnostics?.truncated ?? false,
+    cleaned_text: diagnostics?.cleanedText ?? null,
+    duration_ms: diagnostics?.durationMs ?? null,
+  };
+
+  try {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('scrape_attempts')
+      .insert(row)
+      .select()
+      .single();
+
+    if (error) {
+      log.warn('Failed to record scrape attempt', { brandId, error: error.message });
+      return { attempt: null, error: error.message };
+    }
+
+    await pruneScrapeAttempts(brandId);
+
+    return { attempt: data as ScrapeAttempt, error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    log.warn('Failed to record scrape attempt', { brandId, error: message });
+    return { attempt: null, error: message };
+  }
+}
+
+// ============================================================================
+// DELETE
+// ============================================================================
+
+/**
+ * Delete a brand's attempts beyond the newest MAX_ATTEMPTS_PER_BRAND.
+ *
+ * @param brandId - The brand's ID
+ */
+async function pruneScrapeAttempts(brandId: string): Promise<void> {
+  const supabase = createAdminClient();
+
+  const { data: stale, error } = await supabase
+    .from('scrape_attempts')
+    .select('id')
+    .eq('brand_id', brandId)
+    .order('created_at', { ascending: false })
+    .range(MAX_ATTEMPTS_PER_BRAND, MAX_ATTEMPTS_PER_BRAND + 99);
+
+  if (error || !stale?.length) {
+    return;
+  }
+
+  const { error: deleteError } = await supabase
+    .from('scrape_attempts')
+    .delete()
+    .in('id', stale.map(attempt => attempt.id));
+
+  if (deleteError) {
+    log.warn('Failed to prune scrape attempts', { brandId, error: deleteError.message });
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * SCRAPE CACHE DATABASE HELPERS
+ * ==============================
+ * Functions for reading and writing cached page bodies.
+ * The cache is shared across users and only touched server-side,
+ * so every helper uses the admin client.
+ */
+
+import { createAdminClient } from './server';
+import { log } from '@/lib/utils/logger';
+import type { ScrapeCacheEntry, ScrapeCacheInsert } from '@/types';
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * Get the cached copy of a URL.
+ *
+ * @param url - The requested URL
+ * @returns Cache entry (null if not cached) or error
+ */
+export async function getCachedPage(url: string): Promise<{
+  entry: ScrapeCacheEntry | null;
+  error: string | null;
+}> {
+  try {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from('scrape_cache')
+      .select('*')
+      .eq('url', url)
+      .maybeSingle();
+
+    if (error) {
+      log.warn('Failed to read scrape cache', { url, error: error.message });
+      return { entry: null, error: error.message };
+    }
+
+    return { entry: data as ScrapeCacheEntry | null, error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { entry: null, error: message };
+  }
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Store (or replace) the cached copy of a URL.
+ *
+ * @param input - Page body, validators and hash
+ * @returns Error if the write failed
+ */
+export async function saveCachedPage(input: ScrapeCacheInsert): Promise<{ error: string | null }> {
+  try {
+    const supabase = createAdminClient();
+    const now = new Date().toISOString();
+
+    const { error } = await supabase
+      .from('scrape_cache')
+      .upsert({
+        ...input,
+        fetched_at: input.fetched_at ?? now,
+        validated_at: input.validated_at ?? now,
+      }, { onConflict: 'url' });
+
+    if (error) {
+      log.warn('Failed to write scrape cache', { url: input.url, error: error.message });
+      return { error: error.message };
+    }
+
+    return { error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { error: message };
+  }
+}
+
+/**
+ * Mark a cached page as still fresh (after a 304 Not Modified).
+ *
+ * @param url - The requested URL
+ * @returns Error if the write failed
+ */
+export async function markCachedPageValidated(url: string): Promise<{ error: string | null }> {
+  try {
+    const supabase = createAdminClient();
+
+    const { error } = await supabase
+      .from('scrape_cache')
+      .update({ validated_at: new Date().toISOString() })
+      .eq('url', url);
+
+    if (error) {
+      log.warn('Failed to update scrape cache', { url, error: error.message });
+      return { error: error.message };
+    }
+
+    return { error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { error: message };
+  }
+}
@@ -227,6 +227,24 @@ export function titleCase(text: string): string {
     .join(' ');
 }
 
+/**
+ * English name of a language code.
+ *
+ * @param code - ISO 639-1 code or language tag
+ * @returns Language name, or the uppercased code if unknown
+ *
+ * @example
+ * formatLanguageName('de') // -> 'German'
+ * formatLanguageName('pt-BR') // -> 'Brazilian Portuguese'
+ */
+export function formatLanguageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code.toUpperCase();
+  } catch {
+    return code.toUpperCase();
+  }
+}
+
 // ============================================================================
 // NUMBER FORMATTING
 // ============================================================================
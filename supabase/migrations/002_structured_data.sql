@@ -0,0 +1,28 @@
+-- ============================================================================
+-- MIGRATION: STRUCTURED DATA
+-- ============================================================================
+-- Stores the machine-readable data a site publishes about itself
+-- (JSON-LD, OpenGraph, schema.org microdata) alongside the scraped text.
+-- Run this in your Supabase SQL Editor after the main schema.sql.
+--
+-- Changes:
+-- 1. Adds structured_data column to brands table
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: BRANDS - Structured Data Column
+-- ============================================================================
+
+-- Normalized organization, products/offers, FAQs and OpenGraph tags.
+-- Shape matches StructuredData in lib/scrapers/types.ts.
+
+ALTER TABLE brands
+  ADD COLUMN IF NOT EXISTS structured_data JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN brands.structured_data IS 'JSON-LD / OpenGraph / microdata extracted during the scrape';
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
@@ -0,0 +1,28 @@
+-- ============================================================================
+-- MIGRATION: VISUAL IDENTITY
+-- ============================================================================
+-- Stores the logo candidates, color palette and fonts found on a brand's
+-- homepage alongside the scraped text.
+-- Run this in your Supabase SQL Editor after the main schema.sql.
+--
+-- Changes:
+-- 1. Adds visual_identity column to brands table
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: BRANDS - Visual Identity Column
+-- ============================================================================
+
+-- Logos (favicon, apple-touch-icon, og:image, <img>), CSS colors and fonts.
+-- Shape matches VisualIdentity in lib/scrapers/types.ts.
+
+ALTER TABLE brands
+  ADD COLUMN IF NOT EXISTS visual_identity JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN brands.visual_identity IS 'Logo candidates, color palette and fonts extracted during the scrape';
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
@@ -0,0 +1,60 @@
+-- ============================================================================
+-- MIGRATION: SCRAPE CACHE
+-- ============================================================================
+-- Caches fetched pages so re-scrapes can send conditional requests
+-- (If-None-Match / If-Modified-Since) and skip unchanged content.
+-- Run this in your Supabase SQL Editor after the main schema.sql.
+--
+-- Changes:
+-- 1. Creates scrape_cache table (one row per fetched URL)
+-- 2. Adds content_hash column to brands table
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: SCRAPE_CACHE - Cached Page Bodies
+-- ============================================================================
+
+-- Shared across users: pages are public, keyed by the requested URL.
+-- Only the server (service role) reads and writes this table.
+
+CREATE TABLE IF NOT EXISTS scrape_cache (
+  url TEXT PRIMARY KEY,
+  final_url TEXT NOT NULL,
+  etag TEXT,
+  last_modified TEXT,
+  content_hash TEXT NOT NULL,
+  body TEXT NOT NULL,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  validated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add comments for documentation
+COMMENT ON COLUMN scrape_cache.final_url IS 'URL after redirects';
+COMMENT ON COLUMN scrape_cache.content_hash IS 'SHA-256 of the body';
+COMMENT ON COLUMN scrape_cache.fetched_at IS 'When the body was last downloaded';
+COMMENT ON COLUMN scrape_cache.validated_at IS 'When the body was last confirmed fresh (download or 304)';
+
+-- Index for pruning old entries
+CREATE INDEX IF NOT EXISTS idx_scrape_cache_validated_at ON scrape_cache(validated_at);
+
+-- RLS on with no policies: only the service role can access it
+ALTER TABLE scrape_cache ENABLE ROW LEVEL SECURITY;
+
+
+-- ============================================================================
+-- SECTION 2: BRANDS - Content Hash Column
+-- ============================================================================
+
+-- Hash of what the analyzers last saw (content + structured data).
+-- A re-scrape with the same hash doesn't need to re-run analyzers.
+
+ALTER TABLE brands
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- Add comment for documentation
+COMMENT ON COLUMN brands.content_hash IS 'SHA-256 of the analyzed content, used to skip unchanged re-scrapes';
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
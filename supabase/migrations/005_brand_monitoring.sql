@@ -0,0 +1,99 @@
+-- ============================================================================
+-- MIGRATION: BRAND MONITORING
+-- ============================================================================
+-- Scheduled re-scans of a brand's website and a history of what changed.
+-- Run this in your Supabase SQL Editor after the main schema.sql.
+--
+-- Changes:
+-- 1. Adds monitor_frequency and next_check_at columns to brands table
+-- 2. Creates brand_changes table (one row per detected change)
+-- 3. RLS policies for brand_changes (access through brand ownership)
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: BRANDS - Monitoring Schedule
+-- ============================================================================
+
+-- 'off' = never re-scanned automatically.
+-- next_check_at is set when monitoring is turned on and after every scan.
+
+ALTER TABLE brands
+  ADD COLUMN IF NOT EXISTS monitor_frequency TEXT NOT NULL DEFAULT 'off'
+    CHECK (monitor_frequency IN ('off', 'weekly', 'monthly')),
+  ADD COLUMN IF NOT EXISTS next_check_at TIMESTAMPTZ;
+
+-- Add comments for documentation
+COMMENT ON COLUMN brands.monitor_frequency IS 'How often the website is re-scanned: off, weekly or monthly';
+COMMENT ON COLUMN brands.next_check_at IS 'When the next scheduled re-scan is due';
+
+-- Index for the scheduler query (due monitored brands)
+CREATE INDEX IF NOT EXISTS idx_brands_next_check_at ON brands(next_check_at)
+  WHERE monitor_frequency <> 'off';
+
+
+-- ============================================================================
+-- SECTION 2: BRAND_CHANGES - Detected Website Changes
+-- ============================================================================
+
+-- Written by the server when a re-scan produces different content.
+-- added/removed hold the changed paragraphs; highlights hold the
+-- classified changes (products, prices, messaging).
+
+CREATE TABLE IF NOT EXISTS brand_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+  trigger TEXT NOT NULL DEFAULT 'scheduled' CHECK (trigger IN ('scheduled', 'manual')),
+  summary TEXT NOT NULL,
+  added JSONB NOT NULL DEFAULT '[]',
+  removed JSONB NOT NULL DEFAULT '[]',
+  highlights JSONB NOT NULL DEFAULT '[]',
+  added_count INTEGER NOT NULL DEFAULT 0,
+  removed_count INTEGER NOT NULL DEFAULT 0,
+  previous_hash TEXT,
+  content_hash TEXT NOT NULL,
+  seen_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add comments for documentation
+COMMENT ON COLUMN brand_changes.trigger IS 'scheduled (monitoring) or manual (refresh button)';
+COMMENT ON COLUMN brand_changes.added IS 'Paragraphs new in this scan (capped)';
+COMMENT ON COLUMN brand_changes.removed IS 'Paragraphs no longer present (capped)';
+COMMENT ON COLUMN brand_changes.highlights IS 'Classified changes: products, prices, messaging';
+COMMENT ON COLUMN brand_changes.seen_at IS 'When the owner viewed the change (NULL = unseen)';
+
+-- Indexes for the timeline and unseen badge
+CREATE INDEX IF NOT EXISTS idx_brand_changes_brand_id ON brand_changes(brand_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_brand_changes_unseen ON brand_changes(brand_id) WHERE seen_at IS NULL;
+
+
+-- ============================================================================
+-- SECTION 3: BRAND_CHANGES - Row Level Security
+-- ============================================================================
+
+ALTER TABLE brand_changes ENABLE ROW LEVEL SECURITY;
+
+-- Access through brand ownership (inserts are server-only)
+CREATE POLICY "brand_changes_select_own" ON brand_changes
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM brands
+      WHERE brands.id = brand_changes.brand_id
+      AND brands.user_id = auth.uid()
+    )
+  );
+
+-- Lets the owner mark changes as seen
+CREATE POLICY "brand_changes_update_own" ON brand_changes
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM brands
+      WHERE brands.id = brand_changes.brand_id
+      AND brands.user_id = auth.uid()
+    )
+  );
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
@@ -0,0 +1,29 @@
+-- ============================================================================
+-- MIGRATION: CONTACT INFO
+-- ============================================================================
+-- Stores the emails, phone numbers, postal addresses and social profiles
+-- found in a brand's HTML alongside the scraped text.
+-- Run this in your Supabase SQL Editor after the main schema.sql.
+--
+-- Changes:
+-- 1. Adds contact_info column to brands table
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: BRANDS - Contact Info Column
+-- ============================================================================
+
+-- Deduplicated contact records and social profiles (LinkedIn, Instagram,
+-- X, TikTok, YouTube, Facebook).
+-- Shape matches ContactInfo in lib/scrapers/types.ts.
+
+ALTER TABLE brands
+  ADD COLUMN IF NOT EXISTS contact_info JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN brands.contact_info IS 'Emails, phones, postal addresses and social profiles extracted during the scrape';
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
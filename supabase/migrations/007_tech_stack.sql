@@ -0,0 +1,47 @@
+-- ============================================================================
+-- MIGRATION: TECH STACK
+-- ============================================================================
+-- Stores the technologies fingerprinted from a brand's website, and keeps
+-- the response headers and cookie names that the detection reads alongside
+-- cached pages.
+-- Run this in your Supabase SQL Editor after the main schema.sql.
+--
+-- Changes:
+-- 1. Adds tech_stack column to brands table
+-- 2. Adds response_headers and cookie_names columns to scrape_cache table
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: BRANDS - Tech Stack Column
+-- ============================================================================
+
+-- Detected technologies with category, confidence and evidence.
+-- Shape matches TechStack in lib/scrapers/types.ts.
+
+ALTER TABLE brands
+  ADD COLUMN IF NOT EXISTS tech_stack JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN brands.tech_stack IS 'Technologies (CMS, analytics, payments, chat...) detected during the scrape';
+
+
+-- ============================================================================
+-- SECTION 2: SCRAPE_CACHE - Response Headers and Cookies
+-- ============================================================================
+
+-- Cache hits don't make a request, so the headers and cookies of the
+-- original download are stored with the body. NULL for rows cached
+-- before this migration (detection then uses the HTML only).
+
+ALTER TABLE scrape_cache
+  ADD COLUMN IF NOT EXISTS response_headers JSONB,
+  ADD COLUMN IF NOT EXISTS cookie_names TEXT[];
+
+-- Add comments for documentation
+COMMENT ON COLUMN scrape_cache.response_headers IS 'Response headers of the download (lowercase names, without Set-Cookie)';
+COMMENT ON COLUMN scrape_cache.cookie_names IS 'Names of the cookies set by the download (values are not stored)';
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
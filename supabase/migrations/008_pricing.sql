@@ -0,0 +1,28 @@
+-- ============================================================================
+-- MIGRATION: PRICING TABLES
+-- ============================================================================
+-- Stores the pricing tiers parsed from a brand's pricing page, so the
+-- products analyzer and the Products card can use exact prices.
+-- Run this in your Supabase SQL Editor after the main schema.sql.
+--
+-- Changes:
+-- 1. Adds pricing column to brands table
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: BRANDS - Pricing Column
+-- ============================================================================
+
+-- Tiers with price, currency, billing period, features and
+-- contact-sales flag. Shape matches PricingTable in lib/scrapers/types.ts.
+
+ALTER TABLE brands
+  ADD COLUMN IF NOT EXISTS pricing JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN brands.pricing IS 'Pricing tiers parsed from the pricing page during the scrape';
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
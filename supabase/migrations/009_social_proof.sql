@@ -0,0 +1,29 @@
+-- ============================================================================
+-- MIGRATION: SOCIAL PROOF
+-- ============================================================================
+-- Stores testimonials, client logos, review ratings and stat callouts
+-- found during the scrape, each with the page it came from, so doc
+-- templates (e.g. battlecards) can quote and cite them.
+-- Run this in your Supabase SQL Editor after the main schema.sql.
+--
+-- Changes:
+-- 1. Adds social_proof column to brands table
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: BRANDS - Social Proof Column
+-- ============================================================================
+
+-- Testimonials (quote, author, role, company), client logos, ratings
+-- and stats. Shape matches SocialProof in lib/scrapers/types.ts.
+
+ALTER TABLE brands
+  ADD COLUMN IF NOT EXISTS social_proof JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN brands.social_proof IS 'Testimonials, client logos, ratings and stat callouts found during the scrape';
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
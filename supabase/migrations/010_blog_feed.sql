@@ -0,0 +1,29 @@
+-- ============================================================================
+-- MIGRATION: BLOG FEED
+-- ============================================================================
+-- Stores the latest posts from a brand's RSS / Atom feed, with their
+-- categories and the publishing cadence, for the analyzers and the
+-- "Recent content" list on the brand page.
+-- Run this in your Supabase SQL Editor after the main schema.sql.
+--
+-- Changes:
+-- 1. Adds blog_feed column to brands table
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: BRANDS - Blog Feed Column
+-- ============================================================================
+
+-- Feed URL, posts (title, date, summary, categories), top themes and
+-- cadence stats. Shape matches BlogFeed in lib/scrapers/types.ts.
+
+ALTER TABLE brands
+  ADD COLUMN IF NOT EXISTS blog_feed JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN brands.blog_feed IS 'Latest posts from the RSS / Atom feed found during the scrape';
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
@@ -0,0 +1,35 @@
+-- ============================================================================
+-- MIGRATION: LANGUAGE
+-- ============================================================================
+-- Stores the detected language of a brand's scraped content and the
+-- language analyzers should write in, so non-English websites can be
+-- analyzed in their own language or translated to English.
+-- Run this in your Supabase SQL Editor after the main schema.sql.
+--
+-- Changes:
+-- 1. Adds language and analysis_language columns to brands table
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: BRANDS - Language Columns
+-- ============================================================================
+
+-- language: detected code, how it was detected, hreflang alternates and
+-- (when the English version was scraped) the original page's language.
+-- Shape matches DetectedLanguage in lib/scrapers/types.ts.
+-- analysis_language: 'english' translates (and prefers the site's English
+-- version), 'source' keeps the website's own language.
+
+ALTER TABLE brands
+  ADD COLUMN IF NOT EXISTS language JSONB,
+  ADD COLUMN IF NOT EXISTS analysis_language TEXT NOT NULL DEFAULT 'english'
+    CHECK (analysis_language IN ('english', 'source'));
+
+-- Add comments for documentation
+COMMENT ON COLUMN brands.language IS 'Detected language of the scraped content';
+COMMENT ON COLUMN brands.analysis_language IS 'Language analyzers write in: english or source';
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
@@ -0,0 +1,30 @@
+-- ============================================================================
+-- MIGRATION: SITE INVENTORY
+-- ============================================================================
+-- Stores a page inventory built from a brand's sitemaps: how many URLs the
+-- site has per section (blog, product, docs, legal, careers, locations)
+-- and when they were last modified, for the "Site inventory" card on the
+-- brand page.
+-- Run this in your Supabase SQL Editor after the main schema.sql.
+--
+-- Changes:
+-- 1. Adds site_inventory column to brands table
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: BRANDS - Site Inventory Column
+-- ============================================================================
+
+-- Sitemaps read, total URL count, and per-section counts, last-modified
+-- dates and example URLs. Shape matches SiteInventory in lib/scrapers/types.ts.
+
+ALTER TABLE brands
+  ADD COLUMN IF NOT EXISTS site_inventory JSONB;
+
+-- Add comment for documentation
+COMMENT ON COLUMN brands.site_inventory IS 'Page counts per site section from the sitemaps found during the scrape';
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
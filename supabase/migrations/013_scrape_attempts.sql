@@ -0,0 +1,80 @@
+-- ============================================================================
+-- MIGRATION: SCRAPE ATTEMPTS
+-- ============================================================================
+-- Keeps a short history of every scrape of a brand - successful or not -
+-- with what the scraper saw: redirects, status codes, response size,
+-- content type, time to first byte, extracted text length and the cleaned
+-- text itself. Shown in the diagnostics view on the brand page.
+-- Run this in your Supabase SQL Editor after the main schema.sql.
+--
+-- Changes:
+-- 1. Creates scrape_attempts table (one row per scrape)
+-- 2. RLS policies for scrape_attempts (access through brand ownership)
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: SCRAPE_ATTEMPTS - Scrape History
+-- ============================================================================
+
+-- Written by the server after every scrape; only the latest attempts per
+-- brand are kept. HTTP columns are NULL for manual sources (pasted text,
+-- uploaded files) and for scrapes that failed before the first response.
+
+CREATE TABLE IF NOT EXISTS scrape_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+  scraper_type TEXT NOT NULL,
+  trigger TEXT NOT NULL CHECK (trigger IN ('create', 'source', 'manual', 'scheduled')),
+  success BOOLEAN NOT NULL,
+  error TEXT,
+  error_code TEXT,
+  requested_url TEXT,
+  final_url TEXT,
+  redirects JSONB NOT NULL DEFAULT '[]',
+  status_code INTEGER,
+  content_type TEXT,
+  response_bytes INTEGER,
+  ttfb_ms INTEGER,
+  cache_status TEXT,
+  render_mode TEXT,
+  extracted_chars INTEGER NOT NULL DEFAULT 0,
+  truncated BOOLEAN NOT NULL DEFAULT FALSE,
+  cleaned_text TEXT,
+  duration_ms INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add comments for documentation
+COMMENT ON COLUMN scrape_attempts.trigger IS 'create (brand added), source (content supplied), manual or scheduled (re-scan)';
+COMMENT ON COLUMN scrape_attempts.redirects IS 'Every request for the start page: [{url, status}], redirects first';
+COMMENT ON COLUMN scrape_attempts.ttfb_ms IS 'Time to first byte of the start page (NULL for cache hits)';
+COMMENT ON COLUMN scrape_attempts.cache_status IS 'hit, revalidated, miss or bypass';
+COMMENT ON COLUMN scrape_attempts.render_mode IS 'static, or rendered with the headless browser';
+COMMENT ON COLUMN scrape_attempts.extracted_chars IS 'Characters of text extracted, before truncation';
+COMMENT ON COLUMN scrape_attempts.truncated IS 'The text hit the content length limit and was cut';
+COMMENT ON COLUMN scrape_attempts.cleaned_text IS 'The cleaned text as analyzed (capped)';
+
+-- Index for the history view and pruning
+CREATE INDEX IF NOT EXISTS idx_scrape_attempts_brand_id ON scrape_attempts(brand_id, created_at DESC);
+
+
+-- ============================================================================
+-- SECTION 2: SCRAPE_ATTEMPTS - Row Level Security
+-- ============================================================================
+
+ALTER TABLE scrape_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Access through brand ownership (inserts are server-only)
+CREATE POLICY "scrape_attempts_select_own" ON scrape_attempts
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM brands
+      WHERE brands.id = scrape_attempts.brand_id
+      AND brands.user_id = auth.uid()
+    )
+  );
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
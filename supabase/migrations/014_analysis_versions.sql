@@ -0,0 +1,61 @@
+-- ============================================================================
+-- MIGRATION: ANALYSIS VERSIONS
+-- ============================================================================
+-- Keeps previous analyzer results when a brand is re-analyzed. Before the
+-- analysis runs are reset to 'queued', every finished run is copied here
+-- so earlier results aren't lost.
+-- Run this in your Supabase SQL Editor after the main schema.sql.
+--
+-- Changes:
+-- 1. Creates analysis_versions table (one row per replaced result)
+-- 2. RLS policies for analysis_versions (access through brand ownership)
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: ANALYSIS_VERSIONS - Previous Results
+-- ============================================================================
+
+-- Written by the server when a new analysis starts. analyzed_at is when
+-- the analyzer originally finished; created_at is when it was replaced.
+
+CREATE TABLE IF NOT EXISTS analysis_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+  analyzer_type analyzer_type NOT NULL,
+  raw_analysis TEXT,
+  parsed_data JSONB NOT NULL,
+  content_hash TEXT,
+  analyzed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add comments for documentation
+COMMENT ON COLUMN analysis_versions.content_hash IS 'brands.content_hash the result was produced from';
+COMMENT ON COLUMN analysis_versions.analyzed_at IS 'When the analyzer finished (the run''s completed_at)';
+COMMENT ON COLUMN analysis_versions.created_at IS 'When the result was replaced by a new analysis';
+
+-- Index for a brand's history per analyzer
+CREATE INDEX IF NOT EXISTS idx_analysis_versions_brand_id
+  ON analysis_versions(brand_id, analyzer_type, created_at DESC);
+
+
+-- ============================================================================
+-- SECTION 2: ANALYSIS_VERSIONS - Row Level Security
+-- ============================================================================
+
+ALTER TABLE analysis_versions ENABLE ROW LEVEL SECURITY;
+
+-- Access through brand ownership (inserts are server-only)
+CREATE POLICY "analysis_versions_select_own" ON analysis_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM brands
+      WHERE brands.id = analysis_versions.brand_id
+      AND brands.user_id = auth.uid()
+    )
+  );
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
@@ -0,0 +1,46 @@
+-- ============================================================================
+-- MIGRATION: ANALYSIS VERSION HISTORY
+-- ============================================================================
+-- Turns analysis_versions into a full history: every analyzer execution
+-- is stored as its own version with the prompt version and model that
+-- produced it, and each analysis run points at its current version.
+-- Run this in your Supabase SQL Editor after 014_analysis_versions.sql.
+--
+-- Changes:
+-- 1. Adds prompt_version and model columns to analysis_versions
+-- 2. Adds current_version_id column to analysis_runs
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: ANALYSIS_VERSIONS - Provenance Columns
+-- ============================================================================
+
+-- NULL for results archived before versions were recorded per execution.
+
+ALTER TABLE analysis_versions
+  ADD COLUMN IF NOT EXISTS prompt_version INTEGER,
+  ADD COLUMN IF NOT EXISTS model TEXT;
+
+-- Add comments for documentation
+COMMENT ON COLUMN analysis_versions.prompt_version IS 'Analyzer prompt version that produced the result';
+COMMENT ON COLUMN analysis_versions.model IS 'Model that wrote the analysis';
+COMMENT ON COLUMN analysis_versions.created_at IS 'When the version was stored';
+
+
+-- ============================================================================
+-- SECTION 2: ANALYSIS_RUNS - Current Version Pointer
+-- ============================================================================
+
+-- Set when a run completes; cleared when the runs are reset for a new analysis.
+
+ALTER TABLE analysis_runs
+  ADD COLUMN IF NOT EXISTS current_version_id UUID
+    REFERENCES analysis_versions(id) ON DELETE SET NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN analysis_runs.current_version_id IS 'analysis_versions row holding the current result';
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
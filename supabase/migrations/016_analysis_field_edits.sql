@@ -0,0 +1,43 @@
+-- ============================================================================
+-- MIGRATION: ANALYSIS FIELD EDITS
+-- ============================================================================
+-- Lets users correct analyzer results. Each human-edited field is recorded
+-- on the analysis run with the value the analyzer produced, so reruns keep
+-- the edit instead of overwriting it. Saved edits are stored as versions.
+-- Run this in your Supabase SQL Editor after 015_analysis_version_history.sql.
+--
+-- Changes:
+-- 1. Adds field_edits column to analysis_runs
+-- 2. Adds source column to analysis_versions
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: ANALYSIS_RUNS - Field Provenance
+-- ============================================================================
+
+-- { "<field>": { "value": ..., "ai_value": ..., "edited_at": "..." } }
+-- Fields not listed are AI-generated. Not cleared when the runs are reset
+-- for a new analysis - the runner reapplies the edits.
+
+ALTER TABLE analysis_runs
+  ADD COLUMN IF NOT EXISTS field_edits JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Add comments for documentation
+COMMENT ON COLUMN analysis_runs.field_edits IS 'Human-edited fields with the value the analyzer produced';
+
+
+-- ============================================================================
+-- SECTION 2: ANALYSIS_VERSIONS - Source
+-- ============================================================================
+
+ALTER TABLE analysis_versions
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'ai'
+    CHECK (source IN ('ai', 'human'));
+
+-- Add comments for documentation
+COMMENT ON COLUMN analysis_versions.source IS 'ai for analyzer executions, human for saved edits';
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
@@ -0,0 +1,25 @@
+-- ============================================================================
+-- MIGRATION: INVALID ANALYSIS STATUS
+-- ============================================================================
+-- Parser output is now validated against the analyzer's schema. Output that
+-- is still invalid after a repair request fails the run with its own status,
+-- so it can be told apart from API and network errors.
+-- Run this in your Supabase SQL Editor after 016_analysis_field_edits.sql.
+--
+-- Changes:
+-- 1. Adds 'invalid' to the analysis_status enum
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: ANALYSIS_STATUS - Invalid Output
+-- ============================================================================
+
+ALTER TYPE analysis_status ADD VALUE IF NOT EXISTS 'invalid';
+
+-- Add comments for documentation
+COMMENT ON TYPE analysis_status IS 'queued, analyzing, parsing, complete, error, or invalid (parser output failed schema validation)';
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
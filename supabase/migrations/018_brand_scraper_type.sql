@@ -0,0 +1,65 @@
+-- ============================================================================
+-- MIGRATION: BRAND SCRAPER TYPE
+-- ============================================================================
+-- Records which scraper or manual source produced a brand's content, so
+-- re-scans use the same scraper and brands built from pasted text or an
+-- uploaded document are never replaced by a website scrape.
+-- Run this in your Supabase SQL Editor after 017_analysis_invalid_status.sql.
+--
+-- Changes:
+-- 1. Adds scraper_type column to brands table
+-- 2. Backfills it from each brand's latest successful scrape attempt
+-- 3. Turns monitoring off for brands built from manual sources
+-- ============================================================================
+
+-- ============================================================================
+-- SECTION 1: BRANDS - Content Source
+-- ============================================================================
+
+-- Set whenever content is saved. NULL = saved before this column existed
+-- and no scrape attempt is left to tell (treated as web-homepage).
+
+ALTER TABLE brands
+  ADD COLUMN IF NOT EXISTS scraper_type TEXT;
+
+-- Add comments for documentation
+COMMENT ON COLUMN brands.scraper_type IS 'Scraper or manual source that produced scraped_content: web-homepage, web-deep, manual-text, document or html-file';
+
+
+-- ============================================================================
+-- SECTION 2: BRANDS - Backfill
+-- ============================================================================
+
+UPDATE brands
+SET scraper_type = latest.scraper_type
+FROM (
+  SELECT DISTINCT ON (brand_id) brand_id, scraper_type
+  FROM scrape_attempts
+  WHERE success
+  ORDER BY brand_id, created_at DESC
+) AS latest
+WHERE brands.id = latest.brand_id
+  AND brands.scraper_type IS NULL;
+
+
+-- ============================================================================
+-- SECTION 3: BRANDS - No Monitoring for Manual Sources
+-- ============================================================================
+
+-- Manual sources have no website to re-scan
+
+UPDATE brands
+SET monitor_frequency = 'off', next_check_at = NULL
+WHERE scraper_type IN ('manual-text', 'document', 'html-file');
+
+ALTER TABLE brands
+  ADD CONSTRAINT brands_monitor_web_source CHECK (
+    monitor_frequency = 'off'
+    OR scraper_type IS NULL
+    OR scraper_type IN ('web-homepage', 'web-deep')
+  );
+
+
+-- ============================================================================
+-- DONE! Run this in your Supabase SQL Editor.
+-- ============================================================================
@@ -3,23 +3,30 @@
  * ===============
  * Types for analyzer outputs (the structured data extracted by GPT).
  * Each analyzer produces a specific shape stored in `parsed_data` JSONB.
+ *
+ * The enum value lists are runtime constants so the parser schemas and
+ * the edit validation use the same values as these types.
  */
 
 // ============================================================================
 // BASICS ANALYZER OUTPUT
 // ============================================================================
 
-export type BusinessModel =
-  | 'B2B Services'
-  | 'B2C Services'
-  | 'B2B Products'
-  | 'B2C Products'
-  | 'B2B SaaS'
-  | 'B2C SaaS'
-  | 'Marketplace'
-  | 'Agency'
-  | 'Consultancy'
-  | 'Other';
+/** Values of ParsedBasics.business_model (also the parser schema enum) */
+export const BUSINESS_MODELS = [
+  'B2B Services',
+  'B2C Services',
+  'B2B Products',
+  'B2C Products',
+  'B2B SaaS',
+  'B2C SaaS',
+  'Marketplace',
+  'Agency',
+  'Consultancy',
+  'Other',
+] as const;
+
+export type BusinessModel = (typeof BUSINESS_MODELS)[number];
 
 export type ParsedBasics = {
   business_name: string;
@@ -34,14 +41,25 @@ export type ParsedBasics = {
 // CUSTOMER ANALYZER OUTPUT
 // ============================================================================
 
-export type CustomerSophistication = 'Beginner' | 'Informed' | 'Expert';
+/** Values of ParsedCustomer.customer_sophistication */
+export const CUSTOMER_SOPHISTICATION_LEVELS = [
+  'Beginner',
+  'Informed',
+  'Expert',
+] as const;
 
-export type BuyingMotivation =
-  | 'Pain relief'
-  | 'Aspiration'
-  | 'Necessity'
-  | 'Curiosity'
-  | 'Status';
+export type CustomerSophistication = (typeof CUSTOMER_SOPHISTICATION_LEVELS)[number];
+
+/** Values of ParsedCustomer.buying_motivation */
+export const BUYING_MOTIVATIONS = [
+  'Pain relief',
+  'Aspiration',
+  'Necessity',
+  'Curiosity',
+  'Status',
+] as const;
+
+export type BuyingMotivation = (typeof BUYING_MOTIVATIONS)[number];
 
 export type ParsedCustomer = {
   subcultures: string[];
@@ -55,19 +73,40 @@ export type ParsedCustomer = {
 // PRODUCTS ANALYZER OUTPUT
 // ============================================================================
 
-export type OfferingType = 'Products' | 'Services' | 'Both' | 'Unclear';
-
-export type PricingModel =
-  | 'One-time'
-  | 'Subscription'
-  | 'Retainer'
-  | 'Project-based'
-  | 'Custom/Contact'
-  | 'Free'
-  | 'Freemium'
-  | 'Unknown';
-
-export type PricePositioning = 'Budget' | 'Mid-market' | 'Premium' | 'Luxury' | 'Unclear';
+/** Values of ParsedProducts.offering_type */
+export const OFFERING_TYPES = [
+  'Products',
+  'Services',
+  'Both',
+  'Unclear',
+] as const;
+
+export type OfferingType = (typeof OFFERING_TYPES)[number];
+
+/** Values of ProductOffering.pricing_model */
+export const PRICING_MODELS = [
+  'One-time',
+  'Subscription',
+  'Retainer',
+  'Project-based',
+  'Custom/Contact',
+  'Free',
+  'Freemium',
+  'Unknown',
+] as const;
+
+export type PricingModel = (typeof PRICING_MODELS)[number];
+
+/** Values of ParsedProducts.price_positioning */
+export const PRICE_POSITIONINGS = [
+  'Budget',
+  'Mid-market',
+  'Premium',
+  'Luxury',
+  'Unclear',
+] as const;
+
+export type PricePositioning = (typeof PRICE_POSITIONINGS)[number];
 
 export type ProductOffering = {
   name: string;
@@ -30,6 +30,13 @@ export type Profile = {
 
 export type ScrapeStatus = 'pending' | 'scraping' | 'complete' | 'failed';
 
+/**
+ * Language analyzers write in.
+ * - english: translate (and scrape the site's English version when it has one)
+ * - source: keep the website's own language
+ */
+export type AnalysisLanguage = 'english' | 'source';
+
 export type Brand = {
   id: string;
   user_id: string;
@@ -40,6 +47,34 @@ export type Brand = {
   scraped_at: string | null;
   scrape_status: ScrapeStatus;
   scrape_error: string | null;
+  /** JSON-LD / OpenGraph / microdata (see StructuredData in lib/scrapers/types) */
+  structured_data: Record<string, unknown> | null;
+  /** Logo candidates, palette and fonts (see VisualIdentity in lib/scrapers/types) */
+  visual_identity: Record<string, unknown> | null;
+  /** Emails, phones, addresses and social profiles (see ContactInfo in lib/scrapers/types) */
+  contact_info: Record<string, unknown> | null;
+  /** Detected technologies (see TechStack in lib/scrapers/types) */
+  tech_stack: Record<string, unknown> | null;
+  /** Tiers parsed from the pricing page (see PricingTable in lib/scrapers/types) */
+  pricing: Record<string, unknown> | null;
+  /** Testimonials, logos, ratings and stats (see SocialProof in lib/scrapers/types) */
+  social_proof: Record<string, unknown> | null;
+  /** Latest blog posts and publishing cadence (see BlogFeed in lib/scrapers/types) */
+  blog_feed: Record<string, unknown> | null;
+  /** Detected language of the scraped content (see DetectedLanguage in lib/scrapers/types) */
+  language: Record<string, unknown> | null;
+  /** Language analyzers write in */
+  analysis_language: AnalysisLanguage;
+  /** Page counts per section from the sitemaps (see SiteInventory in lib/scrapers/types) */
+  site_inventory: Record<string, unknown> | null;
+  /** SHA-256 of the last analyzed content (skips unchanged re-scrapes) */
+  content_hash: string | null;
+  /** Scraper or manual source that produced scraped_content (see ScraperType in lib/scrapers/types; null = web-homepage) */
+  scraper_type: string | null;
+  /** How often the website is re-scanned (see brand_changes) */
+  monitor_frequency: MonitorFrequency;
+  /** When the next scheduled re-scan is due (null when monitoring is off) */
+  next_check_at: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -50,7 +85,24 @@ export type Brand = {
 
 export type AnalyzerType = 'basics' | 'customer' | 'products';
 
-export type AnalysisStatus = 'queued' | 'analyzing' | 'parsing' | 'complete' | 'error';
+export type AnalysisStatus = 'queued' | 'analyzing' | 'parsing' | 'complete' | 'error' | 'invalid';
+
+/** Who produced a value: the analyzer or a person editing the result */
+export type AnalysisSource = 'ai' | 'human';
+
+/**
+ * A person's correction of one parsed field. Reruns keep the edited
+ * value and only update ai_value.
+ */
+export type FieldEdit = {
+  value: unknown;
+  /** What the analyzer produced for the field (latest run) */
+  ai_value: unknown;
+  edited_at: string;
+};
+
+/** Human-edited fields of a result, by field name; all others are AI-generated */
+export type FieldEdits = Record<string, FieldEdit>;
 
 export type AnalysisRun = {
   id: string;
@@ -61,11 +113,39 @@ export type AnalysisRun = {
   parsed_data: Record<string, unknown> | null;
   error_message: string | null;
   retry_count: number;
+  /** The analysis_versions row holding this run's result (null until it completes) */
+  current_version_id: string | null;
+  /** Human-edited fields (kept when the analyzer runs again) */
+  field_edits: FieldEdits;
   created_at: string;
   started_at: string | null;
   completed_at: string | null;
 };
 
+// ============================================================================
+// ANALYSIS VERSION (one stored analyzer result - every execution adds one)
+// ============================================================================
+
+export type AnalysisVersion = {
+  id: string;
+  brand_id: string;
+  analyzer_type: AnalyzerType;
+  raw_analysis: string | null;
+  parsed_data: Record<string, unknown>;
+  /** Content hash the result was produced from (brands.content_hash at the time) */
+  content_hash: string | null;
+  /** Analyzer prompt version (see AnalyzerConfig.promptVersion; null for archived results and edits) */
+  prompt_version: number | null;
+  /** Model that wrote the analysis (null for archived results and edits) */
+  model: string | null;
+  /** 'human' when the version was saved from the edit form */
+  source: AnalysisSource;
+  /** When the analyzer finished */
+  analyzed_at: string | null;
+  /** When the version was stored */
+  created_at: string;
+};
+
 // ============================================================================
 // JOINED TYPES (commonly used combinations)
 // ============================================================================
@@ -76,6 +156,8 @@ export type AnalysisRun = {
  */
 export type BrandWithAnalyses = Brand & {
   analysis_runs: AnalysisRun[];
+  /** Only selected by the dashboard list (for the unseen changes badge) */
+  brand_changes?: Pick<BrandChange, 'id' | 'seen_at'>[];
 };
 
 // ============================================================================
@@ -110,6 +192,19 @@ export type BrandInsert = {
   scraped_at?: string | null;
   scrape_status?: ScrapeStatus;
   scrape_error?: string | null;
+  structured_data?: Record<string, unknown> | null;
+  visual_identity?: Record<string, unknown> | null;
+  contact_info?: Record<string, unknown> | null;
+  tech_stack?: Record<string, unknown> | null;
+  pricing?: Record<string, unknown> | null;
+  social_proof?: Record<string, unknown> | null;
+  blog_feed?: Record<string, unknown> | null;
+  language?: Record<string, unknown> | null;
+  analysis_language?: AnalysisLanguage;
+  site_inventory?: Record<string, unknown> | null;
+  content_hash?: string | null;
+  monitor_frequency?: MonitorFrequency;
+  next_check_at?: string | null;
 };
 
 /**
@@ -124,10 +219,41 @@ export type AnalysisRunInsert = {
   parsed_data?: Record<string, unknown> | null;
   error_message?: string | null;
   retry_count?: number;
+  current_version_id?: string | null;
+  field_edits?: FieldEdits;
   started_at?: string | null;
   completed_at?: string | null;
 };
 
+export type AnalysisVersionInsert = Omit<AnalysisVersion, 'id' | 'created_at'>;
+
+// ============================================================================
+// SCRAPE CACHE (one fetched page, shared across users)
+// ============================================================================
+
+export type ScrapeCacheEntry = {
+  /** Requested URL (primary key) */
+  url: string;
+  /** URL after redirects */
+  final_url: string;
+  etag: string | null;
+  last_modified: string | null;
+  /** SHA-256 of the body */
+  content_hash: string;
+  body: string;
+  /** Response headers of the download (lowercase names, no Set-Cookie) */
+  response_headers: Record<string, string> | null;
+  /** Cookie names set by the download */
+  cookie_names: string[] | null;
+  fetched_at: string;
+  validated_at: string;
+};
+
+export type ScrapeCacheInsert = Omit<ScrapeCacheEntry, 'fetched_at' | 'validated_at'> & {
+  fetched_at?: string;
+  validated_at?: string;
+};
+
 // ============================================================================
 // UPDATE TYPES (for modifying existing records)
 // ============================================================================
@@ -135,6 +261,7 @@ export type AnalysisRunInsert = {
 export type ProfileUpdate = Partial<Omit<Profile, 'id' | 'created_at' | 'updated_at'>>;
 export type BrandUpdate = Partial<Omit<Brand, 'id' | 'user_id' | 'created_at' | 'updated_at'>>;
 export type AnalysisRunUpdate = Partial<Omit<AnalysisRun, 'id' | 'brand_id' | 'analyzer_type' | 'created_at'>>;
+export type ScrapeCacheUpdate = Partial<Omit<ScrapeCacheEntry, 'url'>>;
 
 // ============================================================================
 // DATABASE TYPE (for Supabase client typing)
@@ -142,6 +269,10 @@ export type AnalysisRunUpdate = Partial<Omit<AnalysisRun, 'id' | 'brand_id' | 'a
 
 // Import doc types for generated_docs table
 import type { GeneratedDoc, GeneratedDocInsert, GeneratedDocUpdate, DocStatus } from './docs';
+// Import monitoring types for brand_changes table
+import type { BrandChange, BrandChangeInsert, BrandChangeUpdate, MonitorFrequency } from './monitoring';
+// Import diagnostics types for scrape_attempts table
+import type { ScrapeAttempt, ScrapeAttemptInsert } from './diagnostics';
 
 export type Database = {
   public: {
@@ -180,6 +311,54 @@ export type Database = {
           }
         ];
       };
+      analysis_versions: {
+        Row: AnalysisVersion;
+        Insert: AnalysisVersionInsert;
+        Update: Record<string, never>;
+        Relationships: [
+          {
+            foreignKeyName: 'analysis_versions_brand_id_fkey';
+            columns: ['brand_id'];
+            isOneToOne: false;
+            referencedRelation: 'brands';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      brand_changes: {
+        Row: BrandChange;
+        Insert: BrandChangeInsert;
+        Update: BrandChangeUpdate;
+        Relationships: [
+          {
+            foreignKeyName: 'brand_changes_brand_id_fkey';
+            columns: ['brand_id'];
+            isOneToOne: false;
+            referencedRelation: 'brands';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      scrape_attempts: {
+        Row: ScrapeAttempt;
+        Insert: ScrapeAttemptInsert;
+        Update: Record<string, never>;
+        Relationships: [
+          {
+            foreignKeyName: 'scrape_attempts_brand_id_fkey';
+            columns: ['brand_id'];
+            isOneToOne: false;
+            referencedRelation: 'brands';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      scrape_cache: {
+        Row: ScrapeCacheEntry;
+        Insert: ScrapeCacheInsert;
+        Update: ScrapeCacheUpdate;
+        Relationships: [];
+      };
       generated_docs: {
         Row: GeneratedDoc;
         Insert: GeneratedDocInsert;
@@ -0,0 +1,74 @@
+/**
+ * SCRAPE DIAGNOSTICS TYPES
+ * =========================
+ * Types for the scrape attempt history shown in the brand page's
+ * diagnostics view. Every scrape - successful or not - adds one attempt.
+ */
+
+// ============================================================================
+// ATTEMPT DETAILS
+// ============================================================================
+
+/**
+ * What started the scrape.
+ * - create: the brand was added
+ * - source: the user supplied content after a failed scrape
+ * - manual / scheduled: a re-scan (see ChangeTrigger)
+ */
+export type ScrapeAttemptTrigger = 'create' | 'source' | 'manual' | 'scheduled';
+
+/**
+ * One request in the start page's redirect chain.
+ */
+export type ScrapeAttemptHop = {
+  url: string;
+  status: number;
+};
+
+// ============================================================================
+// SCRAPE ATTEMPT (DATABASE ROW)
+// ============================================================================
+
+/**
+ * One scrape of a brand's source.
+ * Matches the scrape_attempts table schema. HTTP columns are null for
+ * manual sources and for scrapes that failed before the first response.
+ */
+export type ScrapeAttempt = {
+  id: string;
+  brand_id: string;
+  /** Scraper that ran (e.g. web-homepage, document) */
+  scraper_type: string;
+  trigger: ScrapeAttemptTrigger;
+  success: boolean;
+  error: string | null;
+  error_code: string | null;
+
+  /** URL (or file name) the scrape started from */
+  requested_url: string | null;
+  /** Start page URL after redirects */
+  final_url: string | null;
+  /** Status of every request for the start page, redirects first */
+  redirects: ScrapeAttemptHop[];
+  status_code: number | null;
+  content_type: string | null;
+  response_bytes: number | null;
+  /** Time to first byte (null for cache hits) */
+  ttfb_ms: number | null;
+  /** hit / revalidated / miss / bypass (see CacheStatus in lib/scrapers/shared/cache) */
+  cache_status: string | null;
+  /** static or rendered (headless browser) */
+  render_mode: string | null;
+
+  /** Characters of text extracted, before truncation */
+  extracted_chars: number;
+  /** The text hit MAX_CONTENT_LENGTH and was cut */
+  truncated: boolean;
+  /** The cleaned text as analyzed (capped at MAX_CONTENT_LENGTH) */
+  cleaned_text: string | null;
+  duration_ms: number | null;
+
+  created_at: string;
+};
+
+export type ScrapeAttemptInsert = Omit<ScrapeAttempt, 'id' | 'created_at'>;
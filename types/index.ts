@@ -15,3 +15,9 @@ export * from './analyzers';
 
 // Generated docs types (brand documents feature)
 export * from './docs';
+
+// Monitoring types (scheduled re-scans and detected changes)
+export * from './monitoring';
+
+// Scrape diagnostics types (per-attempt scrape history)
+export * from './diagnostics';
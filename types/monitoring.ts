@@ -0,0 +1,83 @@
+/**
+ * MONITORING TYPES
+ * =================
+ * Types for scheduled re-scans and the changes they detect.
+ * Each change is a diff between two scrapes of the same brand.
+ */
+
+// ============================================================================
+// SCHEDULE
+// ============================================================================
+
+/**
+ * How often a brand's website is re-scanned.
+ * - off: only when the user refreshes manually
+ */
+export type MonitorFrequency = 'off' | 'weekly' | 'monthly';
+
+// ============================================================================
+// CHANGE HIGHLIGHTS
+// ============================================================================
+
+/**
+ * What kind of change a highlight describes.
+ * - product: a product/service appeared or disappeared
+ * - price: a price was added, removed or changed
+ * - messaging: a new or removed headline/tagline-sized paragraph
+ */
+export type ChangeHighlightKind = 'product' | 'price' | 'messaging';
+
+export type ChangeHighlight = {
+  kind: ChangeHighlightKind;
+  /** added/removed relative to the previous scan */
+  change: 'added' | 'removed' | 'changed';
+  /** Short human-readable description (e.g. "Pro plan: $29 → $39") */
+  text: string;
+};
+
+/**
+ * What triggered the scan that found the change.
+ */
+export type ChangeTrigger = 'scheduled' | 'manual';
+
+// ============================================================================
+// BRAND CHANGE (DATABASE ROW)
+// ============================================================================
+
+/**
+ * A detected website change.
+ * Matches the brand_changes table schema.
+ */
+export type BrandChange = {
+  id: string;
+  brand_id: string;
+  trigger: ChangeTrigger;
+
+  /** One-line summary (e.g. "4 sections added, 1 removed · 2 price changes") */
+  summary: string;
+
+  /** Paragraphs new in this scan (capped) */
+  added: string[];
+
+  /** Paragraphs no longer present (capped) */
+  removed: string[];
+
+  highlights: ChangeHighlight[];
+
+  /** Full counts (added/removed may be truncated) */
+  added_count: number;
+  removed_count: number;
+
+  previous_hash: string | null;
+  content_hash: string;
+
+  /** When the owner viewed it (null = unseen) */
+  seen_at: string | null;
+  created_at: string;
+};
+
+export type BrandChangeInsert = Omit<BrandChange, 'id' | 'seen_at' | 'created_at'> & {
+  seen_at?: string | null;
+};
+
+export type BrandChangeUpdate = Partial<Pick<BrandChange, 'seen_at'>>;